@@ -253,7 +253,7 @@ show_success_message() {
   echo "   # Edit .env and add ANTHROPIC_API_KEY=your-key"
   echo ""
   echo "3. Start using MT-PRISM:"
-  echo "   prism --prd=./docs/requirements.md --project=\"My App\""
+  echo "   prism run --prd=./docs/requirements.md --project=\"My App\""
   echo ""
   echo "For help: prism --help"
   echo "Documentation: https://github.com/${GITHUB_REPO}"
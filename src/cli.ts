@@ -5,80 +5,104 @@
  * Command-line interface for the MT-PRISM discovery workflow
  */
 
-import { executeDiscoveryWorkflow } from './workflows/discovery.js';
 import { detectEnvironment } from './services/environment.js';
 import { discoverCredentials, validateCredentials } from './utils/auth.js';
-import { listSessions, loadSession } from './utils/session.js';
+import { WorkflowEventBus, subscribeConsole, subscribeJSONLines } from './utils/events.js';
+import { EXIT_CODES, exitCodeForError, type ExitCode } from './utils/exit-codes.js';
+import { UsageError, ValidationError } from './utils/errors.js';
+import { resolveConfig, setConfigFlags } from './utils/config-resolver.js';
+import { parseCommandLine, findCommand, renderHelp } from './cli/parser.js';
+import { pauseDiscoverySession } from './workflows/discovery.js';
+import type { Session } from './types/session.js';
+import {
+  PRISM_COMMAND,
+  normalizeLegacyArgs,
+  getConfigFlags,
+  type CommandContext,
+  type OutputMode,
+} from './cli/commands.js';
 
 /**
- * Handle --list-sessions command (T037, FR-005)
+ * Create the workflow event bus with the subscriber for the output mode
  */
-async function handleListSessions(): Promise<void> {
-  console.log('');
-  console.log('📋 Available Sessions');
-  console.log('');
-
-  const sessions = await listSessions();
-
-  if (sessions.length === 0) {
-    console.log('No sessions found.');
-    console.log('');
-    return;
+function createEventBus(mode: OutputMode): WorkflowEventBus {
+  const events = new WorkflowEventBus();
+  if (mode === 'jsonl') {
+    subscribeJSONLines(events, process.stdout);
+  } else {
+    subscribeConsole(events);
   }
+  return events;
+}
 
-  console.log(`Found ${sessions.length} session(s):\n`);
-
-  for (const sessionId of sessions) {
-    try {
-      const session = await loadSession(sessionId);
-      const status = session.status === 'completed' ? '✅' : session.status === 'failed' ? '❌' : '⏸️ ';
-
-      console.log(`${status} ${sessionId}`);
-      console.log(`   Status: ${session.status}`);
-      console.log(`   Current Step: ${session.current_step}`);
-      console.log(`   Created: ${new Date(session.created_at).toLocaleString()}`);
-      console.log(`   Checkpoints: ${session.checkpoints.length}/5`);
+/**
+ * --json: stdout carries a single JSON document, everything else goes to stderr
+ */
+let jsonMode = false;
 
-      if (session.status !== 'completed' && session.status !== 'failed') {
-        console.log(`   Resume: prism --resume=${sessionId}`);
-      }
+/**
+ * Exit with a code; in --json mode, write the result document first
+ */
+function exit(code: ExitCode, document?: Record<string, unknown>): never {
+  if (jsonMode && document) {
+    process.stdout.write(`${JSON.stringify({ ...document, exitCode: code }, null, 2)}\n`);
+  }
+  process.exit(code);
+}
 
-      console.log('');
-    } catch (error) {
-      console.log(`⚠️  ${sessionId} (corrupted or invalid)`);
-      console.log('');
-    }
+/**
+ * Print an error with details and exit
+ */
+function fail(code: ExitCode, message: string, details: string[] = []): never {
+  console.error(`❌ Error: ${message}`);
+  console.error('');
+  for (const line of details) {
+    console.error(line);
   }
+  if (details.length > 0) {
+    console.error('');
+  }
+  exit(code, { status: 'failed', error: message });
+}
+
+/**
+ * Keep stdout for machine-readable output: human-readable console output goes to stderr
+ */
+function redirectConsoleToStderr(): void {
+  const toStderr = console.error.bind(console);
+  console.log = toStderr;
+  console.info = toStderr;
+  console.warn = toStderr;
 }
 
 /**
  * T042: Graceful shutdown handler for saving session state on interrupt
+ *
+ * The running workflow reports its session through CommandContext.onActiveSession.
  */
-let currentSession: any = null;
+let currentSession: Session | undefined;
 
 function setupGracefulShutdown(): void {
   const handleShutdown = async (signal: string) => {
     console.log(`\n📍 Received ${signal}, saving state...`);
 
     if (currentSession) {
-      const { saveSession } = await import('./utils/session.js');
-      currentSession.status = 'paused';
-      currentSession.updated_at = new Date().toISOString();
-      await saveSession(currentSession);
+      await pauseDiscoverySession(currentSession);
       console.log(`✅ Session ${currentSession.session_id} saved`);
-      console.log(`   Resume with: prism --resume=${currentSession.session_id}`);
+      console.log(`   Resume with: prism resume ${currentSession.session_id}`);
     }
 
-    process.exit(signal === 'SIGTERM' ? 0 : 1);
+    process.exit(currentSession ? EXIT_CODES.paused : signal === 'SIGTERM' ? 0 : 1);
   };
 
   process.on('SIGTERM', () => handleShutdown('SIGTERM'));
   process.on('SIGINT', () => handleShutdown('SIGINT'));
 }
 
-async function main() {
-  // T042: Setup graceful shutdown handlers
-  setupGracefulShutdown();
+/**
+ * Print the banner, detect the environment and check provider credentials
+ */
+async function checkProviderSetup(): Promise<void> {
   console.log('');
   console.log('╔═══════════════════════════════════════════════════════════╗');
   console.log('║                      MT-PRISM                             ║');
@@ -123,164 +147,142 @@ async function main() {
   }
   console.log('');
 
+  // Replay and local endpoints need no hosted API credentials
+  const { llm } = resolveConfig().config;
+  const needsCredentials = llm.provider !== 'replay' && llm.provider !== 'local';
+  if (llm.provider === 'replay') {
+    console.log(`📼 Replay mode: serving recorded responses (no API calls)`);
+    console.log('');
+  } else if (llm.provider === 'local') {
+    console.log(`🏠 Local provider: ${llm.localBaseUrl || '(llm.localBaseUrl / LOCAL_LLM_BASE_URL not set)'}`);
+    console.log('');
+  }
+
   // T021: Validate discovered credentials before workflow
-  if (credentials.source !== 'not-found') {
+  if (credentials.source !== 'not-found' && needsCredentials) {
     const isValid = await validateCredentials(credentials);
     if (!isValid) {
-      console.error('❌ Error: Invalid credentials');
-      console.error('');
-      console.error('The discovered credentials are not valid.');
-      console.error('Please check your API key configuration.');
-      console.error('');
-      process.exit(1);
+      fail(EXIT_CODES.credentialsMissing, 'Invalid credentials', [
+        'The discovered credentials are not valid.',
+        'Please check your API key configuration.',
+      ]);
     }
   }
 
   // T023: Handle missing credentials with actionable error messages
-  if (credentials.source === 'not-found') {
-    console.error('❌ Error: No API credentials found');
-    console.error('');
-    console.error('MT-PRISM requires AI provider credentials to function.');
-    console.error('');
-    console.error('Please choose one of the following options:');
-    console.error('');
-    console.error('1. If using Claude Code:');
-    console.error('   Run: claude login');
-    console.error('   Then restart MT-PRISM');
-    console.error('');
-    console.error('2. Set environment variable:');
-    console.error('   export ANTHROPIC_API_KEY="sk-ant-..."');
-    console.error('   export OPENAI_API_KEY="sk-..."  # or');
-    console.error('   export GOOGLE_API_KEY="..."     # or');
-    console.error('');
-    console.error('3. Create .env file in project directory:');
-    console.error('   echo "ANTHROPIC_API_KEY=sk-ant-..." > .env');
-    console.error('');
-    console.error('Get API keys:');
-    console.error('   Anthropic: https://console.anthropic.com/account/keys');
-    console.error('   OpenAI: https://platform.openai.com/api-keys');
-    console.error('   Google: https://makersuite.google.com/app/apikey');
-    console.error('');
-    process.exit(1);
+  if (credentials.source === 'not-found' && needsCredentials) {
+    fail(EXIT_CODES.credentialsMissing, 'No API credentials found', [
+      'MT-PRISM requires AI provider credentials to function.',
+      '',
+      'Please choose one of the following options:',
+      '',
+      '1. If using Claude Code:',
+      '   Run: claude login',
+      '   Then restart MT-PRISM',
+      '',
+      '2. Set environment variable:',
+      '   export ANTHROPIC_API_KEY="sk-ant-..."',
+      '   export OPENAI_API_KEY="sk-..."  # or',
+      '   export GOOGLE_API_KEY="..."     # or',
+      '',
+      '3. Create .env file in project directory:',
+      '   echo "ANTHROPIC_API_KEY=sk-ant-..." > .env',
+      '',
+      'Get API keys:',
+      '   Anthropic: https://console.anthropic.com/account/keys',
+      '   OpenAI: https://platform.openai.com/api-keys',
+      '   Google: https://makersuite.google.com/app/apikey',
+    ]);
   }
 
   console.log('');
+}
+
+async function main() {
+  // T042: Setup graceful shutdown handlers
+  setupGracefulShutdown();
 
-  // Parse command line arguments
-  const args = process.argv.slice(2);
+  const args = normalizeLegacyArgs(process.argv.slice(2));
 
-  if (args.length === 0 || args.includes('--help') || args.includes('-h')) {
-    printHelp();
-    process.exit(0);
+  // Decided before parsing, so usage errors are reported in the requested format
+  jsonMode = args.includes('--json');
+  if (jsonMode) {
+    redirectConsoleToStderr();
   }
 
-  // T037: Handle --list-sessions command (FR-005)
-  if (args.includes('--list-sessions')) {
-    await handleListSessions();
-    process.exit(0);
+  let parsed;
+  try {
+    parsed = parseCommandLine(PRISM_COMMAND, args);
+    setConfigFlags(getConfigFlags(parsed));
+  } catch (error) {
+    if (error instanceof UsageError) {
+      fail(exitCodeForError(error), error.message, error.details);
+    }
+    throw error;
   }
 
-  // Parse options
-  const prdSource = args.find(arg => arg.startsWith('--prd='))?.split('=')[1];
-  const figmaSource = args.find(arg => arg.startsWith('--figma='))?.split('=')[1];
-  const projectName = args.find(arg => arg.startsWith('--project='))?.split('=')[1];
-  const resumeSession = args.find(arg => arg.startsWith('--resume='))?.split('=')[1];
-
-  // T040: Add error handling for invalid session ID
-  if (resumeSession && !resumeSession.startsWith('sess-')) {
-    console.error('❌ Error: Invalid session ID format');
-    console.error('');
-    console.error(`Session ID must start with 'sess-' (e.g., sess-1234567890)`);
-    console.error(`Provided: ${resumeSession}`);
-    console.error('');
-    console.error('List available sessions with: prism --list-sessions');
-    console.error('');
-    process.exit(1);
+  const outputMode = (parsed.options['output'] ?? 'text') as OutputMode;
+  if (outputMode === 'jsonl') {
+    redirectConsoleToStderr();
+  }
+  if (jsonMode && outputMode === 'jsonl') {
+    fail(EXIT_CODES.validationFailed, '--json and --output=jsonl cannot be combined', [
+      'Both write to stdout. Use --json for a single result document,',
+      'or --output=jsonl for a stream of progress events.',
+    ]);
   }
 
-  if (!prdSource && !resumeSession) {
-    console.error('❌ Error: --prd or --resume is required');
-    console.error('');
-    printHelp();
-    process.exit(1);
+  const { command } = parsed;
+  if (parsed.options['help'] || !command.run) {
+    console.log(renderHelp(findCommand(PRISM_COMMAND, parsed.path)));
+    process.exit(EXIT_CODES.success);
   }
 
+  const context: CommandContext = {
+    events: createEventBus(outputMode),
+    interactive: process.stdin.isTTY === true && outputMode === 'text' && !jsonMode,
+    onActiveSession: (session) => {
+      currentSession = session;
+    },
+  };
+
   try {
-    // T036: Execute workflow with resume support (FR-004)
-    const result = await executeDiscoveryWorkflow({
-      prdSource: prdSource || '',
-      figmaSource,
-      projectName,
-      resumeSessionId: resumeSession,
-    });
-
-    // T042: Track session for graceful shutdown (if it returns a session)
-    if (resumeSession) {
-      try {
-        currentSession = await loadSession(resumeSession);
-      } catch (error) {
-        // Session load failed in CLI, will be handled by workflow
-      }
+    await command.prepare?.(parsed, context);
+    const usesProvider =
+      typeof command.usesProvider === 'function' ? command.usesProvider(parsed) : command.usesProvider;
+    if (usesProvider) {
+      await checkProviderSetup();
     }
 
-    console.log('');
-    console.log('╔═══════════════════════════════════════════════════════════╗');
-    console.log('║                   WORKFLOW COMPLETE!                      ║');
-    console.log('╚═══════════════════════════════════════════════════════════╝');
-    console.log('');
-    console.log(`Session ID: ${result.sessionId}`);
-    console.log(`Status: ${result.status}`);
-    console.log(`Duration: ${Math.round(result.duration / 1000)}s`);
-    console.log('');
-    console.log('📁 Outputs:');
-    if (result.outputs.tddPath) {
-      console.log(`   TDD: ${result.outputs.tddPath}`);
-    }
-    if (result.outputs.apiSpecPath) {
-      console.log(`   API Spec: ${result.outputs.apiSpecPath}`);
+    const result = await command.run(parsed, context);
+    exit(result.exitCode, result.document);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exitCode = exitCodeForError(error);
+
+    if (error instanceof UsageError) {
+      fail(exitCode, message, error.details);
     }
-    if (result.outputs.databaseSchemaPath) {
-      console.log(`   Database: ${result.outputs.databaseSchemaPath}`);
+    if (
+      error instanceof ValidationError &&
+      (error.schemaName.startsWith('Configuration') || error.schemaName === 'ClarificationAnswers')
+    ) {
+      fail(exitCode, message, error.validationErrors.map(String));
     }
-    console.log('');
 
-    process.exit(0);
-  } catch (error) {
     console.error('');
-    console.error('❌ Workflow failed:');
-    console.error(error instanceof Error ? error.message : String(error));
+    console.error(`❌ ${parsed.path.join(' ')} failed:`);
+    console.error(message);
     console.error('');
-    process.exit(1);
+    exit(exitCode, { status: exitCode === EXIT_CODES.paused ? 'paused' : 'failed', error: message });
   }
 }
 
-function printHelp() {
-  console.log('Usage: prism [options]');
-  console.log('');
-  console.log('Options:');
-  console.log('  --prd=<path|url>      PRD source (local file or Confluence URL)');
-  console.log('  --figma=<id|path>     Figma file ID or local JSON (optional)');
-  console.log('  --project=<name>      Project name for TDD (optional)');
-  console.log('  --resume=<session>    Resume from previous session (optional)');
-  console.log('  --list-sessions       List all available sessions');
-  console.log('  --help, -h            Show this help message');
-  console.log('');
-  console.log('Examples:');
-  console.log('  prism --prd=./docs/requirements.md --project="My App"');
-  console.log('  prism --prd=https://confluence.com/123 --figma=abc123xyz');
-  console.log('  prism --list-sessions');
-  console.log('  prism --resume=sess-1234567890');
-  console.log('');
-  console.log('Environment Variables:');
-  console.log('  AI_PROVIDER          AI provider (claude|openai|google)');
-  console.log('  ANTHROPIC_API_KEY    Claude API key');
-  console.log('  OPENAI_API_KEY       OpenAI API key');
-  console.log('  GOOGLE_API_KEY       Google AI API key');
-  console.log('');
-}
-
 // Run CLI
 main().catch(error => {
   console.error('Fatal error:', error);
-  process.exit(1);
+  exit(EXIT_CODES.failure, {
+    status: 'failed',
+    error: error instanceof Error ? error.message : String(error),
+  });
 });
@@ -0,0 +1,1293 @@
+/**
+ * CLI Commands
+ *
+ * The prism command tree: workflow commands (run, resume, rerun, estimate,
+ * clarify import),
+ * session and configuration management, and the individual skills as
+ * standalone commands (analyze prd, analyze figma, validate, tdd).
+ *
+ * Handlers print human-readable output to the console and return the exit
+ * code together with the document printed in --json mode.
+ *
+ * @module cli/commands
+ */
+
+import { createInterface } from 'readline/promises';
+import { stringify as stringifyYAML, parse as parseYAML } from 'yaml';
+import {
+  executeDiscoveryWorkflow,
+  estimateDiscoveryCost,
+  summarizeDiscoverySession,
+  pinSessionProfile,
+  trackSessionCost,
+  createDiscoveryPipeline,
+  loadSourceContent,
+  loadRequirements,
+  loadRefinedRequirements,
+  loadComponents,
+  getTDDOutputPaths,
+  DISCOVERY_ARTIFACTS,
+  type DiscoveryWorkflowOptions,
+  type DiscoverySummary,
+} from '../workflows/discovery.js';
+import type { CostEstimate } from '../workflows/estimate.js';
+import { getSessionArtifactPath } from '../workflows/pipeline.js';
+import { analyzePRD } from '../skills/prd-analyzer.js';
+import { analyzeFigmaDesign } from '../skills/figma-analyzer.js';
+import { validateRequirements } from '../skills/requirements-validator.js';
+import { generateTDD } from '../skills/tdd-generator.js';
+import {
+  importClarificationAnswers,
+  findLatestClarificationRound,
+  loadClarificationQuestions,
+  type ClarificationPrompter,
+} from '../skills/clarification-manager.js';
+import { detectFileFormat, CLARIFICATION_FILE_FORMATS } from '../skills/clarification-manager/answer-file.js';
+import { listSessions, loadSession, deleteSession, generateSessionId } from '../utils/session.js';
+import { formatCost } from '../utils/cost-tracker.js';
+import { readFile } from '../utils/files.js';
+import { ConfigManager } from '../utils/config-manager.js';
+import {
+  resolveConfig,
+  flattenConfig,
+  formatConfigOrigin,
+  getUserConfigPath,
+  getProjectConfigPath,
+  CONFIG_ENV_VARS,
+  type ConfigFlag,
+} from '../utils/config-resolver.js';
+import { UsageError } from '../utils/errors.js';
+import { EXIT_CODES } from '../utils/exit-codes.js';
+import type { WorkflowEventBus } from '../utils/events.js';
+import { WorkflowStepSchema } from '../schemas/session.js';
+import type { Session, WorkflowStep } from '../types/session.js';
+import type { GapSeverity } from '../types/gap.js';
+import {
+  findCommand,
+  renderHelp,
+  type CommandDefinition,
+  type CommandOption,
+  type CommandResult,
+  type ParsedCommand,
+} from './parser.js';
+import { generateCompletion, COMPLETION_SHELLS, type CompletionShell } from './completion.js';
+
+/**
+ * What the CLI provides to command handlers
+ */
+export interface CommandContext {
+  /** Progress events for workflows and skills (rendered per --output) */
+  events: WorkflowEventBus;
+  /** Prompts are possible (terminal input and human-readable output) */
+  interactive: boolean;
+  /** Tracks the running workflow's session (saved as paused on SIGINT/SIGTERM) */
+  onActiveSession?: DiscoveryWorkflowOptions['onActiveSession'];
+}
+
+type Command = CommandDefinition<CommandContext>;
+type Parsed = ParsedCommand<CommandContext>;
+
+/**
+ * Progress output formats (--output)
+ */
+export const OUTPUT_MODES = ['text', 'jsonl'] as const;
+export type OutputMode = (typeof OUTPUT_MODES)[number];
+
+/**
+ * Gap severities from most to least severe
+ */
+const GAP_SEVERITIES: GapSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const SESSION_ARGUMENT = { name: 'session', description: 'Session ID (sess-...)' };
+
+const GAP_THRESHOLD_OPTIONS: CommandOption[] = [
+  {
+    name: 'max-gaps',
+    type: 'string',
+    valueName: 'n',
+    description: 'Exit with code 5 when more than n gaps are found',
+  },
+  {
+    name: 'gap-severity',
+    type: 'string',
+    valueName: 'level',
+    description: 'Only count gaps at this severity or above (default: low)',
+    choices: GAP_SEVERITIES,
+  },
+];
+
+const WORKFLOW_OPTIONS: CommandOption[] = [
+  { name: 'project', type: 'string', valueName: 'name', description: 'Project name for TDD' },
+  { name: 'no-cache', type: 'boolean', description: 'Bypass cached LLM results in .prism/cache' },
+  {
+    name: 'max-cost',
+    type: 'string',
+    valueName: 'usd',
+    description: 'Stop the run once the session cost reaches this amount',
+  },
+  ...GAP_THRESHOLD_OPTIONS,
+];
+
+/**
+ * Handle run: start a new discovery workflow
+ */
+async function handleRun(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  return runWorkflow(parsed, context, {
+    prdSource: stringOption(parsed, 'prd')!,
+    figmaSource: stringOption(parsed, 'figma'),
+  });
+}
+
+/**
+ * Handle resume: continue a paused or failed session (T036, FR-004)
+ */
+async function handleResume(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  return runWorkflow(parsed, context, {
+    prdSource: '',
+    resumeSessionId: sessionArgument(parsed),
+  });
+}
+
+/**
+ * Handle rerun: re-run a step and everything downstream of it
+ */
+async function handleRerun(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  return runWorkflow(parsed, context, {
+    prdSource: '',
+    resumeSessionId: sessionArgument(parsed),
+    rerunFrom: stringOption(parsed, 'from') as WorkflowStep,
+  });
+}
+
+/**
+ * Helper: Whether validation matches requirements to components with the LLM
+ */
+function usesSemanticMatching(parsed: Parsed): boolean {
+  return parsed.options['semantic'] === true || resolveConfig().config.workflow.semanticMatching === true;
+}
+
+/**
+ * Helper: Number of pipeline steps that apply to a session
+ */
+function countSessionSteps(session: Session): number {
+  return createDiscoveryPipeline().getEnabledSteps({ session, signal: new AbortController().signal }).length;
+}
+
+/**
+ * Helper: Apply a resumed session's profile before the provider check
+ */
+async function pinResumedSessionProfile(parsed: Parsed, context: CommandContext): Promise<void> {
+  pinSessionProfile(await loadSession(sessionArgument(parsed)), context.events);
+}
+
+/**
+ * Helper: Execute the discovery workflow and report the result
+ */
+async function runWorkflow(
+  parsed: Parsed,
+  context: CommandContext,
+  options: Pick<DiscoveryWorkflowOptions, 'prdSource' | 'figmaSource' | 'resumeSessionId' | 'rerunFrom'>
+): Promise<CommandResult> {
+  const threshold = parseGapThreshold(parsed);
+
+  const result = await executeDiscoveryWorkflow({
+    ...options,
+    projectName: stringOption(parsed, 'project'),
+    noCache: parsed.options['no-cache'] === true,
+    // Configured budgets apply to new sessions; resumed sessions keep their own unless --max-cost is given
+    maxCostUsd:
+      options.resumeSessionId && parsed.options['max-cost'] === undefined
+        ? undefined
+        : resolveConfig().config.budget?.maxUsdPerSession,
+    confirmOverBudget: context.interactive ? confirmOverBudget : undefined,
+    clarificationPrompter: context.interactive ? terminalPrompter : undefined,
+    events: context.events,
+    onActiveSession: context.onActiveSession,
+  });
+
+  const summary = await summarizeDiscoverySession(result.sessionId);
+
+  console.log('');
+  if (result.status === 'completed') {
+    console.log('╔═══════════════════════════════════════════════════════════╗');
+    console.log('║                   WORKFLOW COMPLETE!                      ║');
+    console.log('╚═══════════════════════════════════════════════════════════╝');
+  } else {
+    console.log('╔═══════════════════════════════════════════════════════════╗');
+    console.log('║                   WORKFLOW PAUSED                         ║');
+    console.log('╚═══════════════════════════════════════════════════════════╝');
+  }
+  console.log('');
+  console.log(`Session ID: ${result.sessionId}`);
+  console.log(`Status: ${result.status}`);
+  console.log(`Duration: ${Math.round(result.duration / 1000)}s`);
+  console.log(`Cost: ${formatCost(result.estimatedCost)}`);
+  printSummary(summary);
+  console.log('');
+  if (result.status === 'completed') {
+    console.log('📁 Outputs:');
+    if (result.outputs.tddPath) {
+      console.log(`   TDD: ${result.outputs.tddPath}`);
+    }
+    if (result.outputs.apiSpecPath) {
+      console.log(`   API Spec: ${result.outputs.apiSpecPath}`);
+    }
+    if (result.outputs.databaseSchemaPath) {
+      console.log(`   Database: ${result.outputs.databaseSchemaPath}`);
+    }
+  } else {
+    console.log(`⏸️  Steps completed in this run: ${result.completedSteps.join(', ') || 'none'}`);
+    console.log(`   Resume with: ${result.resumeCommand ?? `prism resume ${result.sessionId}`}`);
+  }
+  console.log('');
+
+  const gapsExceeded = checkGapThreshold(summary, threshold);
+  const exitCode =
+    result.status === 'paused'
+      ? EXIT_CODES.paused
+      : gapsExceeded
+        ? EXIT_CODES.gapsAboveThreshold
+        : EXIT_CODES.success;
+
+  return { exitCode, document: { ...result, ...summary } };
+}
+
+/**
+ * Handle estimate: pre-flight token and cost estimate
+ */
+async function handleEstimate(parsed: Parsed): Promise<CommandResult> {
+  console.log('💰 Cost Estimate');
+  console.log('');
+
+  const estimate = await estimateDiscoveryCost({
+    prdSource: stringOption(parsed, 'prd')!,
+    figmaSource: stringOption(parsed, 'figma'),
+  });
+  printEstimate(estimate);
+
+  const budget = resolveConfig().config.budget?.maxUsdPerSession;
+  if (budget !== undefined) {
+    const verdict = estimate.estimated_cost > budget ? '⚠️  exceeds' : '✅ within';
+    console.log(`   ${verdict} budget of $${budget.toFixed(2)} per session`);
+    console.log('');
+  }
+
+  return { exitCode: EXIT_CODES.success, document: { estimate, budget } };
+}
+
+/**
+ * Handle sessions list (T037, FR-005)
+ */
+async function handleSessionsList(): Promise<CommandResult> {
+  console.log('');
+  console.log('📋 Available Sessions');
+  console.log('');
+
+  const sessionIds = await listSessions();
+  const sessions: Record<string, unknown>[] = [];
+
+  if (sessionIds.length === 0) {
+    console.log('No sessions found.');
+    console.log('');
+    return { exitCode: EXIT_CODES.success, document: { sessions } };
+  }
+
+  console.log(`Found ${sessionIds.length} session(s):\n`);
+
+  for (const sessionId of sessionIds) {
+    try {
+      const session = await loadSession(sessionId);
+      const status = session.status === 'completed' ? '✅' : session.status === 'failed' ? '❌' : '⏸️ ';
+
+      console.log(`${status} ${sessionId}`);
+      console.log(`   Status: ${session.status}`);
+      console.log(`   Current Step: ${session.current_step}`);
+      console.log(`   Created: ${new Date(session.created_at).toLocaleString()}`);
+      console.log(`   Checkpoints: ${session.checkpoints.length}/${countSessionSteps(session)}`);
+
+      const cost = formatCost(session.usage?.estimated_cost ?? 0);
+      const budget = session.config.max_cost_usd;
+      console.log(`   Cost: ${cost}${budget !== undefined ? ` of $${budget.toFixed(2)} budget` : ''}`);
+      if (session.usage) {
+        console.log(`   Tokens: ${session.usage.input_tokens} in / ${session.usage.output_tokens} out`);
+      }
+
+      if (session.status !== 'completed' && session.status !== 'failed') {
+        console.log(`   Resume: prism resume ${sessionId}`);
+      }
+
+      console.log('');
+      sessions.push({
+        session_id: sessionId,
+        status: session.status,
+        current_step: session.current_step,
+        created_at: session.created_at,
+        checkpoints: session.checkpoints.length,
+        estimated_cost: session.usage?.estimated_cost ?? 0,
+      });
+    } catch (error) {
+      console.log(`⚠️  ${sessionId} (corrupted or invalid)`);
+      console.log('');
+      sessions.push({ session_id: sessionId, error: 'corrupted or invalid' });
+    }
+  }
+
+  return { exitCode: EXIT_CODES.success, document: { sessions } };
+}
+
+/**
+ * Handle sessions show: details of one session
+ */
+async function handleSessionsShow(parsed: Parsed): Promise<CommandResult> {
+  const session = await loadSession(sessionArgument(parsed));
+
+  console.log('');
+  console.log(`📋 Session ${session.session_id}`);
+  console.log('');
+  console.log(`   Status: ${session.status}`);
+  console.log(`   Current Step: ${session.current_step}`);
+  console.log(`   Created: ${new Date(session.created_at).toLocaleString()}`);
+  console.log(`   Updated: ${new Date(session.updated_at).toLocaleString()}`);
+  console.log(`   PRD: ${session.prd_source}`);
+  if (session.figma_source) {
+    console.log(`   Figma: ${session.figma_source}`);
+  }
+  console.log(`   Provider: ${session.config.ai_provider}`);
+
+  const budget = session.config.max_cost_usd;
+  console.log(
+    `   Cost: ${formatCost(session.usage?.estimated_cost ?? 0)}${budget !== undefined ? ` of $${budget.toFixed(2)} budget` : ''}`
+  );
+  console.log('');
+
+  console.log('   Checkpoints:');
+  if (session.checkpoints.length === 0) {
+    console.log('     (none)');
+  }
+  for (const checkpoint of session.checkpoints) {
+    const details = [
+      `${checkpoint.metadata.duration_ms}ms`,
+      ...(checkpoint.metadata.cache_hit ? ['cached'] : []),
+      ...(checkpoint.metadata.estimated_cost ? [formatCost(checkpoint.metadata.estimated_cost)] : []),
+    ];
+    console.log(`     ✓ ${checkpoint.step} (${details.join(', ')})`);
+  }
+  console.log('');
+
+  const outputs = Object.entries(session.outputs).filter(([, path]) => path);
+  if (outputs.length > 0) {
+    console.log('   Outputs:');
+    for (const [name, path] of outputs) {
+      console.log(`     ${name}: ${path}`);
+    }
+    console.log('');
+  }
+
+  if (session.provider_fallbacks?.length) {
+    console.log('   Provider Fallbacks:');
+    for (const fallback of session.provider_fallbacks) {
+      console.log(
+        `     ${fallback.step}: ${fallback.failed_provider} → ${fallback.active_provider} (${fallback.reason})`
+      );
+    }
+    console.log('');
+  }
+
+  return { exitCode: EXIT_CODES.success, document: { session } };
+}
+
+/**
+ * Handle sessions delete
+ */
+async function handleSessionsDelete(parsed: Parsed): Promise<CommandResult> {
+  const sessionId = sessionArgument(parsed);
+  await deleteSession(sessionId);
+
+  console.log(`🗑️  Deleted session ${sessionId}`);
+
+  return { exitCode: EXIT_CODES.success, document: { sessionId, deleted: true } };
+}
+
+/**
+ * Handle config get: print the effective value of a setting
+ */
+async function handleConfigGet(parsed: Parsed): Promise<CommandResult> {
+  const key = parsed.args['key']!;
+  const { config, origins } = resolveConfig();
+  const value = key.split('.').reduce<unknown>(
+    (current, part) => (current as Record<string, unknown> | undefined)?.[part],
+    config
+  );
+
+  if (value === undefined) {
+    console.error(`Config key not set: ${key}`);
+    return { exitCode: EXIT_CODES.failure, document: { key, value: null } };
+  }
+
+  console.log(typeof value === 'object' ? stringifyYAML(value).trimEnd() : String(value));
+
+  return { exitCode: EXIT_CODES.success, document: { key, value, origin: origins[key] } };
+}
+
+/**
+ * Handle config set: store one value in the project (or, with --global, user) config file
+ *
+ * Values are parsed as YAML scalars, so numbers and booleans keep their type.
+ */
+async function handleConfigSet(parsed: Parsed): Promise<CommandResult> {
+  const key = parsed.args['key']!;
+  const value: unknown = parseYAML(parsed.args['value']!);
+  const path = configFilePath(parsed);
+
+  try {
+    await new ConfigManager(path).set(key, value);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'ZodError') {
+      const issues = (error as { issues?: { path: (string | number)[]; message: string }[] }).issues ?? [];
+      throw new UsageError(
+        `Invalid value for ${key}`,
+        issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      );
+    }
+    throw error;
+  }
+
+  console.log(`✅ ${key} = ${JSON.stringify(value)} (${path})`);
+
+  return { exitCode: EXIT_CODES.success, document: { key, value, path } };
+}
+
+/**
+ * Handle config show: print the effective configuration (or, with --global/--project, one file)
+ */
+async function handleConfigShow(parsed: Parsed): Promise<CommandResult> {
+  if (parsed.options['global'] || parsed.options['project']) {
+    const path = configFilePath(parsed);
+    const manager = new ConfigManager(path);
+    console.log(`# ${path}`);
+    console.log((await manager.show()).trimEnd());
+
+    return { exitCode: EXIT_CODES.success, document: { path, config: await manager.load() } };
+  }
+
+  const { config } = resolveConfig();
+  console.log(stringifyYAML(config).trimEnd());
+
+  return { exitCode: EXIT_CODES.success, document: { config } };
+}
+
+/**
+ * Handle config explain: show each effective value and the layer it came from
+ */
+async function handleConfigExplain(): Promise<CommandResult> {
+  const { config, origins, profile } = resolveConfig();
+  // Profile definitions are listed by `prism config profiles`; the applied values show below
+  const { profiles: _profiles, ...effective } = config;
+  const entries = flattenConfig(effective).map(([key, value]) => ({
+    key,
+    value,
+    source: origins[key]?.source ?? 'default',
+    detail: origins[key]?.detail,
+  }));
+
+  console.log('Layers (later layers override earlier ones):');
+  console.log('  1. default  built-in defaults');
+  console.log(`  2. user     ${getUserConfigPath()}`);
+  console.log(`  3. project  ${getProjectConfigPath()}`);
+  console.log('  4. profile  selected profile (profile, PRISM_PROFILE or --profile)');
+  console.log('  5. env      environment variables and .env');
+  console.log('  6. flag     command-line flags');
+  console.log('');
+
+  if (profile) {
+    console.log(`Profile: ${profile.chain.join(' → ')}  ← ${formatConfigOrigin(profile.origin)}`);
+    console.log('');
+  }
+
+  const width = Math.max(...entries.map((entry) => entry.key.length)) + 2;
+  for (const entry of entries) {
+    console.log(
+      `  ${entry.key.padEnd(width)}${JSON.stringify(entry.value)}  ← ${formatConfigOrigin(origins[entry.key])}`
+    );
+  }
+  console.log('');
+
+  const unset = CONFIG_ENV_VARS.filter(({ key }) => !origins[key]);
+  if (unset.length > 0) {
+    console.log('Not set:');
+    for (const { key, env } of unset) {
+      console.log(`  ${key.padEnd(width)}(env ${env})`);
+    }
+    console.log('');
+  }
+
+  return { exitCode: EXIT_CODES.success, document: { profile, values: entries } };
+}
+
+/**
+ * Handle config profiles: list the named profiles
+ */
+async function handleConfigProfiles(): Promise<CommandResult> {
+  const { config, profile } = resolveConfig();
+  const profiles = Object.entries(config.profiles ?? {}).map(([name, settings]) => ({
+    name,
+    extends: settings.extends,
+    active: name === profile?.name,
+  }));
+
+  if (profiles.length === 0) {
+    console.log('No profiles defined. Add them under profiles: in .prism/config.yaml or ~/.prism/config.yaml');
+  }
+  for (const entry of profiles) {
+    const base = entry.extends ? ` (extends ${entry.extends})` : '';
+    console.log(`${entry.active ? '*' : ' '} ${entry.name}${base}`);
+  }
+
+  return { exitCode: EXIT_CODES.success, document: { profiles } };
+}
+
+/**
+ * Handle analyze prd: extract requirements from a PRD
+ */
+async function handleAnalyzePRD(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  const sessionId = stringOption(parsed, 'session') ?? generateSessionId();
+  const output = await analyzePRD(await loadSourceContent(parsed.args['source']!), sessionId, {
+    saveOutput: true,
+    cache: parsed.options['no-cache'] !== true,
+    semanticConflicts: resolveConfig().config.workflow.semanticConflicts === true,
+    events: context.events,
+  });
+
+  const outputPath = getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.requirements);
+  console.log('');
+  console.log(`📁 Requirements: ${outputPath}`);
+  console.log(`   Session: ${sessionId}`);
+
+  return { exitCode: EXIT_CODES.success, document: { sessionId, outputPath, ...output } };
+}
+
+/**
+ * Handle analyze figma: extract components from a Figma export
+ */
+async function handleAnalyzeFigma(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  const sessionId = stringOption(parsed, 'session') ?? generateSessionId();
+  const output = await analyzeFigmaDesign(await loadSourceContent(parsed.args['source']!), sessionId, {
+    saveOutput: true,
+    cache: parsed.options['no-cache'] !== true,
+    events: context.events,
+  });
+
+  const outputPath = getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.components);
+  console.log('');
+  console.log(`📁 Components: ${outputPath}`);
+  console.log(`   Session: ${sessionId}`);
+
+  return { exitCode: EXIT_CODES.success, document: { sessionId, outputPath, ...output } };
+}
+
+/**
+ * Handle validate: find gaps between a session's requirements and components
+ */
+async function handleValidate(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  const sessionId = sessionArgument(parsed);
+  const threshold = parseGapThreshold(parsed);
+
+  const output = await trackSessionCost(sessionId, async (costTracker) =>
+    validateRequirements(await loadRequirements(sessionId), await loadComponents(sessionId), sessionId, {
+      saveOutput: true,
+      semanticMatching: usesSemanticMatching(parsed),
+      cache: parsed.options['no-cache'] !== true,
+      onUsage: (usage) => costTracker.record('validation', usage),
+      beforeRequest: () => costTracker.assertWithinBudget(),
+      events: context.events,
+    })
+  );
+
+  const summary = await summarizeDiscoverySession(sessionId);
+  console.log('');
+  printSummary(summary);
+  console.log(`📁 Gaps: ${getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.gaps)}`);
+  console.log(`   Traceability: ${getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.traceability)}`);
+  console.log('');
+
+  const exitCode = checkGapThreshold(summary, threshold)
+    ? EXIT_CODES.gapsAboveThreshold
+    : EXIT_CODES.success;
+
+  return { exitCode, document: { sessionId, ...summary, gapList: output.gaps } };
+}
+
+/**
+ * Handle clarify import: record answers from a filled-in questions file and
+ * continue the workflow from the clarification step
+ */
+async function handleClarifyImport(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  const sessionId = sessionArgument(parsed);
+  const filePath = parsed.args['file']!;
+  const format = detectFileFormat(filePath);
+  if (!format) {
+    throw new UsageError('Unsupported answers file', [
+      `Answers file must be one of: ${CLARIFICATION_FILE_FORMATS.join(', ')} (.md, .yaml/.yml, .csv)`,
+      `Provided: ${filePath}`,
+    ]);
+  }
+
+  // Answers belong to the round the workflow paused in
+  const round = await findLatestClarificationRound(sessionId);
+  const questions = await loadClarificationQuestions(sessionId, round);
+  await importClarificationAnswers(questions, sessionId, await readFile(filePath), {
+    format,
+    round,
+    answeredBy: stringOption(parsed, 'answered-by'),
+    events: context.events,
+  });
+  console.log('');
+
+  return runWorkflow(parsed, context, {
+    prdSource: '',
+    resumeSessionId: sessionId,
+    rerunFrom: 'clarification',
+  });
+}
+
+/**
+ * Handle tdd: generate the technical design from a session's artifacts
+ */
+async function handleTDD(parsed: Parsed, context: CommandContext): Promise<CommandResult> {
+  const sessionId = sessionArgument(parsed);
+
+  await generateTDD(await loadRefinedRequirements(sessionId), await loadComponents(sessionId), sessionId, {
+    saveOutput: true,
+    projectName: stringOption(parsed, 'project'),
+    events: context.events,
+  });
+
+  const outputs = getTDDOutputPaths(sessionId);
+  console.log('');
+  console.log('📁 Outputs:');
+  console.log(`   TDD: ${outputs.tddPath}`);
+  console.log(`   API Spec: ${outputs.apiSpecPath}`);
+  console.log(`   Database: ${outputs.databaseSchemaPath}`);
+  console.log('');
+
+  return { exitCode: EXIT_CODES.success, document: { sessionId, outputs } };
+}
+
+/**
+ * Handle completion: print a shell completion script
+ */
+async function handleCompletion(parsed: Parsed): Promise<CommandResult> {
+  const shell = parsed.args['shell']!;
+  if (!COMPLETION_SHELLS.includes(shell as CompletionShell)) {
+    throw new UsageError('Unsupported shell', [
+      `Shell must be one of: ${COMPLETION_SHELLS.join(', ')}`,
+      `Provided: ${shell}`,
+    ]);
+  }
+
+  // Written to stdout even in --json mode: the script is the output
+  process.stdout.write(generateCompletion(PRISM_COMMAND, shell as CompletionShell));
+
+  return { exitCode: EXIT_CODES.success };
+}
+
+/**
+ * Handle help: show help for a command
+ */
+async function handleHelp(parsed: Parsed): Promise<CommandResult> {
+  const path = parsed.args['command']?.split(' ') ?? [];
+  console.log(renderHelp(findCommand(PRISM_COMMAND, path)));
+
+  return { exitCode: EXIT_CODES.success };
+}
+
+/**
+ * Print a per-step cost estimate table
+ */
+function printEstimate(estimate: CostEstimate): void {
+  console.log(`   Provider: ${estimate.provider} (${estimate.model})`);
+  console.log('');
+  console.log(`   ${'Step'.padEnd(26)}${'Input'.padStart(10)}${'Output'.padStart(10)}${'Cost'.padStart(12)}`);
+
+  for (const step of estimate.steps) {
+    const cost = step.llm ? formatCost(step.estimated_cost) : 'no LLM';
+    console.log(
+      `   ${step.name.padEnd(26)}${String(step.input_tokens).padStart(10)}${String(step.output_tokens).padStart(10)}${cost.padStart(12)}`
+    );
+  }
+
+  console.log(
+    `   ${'Total'.padEnd(26)}${String(estimate.input_tokens).padStart(10)}${String(estimate.output_tokens).padStart(10)}${formatCost(estimate.estimated_cost).padStart(12)}`
+  );
+  console.log('');
+}
+
+/**
+ * Print gap counts and quality score
+ */
+function printSummary(summary: DiscoverySummary): void {
+  if (summary.gaps) {
+    const { critical, high, medium, low } = summary.gaps.bySeverity;
+    console.log(
+      `Gaps: ${summary.gaps.total} (critical ${critical}, high ${high}, medium ${medium}, low ${low})`
+    );
+  }
+  if (summary.quality) {
+    console.log(`Quality: ${Math.round(summary.quality.overallScore * 100)}%`);
+  }
+}
+
+/**
+ * Ask on the terminal whether to run over budget
+ */
+async function confirmOverBudget(estimate: CostEstimate, remainingUsd: number): Promise<boolean> {
+  console.log('');
+  printEstimate(estimate);
+
+  const answer = await terminalPrompter.ask(
+    `Estimated ${formatCost(estimate.estimated_cost)} exceeds the remaining budget of ${formatCost(remainingUsd)}. Continue? [y/N] `
+  );
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+/**
+ * Terminal prompts (one readline interface per question, so Ctrl+C still
+ * stops the process while steps run)
+ */
+const terminalPrompter: ClarificationPrompter = {
+  write: (text) => console.log(text),
+  ask: async (prompt) => {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      return await rl.question(prompt);
+    } finally {
+      rl.close();
+    }
+  },
+};
+
+/**
+ * Helper: Configuration file selected by --global (user) or --project (default)
+ */
+function configFilePath(parsed: Parsed): string {
+  if (parsed.options['global'] && parsed.options['project']) {
+    throw new UsageError('--global and --project cannot be combined');
+  }
+  return parsed.options['global'] ? getUserConfigPath() : getProjectConfigPath();
+}
+
+/**
+ * Configuration values set by flags of the parsed command line
+ *
+ * @param parsed - Parsed command line
+ * @returns Values for setConfigFlags
+ * @throws {UsageError} If a flag value is invalid
+ */
+export function getConfigFlags(parsed: Parsed): ConfigFlag[] {
+  return [
+    { key: 'profile', value: stringOption(parsed, 'profile'), flag: '--profile' },
+    { key: 'llm.provider', value: stringOption(parsed, 'provider'), flag: '--provider' },
+    { key: 'llm.model', value: stringOption(parsed, 'model'), flag: '--model' },
+    { key: 'budget.maxUsdPerSession', value: parseBudgetOption(parsed), flag: '--max-cost' },
+  ].filter((flag) => flag.value !== undefined);
+}
+
+/**
+ * Helper: String option value
+ */
+function stringOption(parsed: Parsed, name: string): string | undefined {
+  const value = parsed.options[name];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Helper: Session ID argument or --session option (T040: reject malformed IDs early)
+ */
+function sessionArgument(parsed: Parsed): string {
+  const sessionId = parsed.args['session'] ?? stringOption(parsed, 'session')!;
+
+  if (!sessionId.startsWith('sess-')) {
+    throw new UsageError('Invalid session ID format', [
+      `Session ID must start with 'sess-' (e.g., sess-1234567890)`,
+      `Provided: ${sessionId}`,
+      '',
+      'List available sessions with: prism sessions list',
+    ]);
+  }
+
+  return sessionId;
+}
+
+/**
+ * Helper: Parse --max-cost
+ */
+function parseBudgetOption(parsed: Parsed): number | undefined {
+  const maxCost = stringOption(parsed, 'max-cost');
+  if (maxCost === undefined) {
+    return undefined;
+  }
+
+  if (!(parseFloat(maxCost) > 0)) {
+    throw new UsageError('Invalid budget', [
+      '--max-cost must be a positive USD amount (e.g., --max-cost=2.50)',
+      `Provided: ${maxCost}`,
+    ]);
+  }
+
+  return parseFloat(maxCost);
+}
+
+/**
+ * Gap threshold from --max-gaps and --gap-severity
+ */
+interface GapThreshold {
+  maxGaps: number;
+  severity: GapSeverity;
+}
+
+/**
+ * Helper: Parse --max-gaps and --gap-severity
+ */
+function parseGapThreshold(parsed: Parsed): GapThreshold | undefined {
+  const maxGaps = stringOption(parsed, 'max-gaps');
+  if (maxGaps === undefined) {
+    return undefined;
+  }
+
+  if (!/^\d+$/.test(maxGaps)) {
+    throw new UsageError('Invalid gap threshold', [
+      '--max-gaps must be a non-negative whole number (e.g., --max-gaps=0)',
+      `Provided: ${maxGaps}`,
+    ]);
+  }
+
+  return {
+    maxGaps: parseInt(maxGaps, 10),
+    severity: (stringOption(parsed, 'gap-severity') ?? 'low') as GapSeverity,
+  };
+}
+
+/**
+ * Helper: Whether the gaps exceed the threshold (reported on the console)
+ */
+function checkGapThreshold(summary: DiscoverySummary, threshold: GapThreshold | undefined): boolean {
+  if (!threshold) {
+    return false;
+  }
+
+  const severities = GAP_SEVERITIES.slice(0, GAP_SEVERITIES.indexOf(threshold.severity) + 1);
+  const count = severities.reduce((total, level) => total + (summary.gaps?.bySeverity[level] ?? 0), 0);
+
+  if (count <= threshold.maxGaps) {
+    return false;
+  }
+
+  console.error(
+    `❌ ${count} gap(s) at severity ${threshold.severity} or above exceed --max-gaps=${threshold.maxGaps}`
+  );
+  console.error('');
+  return true;
+}
+
+const CONFIG_GLOBAL_OPTION: CommandOption = {
+  name: 'global',
+  type: 'boolean',
+  description: 'Use the user-global ~/.prism/config.yaml',
+};
+
+/**
+ * The prism command tree
+ */
+export const PRISM_COMMAND: Command = {
+  name: 'prism',
+  description: 'MT-PRISM: PRD-to-TDD discovery automation',
+  options: [
+    {
+      name: 'json',
+      type: 'boolean',
+      description: 'Print the result as one JSON document on stdout (logs on stderr)',
+    },
+    {
+      name: 'output',
+      type: 'string',
+      valueName: 'format',
+      description: 'Progress output; jsonl writes one JSON event per line on stdout',
+      choices: OUTPUT_MODES,
+    },
+    {
+      name: 'profile',
+      type: 'string',
+      valueName: 'name',
+      description: 'Configuration profile (overrides PRISM_PROFILE and profile)',
+    },
+    {
+      name: 'provider',
+      type: 'string',
+      valueName: 'name',
+      description: 'AI provider for this run (overrides llm.provider)',
+      choices: ['anthropic', 'openai', 'google', 'local', 'replay'],
+    },
+    {
+      name: 'model',
+      type: 'string',
+      valueName: 'name',
+      description: 'Model for this run (overrides llm.model)',
+    },
+    { name: 'help', short: 'h', type: 'boolean', description: 'Show help' },
+  ],
+  examples: [
+    'prism run --prd=./docs/requirements.md --project="My App"',
+    'prism run --prd="https://confluence.example.com/pages/viewpage.action?pageId=123" --figma=abc123xyz',
+    'prism sessions list',
+    'prism resume sess-1234567890',
+    'prism run --prd=./docs/requirements.md --json --max-gaps=0 --gap-severity=high',
+    'prism completion bash > /etc/bash_completion.d/prism',
+  ],
+  epilog: [
+    'Environment Variables:',
+    '  AI_PROVIDER          AI provider (claude|openai|google|local|replay)',
+    '  ANTHROPIC_API_KEY    Claude API key',
+    '  OPENAI_API_KEY       OpenAI API key',
+    '  GOOGLE_API_KEY       Google AI API key',
+    '  LOCAL_LLM_BASE_URL   OpenAI-compatible endpoint for the local provider',
+    '  LOCAL_LLM_MODEL      Model served by the local endpoint (default: llama3.1)',
+    '  AI_MAX_REPAIR_ATTEMPTS  Retries after invalid structured output (default: 2)',
+    '  AI_MAX_RETRIES       Retries per provider after transient failures (default: 2)',
+    '  AI_REQUEST_TIMEOUT_MS  Per-request timeout in milliseconds (default: 180000)',
+    '  PRISM_FIXTURES_DIR   Recorded responses for replay (default: .prism/fixtures)',
+    '  PRISM_RECORD_FIXTURES  Set to true to record live responses for replay',
+    '  PRISM_MAX_COST_USD   Default session budget in USD (overrides budget.maxUsdPerSession)',
+    '  PRISM_PROFILE        Configuration profile (see prism config profiles)',
+    '  SESSION_RETENTION_DAYS  Days to keep sessions (overrides retention.sessionDays)',
+    '  WORKFLOW_TIMEOUT_MINUTES  Workflow timeout (overrides workflow.timeoutMinutes)',
+    '',
+    'Configuration:',
+    '  Settings come from built-in defaults, ~/.prism/config.yaml, .prism/config.yaml,',
+    '  environment variables and flags; later layers win. See: prism config explain',
+    '',
+    'Exit Codes:',
+    '  0  Success',
+    '  1  Command failed',
+    '  2  Credentials missing or invalid',
+    '  3  Validation failed (invalid arguments or schema validation)',
+    '  4  Session paused (timeout or budget reached); resume later',
+    '  5  Gaps above the --max-gaps threshold',
+  ],
+  subcommands: [
+    {
+      name: 'run',
+      description: 'Run the discovery workflow on a PRD (and optional Figma design)',
+      usesProvider: true,
+      options: [
+        {
+          name: 'prd',
+          type: 'string',
+          valueName: 'path|url',
+          description: 'PRD source (local file or Confluence URL)',
+          required: true,
+        },
+        {
+          name: 'figma',
+          type: 'string',
+          valueName: 'id|path',
+          description: 'Figma file ID or local JSON',
+        },
+        ...WORKFLOW_OPTIONS,
+      ],
+      examples: [
+        'prism run --prd=./docs/requirements.md --project="My App"',
+        'prism run --prd=./docs/requirements.md --figma=./design.json --max-cost=2.50',
+      ],
+      run: handleRun,
+    },
+    {
+      name: 'resume',
+      description: 'Resume a paused or failed session from its last checkpoint',
+      usesProvider: true,
+      prepare: pinResumedSessionProfile,
+      args: [SESSION_ARGUMENT],
+      options: WORKFLOW_OPTIONS,
+      examples: ['prism resume sess-1234567890', 'prism resume sess-1234567890 --max-cost=5'],
+      run: handleResume,
+    },
+    {
+      name: 'rerun',
+      description: 'Re-run a step and everything downstream of it',
+      usesProvider: true,
+      prepare: pinResumedSessionProfile,
+      args: [SESSION_ARGUMENT],
+      options: [
+        {
+          name: 'from',
+          type: 'string',
+          valueName: 'step',
+          description: 'First step to re-run',
+          choices: WorkflowStepSchema.options,
+          required: true,
+        },
+        ...WORKFLOW_OPTIONS,
+      ],
+      examples: ['prism rerun sess-1234567890 --from=validation'],
+      run: handleRerun,
+    },
+    {
+      name: 'estimate',
+      description: 'Show expected tokens and cost per step (no LLM calls)',
+      options: [
+        {
+          name: 'prd',
+          type: 'string',
+          valueName: 'path',
+          description: 'PRD to estimate',
+          required: true,
+        },
+        {
+          name: 'figma',
+          type: 'string',
+          valueName: 'path',
+          description: 'Figma JSON to include',
+        },
+      ],
+      examples: ['prism estimate --prd=./docs/requirements.md'],
+      run: handleEstimate,
+    },
+    {
+      name: 'sessions',
+      description: 'List, inspect and delete sessions',
+      subcommands: [
+        {
+          name: 'list',
+          description: 'List all sessions',
+          run: handleSessionsList,
+        },
+        {
+          name: 'show',
+          description: 'Show status, checkpoints, cost and outputs of a session',
+          args: [SESSION_ARGUMENT],
+          run: handleSessionsShow,
+        },
+        {
+          name: 'delete',
+          description: 'Delete a session and its artifacts',
+          args: [SESSION_ARGUMENT],
+          run: handleSessionsDelete,
+        },
+      ],
+    },
+    {
+      name: 'config',
+      description: 'Read and change configuration (~/.prism/config.yaml, .prism/config.yaml)',
+      subcommands: [
+        {
+          name: 'get',
+          description: 'Print the effective value of a setting',
+          args: [{ name: 'key', description: 'Dot-separated key (e.g. llm.provider)' }],
+          examples: ['prism config get budget.maxUsdPerSession'],
+          run: handleConfigGet,
+        },
+        {
+          name: 'set',
+          description: 'Set a value in the project configuration file',
+          args: [
+            { name: 'key', description: 'Dot-separated key (e.g. llm.provider)' },
+            { name: 'value', description: 'New value (numbers and true/false keep their type)' },
+          ],
+          options: [CONFIG_GLOBAL_OPTION],
+          examples: [
+            'prism config set llm.provider openai',
+            'prism config set budget.maxUsdPerSession 2.5 --global',
+          ],
+          run: handleConfigSet,
+        },
+        {
+          name: 'show',
+          description: 'Print the effective configuration',
+          options: [
+            { ...CONFIG_GLOBAL_OPTION, description: 'Print ~/.prism/config.yaml only' },
+            { name: 'project', type: 'boolean', description: 'Print .prism/config.yaml only' },
+          ],
+          run: handleConfigShow,
+        },
+        {
+          name: 'explain',
+          description: 'Show where each setting came from',
+          examples: ['prism config explain', 'AI_PROVIDER=openai prism config explain --model=gpt-4o'],
+          epilog: [
+            'Settings are resolved from built-in defaults, ~/.prism/config.yaml,',
+            '.prism/config.yaml, environment variables and flags, in that order.',
+          ],
+          run: handleConfigExplain,
+        },
+        {
+          name: 'profiles',
+          description: 'List the named profiles (* marks the selected one)',
+          examples: ['prism config profiles', 'prism run --prd=./prd.md --profile=acme'],
+          epilog: [
+            'Profiles are defined under profiles: in a config file and override the',
+            'settings above them. A profile can inherit from another with extends:',
+            '',
+            '  profiles:',
+            '    base:',
+            '      llm: { provider: anthropic }',
+            '    acme:',
+            '      extends: base',
+            '      llm: { model: claude-sonnet-4-5-20250929 }',
+            '      mcps: { confluence: { space: ACME } }',
+            '      output: { baseDirectory: ./clients/acme }',
+          ],
+          run: handleConfigProfiles,
+        },
+      ],
+    },
+    {
+      name: 'analyze',
+      description: 'Run a single analysis skill',
+      subcommands: [
+        {
+          name: 'prd',
+          description: 'Extract requirements from a PRD',
+          usesProvider: true,
+          args: [{ name: 'source', description: 'PRD file or text' }],
+          options: [
+            {
+              name: 'session',
+              type: 'string',
+              valueName: 'id',
+              description: 'Session to write to (default: new session)',
+            },
+            { name: 'no-cache', type: 'boolean', description: 'Bypass cached LLM results' },
+          ],
+          examples: ['prism analyze prd ./docs/requirements.md'],
+          run: handleAnalyzePRD,
+        },
+        {
+          name: 'figma',
+          description: 'Extract UI components from a Figma export',
+          usesProvider: true,
+          args: [{ name: 'source', description: 'Figma JSON file or content' }],
+          options: [
+            {
+              name: 'session',
+              type: 'string',
+              valueName: 'id',
+              description: 'Session to write to (default: new session)',
+            },
+            { name: 'no-cache', type: 'boolean', description: 'Bypass cached LLM results' },
+          ],
+          examples: ['prism analyze figma ./design.json --session=sess-1234567890'],
+          run: handleAnalyzeFigma,
+        },
+      ],
+    },
+    {
+      name: 'validate',
+      description: "Find gaps between a session's requirements and components",
+      usesProvider: usesSemanticMatching,
+      args: [SESSION_ARGUMENT],
+      options: [
+        {
+          name: 'semantic',
+          type: 'boolean',
+          description: 'Also match requirements to components with the LLM (default: workflow.semanticMatching)',
+        },
+        { name: 'no-cache', type: 'boolean', description: 'Bypass cached LLM results in .prism/cache' },
+        ...GAP_THRESHOLD_OPTIONS,
+      ],
+      examples: [
+        'prism validate sess-1234567890 --max-gaps=0 --gap-severity=critical',
+        'prism validate sess-1234567890 --semantic',
+      ],
+      run: handleValidate,
+    },
+    {
+      name: 'clarify',
+      description: 'Answer clarification questions',
+      subcommands: [
+        {
+          name: 'import',
+          description: 'Import answers to exported questions and continue the workflow',
+          usesProvider: true,
+          prepare: pinResumedSessionProfile,
+          args: [{ name: 'file', description: 'Filled-in questions file (.md, .yaml or .csv)' }],
+          options: [
+            {
+              name: 'session',
+              type: 'string',
+              valueName: 'id',
+              description: 'Session the questions belong to',
+              required: true,
+            },
+            { name: 'answered-by', type: 'string', valueName: 'name', description: 'Record who answered' },
+            ...WORKFLOW_OPTIONS,
+          ],
+          examples: [
+            'prism clarify import --session=sess-1234567890 answers.md',
+            'prism clarify import --session=sess-1234567890 questions.csv --answered-by="Product team"',
+          ],
+          run: handleClarifyImport,
+        },
+      ],
+    },
+    {
+      name: 'tdd',
+      description: "Generate the technical design from a session's requirements and components",
+      usesProvider: true,
+      args: [SESSION_ARGUMENT],
+      options: [
+        { name: 'project', type: 'string', valueName: 'name', description: 'Project name for TDD' },
+      ],
+      examples: ['prism tdd sess-1234567890 --project="My App"'],
+      run: handleTDD,
+    },
+    {
+      name: 'completion',
+      description: 'Print a shell completion script',
+      args: [{ name: 'shell', description: COMPLETION_SHELLS.join(' | ') }],
+      examples: [
+        'prism completion bash > /etc/bash_completion.d/prism',
+        'prism completion zsh > "${fpath[1]}/_prism"',
+        'prism completion fish > ~/.config/fish/completions/prism.fish',
+      ],
+      run: handleCompletion,
+    },
+    {
+      name: 'help',
+      description: 'Show help for a command',
+      args: [{ name: 'command', description: 'Command (e.g. sessions show)', optional: true, variadic: true }],
+      run: handleHelp,
+    },
+  ],
+};
+
+/**
+ * Map the flag-style invocations of earlier releases onto commands
+ *
+ *   prism --prd=<path> ...             → prism run --prd=<path> ...
+ *   prism --resume=<id> ...            → prism resume <id> ...
+ *   prism --list-sessions              → prism sessions list
+ *   prism rerun --session=<id> ...     → prism rerun <id> ...
+ *
+ * @param argv - Arguments without node and script
+ * @returns Arguments in command form
+ */
+export function normalizeLegacyArgs(argv: string[]): string[] {
+  if (argv.includes('--list-sessions')) {
+    return ['sessions', 'list', ...argv.filter((arg) => arg !== '--list-sessions')];
+  }
+
+  const resume = argv.find((arg) => arg.startsWith('--resume='));
+  if (resume && !argv.some((arg) => !arg.startsWith('-'))) {
+    return ['resume', resume.slice('--resume='.length), ...argv.filter((arg) => arg !== resume)];
+  }
+
+  if (argv.some((arg) => arg.startsWith('--prd=')) && argv.every((arg) => arg.startsWith('-'))) {
+    return ['run', ...argv];
+  }
+
+  const session = argv.find((arg) => arg.startsWith('--session='));
+  if (argv[0] === 'rerun' && session) {
+    return ['rerun', session.slice('--session='.length), ...argv.slice(1).filter((arg) => arg !== session)];
+  }
+
+  return argv;
+}
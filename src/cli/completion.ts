@@ -0,0 +1,161 @@
+/**
+ * Shell Completion
+ *
+ * Generates completion scripts from the command tree, so new commands and
+ * options complete without editing the scripts.
+ *
+ * @module cli/completion
+ */
+
+import { collectOptions, type CommandDefinition } from './parser.js';
+
+/**
+ * Shells with completion support
+ */
+export const COMPLETION_SHELLS = ['bash', 'zsh', 'fish'] as const;
+export type CompletionShell = (typeof COMPLETION_SHELLS)[number];
+
+/**
+ * Words completed after one command path
+ */
+interface CompletionEntry {
+  /** Command names from the root, space-joined ('' for the root) */
+  path: string;
+  /** Leaf commands also complete after their positional arguments */
+  isLeaf: boolean;
+  subcommands: { name: string; description: string }[];
+  flags: { flag: string; description: string }[];
+}
+
+/**
+ * Generate a completion script
+ *
+ * @param root - Root command
+ * @param shell - Target shell
+ * @returns Script to source from the shell profile
+ */
+export function generateCompletion<C>(root: CommandDefinition<C>, shell: CompletionShell): string {
+  const entries = collectEntries([root]);
+
+  switch (shell) {
+    case 'bash':
+      return generateBash(entries);
+    case 'zsh':
+      return ['#compdef prism', 'autoload -U +X bashcompinit && bashcompinit', generateBash(entries)].join(
+        '\n'
+      );
+    case 'fish':
+      return generateFish(entries);
+  }
+}
+
+/**
+ * Helper: Flatten the command tree, deepest paths first
+ */
+function collectEntries<C>(chain: CommandDefinition<C>[]): CompletionEntry[] {
+  const command = chain[chain.length - 1]!;
+  const children = (command.subcommands ?? []).flatMap((subcommand) =>
+    collectEntries([...chain, subcommand])
+  );
+
+  const flags = collectOptions(chain).flatMap((option) => [
+    { flag: `--${option.name}`, description: option.description },
+    ...(option.short ? [{ flag: `-${option.short}`, description: option.description }] : []),
+  ]);
+
+  return [
+    ...children,
+    {
+      path: chain
+        .slice(1)
+        .map((entry) => entry.name)
+        .join(' '),
+      isLeaf: !command.subcommands,
+      subcommands: (command.subcommands ?? []).map(({ name, description }) => ({ name, description })),
+      flags,
+    },
+  ];
+}
+
+/**
+ * Helper: Bash script (also used by zsh through bashcompinit)
+ */
+function generateBash(entries: CompletionEntry[]): string {
+  const cases = entries.map((entry) => {
+    const pattern = entry.isLeaf && entry.path ? `"${entry.path}"|"${entry.path} "*` : `"${entry.path}"`;
+    const words = [...entry.subcommands.map((subcommand) => subcommand.name), ...entry.flags.map((f) => f.flag)];
+    return `    ${pattern}) words="${words.join(' ')}" ;;`;
+  });
+
+  return [
+    '# prism shell completion (bash)',
+    '# Install: prism completion bash > /etc/bash_completion.d/prism',
+    '_prism() {',
+    '  local cur="${COMP_WORDS[COMP_CWORD]}"',
+    '  local path="" word words=""',
+    '  for word in "${COMP_WORDS[@]:1:COMP_CWORD-1}"; do',
+    '    case "$word" in',
+    '      -*) ;;',
+    '      *) path="${path:+$path }$word" ;;',
+    '    esac',
+    '  done',
+    '  case "$path" in',
+    ...cases,
+    '  esac',
+    '  COMPREPLY=( $(compgen -W "$words" -- "$cur") )',
+    '}',
+    'complete -o default -F _prism prism',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Helper: Fish script
+ */
+function generateFish(entries: CompletionEntry[]): string {
+  const lines = [
+    '# prism shell completion (fish)',
+    '# Install: prism completion fish > ~/.config/fish/completions/prism.fish',
+    'function __prism_path',
+    '    set -l path',
+    '    for word in (commandline -opc)[2..-1]',
+    "        if not string match -q -- '-*' $word",
+    '            set path $path $word',
+    '        end',
+    '    end',
+    "    string join ' ' -- $path",
+    'end',
+    '',
+    '# Whether the command path is $expected (or, with leaf, $expected plus arguments)',
+    'function __prism_path_is --argument-names expected leaf',
+    '    set -l path (__prism_path)',
+    '    test "$path" = "$expected"; and return 0',
+    '    test -n "$leaf"; and string match -q -- "$expected *" "$path"',
+    'end',
+    '',
+  ];
+
+  for (const entry of entries) {
+    const condition = `__prism_path_is "${entry.path}"${entry.isLeaf && entry.path ? ' leaf' : ''}`;
+
+    for (const subcommand of entry.subcommands) {
+      lines.push(
+        `complete -c prism -f -n '${condition}' -a ${subcommand.name} -d '${escapeFish(subcommand.description)}'`
+      );
+    }
+    for (const { flag, description } of entry.flags) {
+      const name = flag.startsWith('--') ? `-l ${flag.slice(2)}` : `-s ${flag.slice(1)}`;
+      lines.push(`complete -c prism -n '${condition}' ${name} -d '${escapeFish(description)}'`);
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
+
+/**
+ * Helper: Escape a single-quoted fish string
+ */
+function escapeFish(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
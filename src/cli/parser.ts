@@ -0,0 +1,386 @@
+/**
+ * Command Line Parser
+ *
+ * The CLI is a tree of commands (prism sessions list). Each command declares
+ * its positional arguments and options; the declarations drive parsing, the
+ * per-command help and shell completion.
+ *
+ * Options are parsed with node:util parseArgs, so values may contain '='
+ * (--prd=https://wiki.example.com/pages/viewpage.action?pageId=123) and can
+ * be given as --name=value or --name value.
+ *
+ * @module cli/parser
+ */
+
+import { parseArgs, type ParseArgsConfig } from 'util';
+import { UsageError } from '../utils/errors.js';
+import type { ExitCode } from '../utils/exit-codes.js';
+
+/**
+ * Option accepted by a command
+ */
+export interface CommandOption {
+  /** Long name without dashes (e.g. prd) */
+  name: string;
+  type: 'string' | 'boolean';
+  description: string;
+  /** Placeholder shown in help (default: value) */
+  valueName?: string;
+  /** Single-letter alias */
+  short?: string;
+  /** Allowed values */
+  choices?: readonly string[];
+  /** Option must be given */
+  required?: boolean;
+}
+
+/**
+ * Positional argument of a command
+ */
+export interface CommandArgument {
+  name: string;
+  description: string;
+  optional?: boolean;
+  /** Collects all remaining positionals (last argument only) */
+  variadic?: boolean;
+}
+
+/**
+ * Outcome of a command: exit code and the --json result document
+ */
+export interface CommandResult {
+  exitCode: ExitCode;
+  document?: Record<string, unknown>;
+}
+
+/**
+ * Command line resolved to a command
+ */
+export interface ParsedCommand<C> {
+  command: CommandDefinition<C>;
+  /** Command names from the root (e.g. ['sessions', 'show']) */
+  path: string[];
+  /** Positional arguments by name (variadic arguments are space-joined) */
+  args: Record<string, string | undefined>;
+  /** Option values by long name (own and inherited options) */
+  options: Record<string, string | boolean | undefined>;
+}
+
+/**
+ * Command in the command tree
+ *
+ * Options of a command are inherited by its subcommands, so options of the
+ * root command are global.
+ */
+export interface CommandDefinition<C> {
+  name: string;
+  description: string;
+  args?: CommandArgument[];
+  options?: CommandOption[];
+  subcommands?: CommandDefinition<C>[];
+  examples?: string[];
+  /** Extra help sections (e.g. environment variables) */
+  epilog?: string[];
+  /** Calls an LLM provider: the CLI checks environment and credentials first */
+  usesProvider?: boolean | ((parsed: ParsedCommand<C>) => boolean);
+  /** Runs before the provider check (e.g. to pin a resumed session's profile) */
+  prepare?: (parsed: ParsedCommand<C>, context: C) => Promise<void>;
+  /** Handler (commands without one show their help) */
+  run?: (parsed: ParsedCommand<C>, context: C) => Promise<CommandResult>;
+}
+
+/**
+ * Parse a command line against a command tree
+ *
+ * Flags of ancestor commands may appear before the subcommand name
+ * (prism --json sessions list).
+ *
+ * @param root - Root command
+ * @param argv - Arguments without node and script (process.argv.slice(2))
+ * @returns Resolved command with its arguments and options
+ * @throws {UsageError} On unknown commands or options and invalid values
+ */
+export function parseCommandLine<C>(
+  root: CommandDefinition<C>,
+  argv: string[]
+): ParsedCommand<C> {
+  const chain = [root];
+  const rest: string[] = [];
+  let index = 0;
+
+  for (; index < argv.length; index++) {
+    const token = argv[index]!;
+    const current = chain[chain.length - 1]!;
+
+    if (token.startsWith('-')) {
+      // Only self-contained flags can precede a subcommand; "--name value" ends the search
+      if (!isSelfContainedFlag(token, collectOptions(chain))) {
+        break;
+      }
+      rest.push(token);
+      continue;
+    }
+
+    const subcommand = current.subcommands?.find((command) => command.name === token);
+    if (!subcommand) {
+      break;
+    }
+    chain.push(subcommand);
+  }
+
+  rest.push(...argv.slice(index));
+
+  const command = chain[chain.length - 1]!;
+  const path = chain.slice(1).map((entry) => entry.name);
+  const options = collectOptions(chain);
+
+  let parsed: { values: Record<string, unknown>; positionals: string[] };
+  try {
+    parsed = parseArgs({
+      args: rest,
+      options: toParseArgsOptions(options),
+      allowPositionals: true,
+      strict: true,
+    });
+  } catch (error) {
+    // Keep the first sentence; parseArgs appends advice about "--" that does not apply here
+    const message = error instanceof Error ? error.message.split('. ')[0]! : String(error);
+    throw new UsageError(message, [`Run: ${formatCommandName(path)} --help`]);
+  }
+
+  const values = parsed.values as ParsedCommand<C>['options'];
+  const result: ParsedCommand<C> = { command, path, args: {}, options: values };
+
+  // Help is answered before arguments are checked, so `prism run --help` works
+  if (values['help'] || !command.run) {
+    if (!command.run && parsed.positionals.length > 0) {
+      throw new UsageError(`Unknown command: ${formatCommandName([...path, parsed.positionals[0]!])}`, [
+        `Run: ${formatCommandName(path)} --help`,
+      ]);
+    }
+    return result;
+  }
+
+  result.args = bindArguments(command, path, parsed.positionals);
+
+  for (const option of options) {
+    const value = values[option.name];
+
+    if (option.required && value === undefined) {
+      throw new UsageError(`${formatCommandName(path)} requires --${option.name}`, [
+        `Run: ${formatCommandName(path)} --help`,
+      ]);
+    }
+
+    if (option.choices && typeof value === 'string' && !option.choices.includes(value)) {
+      throw new UsageError(`Invalid value for --${option.name}`, [
+        `--${option.name} must be one of: ${option.choices.join(', ')}`,
+        `Provided: ${value}`,
+      ]);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Find a command by its path
+ *
+ * @param root - Root command
+ * @param path - Command names (e.g. ['sessions', 'show'])
+ * @returns The command and the ancestors leading to it
+ * @throws {UsageError} If no command has this path
+ */
+export function findCommand<C>(
+  root: CommandDefinition<C>,
+  path: string[]
+): CommandDefinition<C>[] {
+  const chain = [root];
+
+  for (const name of path) {
+    const next = chain[chain.length - 1]!.subcommands?.find((command) => command.name === name);
+    if (!next) {
+      throw new UsageError(`Unknown command: ${formatCommandName(path)}`, [
+        `Run: ${formatCommandName([])} --help`,
+      ]);
+    }
+    chain.push(next);
+  }
+
+  return chain;
+}
+
+/**
+ * Render help for a command
+ *
+ * @param chain - The command and its ancestors (from findCommand)
+ * @returns Help text
+ */
+export function renderHelp<C>(chain: CommandDefinition<C>[]): string {
+  const command = chain[chain.length - 1]!;
+  const name = formatCommandName(chain.slice(1).map((entry) => entry.name));
+  const ownOptions = command.options ?? [];
+  const inheritedOptions = collectOptions(chain.slice(0, -1));
+  const lines: string[] = [];
+
+  const usage = [name];
+  if (command.subcommands) {
+    usage.push('<command>');
+  }
+  for (const arg of command.args ?? []) {
+    const label = `${arg.name}${arg.variadic ? '...' : ''}`;
+    usage.push(arg.optional ? `[${label}]` : `<${label}>`);
+  }
+  usage.push('[options]');
+
+  lines.push(`Usage: ${usage.join(' ')}`);
+  lines.push('');
+  lines.push(command.description);
+  lines.push('');
+
+  if (command.subcommands) {
+    lines.push('Commands:');
+    for (const subcommand of command.subcommands) {
+      lines.push(formatHelpRow(subcommand.name, subcommand.description));
+    }
+    lines.push('');
+  }
+
+  if (command.args?.length) {
+    lines.push('Arguments:');
+    for (const arg of command.args) {
+      lines.push(formatHelpRow(`<${arg.name}>`, arg.description));
+    }
+    lines.push('');
+  }
+
+  if (ownOptions.length > 0) {
+    lines.push('Options:');
+    lines.push(...ownOptions.map(formatOptionRow));
+    lines.push('');
+  }
+
+  if (inheritedOptions.length > 0) {
+    lines.push('Global Options:');
+    lines.push(...inheritedOptions.map(formatOptionRow));
+    lines.push('');
+  }
+
+  if (command.examples?.length) {
+    lines.push('Examples:');
+    lines.push(...command.examples.map((example) => `  ${example}`));
+    lines.push('');
+  }
+
+  if (command.epilog?.length) {
+    lines.push(...command.epilog);
+    lines.push('');
+  }
+
+  if (command.subcommands) {
+    lines.push(`Run '${name} <command> --help' for help on a command.`);
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Collect the options available to a command (own and inherited)
+ */
+export function collectOptions<C>(chain: CommandDefinition<C>[]): CommandOption[] {
+  return chain.flatMap((command) => command.options ?? []);
+}
+
+/**
+ * Format a command path as typed (e.g. "prism sessions show")
+ */
+export function formatCommandName(path: string[]): string {
+  return ['prism', ...path].join(' ');
+}
+
+/**
+ * Helper: Width of the name column in help output
+ */
+const HELP_COLUMN = 22;
+
+/**
+ * Helper: Format a two-column help row
+ */
+function formatHelpRow(name: string, description: string): string {
+  const padded = name.length < HELP_COLUMN ? name.padEnd(HELP_COLUMN) : `${name} `;
+  return `  ${padded}${description}`;
+}
+
+/**
+ * Helper: Format an option as a help row
+ */
+function formatOptionRow(option: CommandOption): string {
+  const flag =
+    option.type === 'string'
+      ? `--${option.name}=<${option.valueName ?? 'value'}>`
+      : `--${option.name}`;
+  const name = option.short ? `${flag}, -${option.short}` : flag;
+  const choices = option.choices ? ` (${option.choices.join(' | ')})` : '';
+  return formatHelpRow(name, `${option.description}${choices}`);
+}
+
+/**
+ * Helper: Convert option declarations to the parseArgs format
+ */
+function toParseArgsOptions(options: CommandOption[]): NonNullable<ParseArgsConfig['options']> {
+  return Object.fromEntries(
+    options.map((option) => [
+      option.name,
+      option.short ? { type: option.type, short: option.short } : { type: option.type },
+    ])
+  );
+}
+
+/**
+ * Helper: Whether a flag carries its own value (boolean flag or --name=value)
+ */
+function isSelfContainedFlag(token: string, options: CommandOption[]): boolean {
+  if (token.includes('=')) {
+    return true;
+  }
+
+  const option = token.startsWith('--')
+    ? options.find((candidate) => candidate.name === token.slice(2))
+    : options.find((candidate) => candidate.short === token.slice(1));
+  return option?.type === 'boolean';
+}
+
+/**
+ * Helper: Assign positionals to the declared arguments
+ */
+function bindArguments<C>(
+  command: CommandDefinition<C>,
+  path: string[],
+  positionals: string[]
+): Record<string, string | undefined> {
+  const declared = command.args ?? [];
+  const args: Record<string, string | undefined> = {};
+
+  declared.forEach((arg, position) => {
+    const value = arg.variadic
+      ? positionals.slice(position).join(' ') || undefined
+      : positionals[position];
+
+    if (value === undefined && !arg.optional) {
+      throw new UsageError(`Missing argument <${arg.name}>`, [
+        `Run: ${formatCommandName(path)} --help`,
+      ]);
+    }
+    args[arg.name] = value;
+  });
+
+  const last = declared[declared.length - 1];
+  if (!last?.variadic && positionals.length > declared.length) {
+    throw new UsageError(`Unexpected argument: ${positionals[declared.length]}`, [
+      `Run: ${formatCommandName(path)} --help`,
+    ]);
+  }
+
+  return args;
+}
@@ -8,15 +8,42 @@
 export { analyzePRD } from './skills/prd-analyzer.js';
 export { analyzeFigmaDesign, analyzeFigmaFile } from './skills/figma-analyzer.js';
 export { validateRequirements } from './skills/requirements-validator.js';
-export { generateClarifications, collectResponses } from './skills/clarification-manager.js';
+export {
+  generateClarifications,
+  collectResponses,
+  runInteractiveClarification,
+  loadClarificationSession,
+  exportQuestionsFile,
+  importClarificationAnswers,
+  syncChannelClarification,
+  refineRequirements,
+} from './skills/clarification-manager.js';
+export type { ClarificationPrompter } from './skills/clarification-manager.js';
+export type { ClarificationFileFormat } from './skills/clarification-manager/answer-file.js';
 export { generateTDD } from './skills/tdd-generator.js';
 
 // Workflow
-export { executeDiscoveryWorkflow } from './workflows/discovery.js';
+export {
+  executeDiscoveryWorkflow,
+  createDiscoveryPipeline,
+  estimateDiscoveryCost,
+  summarizeDiscoverySession,
+  pauseDiscoverySession,
+  pinSessionProfile,
+} from './workflows/discovery.js';
 export type {
   DiscoveryWorkflowOptions,
   DiscoveryWorkflowResult,
+  DiscoverySummary,
 } from './workflows/discovery.js';
+export { WorkflowPipeline } from './workflows/pipeline.js';
+export type { CostEstimate, StepCostEstimate } from './workflows/estimate.js';
+export type {
+  PipelineStep,
+  PipelineContext,
+  PipelineRunOptions,
+  PipelineRunResult,
+} from './workflows/pipeline.js';
 
 // Types
 export type {
@@ -37,12 +64,40 @@ export type {
   QuestionsOutput,
   ClarificationResponse,
   ClarificationSession,
+  ClarificationDispatch,
+  ClarificationChannel,
+  ClarificationRound,
+  RequirementRevision,
+  RefinementOutput,
 } from './types/question.js';
 
 export type { TDD, APISpecification, DatabaseSchema, ImplementationTask } from './types/tdd.js';
 
-export type { Session, SessionState, WorkflowStep, SessionStatus } from './types/session.js';
+export type {
+  Session,
+  SessionState,
+  WorkflowStep,
+  StepId,
+  CustomStepId,
+  SessionStatus,
+  SessionUsage,
+  ProviderFallbackRecord,
+} from './types/session.js';
 
 // Utilities
-export { WorkflowError } from './utils/errors.js';
+export { WorkflowError, BudgetExceededError, WorkflowPausedError } from './utils/errors.js';
+export { CostTracker } from './utils/cost-tracker.js';
+export { EXIT_CODES, exitCodeForError } from './utils/exit-codes.js';
+export type { ExitCode } from './utils/exit-codes.js';
+export { resolveConfig } from './utils/config-resolver.js';
+export type { ResolvedConfig, ConfigOrigin, ConfigSource } from './utils/config-resolver.js';
+export {
+  WorkflowEventBus,
+  subscribeConsole,
+  subscribeJSONLines,
+  createConsoleEventBus,
+} from './utils/events.js';
+export type { WorkflowEvent, WorkflowEventType, WorkflowEventOf } from './utils/events.js';
+export type { StepUsage } from './utils/cost-tracker.js';
 export { createLLMProvider } from './providers/index.js';
+export type { TokenUsage } from './providers/index.js';
@@ -5,20 +5,37 @@ import type {
   GenerateOptions,
   ProviderInfo,
 } from './types.js';
+import { reportUsage } from './usage.js';
+import {
+  DEFAULT_MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  generateWithRepair,
+  resolveMaxRepairAttempts,
+  toJSONSchema,
+} from './structured.js';
 
 /**
  * Anthropic Claude provider adapter
  *
  * Implements the unified LLM interface for Anthropic's Claude models.
+ * Structured output is requested through a forced tool call whose input
+ * schema is the JSON Schema of the Zod schema.
  * Default model: Claude Sonnet 4.5
  */
 export class AnthropicProvider implements LLMProvider {
   private client: Anthropic;
   private defaultModel: string;
+  private maxRepairAttempts: number;
 
-  constructor(apiKey: string, model?: string) {
+  /**
+   * @param apiKey - Anthropic API key
+   * @param model - Model override
+   * @param maxRepairAttempts - Retries after invalid structured output (default: 2)
+   */
+  constructor(apiKey: string, model?: string, maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS) {
     this.client = new Anthropic({ apiKey });
     this.defaultModel = model || 'claude-sonnet-4-5-20250929';
+    this.maxRepairAttempts = maxRepairAttempts;
   }
 
   async generateText(
@@ -31,7 +48,9 @@ export class AnthropicProvider implements LLMProvider {
       temperature: options?.temperature ?? 0,
       messages: [{ role: 'user', content: prompt }],
       stop_sequences: options?.stopSequences,
-    });
+    }, { signal: options?.signal });
+
+    reportUsage(this, options, response.usage.input_tokens, response.usage.output_tokens);
 
     const textContent = response.content.find((block) => block.type === 'text');
     if (!textContent || textContent.type !== 'text') {
@@ -52,16 +71,25 @@ export class AnthropicProvider implements LLMProvider {
       messages: [{ role: 'user', content: prompt }],
       stop_sequences: options?.stopSequences,
       stream: true,
-    });
+    }, { signal: options?.signal });
+
+    let inputTokens = 0;
+    let outputTokens = 0;
 
     for await (const event of stream) {
-      if (
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === 'message_delta') {
+        outputTokens = event.usage.output_tokens;
+      } else if (
         event.type === 'content_block_delta' &&
         event.delta.type === 'text_delta'
       ) {
         yield event.delta.text;
       }
     }
+
+    reportUsage(this, options, inputTokens, outputTokens);
   }
 
   async generateStructured<T>(
@@ -69,40 +97,67 @@ export class AnthropicProvider implements LLMProvider {
     schema: ZodSchema<T>,
     options?: GenerateOptions
   ): Promise<T> {
-    // Use tool calling for structured output
-    const response = await this.client.messages.create({
-      model: options?.model || this.defaultModel,
-      max_tokens: options?.maxTokens || 8000,
-      temperature: options?.temperature ?? 0,
-      messages: [{ role: 'user', content: prompt }],
-      tools: [
-        {
-          name: 'provide_structured_output',
-          description: 'Provide the structured output matching the schema',
-          input_schema: {
-            type: 'object',
-            properties: {
-              output: {
-                type: 'object',
-                description: 'The structured output',
-              },
+    // Tool input schemas must be objects; wrap anything else in an output field
+    const jsonSchema = toJSONSchema(schema);
+    const wrapped = jsonSchema['type'] !== 'object';
+    const inputSchema = wrapped
+      ? { type: 'object' as const, properties: { output: jsonSchema }, required: ['output'] }
+      : { ...jsonSchema, type: 'object' as const };
+
+    const messages: Anthropic.MessageParam[] = [{ role: 'user', content: prompt }];
+
+    return generateWithRepair(
+      schema,
+      resolveMaxRepairAttempts(options, this.maxRepairAttempts),
+      this.getInfo().name,
+      async () => {
+        // Use tool calling for structured output
+        const response = await this.client.messages.create({
+          model: options?.model || this.defaultModel,
+          max_tokens: options?.maxTokens || 8000,
+          temperature: options?.temperature ?? 0,
+          messages,
+          tools: [
+            {
+              name: 'provide_structured_output',
+              description: 'Provide the structured output matching the schema',
+              input_schema: inputSchema,
             },
-            required: ['output'],
-          },
-        },
-      ],
-      tool_choice: { type: 'tool', name: 'provide_structured_output' },
-    });
-
-    // Extract tool use result
-    const toolUse = response.content.find((block) => block.type === 'tool_use');
-    if (!toolUse || toolUse.type !== 'tool_use') {
-      throw new Error('No tool use in Anthropic response');
-    }
+          ],
+          tool_choice: { type: 'tool', name: 'provide_structured_output' },
+        }, { signal: options?.signal });
+
+        reportUsage(this, options, response.usage.input_tokens, response.usage.output_tokens);
 
-    // Validate with Zod schema
-    const result = schema.parse(toolUse.input);
-    return result;
+        // Extract tool use result
+        const toolUse = response.content.find((block) => block.type === 'tool_use');
+        if (!toolUse || toolUse.type !== 'tool_use') {
+          throw new Error('No tool use in Anthropic response');
+        }
+
+        const input = toolUse.input as Record<string, unknown>;
+
+        return {
+          output: wrapped ? input['output'] : input,
+          // Reject the tool call with the validation error so the model retries
+          repair: (error) =>
+            messages.push(
+              { role: 'assistant', content: response.content },
+              {
+                role: 'user',
+                content: [
+                  {
+                    type: 'tool_result',
+                    tool_use_id: toolUse.id,
+                    is_error: true,
+                    content: buildRepairPrompt(error),
+                  },
+                ],
+              }
+            ),
+        };
+      }
+    );
   }
 
   getInfo(): ProviderInfo {
@@ -0,0 +1,137 @@
+import { join } from 'path';
+import type { ZodSchema } from 'zod';
+import type { LLMProvider, GenerateOptions } from './types.js';
+import { readJSON, writeJSON, fileExists } from '../utils/files.js';
+import { hashContent } from '../utils/hash.js';
+
+/**
+ * Content-addressed cache for structured LLM results
+ *
+ * Sits in front of LLMProvider.generateStructured. Entries are keyed by the
+ * skill input hash, prompt template hash, provider and model, and stored
+ * under .prism/cache so identical re-runs skip the LLM call entirely.
+ */
+
+/**
+ * Cache lookup options
+ */
+export interface StructuredCacheOptions {
+  /** Whether to read and write the cache (default: true) */
+  enabled?: boolean;
+  /** Hash of the skill input (e.g. PRD content) */
+  inputHash: string;
+  /** Hash of the raw prompt template */
+  templateHash: string;
+  /** Cache directory (default: .prism/cache in the working directory) */
+  cacheDir?: string;
+}
+
+/**
+ * Structured result with cache status
+ */
+export interface CachedStructuredResult<T> {
+  result: T;
+  cacheHit: boolean;
+  cacheKey?: string;
+}
+
+/**
+ * Cache entry file format
+ */
+interface CacheEntry {
+  created_at: string; // ISO8601
+  provider: string;
+  model: string;
+  result: unknown;
+}
+
+/**
+ * Get default cache directory
+ */
+export function getCacheDir(): string {
+  return join(process.cwd(), '.prism', 'cache');
+}
+
+/**
+ * Compute cache key for a structured LLM call
+ */
+export function computeCacheKey(
+  inputHash: string,
+  templateHash: string,
+  provider: string,
+  model: string
+): string {
+  return hashContent(inputHash, templateHash, provider, model);
+}
+
+/**
+ * Generate structured output, serving identical requests from the cache
+ *
+ * Cached entries that no longer match the schema are treated as misses.
+ * Results are stored under the provider and model that produced them, which
+ * differ from the requested ones when a fallback provider answered.
+ *
+ * @param llm - Provider used on cache miss
+ * @param prompt - Prepared prompt
+ * @param schema - Zod schema for validation
+ * @param options - Generation options
+ * @param cache - Cache key parts and settings
+ * @returns Result and whether it came from the cache
+ */
+export async function generateStructuredWithCache<T>(
+  llm: LLMProvider,
+  prompt: string,
+  schema: ZodSchema<T>,
+  options: GenerateOptions | undefined,
+  cache: StructuredCacheOptions
+): Promise<CachedStructuredResult<T>> {
+  if (cache.enabled === false) {
+    return { result: await llm.generateStructured(prompt, schema, options), cacheHit: false };
+  }
+
+  const info = llm.getInfo();
+  const model = options?.model || info.model;
+  const cacheKey = computeCacheKey(cache.inputHash, cache.templateHash, info.name, model);
+  const entryPath = join(cache.cacheDir ?? getCacheDir(), `${cacheKey}.json`);
+
+  if (await fileExists(entryPath)) {
+    try {
+      const entry = await readJSON<CacheEntry>(entryPath);
+      return { result: schema.parse(entry.result), cacheHit: true, cacheKey };
+    } catch {
+      // Corrupted or outdated entry, regenerate below
+    }
+  }
+
+  const result = await llm.generateStructured(prompt, schema, options);
+
+  // A fallback chain may have answered with another provider: file the result under that one
+  const served = llm.getInfo();
+  if (served.name !== info.name || served.model !== info.model) {
+    const servedKey = computeCacheKey(cache.inputHash, cache.templateHash, served.name, served.model);
+    await writeCacheEntry(cache, servedKey, served.name, served.model, result);
+    return { result, cacheHit: false, cacheKey: servedKey };
+  }
+
+  await writeCacheEntry(cache, cacheKey, info.name, model, result);
+  return { result, cacheHit: false, cacheKey };
+}
+
+/**
+ * Helper: Store a result under its cache key
+ */
+async function writeCacheEntry(
+  cache: StructuredCacheOptions,
+  cacheKey: string,
+  provider: string,
+  model: string,
+  result: unknown
+): Promise<void> {
+  const entry: CacheEntry = {
+    created_at: new Date().toISOString(),
+    provider,
+    model,
+    result,
+  };
+  await writeJSON(join(cache.cacheDir ?? getCacheDir(), `${cacheKey}.json`), entry);
+}
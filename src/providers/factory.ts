@@ -1,57 +1,86 @@
-import { config } from 'dotenv';
 import type {
   LLMProvider,
   ProviderConfig,
   ProviderFallbackEvent,
+  ProviderInfo,
 } from './types.js';
 import { AnthropicProvider } from './anthropic.js';
 import { OpenAIProvider } from './openai.js';
 import { GoogleProvider } from './google.js';
+import { LocalProvider } from './local.js';
+import { ReplayProvider, RecordingProvider } from './replay.js';
+import {
+  FallbackProvider,
+  applyMiddleware,
+  withCircuitBreaker,
+  withRetry,
+  withTimeout,
+  withBeforeRequest,
+  createCircuitBreakerState,
+  type CircuitBreakerState,
+} from './middleware.js';
+import { ConfigurationError } from '../utils/errors.js';
+import { resolveConfig } from '../utils/config-resolver.js';
 
-// Load environment variables
-config();
+/**
+ * Providers that can take part in the fallback chain
+ */
+type ChainProvider = 'anthropic' | 'openai' | 'google' | 'local';
 
 /**
  * Provider fallback chain order (per FR-054)
- * Claude → GPT-4 → Gemini
+ * Claude → GPT-4 → Gemini → Local
+ *
+ * Providers without credentials (or, for local, without a base URL) are skipped.
  */
-const FALLBACK_CHAIN: Array<'anthropic' | 'openai' | 'google'> = [
+const FALLBACK_CHAIN: ChainProvider[] = [
   'anthropic',
   'openai',
   'google',
+  'local',
 ];
 
+/**
+ * Circuit breaker state per provider, shared by every createLLMProvider call
+ * in the process so a provider that is down fails fast for all skills
+ */
+const circuitBreakers = new Map<ChainProvider, CircuitBreakerState>();
+
 /**
  * Fallback notification callback
  */
 export type FallbackNotifier = (event: ProviderFallbackEvent) => void;
 
 /**
- * Load provider configuration from environment variables
+ * Load provider configuration
+ *
+ * Settings come from the layered configuration (defaults, config files,
+ * environment, CLI flags); API keys come from the environment only.
+ *
  * @returns Provider configuration
  */
 export function loadProviderConfig(): ProviderConfig {
-  const provider = (process.env['AI_PROVIDER'] || 'anthropic') as
-    | 'anthropic'
-    | 'openai'
-    | 'google';
+  const { llm } = resolveConfig().config;
 
   const apiKeys = {
     anthropic: process.env['ANTHROPIC_API_KEY'],
     openai: process.env['OPENAI_API_KEY'],
     google: process.env['GOOGLE_API_KEY'],
+    local: process.env['LOCAL_LLM_API_KEY'],
   };
 
   return {
-    provider,
+    provider: llm.provider as ChainProvider | 'replay',
     apiKeys,
-    model: process.env['AI_MODEL'],
-    temperature: process.env['AI_TEMPERATURE']
-      ? parseFloat(process.env['AI_TEMPERATURE'])
-      : undefined,
-    maxTokens: process.env['AI_MAX_TOKENS']
-      ? parseInt(process.env['AI_MAX_TOKENS'], 10)
-      : undefined,
+    localBaseUrl: llm.localBaseUrl,
+    localModel: llm.localModel,
+    model: llm.model,
+    temperature: llm.temperature,
+    maxTokens: llm.maxTokens,
+    recordFixtures: process.env['PRISM_RECORD_FIXTURES'] === 'true',
+    maxRepairAttempts: llm.maxRepairAttempts,
+    maxRetries: llm.maxRetries,
+    requestTimeoutMs: llm.requestTimeoutMs,
   };
 }
 
@@ -60,12 +89,29 @@ export function loadProviderConfig(): ProviderConfig {
  * @param providerName - Provider to create
  * @param config - Provider configuration
  * @returns LLM provider instance
- * @throws Error if API key is missing
+ * @throws Error if API key (or local base URL) is missing
  */
 function createProviderInstance(
-  providerName: 'anthropic' | 'openai' | 'google',
+  providerName: ChainProvider,
   config: ProviderConfig
 ): LLMProvider {
+  if (providerName === 'local') {
+    if (!config.localBaseUrl) {
+      throw new Error(
+        'Base URL for local provider not found in environment. Please set LOCAL_LLM_BASE_URL in .env file (e.g. http://localhost:11434/v1).'
+      );
+    }
+
+    // AI_MODEL names a hosted model unless local is the selected provider
+    const model = config.localModel || (config.provider === 'local' ? config.model : undefined);
+    return new LocalProvider(
+      config.localBaseUrl,
+      model,
+      config.apiKeys.local,
+      config.maxRepairAttempts
+    );
+  }
+
   const apiKey = config.apiKeys[providerName];
 
   if (!apiKey) {
@@ -76,116 +122,138 @@ function createProviderInstance(
 
   switch (providerName) {
     case 'anthropic':
-      return new AnthropicProvider(apiKey, config.model);
+      return new AnthropicProvider(apiKey, config.model, config.maxRepairAttempts);
     case 'openai':
-      return new OpenAIProvider(apiKey, config.model);
+      return new OpenAIProvider(apiKey, config.model, config.maxRepairAttempts);
     case 'google':
-      return new GoogleProvider(apiKey, config.model);
+      return new GoogleProvider(apiKey, config.model, config.maxRepairAttempts);
   }
 }
 
 /**
- * Determine if an error is transient (retry-able) or permanent
- * Per FR-056: Fallback for transient failures, not authentication errors
+ * Get model and pricing for the configured provider without calling its API
+ *
+ * Used for cost estimates, which must work before credentials are validated.
+ *
+ * @param config - Provider configuration (default: from environment)
+ * @returns Provider information
  */
-function isTransientError(error: unknown): boolean {
-  if (!(error instanceof Error)) {
-    return false;
+export function getProviderInfo(config: ProviderConfig = loadProviderConfig()): ProviderInfo {
+  if (config.provider === 'replay') {
+    return new ReplayProvider().getInfo();
   }
 
-  const message = error.message.toLowerCase();
-
-  // Authentication errors are permanent
-  if (
-    message.includes('authentication') ||
-    message.includes('unauthorized') ||
-    message.includes('invalid api key') ||
-    message.includes('api key not found')
-  ) {
-    return false;
-  }
+  // No request is made, so placeholder credentials are enough to read pricing
+  return createProviderInstance(config.provider, {
+    ...config,
+    apiKeys: { ...config.apiKeys, [config.provider]: config.apiKeys[config.provider] || 'unused' },
+    localBaseUrl: config.localBaseUrl || 'http://localhost',
+  }).getInfo();
+}
 
-  // Rate limits and timeouts are transient
-  if (
-    message.includes('rate limit') ||
-    message.includes('quota') ||
-    message.includes('timeout') ||
-    message.includes('temporarily unavailable') ||
-    message.includes('503') ||
-    message.includes('429')
-  ) {
-    return true;
-  }
+/**
+ * Check whether a provider has what it needs to be tried
+ */
+function isProviderConfigured(providerName: ChainProvider, config: ProviderConfig): boolean {
+  return providerName === 'local' ? !!config.localBaseUrl : !!config.apiKeys[providerName];
+}
 
-  return false;
+/**
+ * Options for createLLMProvider
+ */
+export interface CreateLLMProviderOptions {
+  /** Workflow abort signal (WorkflowTimeoutManager.getSignal()); cancels in-flight requests */
+  signal?: AbortSignal;
+  /**
+   * Called before each request is sent; throwing stops it (e.g. once the
+   * session budget is spent). Not called again for retries or fallbacks.
+   */
+  beforeRequest?: () => void;
 }
 
 /**
  * Create LLM provider with automatic fallback chain (FR-054, FR-055)
  *
- * Attempts providers in order: Claude → GPT-4 → Gemini
- * Notifies user when fallback occurs
+ * Every configured provider in the chain Claude → GPT-4 → Gemini → Local
+ * (starting with AI_PROVIDER) is wrapped with a circuit breaker, retry with
+ * jittered backoff and a request timeout. Each call falls back along the
+ * chain on transient failures and notifies the user when it does. Circuit
+ * breakers are kept per provider across calls, so once a provider's circuit
+ * opens, later calls skip it until the cooldown ends.
+ *
+ * AI_PROVIDER=replay returns a ReplayProvider instead (offline, no fallback).
+ * PRISM_RECORD_FIXTURES=true wraps the live provider in a RecordingProvider.
  *
  * @param onFallback - Optional callback for fallback notifications
+ * @param options - Workflow signal for request cancellation and pre-request check
  * @returns LLM provider instance
- * @throws Error if no provider is available
+ * @throws {ConfigurationError} If no provider is configured
  */
 export async function createLLMProvider(
-  onFallback?: FallbackNotifier
+  onFallback?: FallbackNotifier,
+  options: CreateLLMProviderOptions = {}
 ): Promise<LLMProvider> {
   const config = loadProviderConfig();
 
+  // Offline replay of recorded responses: no API key or fallback
+  const provider =
+    config.provider === 'replay'
+      ? new ReplayProvider()
+      : createFallbackChain(config, onFallback, options.signal);
+
+  return options.beforeRequest
+    ? applyMiddleware(provider, withBeforeRequest(options.beforeRequest))
+    : provider;
+}
+
+/**
+ * Helper: Build the fallback chain of live providers, starting with AI_PROVIDER
+ */
+function createFallbackChain(
+  config: ProviderConfig,
+  onFallback: FallbackNotifier | undefined,
+  signal: AbortSignal | undefined
+): LLMProvider {
   // Get fallback chain starting with configured provider
-  const providerIndex = FALLBACK_CHAIN.indexOf(config.provider);
+  const providerIndex = FALLBACK_CHAIN.indexOf(config.provider as ChainProvider);
   const orderedProviders = [
     ...FALLBACK_CHAIN.slice(providerIndex),
     ...FALLBACK_CHAIN.slice(0, providerIndex),
   ];
 
-  let lastError: Error | undefined;
+  // Skip providers without an API key (or local endpoint)
+  const chain = orderedProviders
+    .filter((providerName) => isProviderConfigured(providerName, config))
+    .map((providerName) => ({
+      name: providerName,
+      provider: applyMiddleware(
+        createProviderInstance(providerName, config),
+        withCircuitBreaker({ state: getCircuitBreakerState(providerName) }),
+        withRetry({ maxRetries: config.maxRetries }),
+        withTimeout({ timeoutMs: config.requestTimeoutMs, signal })
+      ),
+    }));
 
-  for (const providerName of orderedProviders) {
-    // Skip if no API key available
-    if (!config.apiKeys[providerName]) {
-      continue;
-    }
+  const primary = chain[0];
+  if (!primary) {
+    throw new ConfigurationError(
+      'No AI provider configured. Please set an API key (or LOCAL_LLM_BASE_URL) in .env file.',
+      'AI_PROVIDER'
+    );
+  }
 
-    try {
-      const provider = createProviderInstance(providerName, config);
-
-      // Test provider with simple request
-      await provider.generateText('test', { maxTokens: 1 });
-
-      // Notify if this isn't the primary provider (fallback occurred)
-      if (providerName !== config.provider && onFallback) {
-        onFallback({
-          failedProvider: config.provider,
-          reason: lastError?.message || 'Unknown error',
-          activeProvider: providerName,
-          timestamp: new Date(),
-        });
-      }
-
-      return provider;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Only continue fallback chain for transient errors
-      if (!isTransientError(error)) {
-        throw new Error(
-          `Permanent error with ${providerName}: ${lastError.message}. Please check your API key and try again.`
-        );
-      }
-
-      // Continue to next provider in fallback chain
-      continue;
-    }
+  // The selected provider has no credentials, so the chain starts further down
+  if (primary.name !== config.provider) {
+    onFallback?.({
+      failedProvider: config.provider,
+      reason: 'not configured',
+      activeProvider: primary.name,
+      timestamp: new Date(),
+    });
   }
 
-  // All providers failed
-  throw new Error(
-    `All AI providers failed. Last error: ${lastError?.message}. Please check your API keys in .env file and ensure at least one provider is configured.`
-  );
+  const provider = new FallbackProvider(chain, onFallback);
+  return config.recordFixtures ? new RecordingProvider(provider) : provider;
 }
 
 /**
@@ -198,3 +266,22 @@ export async function createLLMProviderWithNotification(): Promise<LLMProvider>
     );
   });
 }
+
+/**
+ * Close every provider's circuit (e.g. between tests)
+ */
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear();
+}
+
+/**
+ * Helper: Circuit breaker state of a provider, created on first use
+ */
+function getCircuitBreakerState(providerName: ChainProvider): CircuitBreakerState {
+  let state = circuitBreakers.get(providerName);
+  if (!state) {
+    state = createCircuitBreakerState();
+    circuitBreakers.set(providerName, state);
+  }
+  return state;
+}
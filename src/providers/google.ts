@@ -1,24 +1,46 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  GoogleGenerativeAI,
+  type Content,
+  type ResponseSchema,
+} from '@google/generative-ai';
 import type { ZodSchema } from 'zod';
 import type {
   LLMProvider,
   GenerateOptions,
   ProviderInfo,
 } from './types.js';
+import { reportUsage } from './usage.js';
+import {
+  DEFAULT_MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  generateWithRepair,
+  resolveMaxRepairAttempts,
+  toGeminiSchema,
+  toJSONSchema,
+} from './structured.js';
 
 /**
  * Google Gemini provider adapter
  *
  * Implements the unified LLM interface for Google's Gemini models.
+ * Structured output uses JSON mode with a responseSchema when the schema
+ * fits Gemini's OpenAPI subset.
  * Default model: Gemini Pro
  */
 export class GoogleProvider implements LLMProvider {
   private client: GoogleGenerativeAI;
   private defaultModel: string;
-
-  constructor(apiKey: string, model?: string) {
+  private maxRepairAttempts: number;
+
+  /**
+   * @param apiKey - Google AI API key
+   * @param model - Model override
+   * @param maxRepairAttempts - Retries after invalid structured output (default: 2)
+   */
+  constructor(apiKey: string, model?: string, maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS) {
     this.client = new GoogleGenerativeAI(apiKey);
     this.defaultModel = model || 'gemini-pro';
+    this.maxRepairAttempts = maxRepairAttempts;
   }
 
   async generateText(
@@ -36,7 +58,10 @@ export class GoogleProvider implements LLMProvider {
         maxOutputTokens: options?.maxTokens || 8000,
         stopSequences: options?.stopSequences,
       },
-    });
+    }, { signal: options?.signal });
+
+    const usage = result.response.usageMetadata;
+    reportUsage(this, options, usage?.promptTokenCount ?? 0, usage?.candidatesTokenCount ?? 0);
 
     const text = result.response.text();
     if (!text) {
@@ -61,7 +86,7 @@ export class GoogleProvider implements LLMProvider {
         maxOutputTokens: options?.maxTokens || 8000,
         stopSequences: options?.stopSequences,
       },
-    });
+    }, { signal: options?.signal });
 
     for await (const chunk of result.stream) {
       const text = chunk.text();
@@ -69,6 +94,9 @@ export class GoogleProvider implements LLMProvider {
         yield text;
       }
     }
+
+    const usage = (await result.response).usageMetadata;
+    reportUsage(this, options, usage?.promptTokenCount ?? 0, usage?.candidatesTokenCount ?? 0);
   }
 
   async generateStructured<T>(
@@ -80,26 +108,54 @@ export class GoogleProvider implements LLMProvider {
       model: options?.model || this.defaultModel,
     });
 
-    // Request JSON output in prompt
-    const jsonPrompt = `${prompt}\n\nYou must respond with valid JSON only, no additional text.`;
-
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: jsonPrompt }] }],
-      generationConfig: {
-        temperature: options?.temperature ?? 0,
-        maxOutputTokens: options?.maxTokens || 8000,
+    // Schemas Gemini cannot express are described in the prompt instead
+    const responseSchema = toGeminiSchema(schema);
+    const contents: Content[] = [
+      {
+        role: 'user',
+        parts: [
+          {
+            text: responseSchema
+              ? prompt
+              : `${prompt}\n\nRespond with JSON matching this JSON Schema:\n${JSON.stringify(toJSONSchema(schema))}`,
+          },
+        ],
       },
-    });
-
-    const text = result.response.text();
-    if (!text) {
-      throw new Error('No text in Google Gemini response');
-    }
-
-    // Parse JSON and validate with Zod schema
-    const parsed = JSON.parse(text);
-    const validated = schema.parse(parsed);
-    return validated;
+    ];
+
+    return generateWithRepair(
+      schema,
+      resolveMaxRepairAttempts(options, this.maxRepairAttempts),
+      this.getInfo().name,
+      async () => {
+        const result = await model.generateContent({
+          contents,
+          generationConfig: {
+            temperature: options?.temperature ?? 0,
+            maxOutputTokens: options?.maxTokens || 8000,
+            responseMimeType: 'application/json',
+            responseSchema: responseSchema as ResponseSchema | undefined,
+          },
+        }, { signal: options?.signal });
+
+        const usage = result.response.usageMetadata;
+        reportUsage(this, options, usage?.promptTokenCount ?? 0, usage?.candidatesTokenCount ?? 0);
+
+        const text = result.response.text();
+        if (!text) {
+          throw new Error('No text in Google Gemini response');
+        }
+
+        return {
+          output: text,
+          repair: (error) =>
+            contents.push(
+              { role: 'model', parts: [{ text }] },
+              { role: 'user', parts: [{ text: buildRepairPrompt(error) }] }
+            ),
+        };
+      }
+    );
   }
 
   getInfo(): ProviderInfo {
@@ -1,16 +1,40 @@
 /**
  * LLM Provider Abstraction Layer
  *
- * Unified interface for multi-provider AI operations (Claude, GPT-4, Gemini)
+ * Unified interface for multi-provider AI operations (Claude, GPT-4, Gemini, local)
+ * plus offline replay of recorded responses
  * Per Constitutional Principle VIII: Skills must NEVER call provider SDKs directly
  */
 
 export * from './types.js';
+export { reportUsage } from './usage.js';
+export { toJSONSchema, DEFAULT_MAX_REPAIR_ATTEMPTS } from './structured.js';
 export { AnthropicProvider } from './anthropic.js';
 export { OpenAIProvider } from './openai.js';
 export { GoogleProvider } from './google.js';
+export { LocalProvider } from './local.js';
+export { ReplayProvider, RecordingProvider } from './replay.js';
+export {
+  FallbackProvider,
+  applyMiddleware,
+  withRetry,
+  withTimeout,
+  withBeforeRequest,
+  withCircuitBreaker,
+  createCircuitBreakerState,
+  isTransientError,
+  type ProviderMiddleware,
+  type FallbackEntry,
+  type RetryOptions,
+  type TimeoutOptions,
+  type CircuitBreakerOptions,
+  type CircuitBreakerState,
+} from './middleware.js';
 export {
   createLLMProvider,
   createLLMProviderWithNotification,
   loadProviderConfig,
+  getProviderInfo,
+  resetCircuitBreakers,
+  type CreateLLMProviderOptions,
 } from './factory.js';
@@ -0,0 +1,170 @@
+import OpenAI from 'openai';
+import type { ZodSchema } from 'zod';
+import type {
+  LLMProvider,
+  GenerateOptions,
+  ProviderInfo,
+} from './types.js';
+import { reportUsage } from './usage.js';
+import {
+  DEFAULT_MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  generateWithRepair,
+  resolveMaxRepairAttempts,
+  toJSONSchema,
+} from './structured.js';
+
+/**
+ * Local OpenAI-compatible provider adapter
+ *
+ * Talks to any endpoint implementing the OpenAI chat completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio) so PRDs never leave the network.
+ * Local models follow JSON instructions less reliably than hosted ones, so
+ * structured output is validated and repaired in a retry loop.
+ * Default model: llama3.1
+ */
+export class LocalProvider implements LLMProvider {
+  private client: OpenAI;
+  private defaultModel: string;
+  private maxRepairAttempts: number;
+
+  /**
+   * @param baseURL - Endpoint base URL (e.g. http://localhost:11434/v1)
+   * @param model - Model name served by the endpoint
+   * @param apiKey - Optional key for secured endpoints
+   * @param maxRepairAttempts - Retries after invalid structured output (default: 2)
+   */
+  constructor(
+    baseURL: string,
+    model?: string,
+    apiKey?: string,
+    maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS
+  ) {
+    // The SDK requires a key; local servers ignore it
+    this.client = new OpenAI({ baseURL, apiKey: apiKey || 'local' });
+    this.defaultModel = model || 'llama3.1';
+    this.maxRepairAttempts = maxRepairAttempts;
+  }
+
+  async generateText(
+    prompt: string,
+    options?: GenerateOptions
+  ): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: options?.model || this.defaultModel,
+      max_tokens: options?.maxTokens || 8000,
+      temperature: options?.temperature ?? 0,
+      messages: [{ role: 'user', content: prompt }],
+      stop: options?.stopSequences,
+    }, { signal: options?.signal });
+
+    reportUsage(
+      this,
+      options,
+      response.usage?.prompt_tokens ?? 0,
+      response.usage?.completion_tokens ?? 0
+    );
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error('No content in local provider response');
+    }
+
+    return content;
+  }
+
+  async *streamText(
+    prompt: string,
+    options?: GenerateOptions
+  ): AsyncGenerator<string> {
+    const stream = await this.client.chat.completions.create({
+      model: options?.model || this.defaultModel,
+      max_tokens: options?.maxTokens || 8000,
+      temperature: options?.temperature ?? 0,
+      messages: [{ role: 'user', content: prompt }],
+      stop: options?.stopSequences,
+      stream: true,
+    }, { signal: options?.signal });
+
+    for await (const chunk of stream) {
+      // Not every server sends usage for streams
+      if (chunk.usage) {
+        reportUsage(this, options, chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+      }
+
+      const content = chunk.choices[0]?.delta?.content;
+      if (content) {
+        yield content;
+      }
+    }
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    // Not every local server supports json_schema, so the schema goes in the prompt
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      {
+        role: 'system',
+        content: `You must respond with valid JSON matching this JSON Schema:\n${JSON.stringify(toJSONSchema(schema))}`,
+      },
+      { role: 'user', content: prompt },
+    ];
+
+    return generateWithRepair(
+      schema,
+      resolveMaxRepairAttempts(options, this.maxRepairAttempts),
+      this.getInfo().name,
+      async () => {
+        // Use JSON mode for structured output
+        const response = await this.client.chat.completions.create({
+          model: options?.model || this.defaultModel,
+          max_tokens: options?.maxTokens || 8000,
+          temperature: options?.temperature ?? 0,
+          messages,
+          response_format: { type: 'json_object' },
+        }, { signal: options?.signal });
+
+        reportUsage(
+          this,
+          options,
+          response.usage?.prompt_tokens ?? 0,
+          response.usage?.completion_tokens ?? 0
+        );
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new Error('No content in local provider response');
+        }
+
+        return {
+          output: content,
+          // Feed the problem back so the model can repair its answer
+          repair: (error) =>
+            messages.push(
+              { role: 'assistant', content },
+              { role: 'user', content: buildRepairPrompt(error) }
+            ),
+        };
+      }
+    );
+  }
+
+  getInfo(): ProviderInfo {
+    return {
+      name: 'Local',
+      model: this.defaultModel,
+      inputCostPer1K: 0, // Self-hosted, no per-token billing
+      outputCostPer1K: 0,
+    };
+  }
+
+  estimateCost(inputTokens: number, outputTokens: number): number {
+    const info = this.getInfo();
+    const inputCost = (inputTokens / 1000) * info.inputCostPer1K;
+    const outputCost = (outputTokens / 1000) * info.outputCostPer1K;
+    return inputCost + outputCost;
+  }
+}
@@ -0,0 +1,478 @@
+import { setTimeout as sleep } from 'timers/promises';
+import type { ZodSchema } from 'zod';
+import type {
+  LLMProvider,
+  GenerateOptions,
+  ProviderInfo,
+  ProviderFallbackEvent,
+} from './types.js';
+import { ProviderError } from '../utils/errors.js';
+
+/**
+ * Call-level resilience for LLM providers
+ *
+ * Middleware wraps any LLMProvider and returns another LLMProvider, so layers
+ * compose freely: retry with jittered backoff, a per-request timeout tied to
+ * the workflow abort signal, and a circuit breaker. FallbackProvider tries a
+ * chain of (wrapped) providers on every call, so a provider that starts
+ * failing mid-session hands over to the next one instead of failing the step.
+ *
+ * Streams are retried and fall back only until the first chunk arrives.
+ */
+
+/**
+ * Wraps a provider with additional behavior
+ */
+export type ProviderMiddleware = (provider: LLMProvider) => LLMProvider;
+
+/**
+ * Apply middleware to a provider (first middleware is the outermost layer)
+ */
+export function applyMiddleware(
+  provider: LLMProvider,
+  ...middleware: ProviderMiddleware[]
+): LLMProvider {
+  return middleware.reduceRight((wrapped, layer) => layer(wrapped), provider);
+}
+
+/**
+ * Runs one request; may be called more than once with adjusted options
+ */
+type RequestRunner<R> = (options: GenerateOptions | undefined) => Promise<R>;
+
+/**
+ * Intercepts every request made through a provider
+ */
+type RequestInterceptor = <R>(
+  run: RequestRunner<R>,
+  options: GenerateOptions | undefined
+) => Promise<R>;
+
+/**
+ * Helper: Build a provider that routes every request through an interceptor
+ */
+function interceptRequests(inner: LLMProvider, intercept: RequestInterceptor): LLMProvider {
+  return {
+    generateText: (prompt, options) =>
+      intercept((opts) => inner.generateText(prompt, opts), options),
+
+    streamText: (prompt, options) =>
+      interceptStream((opts) => inner.streamText(prompt, opts), options, intercept),
+
+    generateStructured: <T>(prompt: string, schema: ZodSchema<T>, options?: GenerateOptions) =>
+      intercept((opts) => inner.generateStructured(prompt, schema, opts), options),
+
+    getInfo: () => inner.getInfo(),
+
+    estimateCost: (inputTokens, outputTokens) => inner.estimateCost(inputTokens, outputTokens),
+  };
+}
+
+/**
+ * Helper: Intercept a stream up to its first chunk, then pass the rest through
+ */
+async function* interceptStream(
+  open: (options: GenerateOptions | undefined) => AsyncGenerator<string>,
+  options: GenerateOptions | undefined,
+  intercept: RequestInterceptor
+): AsyncGenerator<string> {
+  const { stream, first } = await intercept(async (opts) => {
+    const stream = open(opts);
+    return { stream, first: await stream.next() };
+  }, options);
+
+  if (first.done) {
+    return;
+  }
+
+  yield first.value;
+  yield* stream;
+}
+
+/**
+ * Determine if an error is transient (retry-able) or permanent
+ * Per FR-056: Fallback for transient failures, not authentication errors
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+
+  // Workflow aborts must stop the run, not move on to another provider
+  if (error.name === 'AbortError') {
+    return false;
+  }
+
+  if (error instanceof ProviderError) {
+    return error.isTransient;
+  }
+
+  // SDK errors carry the HTTP status
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const message = error.message.toLowerCase();
+
+  // Authentication errors are permanent
+  if (
+    message.includes('authentication') ||
+    message.includes('unauthorized') ||
+    message.includes('invalid api key') ||
+    message.includes('api key not found')
+  ) {
+    return false;
+  }
+
+  // Rate limits, timeouts and unreachable endpoints are transient
+  if (
+    message.includes('connection error') ||
+    message.includes('econnrefused') ||
+    message.includes('rate limit') ||
+    message.includes('quota') ||
+    message.includes('timeout') ||
+    message.includes('temporarily unavailable') ||
+    message.includes('503') ||
+    message.includes('429')
+  ) {
+    return true;
+  }
+
+  return false;
+}
+
+/**
+ * Run a check before every request; a check that throws stops the request
+ *
+ * Applied outside retry and fallback, so the check runs once per request
+ * rather than once per attempt.
+ */
+export function withBeforeRequest(check: () => void): ProviderMiddleware {
+  return (provider) =>
+    interceptRequests(provider, async (run, requestOptions) => {
+      check();
+      return run(requestOptions);
+    });
+}
+
+/**
+ * Retry options
+ */
+export interface RetryOptions {
+  /** Retries after the first failure (default: 2) */
+  maxRetries?: number;
+  /** Delay before the first retry; doubles on each retry (default: 1000) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay (default: 10000) */
+  maxDelayMs?: number;
+  /** Which errors to retry (default: isTransientError) */
+  isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Retry transient failures with exponential backoff and full jitter
+ *
+ * Each delay is random between 0 and the exponential cap, so parallel steps
+ * hitting the same rate limit do not retry in lockstep.
+ */
+export function withRetry(options: RetryOptions = {}): ProviderMiddleware {
+  const maxRetries = options.maxRetries ?? 2;
+  const baseDelayMs = options.baseDelayMs ?? 1000;
+  const maxDelayMs = options.maxDelayMs ?? 10000;
+  const isRetryable = options.isRetryable ?? isTransientError;
+
+  return (provider) =>
+    interceptRequests(provider, async (run, requestOptions) => {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await run(requestOptions);
+        } catch (error) {
+          if (attempt >= maxRetries || !isRetryable(error) || requestOptions?.signal?.aborted) {
+            throw error;
+          }
+
+          // An abort during the delay ends the retries with an AbortError
+          const cap = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+          await sleep(Math.random() * cap, undefined, { signal: requestOptions?.signal });
+        }
+      }
+    });
+}
+
+/**
+ * Timeout options
+ */
+export interface TimeoutOptions {
+  /** Maximum duration of a single request (default: 180000) */
+  timeoutMs?: number;
+  /** Workflow signal (WorkflowTimeoutManager.getSignal()); aborting it cancels requests */
+  signal?: AbortSignal;
+}
+
+/**
+ * Abort requests that exceed a timeout or outlive the workflow
+ *
+ * The combined signal is passed to the provider SDK so the HTTP request is
+ * cancelled. A request timeout fails with a transient ProviderError (so it
+ * is retried or falls back); a workflow abort fails with an AbortError.
+ */
+export function withTimeout(options: TimeoutOptions = {}): ProviderMiddleware {
+  const timeoutMs = options.timeoutMs ?? 180000;
+
+  return (provider) =>
+    interceptRequests(provider, async (run, requestOptions) => {
+      const workflowSignal = requestOptions?.signal ?? options.signal;
+      const timeoutSignal = AbortSignal.timeout(timeoutMs);
+      const { signal, dispose } = workflowSignal
+        ? combineSignals(workflowSignal, timeoutSignal)
+        : { signal: timeoutSignal, dispose: () => undefined };
+
+      let onAbort: (() => void) | undefined;
+      const aborted = new Promise<never>((_, reject) => {
+        onAbort = () => {
+          if (workflowSignal?.aborted) {
+            const error = new Error('Request cancelled: workflow aborted');
+            error.name = 'AbortError';
+            reject(error);
+          } else {
+            reject(
+              new ProviderError(
+                `Request timed out after ${timeoutMs}ms`,
+                provider.getInfo().name,
+                true
+              )
+            );
+          }
+        };
+
+        if (signal.aborted) {
+          onAbort();
+        } else {
+          signal.addEventListener('abort', onAbort, { once: true });
+        }
+      });
+
+      try {
+        // Providers that ignore the signal are still cut off by the race
+        return await Promise.race([run({ ...requestOptions, signal }), aborted]);
+      } finally {
+        signal.removeEventListener('abort', onAbort!);
+        dispose();
+        aborted.catch(() => undefined);
+      }
+    });
+}
+
+/**
+ * Circuit breaker options
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive transient failures that open the circuit (default: 3) */
+  failureThreshold?: number;
+  /** How long the circuit stays open before a trial request (default: 60000) */
+  cooldownMs?: number;
+  /** Failure history to share between providers calling the same backend (default: one per provider) */
+  state?: CircuitBreakerState;
+}
+
+/**
+ * Failure history of a circuit breaker
+ */
+export interface CircuitBreakerState {
+  /** Consecutive transient failures */
+  failures: number;
+  /** When the circuit opened (undefined while closed) */
+  openedAt?: number;
+  trialInFlight: boolean;
+}
+
+/**
+ * Create a closed circuit breaker state
+ */
+export function createCircuitBreakerState(): CircuitBreakerState {
+  return { failures: 0, trialInFlight: false };
+}
+
+/**
+ * Stop calling a provider after repeated transient failures
+ *
+ * While open, requests fail immediately with a transient ProviderError, so a
+ * FallbackProvider moves on without waiting for another timeout. After the
+ * cooldown one trial request is let through: success closes the circuit,
+ * failure opens it again. Pass a shared `state` to keep the history across
+ * provider instances.
+ */
+export function withCircuitBreaker(options: CircuitBreakerOptions = {}): ProviderMiddleware {
+  const failureThreshold = options.failureThreshold ?? 3;
+  const cooldownMs = options.cooldownMs ?? 60000;
+
+  return (provider) => {
+    const state = options.state ?? createCircuitBreakerState();
+
+    return interceptRequests(provider, async (run, requestOptions) => {
+      const isTrial = state.openedAt !== undefined;
+
+      if (isTrial) {
+        if (state.trialInFlight || Date.now() - state.openedAt! < cooldownMs) {
+          throw new ProviderError(
+            `Circuit open after ${state.failures} consecutive failures`,
+            provider.getInfo().name,
+            true
+          );
+        }
+        state.trialInFlight = true;
+      }
+
+      try {
+        const result = await run(requestOptions);
+        state.failures = 0;
+        state.openedAt = undefined;
+        return result;
+      } catch (error) {
+        if (isTransientError(error)) {
+          state.failures++;
+          if (isTrial || state.failures >= failureThreshold) {
+            state.openedAt = Date.now();
+          }
+        }
+        throw error;
+      } finally {
+        if (isTrial) {
+          state.trialInFlight = false;
+        }
+      }
+    });
+  };
+}
+
+/**
+ * Provider in a fallback chain
+ */
+export interface FallbackEntry {
+  /** Chain name reported in fallback events (e.g. anthropic) */
+  name: string;
+  provider: LLMProvider;
+}
+
+/**
+ * Provider that falls back across a chain on every call
+ *
+ * Each request starts with the first provider. Transient failures move on to
+ * the next provider and emit a ProviderFallbackEvent; permanent failures
+ * (authentication, invalid output) are thrown immediately.
+ */
+export class FallbackProvider implements LLMProvider {
+  private active: FallbackEntry;
+
+  /**
+   * @param chain - Providers in fallback order (at least one)
+   * @param onFallback - Called whenever a request moves to another provider
+   */
+  constructor(
+    private readonly chain: FallbackEntry[],
+    private readonly onFallback?: (event: ProviderFallbackEvent) => void
+  ) {
+    if (chain.length === 0) {
+      throw new Error('Fallback chain must contain at least one provider');
+    }
+    this.active = chain[0]!;
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    return this.runWithFallback((provider) => provider.generateText(prompt, options));
+  }
+
+  async *streamText(prompt: string, options?: GenerateOptions): AsyncGenerator<string> {
+    const { stream, first } = await this.runWithFallback(async (provider) => {
+      const stream = provider.streamText(prompt, options);
+      return { stream, first: await stream.next() };
+    });
+
+    if (first.done) {
+      return;
+    }
+
+    yield first.value;
+    yield* stream;
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    return this.runWithFallback((provider) =>
+      provider.generateStructured(prompt, schema, options)
+    );
+  }
+
+  /**
+   * Info of the provider that served the most recent request
+   */
+  getInfo(): ProviderInfo {
+    return this.active.provider.getInfo();
+  }
+
+  estimateCost(inputTokens: number, outputTokens: number): number {
+    return this.active.provider.estimateCost(inputTokens, outputTokens);
+  }
+
+  /**
+   * Helper: Try each provider in order until one succeeds
+   */
+  private async runWithFallback<R>(run: (provider: LLMProvider) => Promise<R>): Promise<R> {
+    let lastError: Error | undefined;
+    let failed: FallbackEntry | undefined;
+
+    for (const entry of this.chain) {
+      if (failed) {
+        this.onFallback?.({
+          failedProvider: failed.name,
+          reason: lastError?.message || 'Unknown error',
+          activeProvider: entry.name,
+          timestamp: new Date(),
+        });
+      }
+
+      try {
+        const result = await run(entry.provider);
+        this.active = entry;
+        return result;
+      } catch (error) {
+        if (!isTransientError(error)) {
+          throw error;
+        }
+
+        lastError = error instanceof Error ? error : new Error(String(error));
+        failed = entry;
+      }
+    }
+
+    throw new Error(
+      `All AI providers failed. Last error: ${lastError?.message}. Please check your API keys (or LOCAL_LLM_BASE_URL) in .env file and ensure at least one provider is configured.`
+    );
+  }
+}
+
+/**
+ * Helper: Signal that aborts when any of the given signals does
+ *
+ * Stands in for AbortSignal.any (Node 20.3+). Call dispose once the request
+ * is done, so a long-lived workflow signal does not collect listeners.
+ */
+function combineSignals(...signals: AbortSignal[]): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const dispose = () => signals.forEach((signal) => signal.removeEventListener('abort', abort));
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort();
+      break;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+  }
+
+  return { signal: controller.signal, dispose };
+}
@@ -5,20 +5,37 @@ import type {
   GenerateOptions,
   ProviderInfo,
 } from './types.js';
+import { reportUsage } from './usage.js';
+import {
+  DEFAULT_MAX_REPAIR_ATTEMPTS,
+  buildRepairPrompt,
+  generateWithRepair,
+  resolveMaxRepairAttempts,
+  toJSONSchema,
+} from './structured.js';
 
 /**
  * OpenAI GPT-4 provider adapter
  *
  * Implements the unified LLM interface for OpenAI's GPT-4 models.
- * Default model: GPT-4 Turbo
+ * Structured output uses response_format json_schema, which requires
+ * gpt-4o or newer.
+ * Default model: GPT-4o
  */
 export class OpenAIProvider implements LLMProvider {
   private client: OpenAI;
   private defaultModel: string;
+  private maxRepairAttempts: number;
 
-  constructor(apiKey: string, model?: string) {
+  /**
+   * @param apiKey - OpenAI API key
+   * @param model - Model override
+   * @param maxRepairAttempts - Retries after invalid structured output (default: 2)
+   */
+  constructor(apiKey: string, model?: string, maxRepairAttempts = DEFAULT_MAX_REPAIR_ATTEMPTS) {
     this.client = new OpenAI({ apiKey });
-    this.defaultModel = model || 'gpt-4-turbo-preview';
+    this.defaultModel = model || 'gpt-4o';
+    this.maxRepairAttempts = maxRepairAttempts;
   }
 
   async generateText(
@@ -31,7 +48,14 @@ export class OpenAIProvider implements LLMProvider {
       temperature: options?.temperature ?? 0,
       messages: [{ role: 'user', content: prompt }],
       stop: options?.stopSequences,
-    });
+    }, { signal: options?.signal });
+
+    reportUsage(
+      this,
+      options,
+      response.usage?.prompt_tokens ?? 0,
+      response.usage?.completion_tokens ?? 0
+    );
 
     const content = response.choices[0]?.message?.content;
     if (!content) {
@@ -52,9 +76,15 @@ export class OpenAIProvider implements LLMProvider {
       messages: [{ role: 'user', content: prompt }],
       stop: options?.stopSequences,
       stream: true,
-    });
+      stream_options: { include_usage: true },
+    }, { signal: options?.signal });
 
     for await (const chunk of stream) {
+      // The final chunk carries usage and no choices
+      if (chunk.usage) {
+        reportUsage(this, options, chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+      }
+
       const content = chunk.choices[0]?.delta?.content;
       if (content) {
         yield content;
@@ -67,39 +97,65 @@ export class OpenAIProvider implements LLMProvider {
     schema: ZodSchema<T>,
     options?: GenerateOptions
   ): Promise<T> {
-    // Use JSON mode for structured output
-    const response = await this.client.chat.completions.create({
-      model: options?.model || this.defaultModel,
-      max_tokens: options?.maxTokens || 8000,
-      temperature: options?.temperature ?? 0,
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You must respond with valid JSON matching the requested schema.',
-        },
-        { role: 'user', content: prompt },
-      ],
-      response_format: { type: 'json_object' },
-    });
+    const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+      {
+        role: 'system',
+        content: 'You must respond with valid JSON matching the requested schema.',
+      },
+      { role: 'user', content: prompt },
+    ];
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content in OpenAI response');
-    }
+    return generateWithRepair(
+      schema,
+      resolveMaxRepairAttempts(options, this.maxRepairAttempts),
+      this.getInfo().name,
+      async () => {
+        // Non-strict mode: strict schemas cannot have optional properties
+        const response = await this.client.chat.completions.create({
+          model: options?.model || this.defaultModel,
+          max_tokens: options?.maxTokens || 8000,
+          temperature: options?.temperature ?? 0,
+          messages,
+          response_format: {
+            type: 'json_schema',
+            json_schema: {
+              name: 'structured_output',
+              schema: toJSONSchema(schema),
+              strict: false,
+            },
+          },
+        }, { signal: options?.signal });
 
-    // Parse JSON and validate with Zod schema
-    const parsed = JSON.parse(content);
-    const result = schema.parse(parsed);
-    return result;
+        reportUsage(
+          this,
+          options,
+          response.usage?.prompt_tokens ?? 0,
+          response.usage?.completion_tokens ?? 0
+        );
+
+        const content = response.choices[0]?.message?.content;
+        if (!content) {
+          throw new Error('No content in OpenAI response');
+        }
+
+        return {
+          output: content,
+          repair: (error) =>
+            messages.push(
+              { role: 'assistant', content },
+              { role: 'user', content: buildRepairPrompt(error) }
+            ),
+        };
+      }
+    );
   }
 
   getInfo(): ProviderInfo {
     return {
       name: 'OpenAI GPT-4',
       model: this.defaultModel,
-      inputCostPer1K: 0.01, // $10 per million tokens = $0.01 per 1K
-      outputCostPer1K: 0.03, // $30 per million tokens = $0.03 per 1K
+      inputCostPer1K: 0.0025, // $2.50 per million tokens = $0.0025 per 1K
+      outputCostPer1K: 0.01, // $10 per million tokens = $0.01 per 1K
     };
   }
 
@@ -0,0 +1,252 @@
+import { join } from 'path';
+import type { ZodSchema } from 'zod';
+import type {
+  LLMProvider,
+  GenerateOptions,
+  ProviderInfo,
+  TokenUsage,
+} from './types.js';
+import { reportUsage } from './usage.js';
+import { readJSON, writeJSON, fileExists } from '../utils/files.js';
+import { hashContent } from '../utils/hash.js';
+import { ProviderError } from '../utils/errors.js';
+
+/**
+ * Recorded LLM responses for offline runs
+ *
+ * RecordingProvider wraps a live provider and saves each response as a
+ * fixture file; ReplayProvider serves those fixtures without network access.
+ * Fixtures are keyed by a hash of the request kind and the prompt, with
+ * session IDs and timestamps masked so recordings replay across sessions.
+ */
+
+/**
+ * Request kinds that can be recorded
+ *
+ * streamText is recorded and replayed as a single text chunk.
+ */
+type FixtureKind = 'text' | 'structured';
+
+/**
+ * Fixture file format
+ */
+interface ReplayFixture {
+  kind: FixtureKind;
+  recorded_at: string; // ISO8601
+  /** Provider that produced the response */
+  provider: string;
+  model: string;
+  /** Start of the prompt, to make fixtures recognizable when browsing */
+  prompt_preview: string;
+  response: unknown;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+/**
+ * Get fixture directory (PRISM_FIXTURES_DIR or .prism/fixtures)
+ */
+export function getFixturesDir(): string {
+  return process.env['PRISM_FIXTURES_DIR'] || join(process.cwd(), '.prism', 'fixtures');
+}
+
+/**
+ * Mask values that change on every run (session IDs, ISO timestamps)
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .replace(/sess-\d{13}/g, 'sess-{id}')
+    .replace(/\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})/g, '{timestamp}');
+}
+
+/**
+ * Compute fixture key for a request
+ */
+export function computeFixtureKey(kind: FixtureKind, prompt: string): string {
+  return hashContent(kind, normalizePrompt(prompt));
+}
+
+/**
+ * Provider that serves recorded responses from fixture files
+ *
+ * Selected with AI_PROVIDER=replay. Never makes network requests.
+ */
+export class ReplayProvider implements LLMProvider {
+  private fixturesDir: string;
+
+  constructor(fixturesDir?: string) {
+    this.fixturesDir = fixturesDir ?? getFixturesDir();
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    const fixture = await this.loadFixture('text', prompt, options);
+
+    if (typeof fixture.response !== 'string') {
+      throw new ProviderError('Recorded text response is not a string', 'replay', false);
+    }
+
+    return fixture.response;
+  }
+
+  async *streamText(prompt: string, options?: GenerateOptions): AsyncGenerator<string> {
+    yield await this.generateText(prompt, options);
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    const fixture = await this.loadFixture('structured', prompt, options);
+    return schema.parse(fixture.response);
+  }
+
+  getInfo(): ProviderInfo {
+    return {
+      name: 'Replay',
+      model: 'replay',
+      inputCostPer1K: 0,
+      outputCostPer1K: 0,
+    };
+  }
+
+  estimateCost(inputTokens: number, outputTokens: number): number {
+    const info = this.getInfo();
+    const inputCost = (inputTokens / 1000) * info.inputCostPer1K;
+    const outputCost = (outputTokens / 1000) * info.outputCostPer1K;
+    return inputCost + outputCost;
+  }
+
+  /**
+   * Helper: Load the fixture for a request and report its recorded usage
+   */
+  private async loadFixture(
+    kind: FixtureKind,
+    prompt: string,
+    options?: GenerateOptions
+  ): Promise<ReplayFixture> {
+    const key = computeFixtureKey(kind, prompt);
+    const fixturePath = join(this.fixturesDir, `${key}.json`);
+
+    if (!(await fileExists(fixturePath))) {
+      throw new ProviderError(
+        `No recorded ${kind} response for prompt ${key.slice(0, 12)} in ${this.fixturesDir}. ` +
+          'Record it by running with a live provider and PRISM_RECORD_FIXTURES=true.',
+        'replay',
+        false
+      );
+    }
+
+    const fixture = await readJSON<ReplayFixture>(fixturePath);
+    reportUsage(this, options, fixture.usage?.input_tokens ?? 0, fixture.usage?.output_tokens ?? 0);
+    return fixture;
+  }
+}
+
+/**
+ * Wrapper that records responses of a live provider as replay fixtures
+ *
+ * Enabled with PRISM_RECORD_FIXTURES=true.
+ */
+export class RecordingProvider implements LLMProvider {
+  private fixturesDir: string;
+
+  constructor(
+    private readonly inner: LLMProvider,
+    fixturesDir?: string
+  ) {
+    this.fixturesDir = fixturesDir ?? getFixturesDir();
+  }
+
+  async generateText(prompt: string, options?: GenerateOptions): Promise<string> {
+    const { options: recordedOptions, getUsage } = captureUsage(options);
+    const response = await this.inner.generateText(prompt, recordedOptions);
+    await this.saveFixture('text', prompt, response, options, getUsage());
+    return response;
+  }
+
+  async *streamText(prompt: string, options?: GenerateOptions): AsyncGenerator<string> {
+    const { options: recordedOptions, getUsage } = captureUsage(options);
+    let response = '';
+
+    for await (const chunk of this.inner.streamText(prompt, recordedOptions)) {
+      response += chunk;
+      yield chunk;
+    }
+
+    await this.saveFixture('text', prompt, response, options, getUsage());
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: ZodSchema<T>,
+    options?: GenerateOptions
+  ): Promise<T> {
+    const { options: recordedOptions, getUsage } = captureUsage(options);
+    const response = await this.inner.generateStructured(prompt, schema, recordedOptions);
+    await this.saveFixture('structured', prompt, response, options, getUsage());
+    return response;
+  }
+
+  getInfo(): ProviderInfo {
+    return this.inner.getInfo();
+  }
+
+  estimateCost(inputTokens: number, outputTokens: number): number {
+    return this.inner.estimateCost(inputTokens, outputTokens);
+  }
+
+  /**
+   * Helper: Write the fixture for a completed request
+   */
+  private async saveFixture(
+    kind: FixtureKind,
+    prompt: string,
+    response: unknown,
+    options: GenerateOptions | undefined,
+    usage: TokenUsage | undefined
+  ): Promise<void> {
+    const info = this.inner.getInfo();
+    const key = computeFixtureKey(kind, prompt);
+
+    const fixture: ReplayFixture = {
+      kind,
+      recorded_at: new Date().toISOString(),
+      provider: info.name,
+      model: options?.model || info.model,
+      prompt_preview: normalizePrompt(prompt).slice(0, 200),
+      response,
+      usage: usage && {
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+      },
+    };
+
+    await writeJSON(join(this.fixturesDir, `${key}.json`), fixture);
+    // stderr, so recording does not corrupt --json and --output=jsonl on stdout
+    process.stderr.write(`📼 Recorded ${kind} response (${key.slice(0, 12)})\n`);
+  }
+}
+
+/**
+ * Helper: Intercept onUsage so the recording keeps usage while still forwarding it
+ */
+function captureUsage(options: GenerateOptions | undefined): {
+  options: GenerateOptions;
+  getUsage: () => TokenUsage | undefined;
+} {
+  let captured: TokenUsage | undefined;
+
+  return {
+    options: {
+      ...options,
+      onUsage: (usage) => {
+        captured = usage;
+        options?.onUsage?.(usage);
+      },
+    },
+    getUsage: () => captured,
+  };
+}
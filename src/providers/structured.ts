@@ -0,0 +1,236 @@
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { ZodSchema, ZodError } from 'zod';
+import type { GenerateOptions } from './types.js';
+
+/**
+ * Shared structured output support for the provider adapters
+ *
+ * Converts Zod schemas into JSON Schema so each provider can constrain its
+ * output natively, and runs the validate-and-repair loop: when a response
+ * fails Zod validation, the issues are sent back to the model and it gets
+ * another attempt, up to a configurable limit.
+ */
+
+/**
+ * JSON Schema object as sent to provider APIs
+ */
+export type JSONSchema = Record<string, unknown>;
+
+/**
+ * Repair attempts used when neither the provider nor the request sets a limit
+ */
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Result of one structured request
+ */
+export interface StructuredAttempt {
+  /** Raw model output (JSON text, or an already-parsed value such as tool input) */
+  output: unknown;
+  /** Add the rejected output and the validation error to the conversation */
+  repair: (error: string) => void;
+}
+
+/**
+ * Convert a Zod schema into a self-contained JSON Schema (no $ref)
+ *
+ * @param schema - Zod schema
+ * @param target - openApi3 for providers that use the OpenAPI subset (Gemini)
+ * @returns JSON Schema without the $schema keyword
+ */
+export function toJSONSchema(
+  schema: ZodSchema,
+  target: 'jsonSchema7' | 'openApi3' = 'jsonSchema7'
+): JSONSchema {
+  const { $schema: _ignored, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: 'none',
+    target,
+  }) as JSONSchema;
+  return jsonSchema;
+}
+
+/**
+ * Keywords the Gemini responseSchema accepts
+ */
+const GEMINI_SCHEMA_KEYS = new Set([
+  'type',
+  'format',
+  'description',
+  'nullable',
+  'enum',
+  'properties',
+  'required',
+  'items',
+  'minItems',
+  'maxItems',
+]);
+
+/**
+ * Convert a Zod schema into a Gemini responseSchema
+ *
+ * Gemini understands a subset of OpenAPI 3. Unsupported keywords (length
+ * limits, patterns) are dropped since Zod still validates them. Returns
+ * undefined when the schema needs constructs Gemini cannot express at all
+ * (free-form records, unions), so the caller falls back to plain JSON mode.
+ *
+ * @param schema - Zod schema
+ * @returns Gemini schema, or undefined if not representable
+ */
+export function toGeminiSchema(schema: ZodSchema): JSONSchema | undefined {
+  return sanitizeGeminiSchema(toJSONSchema(schema, 'openApi3'));
+}
+
+/**
+ * Helper: Reduce an OpenAPI schema node to the Gemini subset
+ */
+function sanitizeGeminiSchema(node: JSONSchema): JSONSchema | undefined {
+  if (typeof node['type'] !== 'string') {
+    return undefined;
+  }
+
+  // Objects need declared properties; additionalProperties is not supported
+  if (node['type'] === 'object') {
+    const properties = node['properties'] as Record<string, JSONSchema> | undefined;
+    if (!properties || Object.keys(properties).length === 0 || isOpenRecord(node)) {
+      return undefined;
+    }
+  }
+
+  const result: JSONSchema = {};
+
+  for (const [key, value] of Object.entries(node)) {
+    if (!GEMINI_SCHEMA_KEYS.has(key)) {
+      continue;
+    }
+
+    if (key === 'properties') {
+      const properties: Record<string, JSONSchema> = {};
+      for (const [name, child] of Object.entries(value as Record<string, JSONSchema>)) {
+        const sanitized = sanitizeGeminiSchema(child);
+        if (!sanitized) {
+          return undefined;
+        }
+        properties[name] = sanitized;
+      }
+      result[key] = properties;
+    } else if (key === 'items') {
+      const items = sanitizeGeminiSchema(value as JSONSchema);
+      if (!items) {
+        return undefined;
+      }
+      result[key] = items;
+    } else if (key === 'format') {
+      // Only enum and date-time formats are accepted for strings
+      if (value === 'date-time') {
+        result[key] = value;
+      }
+    } else {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Helper: Whether an object schema allows arbitrary extra keys
+ */
+function isOpenRecord(node: JSONSchema): boolean {
+  const additional = node['additionalProperties'];
+  return additional !== undefined && additional !== false;
+}
+
+/**
+ * Parse and validate a structured response, describing what is wrong if it fails
+ *
+ * @param output - JSON text or an already-parsed value
+ * @param schema - Zod schema
+ */
+export function validateStructuredOutput<T>(
+  output: unknown,
+  schema: ZodSchema<T>
+): { success: true; data: T } | { success: false; error: string } {
+  let parsed = output;
+
+  if (typeof output === 'string') {
+    try {
+      parsed = JSON.parse(output);
+    } catch (error) {
+      return {
+        success: false,
+        error: `not valid JSON (${error instanceof Error ? error.message : String(error)})`,
+      };
+    }
+  }
+
+  const result = schema.safeParse(parsed);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+
+  return { success: false, error: formatZodIssues(result.error) };
+}
+
+/**
+ * Summarize Zod issues as "path: message" pairs
+ */
+export function formatZodIssues(error: ZodError): string {
+  return error.issues
+    .slice(0, 10)
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+/**
+ * Build the message that asks the model to fix its previous answer
+ */
+export function buildRepairPrompt(error: string): string {
+  return `Your response was invalid: ${error}\nRespond again with output that matches the schema.`;
+}
+
+/**
+ * Request structured output, feeding validation errors back until it is valid
+ *
+ * @param schema - Zod schema for validation
+ * @param maxRepairAttempts - Retries after the first invalid response
+ * @param providerName - Provider name for the final error
+ * @param attempt - Sends the current conversation and returns the raw output
+ * @returns Validated output
+ * @throws Error if the output is still invalid after all repair attempts
+ */
+export async function generateWithRepair<T>(
+  schema: ZodSchema<T>,
+  maxRepairAttempts: number,
+  providerName: string,
+  attempt: () => Promise<StructuredAttempt>
+): Promise<T> {
+  let lastError = '';
+
+  for (let count = 0; count <= maxRepairAttempts; count++) {
+    const { output, repair } = await attempt();
+
+    const validation = validateStructuredOutput(output, schema);
+    if (validation.success) {
+      return validation.data;
+    }
+
+    lastError = validation.error;
+    if (count < maxRepairAttempts) {
+      repair(validation.error);
+    }
+  }
+
+  throw new Error(
+    `${providerName} returned invalid structured output after ${maxRepairAttempts + 1} attempts: ${lastError}`
+  );
+}
+
+/**
+ * Resolve the repair limit for a request (request option, then provider default)
+ */
+export function resolveMaxRepairAttempts(
+  options: GenerateOptions | undefined,
+  providerDefault: number
+): number {
+  return options?.maxRepairAttempts ?? providerDefault;
+}
@@ -12,6 +12,28 @@ export interface GenerateOptions {
   model?: string;
   /** Stop sequences */
   stopSequences?: string[];
+  /** Called with the token usage reported for each request */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Retries after structured output fails schema validation (overrides the provider default) */
+  maxRepairAttempts?: number;
+  /** Cancels the in-flight request (e.g. on workflow timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Token usage reported by a provider for a single request
+ */
+export interface TokenUsage {
+  /** Prompt tokens billed */
+  inputTokens: number;
+  /** Completion tokens billed */
+  outputTokens: number;
+  /** Cost in USD at the provider's pricing */
+  costUsd: number;
+  /** Provider name */
+  provider: ProviderInfo['name'];
+  /** Model that served the request */
+  model: string;
 }
 
 /**
@@ -19,7 +41,7 @@ export interface GenerateOptions {
  */
 export interface ProviderInfo {
   /** Provider name */
-  name: 'Anthropic Claude' | 'OpenAI GPT-4' | 'Google Gemini';
+  name: 'Anthropic Claude' | 'OpenAI GPT-4' | 'Google Gemini' | 'Local' | 'Replay';
   /** Specific model version */
   model: string;
   /** Cost per 1K input tokens (USD) */
@@ -32,7 +54,8 @@ export interface ProviderInfo {
  * Unified interface for AI provider operations
  *
  * All skills must use this interface (never call provider SDKs directly).
- * Supports: Anthropic Claude, OpenAI GPT-4, Google Gemini
+ * Supports: Anthropic Claude, OpenAI GPT-4, Google Gemini, local OpenAI-compatible
+ * endpoints, plus offline replay
  */
 export interface LLMProvider {
   /**
@@ -86,20 +109,33 @@ export interface LLMProvider {
  * Provider configuration from environment
  */
 export interface ProviderConfig {
-  /** Selected provider */
-  provider: 'anthropic' | 'openai' | 'google';
-  /** API keys for each provider */
+  /** Selected provider (replay serves recorded fixtures offline) */
+  provider: 'anthropic' | 'openai' | 'google' | 'local' | 'replay';
+  /** API keys for each provider (optional for local endpoints) */
   apiKeys: {
     anthropic?: string;
     openai?: string;
     google?: string;
+    local?: string;
   };
+  /** Base URL of the local OpenAI-compatible endpoint (enables the local provider) */
+  localBaseUrl?: string;
+  /** Model served by the local endpoint */
+  localModel?: string;
   /** Optional model override */
   model?: string;
   /** Default temperature */
   temperature?: number;
   /** Default max tokens */
   maxTokens?: number;
+  /** Record live responses as replay fixtures */
+  recordFixtures?: boolean;
+  /** Retries after structured output fails schema validation */
+  maxRepairAttempts?: number;
+  /** Retries per provider after a transient failure */
+  maxRetries?: number;
+  /** Per-request timeout in milliseconds */
+  requestTimeoutMs?: number;
 }
 
 /**
@@ -0,0 +1,32 @@
+import type { LLMProvider, GenerateOptions } from './types.js';
+
+/**
+ * Report token usage for a completed request
+ *
+ * Shared by the provider adapters so every provider prices usage the same
+ * way (via estimateCost) before handing it to GenerateOptions.onUsage.
+ *
+ * @param provider - Provider that served the request
+ * @param options - Generation options of the request
+ * @param inputTokens - Prompt tokens reported by the API
+ * @param outputTokens - Completion tokens reported by the API
+ */
+export function reportUsage(
+  provider: LLMProvider,
+  options: GenerateOptions | undefined,
+  inputTokens: number,
+  outputTokens: number
+): void {
+  if (!options?.onUsage) {
+    return;
+  }
+
+  const info = provider.getInfo();
+  options.onUsage({
+    inputTokens,
+    outputTokens,
+    costUsd: provider.estimateCost(inputTokens, outputTokens),
+    provider: info.name,
+    model: options.model || info.model,
+  });
+}
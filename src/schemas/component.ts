@@ -37,6 +37,7 @@ export const ComponentSchema = z.object({
   name: z.string().min(1),
   type: z.string().min(1),
   category: ComponentCategorySchema,
+  description: z.string().optional(),
   variants: z.array(ComponentVariantSchema),
   properties: z.array(ComponentPropertySchema),
   design_tokens: DesignTokensSchema,
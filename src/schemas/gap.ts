@@ -18,6 +18,7 @@ export const GapSchema = z
     type: GapTypeSchema,
     severity: GapSeveritySchema,
     requirement_id: z.string().optional(),
+    related_requirement_ids: z.array(z.string()).optional(),
     component_id: z.string().optional(),
     description: z.string().min(1),
     stakeholder: z.array(StakeholderTypeSchema),
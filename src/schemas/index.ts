@@ -10,3 +10,4 @@ export * from './component.js';
 export * from './gap.js';
 export * from './question.js';
 export * from './session.js';
+export * from './traceability.js';
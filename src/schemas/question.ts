@@ -15,6 +15,7 @@ export const ClarificationQuestionSchema = z
     response: z.string().optional(),
     confidence: z.number().min(0).max(1).optional(),
     gap_id: z.string(),
+    related_gap_ids: z.array(z.string()).optional(),
   })
   .refine(
     (data) => !data.response || data.confidence !== undefined,
@@ -25,6 +26,8 @@ export const QuestionsOutputSchema = z.object({
   metadata: z.object({
     generated_at: z.string().datetime(),
     total_questions: z.number().int().min(0),
+    total_gaps: z.number().int().min(0).optional(),
+    input_hash: z.string().optional(),
     critical_count: z.number().int().min(0),
     high_count: z.number().int().min(0),
     medium_count: z.number().int().min(0),
@@ -51,6 +54,51 @@ export const ClarificationSessionSchema = z.object({
   responses: z.array(ClarificationResponseSchema),
 });
 
+export const ClarificationDispatchSchema = z.object({
+  mode: z.enum(['jira', 'slack']),
+  dispatched_at: z.string().datetime(),
+  parent: z.string().optional(),
+  items: z.array(
+    z.object({
+      question_id: z.string(),
+      ref: z.string().min(1),
+      url: z.string().optional(),
+    })
+  ),
+});
+
+const FieldValueSchema = z.union([z.string(), z.array(z.string())]);
+
+export const ClarificationRoundSchema = z.object({
+  round: z.number().int().min(1),
+  questions_asked: z.number().int().min(0),
+  questions_answered: z.number().int().min(0),
+  revisions: z.array(
+    z.object({
+      requirement_id: z.string(),
+      question_ids: z.array(z.string()),
+      changes: z.array(
+        z.object({
+          field: z.enum(['description', 'acceptance_criteria', 'status']),
+          before: FieldValueSchema,
+          after: FieldValueSchema,
+        })
+      ),
+    })
+  ),
+  new_gaps: z.number().int().min(0).optional(),
+});
+
+export const RefinementOutputSchema = z.object({
+  metadata: z.object({
+    refined_at: z.string().datetime(),
+    total_rounds: z.number().int().min(0),
+    max_rounds: z.number().int().min(1),
+    requirements_changed: z.number().int().min(0),
+  }),
+  rounds: z.array(ClarificationRoundSchema),
+});
+
 export type ClarificationQuestionSchemaType = z.infer<
   typeof ClarificationQuestionSchema
 >;
@@ -26,6 +26,7 @@ export const RequirementIssueSchema = z.object({
   severity: RequirementIssueSeveritySchema,
   description: z.string().min(1),
   suggestion: z.string().optional(),
+  related_requirement_ids: z.array(z.string()).optional(),
 });
 
 export const RequirementTypeSchema = z.enum([
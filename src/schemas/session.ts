@@ -1,10 +1,11 @@
 import { z } from 'zod';
+import type { CustomStepId } from '../types/session.js';
 
 /**
  * Zod schemas for Session entity
  *
  * Runtime validation for session state (checkpoints, resume capability)
- * Per FR-050: 5 checkpoint boundaries
+ * Per FR-050: 5 built-in checkpoint boundaries, plus one per custom step
  */
 
 export const WorkflowStepSchema = z.enum([
@@ -15,6 +16,13 @@ export const WorkflowStepSchema = z.enum([
   'tdd-generation',
 ]);
 
+export const CustomStepIdSchema = z.custom<CustomStepId>(
+  (value) => typeof value === 'string' && /^custom:[a-z0-9][a-z0-9-]*$/.test(value),
+  'Custom step ID must match pattern custom:{name}'
+);
+
+export const StepIdSchema = z.union([WorkflowStepSchema, CustomStepIdSchema]);
+
 export const SessionStatusSchema = z.enum([
   'in-progress',
   'paused',
@@ -23,23 +31,44 @@ export const SessionStatusSchema = z.enum([
 ]);
 
 export const CheckpointSchema = z.object({
-  step: WorkflowStepSchema,
+  step: StepIdSchema,
   timestamp: z.string().datetime(),
   outputs: z.array(z.string()),
   metadata: z.object({
     duration_ms: z.number().int().min(0),
     provider_used: z.string().optional(),
     estimated_cost: z.number().min(0).optional(),
+    input_tokens: z.number().int().min(0).optional(),
+    output_tokens: z.number().int().min(0).optional(),
+    input_hash: z.string().optional(),
+    cache_hit: z.boolean().optional(),
   }),
 });
 
+export const SessionUsageSchema = z.object({
+  input_tokens: z.number().int().min(0),
+  output_tokens: z.number().int().min(0),
+  estimated_cost: z.number().min(0),
+});
+
+export const ProviderFallbackRecordSchema = z.object({
+  step: StepIdSchema,
+  failed_provider: z.string(),
+  active_provider: z.string(),
+  reason: z.string(),
+  timestamp: z.string().datetime(),
+});
+
 export const SessionOutputsSchema = z.object({
   requirements_yaml: z.string().optional(),
   components_yaml: z.string().optional(),
   validation_report: z.string().optional(),
   gaps_yaml: z.string().optional(),
+  traceability_yaml: z.string().optional(),
   questions_md: z.string().optional(),
   clarification_summary: z.string().optional(),
+  refined_requirements_yaml: z.string().optional(),
+  refinement_yaml: z.string().optional(),
   tdd_md: z.string().optional(),
   api_spec_yaml: z.string().optional(),
   database_schema_sql: z.string().optional(),
@@ -49,20 +78,22 @@ export const SessionSchema = z.object({
   session_id: z
     .string()
     .regex(/^sess-\d{13}$/, 'Session ID must match pattern sess-{timestamp}'),
-  current_step: WorkflowStepSchema,
+  current_step: StepIdSchema,
   status: SessionStatusSchema,
   created_at: z.string().datetime(),
   updated_at: z.string().datetime(),
   prd_source: z.string().min(1),
   figma_source: z.string().optional(),
   outputs: SessionOutputsSchema,
-  checkpoints: z
-    .array(CheckpointSchema)
-    .max(5, 'Maximum 5 checkpoints per FR-050'),
+  checkpoints: z.array(CheckpointSchema),
+  usage: SessionUsageSchema.optional(),
+  provider_fallbacks: z.array(ProviderFallbackRecordSchema).optional(),
   config: z.object({
     ai_provider: z.string(),
     workflow_timeout_minutes: z.number().int().min(1),
     max_clarification_iterations: z.number().int().min(1),
+    max_cost_usd: z.number().positive().optional(),
+    profile: z.string().optional(),
   }),
 });
 
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+
+export const TraceabilityMethodSchema = z.enum(['explicit', 'lexical', 'semantic']);
+
+export const TraceabilityLinkSchema = z.object({
+  requirement_id: z.string().min(1),
+  component_id: z.string().min(1),
+  confidence: z.number().min(0).max(1),
+  method: TraceabilityMethodSchema,
+  evidence: z.array(z.string()),
+});
+
+export const TraceabilityMatrixSchema = z.object({
+  metadata: z.object({
+    generated_at: z.string().datetime(),
+    confidence_threshold: z.number().min(0).max(1),
+    semantic_matching: z.boolean(),
+    total_links: z.number().int().min(0),
+  }),
+  links: z.array(TraceabilityLinkSchema),
+  untraced_requirements: z.array(z.string()),
+  untraced_components: z.array(z.string()),
+});
+
+/**
+ * Links returned by the LLM for semantic matching
+ */
+export const SemanticMatchesSchema = z.object({
+  links: z.array(
+    z.object({
+      requirement_id: z.string(),
+      component_id: z.string(),
+      confidence: z.number().min(0).max(1),
+      rationale: z.string(),
+    })
+  ),
+});
+
+export type TraceabilityLinkSchemaType = z.infer<typeof TraceabilityLinkSchema>;
+export type TraceabilityMatrixSchemaType = z.infer<typeof TraceabilityMatrixSchema>;
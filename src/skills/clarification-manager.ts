@@ -8,16 +8,45 @@
  */
 
 import { join } from 'path';
-import type { GapsOutput } from '../types/gap.js';
+import { setTimeout as sleep } from 'timers/promises';
+import type { Gap, GapsOutput } from '../types/gap.js';
+import type { Requirement, RequirementsOutput } from '../types/requirement.js';
+import type { Component } from '../types/component.js';
+import type { TokenUsage, ProviderFallbackEvent } from '../providers/types.js';
 import type {
   ClarificationQuestion,
   QuestionsOutput,
   ClarificationSession,
   ClarificationResponse,
+  ClarificationChannel,
+  ClarificationDispatch,
+  ClarificationRound,
+  RefinementOutput,
 } from '../types/question.js';
-import { QuestionsOutputSchema, ClarificationSessionSchema } from '../schemas/question.js';
-import { writeYAMLWithSchema } from '../utils/files.js';
-import { WorkflowError } from '../utils/errors.js';
+import {
+  QuestionsOutputSchema,
+  ClarificationSessionSchema,
+  ClarificationDispatchSchema,
+  RefinementOutputSchema,
+} from '../schemas/question.js';
+import { RequirementsOutputSchema } from '../schemas/requirement.js';
+import { writeYAMLWithSchema, readYAMLWithSchema, fileExists, writeFile, listFiles } from '../utils/files.js';
+import {
+  WorkflowError,
+  ValidationError,
+  BudgetExceededError,
+  ClarificationDispatchError,
+} from '../utils/errors.js';
+import { createConsoleEventBus, type WorkflowEventBus } from '../utils/events.js';
+import { hashContent } from '../utils/hash.js';
+import {
+  renderQuestionsFile,
+  parseAnswersFile,
+  getQuestionsFileName,
+  type ClarificationFileFormat,
+} from './clarification-manager/answer-file.js';
+import { applyResponses, getGapKey } from './clarification-manager/refinement.js';
+import { generateQuestions } from './clarification-manager/question-generator.js';
 
 /**
  * Options for clarification generation
@@ -25,22 +54,107 @@ import { WorkflowError } from '../utils/errors.js';
 export interface GenerateClarificationsOptions {
   saveOutput?: boolean;
   mode?: 'interactive' | 'jira' | 'slack' | 'file';
+  /** Clarification round the questions belong to (default: 1) */
+  round?: number;
+  /** Number of the first question (default: 1); later rounds continue the numbering */
+  firstQuestionNumber?: number;
+  /** Ask the LLM to write the questions; templates remain the fallback (default: false) */
+  semantic?: boolean;
+  /** Requirements the gaps refer to (LLM context, question clustering and ordering) */
+  requirements?: Requirement[];
+  /** Design components the gaps refer to, as context for the LLM */
+  components?: Component[];
+  /** Serve identical LLM requests from .prism/cache (default: false) */
+  cache?: boolean;
+  onFallback?: (event: ProviderFallbackEvent) => void;
+  /** Workflow abort signal; cancels in-flight LLM requests */
+  signal?: AbortSignal;
+  /** Receives token usage for each LLM request (not called on cache hits) */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Called before each LLM request; throwing stops it (e.g. BudgetExceededError) */
+  beforeRequest?: () => void;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
 }
 
+/**
+ * Terminal input and output for an interactive clarification session
+ */
+export interface ClarificationPrompter {
+  /** Print a line */
+  write(text: string): void;
+  /** Print a prompt and resolve with the line the user entered */
+  ask(prompt: string): Promise<string>;
+}
+
+/**
+ * Options for an interactive clarification session
+ */
+export interface InteractiveClarificationOptions {
+  prompter: ClarificationPrompter;
+  /** Confidence recorded when the user just presses Enter (default: 0.8) */
+  defaultConfidence?: number;
+  /** Clarification round (default: 1) */
+  round?: number;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
+}
+
+/**
+ * Options for file-based clarification
+ */
+export interface ClarificationFileOptions {
+  /** File format (default: markdown) */
+  format?: ClarificationFileFormat;
+  /** Confidence pre-filled in exported files and used for blank values (default: 0.8) */
+  defaultConfidence?: number;
+  /** Recorded as answered_by on imported responses */
+  answeredBy?: string;
+  /** Clarification round (default: 1) */
+  round?: number;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
+}
+
+/**
+ * Options for clarification through an external channel
+ */
+export interface ChannelClarificationOptions {
+  /** Jira or Slack client */
+  channel: ClarificationChannel;
+  /** Keep polling at this interval until every question is answered (default: poll once) */
+  pollIntervalMs?: number;
+  /** Stops polling (e.g. the workflow timeout) */
+  signal?: AbortSignal;
+  /** Clarification round (default: 1) */
+  round?: number;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
+}
+
+const PRIORITY_ORDER = { critical: 0, high: 1, medium: 2, low: 3 };
+
 /**
  * Generates clarification questions from detected gaps
  *
+ * A round's saved questions.yaml is returned as-is when it was generated
+ * from the same gaps, requirements, components and options, so replaying a
+ * round (e.g. after `prism clarify import`) keeps the questions its answers
+ * refer to.
+ *
  * @param gaps - Detected gaps from Requirements Validator
  * @param sessionId - Session identifier for output organization
  * @param options - Clarification options
  * @returns Questions output with generated clarification questions
  * @throws {WorkflowError} If generation fails
+ * @throws {BudgetExceededError} If the session budget is spent before an LLM request
  */
 export async function generateClarifications(
   gaps: GapsOutput,
   sessionId: string,
   options?: GenerateClarificationsOptions
 ): Promise<QuestionsOutput> {
+  const events = options?.events ?? createConsoleEventBus();
   const startTime = Date.now();
 
   try {
@@ -53,23 +167,33 @@ export async function generateClarifications(
       throw new WorkflowError('Session ID cannot be empty', 'clarification-generation');
     }
 
-    console.log('❓ Generating clarification questions...');
-    console.log(`   Session: ${sessionId}`);
-    console.log(`   Total gaps: ${gaps.gaps.length}`);
-    console.log(`   Mode: ${options?.mode || 'interactive'}`);
+    events.info('❓ Generating clarification questions...');
+    events.info(`   Session: ${sessionId}`);
+    events.info(`   Total gaps: ${gaps.gaps.length}`);
+    events.info(`   Mode: ${options?.mode || 'interactive'}`);
 
-    // 2. Generate questions from gaps
-    const questions: ClarificationQuestion[] = [];
-    let questionCounter = 1;
+    // 2. Reuse the round's saved questions: answers and dispatched messages
+    //    refer to their IDs, and the LLM may word new ones differently
+    const outputPath = join(getClarificationDir(sessionId, options?.round), 'questions.yaml');
+    const inputHash = hashContent(
+      JSON.stringify(gaps.gaps),
+      JSON.stringify(options?.requirements ?? []),
+      JSON.stringify(options?.components ?? []),
+      String(options?.semantic === true),
+      String(options?.firstQuestionNumber ?? 1)
+    );
 
-    for (const gap of gaps.gaps) {
-      const question = generateQuestionForGap(gap, questionCounter++);
-      questions.push(question);
+    if (options?.saveOutput !== false && (await fileExists(outputPath))) {
+      const saved = await readYAMLWithSchema(outputPath, QuestionsOutputSchema);
+      if (saved.metadata.input_hash === inputHash) {
+        events.info(`♻️  Reusing ${saved.questions.length} saved question(s) from ${outputPath}`);
+        return saved;
+      }
     }
 
-    // 3. Sort by priority (critical > high > medium > low)
-    const priorityOrder = { critical: 0, high: 1, medium: 2, low: 3 };
-    questions.sort((a, b) => priorityOrder[a.priority] - priorityOrder[b.priority]);
+    // 3. Generate questions from gaps (similar gaps share one question),
+    //    by priority, then by how much each answer unblocks
+    const questions = await generateQuestions(gaps.gaps, { ...options, events });
 
     // 4. Calculate statistics
     const criticalCount = questions.filter(q => q.priority === 'critical').length;
@@ -81,6 +205,8 @@ export async function generateClarifications(
       metadata: {
         generated_at: new Date().toISOString(),
         total_questions: questions.length,
+        total_gaps: gaps.gaps.length,
+        input_hash: inputHash,
         critical_count: criticalCount,
         high_count: highCount,
         medium_count: mediumCount,
@@ -90,30 +216,26 @@ export async function generateClarifications(
     };
 
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.log(`✅ Generated ${questions.length} clarification questions (${duration}s)`);
-    console.log(`   Critical: ${criticalCount}, High: ${highCount}, Medium: ${mediumCount}, Low: ${lowCount}`);
+    events.info(`✅ Generated ${questions.length} clarification questions for ${gaps.gaps.length} gaps (${duration}s)`);
+    events.info(`   Critical: ${criticalCount}, High: ${highCount}, Medium: ${mediumCount}, Low: ${lowCount}`);
 
     // 5. Save output if requested
     if (options?.saveOutput !== false) {
-      const outputDir = join(
-        process.cwd(),
-        '.prism',
-        'sessions',
-        sessionId,
-        '04-clarification'
-      );
-      const outputPath = join(outputDir, 'questions.yaml');
-
-      console.log(`💾 Saving to ${outputPath}...`);
+      events.info(`💾 Saving to ${outputPath}...`);
       await writeYAMLWithSchema(outputPath, questionsOutput, QuestionsOutputSchema);
     }
 
     return questionsOutput;
   } catch (error) {
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.error(`❌ Clarification generation failed after ${duration}s`);
+    events.error(`❌ Clarification generation failed after ${duration}s`);
 
-    if (error instanceof WorkflowError) {
+    // The workflow pauses on budget and timeout errors, so they pass through
+    if (
+      error instanceof WorkflowError ||
+      error instanceof BudgetExceededError ||
+      (error instanceof Error && error.name === 'AbortError')
+    ) {
       throw error;
     }
 
@@ -147,96 +269,544 @@ export async function collectResponses(
     responses,
   };
 
-  // Save session
-  const outputDir = join(
-    process.cwd(),
-    '.prism',
-    'sessions',
-    sessionId,
-    '04-clarification'
+  await writeYAMLWithSchema(getClarificationSessionPath(sessionId), session, ClarificationSessionSchema);
+
+  return session;
+}
+
+/**
+ * Asks clarification questions on the terminal, highest priority first
+ *
+ * Each question shows its context and numbered suggestions. The user answers
+ * with a suggestion number or free text, then rates their confidence;
+ * `s` skips a question and `q` stops the session. Responses are saved to
+ * 04-clarification/session.yaml after every answer, and questions already
+ * answered there are not asked again, so a stopped session picks up where
+ * it left off.
+ *
+ * @param questions - Questions from generateClarifications
+ * @param sessionId - Session identifier
+ * @param options - Prompter and defaults
+ * @returns Clarification session; `completed_at` is unset if the user stopped early
+ */
+export async function runInteractiveClarification(
+  questions: QuestionsOutput,
+  sessionId: string,
+  options: InteractiveClarificationOptions
+): Promise<ClarificationSession> {
+  const events = options.events ?? createConsoleEventBus();
+  const { prompter } = options;
+  const defaultConfidence = options.defaultConfidence ?? 0.8;
+
+  const ordered = [...questions.questions].sort(
+    (a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]
   );
-  const sessionPath = join(outputDir, 'session.yaml');
+  const questionIds = new Set(ordered.map((q) => q.id));
+
+  const sessionPath = getClarificationSessionPath(sessionId, options.round);
+  const previous = await loadClarificationSession(sessionId, options.round);
+  const responses = (previous?.responses ?? []).filter((r) => questionIds.has(r.question_id));
+  const answered = new Set(responses.map((r) => r.question_id));
+  const pending = ordered.filter((q) => !answered.has(q.id));
+
+  const session: ClarificationSession = {
+    session_id: sessionId,
+    started_at: previous?.started_at ?? new Date().toISOString(),
+    mode: 'interactive',
+    questions_asked: ordered.length,
+    questions_answered: responses.length,
+    responses,
+  };
+
+  if (pending.length === 0) {
+    session.completed_at = previous?.completed_at ?? new Date().toISOString();
+    await writeYAMLWithSchema(sessionPath, session, ClarificationSessionSchema);
+    return session;
+  }
+
+  events.info(`💬 Clarification: ${pending.length} of ${ordered.length} question(s) to answer`);
+  if (responses.length > 0) {
+    events.info(`   Resuming: ${responses.length} answered earlier`);
+  }
+  prompter.write('Answer with a suggestion number or your own text. Enter s to skip, q to save and stop.');
+
+  for (const question of pending) {
+    prompter.write('');
+    prompter.write(
+      `[${ordered.indexOf(question) + 1}/${ordered.length}] ${question.id} (${question.priority}, ${question.stakeholder_type})`
+    );
+    prompter.write(question.question);
+    if (question.context && question.context !== question.question) {
+      prompter.write(`   Context: ${question.context}`);
+    }
+    question.suggestions.forEach((suggestion, index) => {
+      prompter.write(`   ${index + 1}. ${suggestion}`);
+    });
+
+    const answer = await askAnswer(question, prompter);
+    if (answer === 'quit') {
+      events.info(`⏸️  Clarification stopped: ${responses.length} of ${ordered.length} answered`);
+      return session;
+    }
+    if (answer === 'skip') {
+      continue;
+    }
+
+    responses.push({
+      question_id: question.id,
+      response: answer.response,
+      confidence: await askConfidence(prompter, defaultConfidence),
+      answered_at: new Date().toISOString(),
+    });
+    session.questions_answered = responses.length;
+    await writeYAMLWithSchema(sessionPath, session, ClarificationSessionSchema);
+  }
 
+  session.completed_at = new Date().toISOString();
   await writeYAMLWithSchema(sessionPath, session, ClarificationSessionSchema);
+  events.info(`✅ Clarification complete: ${responses.length} of ${ordered.length} answered`);
 
   return session;
 }
 
 /**
- * Helper: Generate a question for a specific gap
- */
-function generateQuestionForGap(gap: any, counter: number): ClarificationQuestion {
-  const questionId = `Q-${String(counter).padStart(3, '0')}`;
-
-  // Generate question based on gap type
-  let question: string;
-  let context: string;
-  let suggestions: string[];
-
-  switch (gap.type) {
-    case 'missing_ui':
-      question = `What UI components are needed to implement "${gap.requirement_id || 'this requirement'}"?`;
-      context = gap.description;
-      suggestions = [
-        'Add specific screen mockups to Figma',
-        'Define the UI component types needed',
-        'List the user interactions required',
-      ];
-      break;
-
-    case 'no_requirement':
-      question = `What is the purpose of the "${gap.component_id || 'component'}" in the design?`;
-      context = gap.description;
-      suggestions = [
-        'Add a functional requirement for this component',
-        'Remove the component if not needed',
-        'Link to existing requirement that covers this',
-      ];
-      break;
-
-    case 'missing_acceptance_criteria':
-      question = `What are the acceptance criteria for "${gap.requirement_id || 'this requirement'}"?`;
-      context = gap.description;
-      suggestions = [
-        'Define measurable success criteria',
-        'Specify edge cases to handle',
-        'List required validations',
-      ];
-      break;
-
-    case 'inconsistency':
-      question = `How should we resolve the inconsistency: ${gap.description}?`;
-      context = gap.description;
-      suggestions = [
-        'Update the requirement to match the design',
-        'Update the design to match the requirement',
-        'Clarify which is correct',
-      ];
-      break;
-
-    case 'incomplete_mapping':
-      question = `What is the complete mapping between requirement and design for "${gap.requirement_id || 'this item'}"?`;
-      context = gap.description;
-      suggestions = [
-        'Define explicit component-to-requirement mapping',
-        'Add missing design elements',
-        'Update requirement scope',
-      ];
-      break;
-
-    default:
-      question = `Please clarify: ${gap.description}?`;
-      context = gap.description;
-      suggestions = ['Provide more details', 'Update documentation'];
+ * Writes the questions as a file for stakeholders to fill in offline
+ *
+ * The file is grouped by stakeholder type and saved next to questions.yaml
+ * (04-clarification/questions.md, questions-form.yaml or questions.csv).
+ *
+ * @param questions - Questions from generateClarifications
+ * @param sessionId - Session identifier
+ * @param options - Format and defaults
+ * @returns Path of the written file
+ */
+export async function exportQuestionsFile(
+  questions: QuestionsOutput,
+  sessionId: string,
+  options?: ClarificationFileOptions
+): Promise<string> {
+  const events = options?.events ?? createConsoleEventBus();
+  const format = options?.format ?? 'markdown';
+
+  const filePath = join(getClarificationDir(sessionId, options?.round), getQuestionsFileName(format));
+  await writeFile(filePath, renderQuestionsFile(questions, sessionId, format, options?.defaultConfidence ?? 0.8));
+  events.info(`📝 Questions for stakeholders: ${filePath}`);
+
+  return filePath;
+}
+
+/**
+ * Imports answers from a filled-in questions file into session.yaml
+ *
+ * Every question ID must belong to the session, answers may be free text or
+ * a suggestion number, and confidences must lie between 0 and 1. Blank
+ * answers leave a question unanswered. Imported answers replace earlier
+ * responses to the same questions, and the clarification session is marked
+ * complete.
+ *
+ * @param questions - The session's questions (questions.yaml)
+ * @param sessionId - Session identifier
+ * @param content - Filled-in file content
+ * @param options - File format and defaults
+ * @returns Updated clarification session
+ * @throws {ValidationError} If the file does not match the questions or has no answers
+ */
+export async function importClarificationAnswers(
+  questions: QuestionsOutput,
+  sessionId: string,
+  content: string,
+  options?: ClarificationFileOptions
+): Promise<ClarificationSession> {
+  const events = options?.events ?? createConsoleEventBus();
+  const defaultConfidence = options?.defaultConfidence ?? 0.8;
+  const entries = parseAnswersFile(content, options?.format ?? 'markdown');
+
+  const byId = new Map(questions.questions.map((q) => [q.id, q]));
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const imported: ClarificationResponse[] = [];
+  const answeredAt = new Date().toISOString();
+
+  for (const entry of entries) {
+    const question = byId.get(entry.question_id);
+    if (!question) {
+      problems.push(`${entry.question_id || '(missing ID)'}: not a question of session ${sessionId}`);
+      continue;
+    }
+    if (seen.has(question.id)) {
+      problems.push(`${question.id}: answered more than once`);
+      continue;
+    }
+    seen.add(question.id);
+
+    if (entry.answer.length === 0) {
+      continue;
+    }
+
+    let response = entry.answer;
+    if (/^\d+$/.test(response)) {
+      const suggestion = question.suggestions[parseInt(response, 10) - 1];
+      if (!suggestion) {
+        problems.push(`${question.id}: no suggestion ${response} (choose 1-${question.suggestions.length})`);
+        continue;
+      }
+      response = suggestion;
+    }
+
+    const confidence = entry.confidence.length === 0 ? defaultConfidence : Number(entry.confidence);
+    if (Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+      problems.push(`${question.id}: confidence must be a number from 0 to 1, got "${entry.confidence}"`);
+      continue;
+    }
+
+    imported.push({
+      question_id: question.id,
+      response,
+      confidence,
+      ...(options?.answeredBy ? { answered_by: options.answeredBy } : {}),
+      answered_at: answeredAt,
+    });
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError('Answers do not match the session questions', 'ClarificationAnswers', problems);
+  }
+  if (imported.length === 0) {
+    throw new ValidationError('No answers found', 'ClarificationAnswers', [
+      'Fill in at least one "Answer:" before importing',
+    ]);
+  }
+
+  const previous = await loadClarificationSession(sessionId, options?.round);
+  const importedIds = new Set(imported.map((r) => r.question_id));
+  const responses = [
+    ...(previous?.responses ?? []).filter((r) => byId.has(r.question_id) && !importedIds.has(r.question_id)),
+    ...imported,
+  ];
+
+  const session: ClarificationSession = {
+    session_id: sessionId,
+    started_at: previous?.started_at ?? answeredAt,
+    completed_at: answeredAt,
+    mode: 'file',
+    questions_asked: questions.questions.length,
+    questions_answered: responses.length,
+    responses,
+  };
+  await writeYAMLWithSchema(getClarificationSessionPath(sessionId, options?.round), session, ClarificationSessionSchema);
+
+  events.info(`✅ Imported ${imported.length} answer(s); ${responses.length} of ${questions.questions.length} questions answered`);
+
+  return session;
+}
+
+/**
+ * Posts questions to an external channel and collects the answers so far
+ *
+ * Questions are posted once; where they went is saved to
+ * 04-clarification/dispatch.yaml, so each later call (e.g. on prism resume)
+ * only posts questions added since and polls for new answers. Answers are
+ * merged into session.yaml as they arrive; the session is complete once
+ * every question the channel asks has an answer.
+ *
+ * @param questions - Questions from generateClarifications
+ * @param sessionId - Session identifier
+ * @param options - Channel, polling and events
+ * @returns Clarification session; `completed_at` is unset while answers are missing
+ * @throws {ClarificationDispatchError} If posting fails (the questions posted are saved)
+ * @throws {AbortError} If the signal aborts while waiting for answers
+ */
+export async function syncChannelClarification(
+  questions: QuestionsOutput,
+  sessionId: string,
+  options: ChannelClarificationOptions
+): Promise<ClarificationSession> {
+  const events = options.events ?? createConsoleEventBus();
+  const { channel } = options;
+  const dispatchPath = join(getClarificationDir(sessionId, options.round), 'dispatch.yaml');
+  const asked = questions.questions.filter((q) => channel.asks?.(q) ?? true);
+
+  let dispatch: ClarificationDispatch | undefined = (await fileExists(dispatchPath))
+    ? await readYAMLWithSchema(dispatchPath, ClarificationDispatchSchema)
+    : undefined;
+  if (dispatch && dispatch.mode !== channel.mode) {
+    dispatch = undefined;
+  }
+
+  const dispatched = new Set(dispatch?.items.map((item) => item.question_id));
+  const undispatched = asked.filter((q) => !dispatched.has(q.id));
+  if (undispatched.length > 0) {
+    const record = async (posted: ClarificationDispatch): Promise<ClarificationDispatch> => {
+      const merged = {
+        ...posted,
+        dispatched_at: dispatch?.dispatched_at ?? posted.dispatched_at,
+        items: [...(dispatch?.items ?? []), ...posted.items],
+      };
+      await writeYAMLWithSchema(dispatchPath, merged, ClarificationDispatchSchema);
+      return merged;
+    };
+
+    try {
+      dispatch = await record(
+        await channel.dispatch({ ...questions, questions: undispatched }, sessionId, dispatch?.parent)
+      );
+    } catch (error) {
+      // Keep what was posted, so the next attempt only posts the rest
+      if (error instanceof ClarificationDispatchError) {
+        await record(error.dispatch);
+        events.warn(`⚠️  Sent ${error.dispatch.items.length} of ${undispatched.length} question(s) to ${channel.mode}`);
+      }
+      throw error;
+    }
+    events.info(`📨 Sent ${undispatched.length} question(s) to ${channel.mode}`);
+  }
+
+  const askedIds = new Set(asked.map((q) => q.id));
+  const previous = await loadClarificationSession(sessionId, options.round);
+  const session: ClarificationSession = {
+    session_id: sessionId,
+    started_at: previous?.started_at ?? dispatch?.dispatched_at ?? new Date().toISOString(),
+    mode: channel.mode,
+    questions_asked: asked.length,
+    questions_answered: 0,
+    responses: (previous?.responses ?? []).filter((r) => askedIds.has(r.question_id)),
+  };
+
+  for (;;) {
+    const answered = new Set(session.responses.map((r) => r.question_id));
+    const received = dispatch
+      ? (await channel.collect(questions, dispatch)).filter(
+          (r) => askedIds.has(r.question_id) && !answered.has(r.question_id)
+        )
+      : [];
+    session.responses.push(...received);
+    session.questions_answered = session.responses.length;
+
+    if (session.responses.length === asked.length) {
+      session.completed_at = previous?.completed_at ?? new Date().toISOString();
+    }
+    if (received.length > 0 || session.completed_at || !previous) {
+      await writeYAMLWithSchema(getClarificationSessionPath(sessionId, options.round), session, ClarificationSessionSchema);
+    }
+    events.info(`💬 ${session.responses.length} of ${asked.length} question(s) answered on ${channel.mode}`);
+
+    if (session.completed_at || !options.pollIntervalMs) {
+      return session;
+    }
+    await sleep(options.pollIntervalMs, undefined, { signal: options.signal });
+  }
+}
+
+/**
+ * Loads a session's saved clarification responses
+ *
+ * @param sessionId - Session identifier
+ * @param round - Clarification round (default: 1)
+ * @returns Saved clarification session, or undefined if none was started
+ */
+export async function loadClarificationSession(
+  sessionId: string,
+  round?: number
+): Promise<ClarificationSession | undefined> {
+  const sessionPath = getClarificationSessionPath(sessionId, round);
+  if (!(await fileExists(sessionPath))) {
+    return undefined;
   }
+  return readYAMLWithSchema(sessionPath, ClarificationSessionSchema);
+}
+
+/**
+ * Loads the questions of a clarification round
+ *
+ * @param sessionId - Session identifier
+ * @param round - Clarification round (default: 1)
+ * @returns Questions saved by generateClarifications
+ */
+export async function loadClarificationQuestions(sessionId: string, round?: number): Promise<QuestionsOutput> {
+  return readYAMLWithSchema(join(getClarificationDir(sessionId, round), 'questions.yaml'), QuestionsOutputSchema);
+}
+
+/**
+ * Finds the latest clarification round that has questions
+ *
+ * @param sessionId - Session identifier
+ * @returns Round number (1 if no later round was started)
+ */
+export async function findLatestClarificationRound(sessionId: string): Promise<number> {
+  const rounds = (await listFiles(getClarificationDir(sessionId)))
+    .map((entry) => entry.match(/^round-(\d+)$/)?.[1])
+    .filter((round): round is string => round !== undefined)
+    .map(Number)
+    .sort((a, b) => b - a);
+
+  for (const round of rounds) {
+    if (await fileExists(join(getClarificationDir(sessionId, round), 'questions.yaml'))) {
+      return round;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Applies a round's answers to the requirements
+ *
+ * Each answered question updates the requirements of its gap: answers to
+ * missing acceptance criteria become acceptance criteria, other answers are
+ * appended to the description. Updated requirements are marked clarified.
+ * Requirements are not changed in place.
+ *
+ * @param requirements - Requirements before this round
+ * @param gaps - Gaps the round's questions were generated from
+ * @param questions - The round's questions
+ * @param clarification - The round's answers
+ * @param round - Clarification round
+ * @returns Refined requirements and how each one changed
+ */
+export function refineRequirements(
+  requirements: RequirementsOutput,
+  gaps: GapsOutput,
+  questions: QuestionsOutput,
+  clarification: ClarificationSession,
+  round: number
+): { requirements: RequirementsOutput; round: ClarificationRound } {
+  const refined = applyResponses(requirements.requirements, gaps.gaps, questions.questions, clarification.responses);
+
+  return {
+    requirements: { ...requirements, requirements: refined.requirements },
+    round: {
+      round,
+      questions_asked: clarification.questions_asked,
+      questions_answered: clarification.questions_answered,
+      revisions: refined.revisions,
+    },
+  };
+}
+
+/**
+ * Keeps the gaps that no earlier round asked about
+ *
+ * Gap IDs are renumbered on every validation, so gaps are matched by type,
+ * requirements and components. The result is renumbered GAP-001, GAP-002...
+ *
+ * @param gaps - Gaps from validating the refined requirements
+ * @param askedGaps - Gaps of all earlier rounds
+ * @returns New gaps with updated statistics
+ */
+export function selectNewGaps(gaps: GapsOutput, askedGaps: Gap[]): GapsOutput {
+  const asked = new Set(askedGaps.map(getGapKey));
+  const fresh = gaps.gaps
+    .filter((gap) => !asked.has(getGapKey(gap)))
+    .map((gap, index) => ({ ...gap, id: `GAP-${String(index + 1).padStart(3, '0')}` }));
 
   return {
-    id: questionId,
-    priority: gap.severity,
-    stakeholder_type: gap.stakeholder[0] || 'product',
-    question,
-    context,
-    suggestions,
-    gap_id: gap.id,
+    metadata: {
+      ...gaps.metadata,
+      total_gaps: fresh.length,
+      critical_count: fresh.filter((g) => g.severity === 'critical').length,
+      high_count: fresh.filter((g) => g.severity === 'high').length,
+      medium_count: fresh.filter((g) => g.severity === 'medium').length,
+      low_count: fresh.filter((g) => g.severity === 'low').length,
+    },
+    gaps: fresh,
   };
 }
+
+/**
+ * Saves the refined requirements and the per-round changes
+ *
+ * Written to 04-clarification/requirements.yaml and
+ * 04-clarification/refinement.yaml; the PRD analysis output is left as is.
+ *
+ * @param sessionId - Session identifier
+ * @param requirements - Requirements after the last round
+ * @param rounds - Completed rounds, in order
+ * @param maxRounds - Round limit of the session
+ * @returns Paths of the written files
+ */
+export async function saveRefinement(
+  sessionId: string,
+  requirements: RequirementsOutput,
+  rounds: ClarificationRound[],
+  maxRounds: number
+): Promise<{ requirementsPath: string; refinementPath: string }> {
+  const requirementsPath = join(getClarificationDir(sessionId), 'requirements.yaml');
+  const refinementPath = join(getClarificationDir(sessionId), 'refinement.yaml');
+  const refinement: RefinementOutput = {
+    metadata: {
+      refined_at: new Date().toISOString(),
+      total_rounds: rounds.length,
+      max_rounds: maxRounds,
+      requirements_changed: new Set(rounds.flatMap((r) => r.revisions.map((rev) => rev.requirement_id))).size,
+    },
+    rounds,
+  };
+
+  await writeYAMLWithSchema(requirementsPath, requirements, RequirementsOutputSchema);
+  await writeYAMLWithSchema(refinementPath, refinement, RefinementOutputSchema);
+
+  return { requirementsPath, refinementPath };
+}
+
+/**
+ * Helper: Directory of a clarification round (04-clarification, then 04-clarification/round-N)
+ */
+function getClarificationDir(sessionId: string, round = 1): string {
+  const dir = join(process.cwd(), '.prism', 'sessions', sessionId, '04-clarification');
+  return round > 1 ? join(dir, `round-${round}`) : dir;
+}
+
+/**
+ * Helper: Path of a round's session.yaml
+ */
+function getClarificationSessionPath(sessionId: string, round?: number): string {
+  return join(getClarificationDir(sessionId, round), 'session.yaml');
+}
+
+/**
+ * Helper: Ask until the user gives an answer, skips or quits
+ */
+async function askAnswer(
+  question: ClarificationQuestion,
+  prompter: ClarificationPrompter
+): Promise<{ response: string } | 'skip' | 'quit'> {
+  for (;;) {
+    const input = (await prompter.ask('> ')).trim();
+
+    if (/^q(uit)?$/i.test(input)) {
+      return 'quit';
+    }
+    if (/^s(kip)?$/i.test(input)) {
+      return 'skip';
+    }
+    if (/^\d+$/.test(input)) {
+      const suggestion = question.suggestions[parseInt(input, 10) - 1];
+      if (suggestion) {
+        return { response: suggestion };
+      }
+      prompter.write(`   No suggestion ${input}; choose 1-${question.suggestions.length} or type an answer`);
+      continue;
+    }
+    if (input.length > 0) {
+      return { response: input };
+    }
+    prompter.write('   Enter an answer, a suggestion number, s or q');
+  }
+}
+
+/**
+ * Helper: Ask for a confidence between 0 and 1
+ */
+async function askConfidence(prompter: ClarificationPrompter, defaultConfidence: number): Promise<number> {
+  for (;;) {
+    const input = (await prompter.ask(`Confidence 0-1 [${defaultConfidence}]: `)).trim();
+    if (input.length === 0) {
+      return defaultConfidence;
+    }
+
+    const confidence = Number(input);
+    if (!Number.isNaN(confidence) && confidence >= 0 && confidence <= 1) {
+      return confidence;
+    }
+    prompter.write('   Confidence must be a number from 0 to 1 (e.g. 0.9)');
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * Clarification Answer Files
+ *
+ * Renders clarification questions as a file stakeholders can fill in
+ * offline (Markdown, YAML or CSV, grouped by stakeholder type) and parses
+ * the filled-in file back into answers.
+ *
+ * @module skills/clarification-manager/answer-file
+ */
+
+import { extname } from 'path';
+import { z } from 'zod';
+import { parse as parseYAML, stringify as stringifyYAML } from 'yaml';
+import type { ClarificationQuestion, QuestionsOutput } from '../../types/question.js';
+import type { StakeholderType } from '../../types/gap.js';
+import { ValidationError } from '../../utils/errors.js';
+
+export const CLARIFICATION_FILE_FORMATS = ['markdown', 'yaml', 'csv'] as const;
+export type ClarificationFileFormat = (typeof CLARIFICATION_FILE_FORMATS)[number];
+
+/**
+ * Answer read from a filled-in file, before validation against the questions
+ */
+export interface AnswerEntry {
+  question_id: string;
+  /** Free text or a suggestion number (empty if left unanswered) */
+  answer: string;
+  /** Raw confidence value (empty for the default) */
+  confidence: string;
+}
+
+/** Exported file name per format (questions.yaml is the session's own question list) */
+const FILE_NAMES: Record<ClarificationFileFormat, string> = {
+  markdown: 'questions.md',
+  yaml: 'questions-form.yaml',
+  csv: 'questions.csv',
+};
+
+const STAKEHOLDER_ORDER: StakeholderType[] = ['product', 'design', 'engineering'];
+
+const CSV_COLUMNS = [
+  'id',
+  'stakeholder_type',
+  'priority',
+  'question',
+  'context',
+  'suggestions',
+  'answer',
+  'confidence',
+] as const;
+
+const AnswerFormSchema = z.object({
+  session_id: z.string().optional(),
+  stakeholders: z.record(
+    z.array(
+      z
+        .object({
+          id: z.string(),
+          answer: z.union([z.string(), z.number()]).nullish(),
+          confidence: z.union([z.string(), z.number()]).nullish(),
+        })
+        .passthrough()
+    )
+  ),
+});
+
+/**
+ * File name of the exported questions for a format
+ *
+ * @param format - Export format
+ * @returns File name inside 04-clarification/
+ */
+export function getQuestionsFileName(format: ClarificationFileFormat): string {
+  return FILE_NAMES[format];
+}
+
+/**
+ * Detects the answer file format from its extension
+ *
+ * @param filePath - Path of the filled-in file
+ * @returns Format, or undefined for unknown extensions
+ */
+export function detectFileFormat(filePath: string): ClarificationFileFormat | undefined {
+  switch (extname(filePath).toLowerCase()) {
+    case '.md':
+    case '.markdown':
+      return 'markdown';
+    case '.yaml':
+    case '.yml':
+      return 'yaml';
+    case '.csv':
+      return 'csv';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Renders questions as a fill-in file, grouped by stakeholder type
+ *
+ * @param questions - Questions from generateClarifications
+ * @param sessionId - Session the answers belong to
+ * @param format - Output format
+ * @param defaultConfidence - Confidence pre-filled for every answer
+ * @returns File content
+ */
+export function renderQuestionsFile(
+  questions: QuestionsOutput,
+  sessionId: string,
+  format: ClarificationFileFormat,
+  defaultConfidence: number
+): string {
+  const groups = groupByStakeholder(questions.questions);
+
+  if (format === 'yaml') {
+    return stringifyYAML({
+      session_id: sessionId,
+      instructions:
+        'Fill in each answer (text or a suggestion number) and a confidence from 0 to 1. Leave an answer empty to skip it.',
+      stakeholders: Object.fromEntries(
+        groups.map(([stakeholder, group]) => [
+          stakeholder,
+          group.map((q) => ({
+            id: q.id,
+            priority: q.priority,
+            question: q.question,
+            context: q.context,
+            suggestions: q.suggestions,
+            answer: '',
+            confidence: defaultConfidence,
+          })),
+        ])
+      ),
+    });
+  }
+
+  if (format === 'csv') {
+    const rows = groups.flatMap(([, group]) =>
+      group.map((q) => [
+        q.id,
+        q.stakeholder_type,
+        q.priority,
+        q.question,
+        q.context,
+        q.suggestions.map((s, index) => `${index + 1}. ${s}`).join('\n'),
+        '',
+        String(defaultConfidence),
+      ])
+    );
+    return [[...CSV_COLUMNS], ...rows].map((row) => row.map(escapeCSV).join(',')).join('\n') + '\n';
+  }
+
+  const { metadata } = questions;
+  const lines = [
+    '# Clarification Questions',
+    '',
+    `Session: ${sessionId}`,
+    `Questions: ${metadata.total_questions} (critical ${metadata.critical_count}, high ${metadata.high_count}, medium ${metadata.medium_count}, low ${metadata.low_count})`,
+    '',
+    'Write each answer after "Answer:" (text or a suggestion number) and set "Confidence:" from 0 to 1.',
+    'Leave an answer empty to skip the question. Do not change the question IDs.',
+  ];
+
+  for (const [stakeholder, group] of groups) {
+    lines.push('', `## ${stakeholder.charAt(0).toUpperCase()}${stakeholder.slice(1)}`);
+
+    for (const q of group) {
+      lines.push('', `### ${q.id} (${q.priority})`, '', q.question, '', `Context: ${q.context}`);
+      if (q.suggestions.length > 0) {
+        lines.push('', 'Suggestions:', ...q.suggestions.map((s, index) => `${index + 1}. ${s}`));
+      }
+      lines.push('', 'Answer:', '', `Confidence: ${defaultConfidence}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Reads answers from a filled-in file
+ *
+ * @param content - File content
+ * @param format - File format
+ * @returns One entry per question found in the file
+ * @throws {ValidationError} If the file is not a questions file of this format
+ */
+export function parseAnswersFile(content: string, format: ClarificationFileFormat): AnswerEntry[] {
+  if (format === 'yaml') {
+    const parsed = AnswerFormSchema.safeParse(parseYAML(content));
+    if (!parsed.success) {
+      throw new ValidationError(
+        'Not a clarification questions file',
+        'ClarificationAnswers',
+        parsed.error.errors.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      );
+    }
+    return Object.values(parsed.data.stakeholders)
+      .flat()
+      .map((entry) => ({
+        question_id: entry.id,
+        answer: String(entry.answer ?? '').trim(),
+        confidence: String(entry.confidence ?? '').trim(),
+      }));
+  }
+
+  if (format === 'csv') {
+    const [header, ...rows] = parseCSV(content);
+    const idColumn = header?.indexOf('id') ?? -1;
+    const answerColumn = header?.indexOf('answer') ?? -1;
+    const confidenceColumn = header?.indexOf('confidence') ?? -1;
+
+    if (idColumn < 0 || answerColumn < 0) {
+      throw new ValidationError('Not a clarification questions file', 'ClarificationAnswers', [
+        'CSV header must include the id and answer columns',
+      ]);
+    }
+    return rows
+      .filter((row) => row.some((cell) => cell.trim().length > 0))
+      .map((row) => ({
+        question_id: (row[idColumn] ?? '').trim(),
+        answer: (row[answerColumn] ?? '').trim(),
+        confidence: confidenceColumn < 0 ? '' : (row[confidenceColumn] ?? '').trim(),
+      }));
+  }
+
+  const sections = content.split(/^(?=#{1,3} )/m).filter((section) => /^### Q-\d+\b/.test(section));
+  if (sections.length === 0) {
+    throw new ValidationError('Not a clarification questions file', 'ClarificationAnswers', [
+      'No "### Q-..." question headings found',
+    ]);
+  }
+
+  return sections.map((section) => {
+    const answer = section.match(/^Answer:([\s\S]*?)(?=^Confidence:|(?![\s\S]))/m)?.[1] ?? '';
+    const confidence = section.match(/^Confidence:(.*)$/m)?.[1] ?? '';
+    return {
+      question_id: section.match(/^### (Q-\d+)/)![1]!,
+      answer: answer.trim(),
+      confidence: confidence.trim(),
+    };
+  });
+}
+
+/**
+ * Helper: Questions grouped by stakeholder type, in priority order within each group
+ */
+function groupByStakeholder(questions: ClarificationQuestion[]): Array<[StakeholderType, ClarificationQuestion[]]> {
+  return STAKEHOLDER_ORDER.map(
+    (stakeholder): [StakeholderType, ClarificationQuestion[]] => [
+      stakeholder,
+      questions.filter((q) => q.stakeholder_type === stakeholder),
+    ]
+  ).filter(([, group]) => group.length > 0);
+}
+
+/**
+ * Helper: Quote a CSV cell when needed (RFC 4180)
+ */
+function escapeCSV(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Helper: Parse CSV with quoted cells, escaped quotes and embedded newlines
+ */
+function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!;
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
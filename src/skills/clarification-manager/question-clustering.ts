@@ -0,0 +1,216 @@
+/**
+ * Question Clustering Module
+ *
+ * Merges near-identical questions (e.g. "What are the acceptance criteria
+ * for ...?" asked once per requirement) into one question per topic and
+ * orders the questions so the answers that unblock the most requirements
+ * are asked first.
+ *
+ * @module skills/clarification-manager/question-clustering
+ */
+
+import { extractTerms } from '../../utils/terms.js';
+import type { Gap, GapSeverity, GapType } from '../../types/gap.js';
+import type { Requirement } from '../../types/requirement.js';
+import type { QuestionDraft } from './question-generator.js';
+
+/**
+ * Options for question clustering
+ */
+export interface QuestionClusteringOptions {
+  /** Requirements the gaps refer to (categories and dependencies) */
+  requirements?: Requirement[];
+  /** Minimum share of common terms for two questions to merge (0.0-1.0, default: 0.6) */
+  minSimilarity?: number;
+}
+
+const DEFAULT_MIN_SIMILARITY = 0.6;
+
+/** Subjects named in a merged question; the rest are summarized as "and N more" */
+const MAX_LISTED_SUBJECTS = 3;
+
+const PRIORITY_ORDER: Record<GapSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Each conflict needs its own answer, and its question is the conflict itself;
+ * acceptance criteria answered once would be added to every requirement
+ */
+const UNCLUSTERED_GAP_TYPES = new Set<GapType>(['inconsistency', 'missing_acceptance_criteria']);
+
+/** Requirement, component, gap and question IDs say nothing about a question's topic */
+const ID_PATTERN = /\b(?:REQ|COMP|GAP|Q)(?:-[A-Z0-9]+)+\b/g;
+
+/**
+ * Merges similar questions for the same stakeholder into one question
+ *
+ * Questions merge when they share priority, stakeholder, gap type and the
+ * category of their requirement, and their text (IDs aside) shares at
+ * least `minSimilarity` of its terms. A merged question lists the
+ * subjects of all its questions and links to all their gaps. Questions
+ * about inconsistencies and missing acceptance criteria are never merged.
+ *
+ * @param questions - Questions in gap order
+ * @param gaps - Gaps the questions were generated from
+ * @param options - Clustering options
+ * @returns One question per cluster, in the order of each cluster's first question
+ */
+export function clusterQuestions(
+  questions: QuestionDraft[],
+  gaps: Gap[],
+  options?: QuestionClusteringOptions
+): QuestionDraft[] {
+  const gapsById = new Map(gaps.map((gap) => [gap.id, gap]));
+  const requirementsById = new Map((options?.requirements ?? []).map((req) => [req.id, req]));
+  const minSimilarity = options?.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+
+  const clusters: Array<{ key: string; terms: Set<string>; members: QuestionDraft[] }> = [];
+
+  for (const question of questions) {
+    const gap = gapsById.get(question.gap_id);
+    const requirement = gap?.requirement_id ? requirementsById.get(gap.requirement_id) : undefined;
+    const key = [
+      question.priority,
+      question.stakeholder_type,
+      gap?.type ?? '',
+      requirement ? requirement.category ?? requirement.type : '',
+    ].join('|');
+    const terms = extractTerms(question.question.replace(ID_PATTERN, ' '));
+
+    const cluster =
+      gap && UNCLUSTERED_GAP_TYPES.has(gap.type)
+        ? undefined
+        : clusters.find(
+            (candidate) => candidate.key === key && similarity(candidate.terms, terms) >= minSimilarity
+          );
+    if (cluster) {
+      cluster.members.push(question);
+    } else {
+      clusters.push({ key, terms, members: [question] });
+    }
+  }
+
+  return clusters.map(({ members }) => mergeCluster(members, gapsById));
+}
+
+/**
+ * Orders questions by priority, then by how many items their answer unblocks
+ *
+ * @param questions - Questions to order (not modified)
+ * @param gaps - Gaps the questions were generated from
+ * @param requirements - Requirements the gaps refer to (for dependencies)
+ * @returns Questions, most urgent and most unblocking first; ties keep their order
+ */
+export function orderQuestions(
+  questions: QuestionDraft[],
+  gaps: Gap[],
+  requirements: Requirement[] = []
+): QuestionDraft[] {
+  const unblocked = new Map(
+    questions.map((question) => [question, countUnblockedItems(question, gaps, requirements)])
+  );
+
+  return [...questions].sort(
+    (a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || unblocked.get(b)! - unblocked.get(a)!
+  );
+}
+
+/**
+ * Counts the requirements and components an answer unblocks
+ *
+ * These are the requirements and components of the question's gaps, plus
+ * every requirement that depends on one of them, directly or transitively.
+ *
+ * @param question - Clarification question
+ * @param gaps - Gaps the questions were generated from
+ * @param requirements - Requirements the gaps refer to (for dependencies)
+ * @returns Number of distinct requirements and components
+ */
+export function countUnblockedItems(
+  question: Pick<QuestionDraft, 'gap_id' | 'related_gap_ids'>,
+  gaps: Gap[],
+  requirements: Requirement[] = []
+): number {
+  const gapIds = new Set([question.gap_id, ...(question.related_gap_ids ?? [])]);
+  const questionGaps = gaps.filter((gap) => gapIds.has(gap.id));
+
+  const dependents = new Map<string, string[]>();
+  for (const requirement of requirements) {
+    for (const dependency of requirement.dependencies) {
+      dependents.set(dependency, [...(dependents.get(dependency) ?? []), requirement.id]);
+    }
+  }
+
+  const items = new Set(questionGaps.flatMap((gap) => (gap.component_id ? [gap.component_id] : [])));
+  const pending = questionGaps.flatMap((gap) => [
+    ...(gap.requirement_id ? [gap.requirement_id] : []),
+    ...(gap.related_requirement_ids ?? []),
+  ]);
+
+  for (let id = pending.pop(); id !== undefined; id = pending.pop()) {
+    if (!items.has(id)) {
+      items.add(id);
+      pending.push(...(dependents.get(id) ?? []));
+    }
+  }
+
+  return items.size;
+}
+
+/**
+ * Helper: One question standing for all questions of a cluster
+ */
+function mergeCluster(members: QuestionDraft[], gapsById: Map<string, Gap>): QuestionDraft {
+  const [first, ...rest] = members as [QuestionDraft, ...QuestionDraft[]];
+  if (rest.length === 0) {
+    return first;
+  }
+
+  const subjects = unique(
+    members.flatMap((member) => {
+      const gap = gapsById.get(member.gap_id);
+      const subject = gap?.requirement_id ?? gap?.component_id;
+      return subject ? [subject] : [];
+    })
+  );
+  const firstSubject = `"${subjects[0]}"`;
+  const question =
+    subjects.length > 1 && first.question.includes(firstSubject)
+      ? first.question.replace(firstSubject, formatSubjects(subjects))
+      : first.question;
+
+  return {
+    ...first,
+    question,
+    context: unique(members.map((member) => member.context)).join('\n'),
+    suggestions: unique(members.flatMap((member) => member.suggestions)),
+    related_gap_ids: unique([
+      ...(first.related_gap_ids ?? []),
+      ...rest.flatMap((member) => [member.gap_id, ...(member.related_gap_ids ?? [])]),
+    ]),
+  };
+}
+
+/**
+ * Helper: "A", "B" and "C" / "A", "B", "C" and 4 more
+ */
+function formatSubjects(subjects: string[]): string {
+  const quoted = subjects.map((subject) => `"${subject}"`);
+  if (quoted.length > MAX_LISTED_SUBJECTS + 1) {
+    return `${quoted.slice(0, MAX_LISTED_SUBJECTS).join(', ')} and ${quoted.length - MAX_LISTED_SUBJECTS} more`;
+  }
+  return `${quoted.slice(0, -1).join(', ')} and ${quoted[quoted.length - 1]}`;
+}
+
+/**
+ * Helper: Share of terms two questions have in common (Jaccard index)
+ */
+function similarity(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter((term) => b.has(term)).length;
+  const total = new Set([...a, ...b]).size;
+  return total === 0 ? 0 : shared / total;
+}
+
+function unique<T>(values: T[]): T[] {
+  return [...new Set(values)];
+}
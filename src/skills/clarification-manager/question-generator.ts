@@ -0,0 +1,370 @@
+/**
+ * Question Generation Module
+ *
+ * Turns validation gaps into clarification questions. Duplicate gaps are
+ * merged into one question; an optional LLM pass writes questions from the
+ * full requirement and component context, and fixed templates cover every
+ * gap the LLM pass leaves out (or all of them when it is off or fails).
+ * Similar questions are clustered afterwards (see question-clustering).
+ *
+ * @module skills/clarification-manager/question-generator
+ */
+
+import { z } from 'zod';
+import { createLLMProvider } from '../../providers/index.js';
+import type { TokenUsage, ProviderFallbackEvent } from '../../providers/types.js';
+import { generateStructuredWithCache } from '../../providers/cache.js';
+import { preparePrompt, hashPromptTemplate } from '../../utils/prompts.js';
+import { hashContent } from '../../utils/hash.js';
+import { BudgetExceededError } from '../../utils/errors.js';
+import {
+  createConsoleEventBus,
+  createLLMEventHandlers,
+  type WorkflowEventBus,
+} from '../../utils/events.js';
+import { StakeholderTypeSchema } from '../../schemas/gap.js';
+import type { Gap, GapSeverity } from '../../types/gap.js';
+import type { Requirement } from '../../types/requirement.js';
+import type { Component } from '../../types/component.js';
+import type { ClarificationQuestion } from '../../types/question.js';
+import { getGapKey } from './refinement.js';
+import { clusterQuestions, orderQuestions } from './question-clustering.js';
+
+/**
+ * Options for question generation
+ */
+export interface QuestionGenerationOptions {
+  /** Ask the LLM to write the questions (default: false, templates only) */
+  semantic?: boolean;
+  /** Requirements the gaps refer to (LLM context, clustering and ordering) */
+  requirements?: Requirement[];
+  /** Design components the gaps refer to (LLM context) */
+  components?: Component[];
+  /** Number of the first question (default: 1) */
+  firstQuestionNumber?: number;
+  /** Serve identical LLM requests from .prism/cache (default: false) */
+  cache?: boolean;
+  onFallback?: (event: ProviderFallbackEvent) => void;
+  /** Workflow abort signal; cancels in-flight LLM requests */
+  signal?: AbortSignal;
+  /** Receives token usage for each LLM request (not called on cache hits) */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Called before each LLM request; throwing stops it (e.g. BudgetExceededError) */
+  beforeRequest?: () => void;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
+}
+
+/**
+ * Question before numbering
+ */
+export type QuestionDraft = Omit<ClarificationQuestion, 'id'>;
+
+const LLMQuestionsSchema = z.object({
+  questions: z.array(
+    z.object({
+      gap_ids: z.array(z.string()).min(1),
+      stakeholder_type: StakeholderTypeSchema,
+      question: z.string().min(1),
+      context: z.string(),
+      suggestions: z.array(z.string()),
+    })
+  ),
+});
+
+const SEVERITY_ORDER: GapSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+/**
+ * Generates clarification questions for gaps
+ *
+ * Gaps reporting the same finding are merged first. With `semantic` set,
+ * the LLM writes the questions and may merge further gaps that one answer
+ * resolves; gaps it leaves out, or all gaps if the LLM pass fails, get a
+ * template question. Similar questions are then clustered into one and
+ * ordered so the most unblocking answers come first.
+ *
+ * @param gaps - Detected gaps
+ * @param options - Generation options
+ * @returns Questions in asking order, numbered from `firstQuestionNumber`
+ * @throws {BudgetExceededError} If the session budget is spent before an LLM request
+ */
+export async function generateQuestions(
+  gaps: Gap[],
+  options?: QuestionGenerationOptions
+): Promise<ClarificationQuestion[]> {
+  const events = options?.events ?? createConsoleEventBus();
+  const groups = groupDuplicateGaps(gaps);
+  const drafts = new Map<Gap, QuestionDraft>();
+
+  if (options?.semantic && groups.length > 0) {
+    try {
+      for (const [gap, draft] of await writeQuestionsWithLLM(groups, { ...options, events })) {
+        drafts.set(gap, draft);
+      }
+    } catch (error) {
+      if (error instanceof BudgetExceededError || (error instanceof Error && error.name === 'AbortError')) {
+        throw error;
+      }
+      events.warn(
+        `⚠️  LLM question generation failed, using templates: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  // Merged LLM questions are keyed by their first gap; the others are skipped
+  const covered = new Set([...drafts.values()].flatMap((draft) => draft.related_gap_ids ?? []));
+
+  const questions = groups.flatMap((group): QuestionDraft[] => {
+    const [gap, ...duplicates] = group as [Gap, ...Gap[]];
+    if (covered.has(gap.id)) {
+      return [];
+    }
+
+    const draft = drafts.get(gap);
+    if (draft) {
+      return [draft];
+    }
+
+    const question = writeTemplateQuestion(gap);
+    return [duplicates.length > 0 ? { ...question, related_gap_ids: duplicates.map((d) => d.id) } : question];
+  });
+
+  const clustered = clusterQuestions(questions, gaps, { requirements: options?.requirements });
+  const first = options?.firstQuestionNumber ?? 1;
+
+  return orderQuestions(clustered, gaps, options?.requirements).map((draft, index) => ({
+    id: formatQuestionId(first + index),
+    ...draft,
+  }));
+}
+
+/**
+ * Generates a question for a gap from the fixed template of its type
+ *
+ * Used offline and whenever the LLM pass is off or fails.
+ *
+ * @param gap - Detected gap
+ * @param counter - Question number
+ * @returns Question about the gap
+ */
+export function generateQuestionForGap(gap: Gap, counter: number): ClarificationQuestion {
+  return { id: formatQuestionId(counter), ...writeTemplateQuestion(gap) };
+}
+
+/**
+ * Helper: Question from the fixed template of the gap's type
+ */
+function writeTemplateQuestion(gap: Gap): QuestionDraft {
+  // Generate question based on gap type
+  let question: string;
+  let context: string;
+  let suggestions: string[];
+
+  switch (gap.type) {
+    case 'missing_ui':
+      question = `What UI components are needed to implement "${gap.requirement_id || 'this requirement'}"?`;
+      context = gap.description;
+      suggestions = [
+        'Add specific screen mockups to Figma',
+        'Define the UI component types needed',
+        'List the user interactions required',
+      ];
+      break;
+
+    case 'no_requirement':
+      question = `What is the purpose of the "${gap.component_id || 'component'}" in the design?`;
+      context = gap.description;
+      suggestions = [
+        'Add a functional requirement for this component',
+        'Remove the component if not needed',
+        'Link to existing requirement that covers this',
+      ];
+      break;
+
+    case 'missing_acceptance_criteria':
+      question = `What are the acceptance criteria for "${gap.requirement_id || 'this requirement'}"?`;
+      context = gap.description;
+      suggestions = [
+        'Define measurable success criteria',
+        'Specify edge cases to handle',
+        'List required validations',
+      ];
+      break;
+
+    case 'inconsistency':
+      question = `How should we resolve the inconsistency: ${gap.description}?`;
+      context = gap.description;
+      suggestions = [
+        'Update the requirement to match the design',
+        'Update the design to match the requirement',
+        'Clarify which is correct',
+      ];
+      break;
+
+    case 'incomplete_mapping':
+      question = `What is the complete mapping between requirement and design for "${gap.requirement_id || 'this item'}"?`;
+      context = gap.description;
+      suggestions = [
+        'Define explicit component-to-requirement mapping',
+        'Add missing design elements',
+        'Update requirement scope',
+      ];
+      break;
+
+    default:
+      question = `Please clarify: ${gap.description}?`;
+      context = gap.description;
+      suggestions = ['Provide more details', 'Update documentation'];
+  }
+
+  return {
+    priority: gap.severity,
+    stakeholder_type: gap.stakeholder[0] || 'product',
+    question,
+    context,
+    suggestions,
+    gap_id: gap.id,
+  };
+}
+
+/**
+ * Groups gaps that report the same finding, keeping the first gap's position
+ *
+ * @param gaps - Detected gaps
+ * @returns Groups of duplicate gaps, first gap first
+ */
+export function groupDuplicateGaps(gaps: Gap[]): Gap[][] {
+  const groups = new Map<string, Gap[]>();
+  for (const gap of gaps) {
+    const key = getGapKey(gap);
+    groups.set(key, [...(groups.get(key) ?? []), gap]);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Asks the LLM to write questions for the first gap of each group
+ *
+ * @returns Drafts keyed by the first gap they cover
+ */
+async function writeQuestionsWithLLM(
+  groups: Gap[][],
+  options: QuestionGenerationOptions & { events: WorkflowEventBus }
+): Promise<Map<Gap, QuestionDraft>> {
+  const { events } = options;
+  events.info('   Writing clarification questions with the LLM...');
+
+  const handlers = createLLMEventHandlers(events, 'clarification-manager', {
+    onUsage: options.onUsage,
+    onFallback: options.onFallback,
+  });
+  const llm = await createLLMProvider(handlers.onFallback, {
+    signal: options.signal,
+    beforeRequest: options.beforeRequest,
+  });
+
+  const gapsJSON = JSON.stringify(
+    groups.map((group) => group[0]!).map((gap) => ({
+      id: gap.id,
+      type: gap.type,
+      severity: gap.severity,
+      requirement_id: gap.requirement_id,
+      related_requirement_ids: gap.related_requirement_ids,
+      component_id: gap.component_id,
+      description: gap.description,
+      stakeholders: gap.stakeholder,
+    })),
+    null,
+    2
+  );
+  const requirementsJSON = JSON.stringify(
+    (options.requirements ?? []).map((req) => ({
+      id: req.id,
+      type: req.type,
+      priority: req.priority,
+      title: req.title,
+      description: req.description,
+      acceptance_criteria: req.acceptance_criteria,
+      dependencies: req.dependencies,
+    })),
+    null,
+    2
+  );
+  const componentsJSON = JSON.stringify(
+    (options.components ?? []).map((comp) => ({
+      id: comp.id,
+      name: comp.name,
+      type: comp.type,
+      category: comp.category,
+      description: comp.description,
+      variants: comp.variants.map((variant) => variant.name),
+      screens: comp.usage.screens,
+    })),
+    null,
+    2
+  );
+
+  const prompt = await preparePrompt('clarification-manager', {
+    gaps: gapsJSON,
+    requirements: requirementsJSON,
+    components: componentsJSON,
+  });
+
+  const useCache = options.cache === true;
+  const { result } = await generateStructuredWithCache(
+    llm,
+    prompt,
+    LLMQuestionsSchema,
+    { temperature: 0, onUsage: handlers.onUsage },
+    {
+      enabled: useCache,
+      inputHash: useCache ? hashContent(gapsJSON, requirementsJSON, componentsJSON) : '',
+      templateHash: useCache ? await hashPromptTemplate('clarification-manager') : '',
+    }
+  );
+
+  // Each group counts once, under the first question that names it
+  const groupsById = new Map(groups.map((group) => [group[0]!.id, group]));
+  const drafts = new Map<Gap, QuestionDraft>();
+
+  for (const question of result.questions) {
+    const merged = [...new Set(question.gap_ids)].flatMap((id) => {
+      const group = groupsById.get(id);
+      groupsById.delete(id);
+      return group ? [group] : [];
+    });
+    const [first, ...rest] = merged.flat();
+    if (!first) {
+      continue;
+    }
+
+    const text = question.question.trim();
+    drafts.set(first, {
+      priority: highestSeverity(merged.flat()),
+      stakeholder_type: question.stakeholder_type,
+      question: text.endsWith('?') ? text : `${text.replace(/[.!:]+$/, '')}?`,
+      context: question.context,
+      suggestions: question.suggestions,
+      gap_id: first.id,
+      ...(rest.length > 0 && { related_gap_ids: rest.map((gap) => gap.id) }),
+    });
+  }
+
+  return drafts;
+}
+
+/**
+ * Helper: Most severe of the gaps' severities
+ */
+function highestSeverity(gaps: Gap[]): GapSeverity {
+  return SEVERITY_ORDER.find((severity) => gaps.some((gap) => gap.severity === severity)) ?? 'low';
+}
+
+/**
+ * Helper: Question ID for a question number (Q-001)
+ */
+function formatQuestionId(counter: number): string {
+  return `Q-${String(counter).padStart(3, '0')}`;
+}
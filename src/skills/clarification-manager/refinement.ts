@@ -0,0 +1,153 @@
+/**
+ * Requirement Refinement Module
+ *
+ * Feeds clarification answers back into the requirements they clarify and
+ * records each change, so a later round can re-validate the refined
+ * requirements and only ask about gaps that are new.
+ *
+ * @module skills/clarification-manager/refinement
+ */
+
+import type { Gap } from '../../types/gap.js';
+import type { Requirement } from '../../types/requirement.js';
+import type {
+  ClarificationQuestion,
+  ClarificationResponse,
+  RequirementFieldChange,
+  RequirementRevision,
+} from '../../types/question.js';
+
+/**
+ * Applies answered questions to the requirements of their gaps
+ *
+ * Answers to missing acceptance criteria are added as acceptance criteria;
+ * other answers are appended to the description as a clarification note.
+ * A question with merged gaps updates each of their requirements once.
+ * Gaps without a requirement (e.g. orphaned components) change nothing.
+ *
+ * @param requirements - Requirements before the round (not modified)
+ * @param gaps - Gaps the questions were generated from
+ * @param questions - Questions of the round
+ * @param responses - Answers of the round
+ * @returns Updated requirements and one revision per changed requirement
+ */
+export function applyResponses(
+  requirements: Requirement[],
+  gaps: Gap[],
+  questions: ClarificationQuestion[],
+  responses: ClarificationResponse[]
+): { requirements: Requirement[]; revisions: RequirementRevision[] } {
+  const gapsById = new Map(gaps.map((gap) => [gap.id, gap]));
+  const questionsById = new Map(questions.map((q) => [q.id, q]));
+  const updated = new Map<string, { requirement: Requirement; question_ids: string[] }>();
+
+  for (const response of responses) {
+    const question = questionsById.get(response.question_id);
+    const questionGaps = question ? getQuestionGapIds(question).flatMap((id) => gapsById.get(id) ?? []) : [];
+    if (!question || questionGaps.length === 0) {
+      continue;
+    }
+
+    for (const requirementId of new Set(questionGaps.flatMap(getGapRequirementIds))) {
+      const original = requirements.find((req) => req.id === requirementId);
+      if (!original) {
+        continue;
+      }
+
+      const entry = updated.get(requirementId) ?? {
+        requirement: { ...original, acceptance_criteria: [...original.acceptance_criteria] },
+        question_ids: [],
+      };
+      const { requirement } = entry;
+
+      const asCriterion = questionGaps.some(
+        (gap) => gap.type === 'missing_acceptance_criteria' && getGapRequirementIds(gap).includes(requirementId)
+      );
+      if (asCriterion) {
+        if (!requirement.acceptance_criteria.includes(response.response)) {
+          requirement.acceptance_criteria.push(response.response);
+        }
+      } else {
+        requirement.description = `${requirement.description.trimEnd()}\n\nClarification (${question.id}): ${response.response}`;
+      }
+      requirement.status = 'clarified';
+
+      entry.question_ids.push(question.id);
+      updated.set(requirementId, entry);
+    }
+  }
+
+  const revisions: RequirementRevision[] = [];
+  const refined = requirements.map((original) => {
+    const entry = updated.get(original.id);
+    if (!entry) {
+      return original;
+    }
+
+    const changes = diffRequirement(original, entry.requirement);
+    if (changes.length === 0) {
+      return original;
+    }
+
+    revisions.push({ requirement_id: original.id, question_ids: entry.question_ids, changes });
+    return entry.requirement;
+  });
+
+  return { requirements: refined, revisions };
+}
+
+/**
+ * Gaps a question is about, its own gap first
+ *
+ * @param question - Clarification question
+ * @returns Gap IDs, including duplicates merged into the question
+ */
+export function getQuestionGapIds(question: ClarificationQuestion): string[] {
+  return [question.gap_id, ...(question.related_gap_ids ?? [])];
+}
+
+/**
+ * Identity of a gap across validation runs (gap IDs are renumbered each run)
+ *
+ * @param gap - Detected gap
+ * @returns Key that is equal for the same finding on the same requirements and components
+ */
+export function getGapKey(gap: Gap): string {
+  return [
+    gap.type,
+    gap.requirement_id ?? '',
+    [...(gap.related_requirement_ids ?? [])].sort().join(','),
+    gap.component_id ?? '',
+    gap.type === 'inconsistency' ? gap.description : '',
+  ].join('|');
+}
+
+/**
+ * Helper: Requirements a gap is about
+ */
+function getGapRequirementIds(gap: Gap): string[] {
+  return [...(gap.requirement_id ? [gap.requirement_id] : []), ...(gap.related_requirement_ids ?? [])];
+}
+
+/**
+ * Helper: Changed fields of a requirement
+ */
+function diffRequirement(before: Requirement, after: Requirement): RequirementFieldChange[] {
+  const changes: RequirementFieldChange[] = [];
+
+  if (before.description !== after.description) {
+    changes.push({ field: 'description', before: before.description, after: after.description });
+  }
+  if (before.acceptance_criteria.join('\n') !== after.acceptance_criteria.join('\n')) {
+    changes.push({
+      field: 'acceptance_criteria',
+      before: before.acceptance_criteria,
+      after: after.acceptance_criteria,
+    });
+  }
+  if (before.status !== after.status) {
+    changes.push({ field: 'status', before: before.status, after: after.status });
+  }
+
+  return changes;
+}
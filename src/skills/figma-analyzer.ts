@@ -9,9 +9,17 @@
 
 import { join } from 'path';
 import { createLLMProvider } from '../providers/index.js';
-import { preparePrompt } from '../utils/prompts.js';
+import type { TokenUsage, ProviderFallbackEvent } from '../providers/types.js';
+import { generateStructuredWithCache } from '../providers/cache.js';
+import { preparePrompt, hashPromptTemplate } from '../utils/prompts.js';
+import { hashContent } from '../utils/hash.js';
 import { writeYAMLWithSchema } from '../utils/files.js';
 import { WorkflowError } from '../utils/errors.js';
+import {
+  createConsoleEventBus,
+  createLLMEventHandlers,
+  type WorkflowEventBus,
+} from '../utils/events.js';
 import type { ComponentsOutput } from '../types/component.js';
 import { ComponentsOutputSchema } from '../schemas/component.js';
 
@@ -20,8 +28,19 @@ import { ComponentsOutputSchema } from '../schemas/component.js';
  */
 export interface AnalyzeFigmaOptions {
   temperature?: number;
-  onFallback?: (event: unknown) => void;
+  onFallback?: (event: ProviderFallbackEvent) => void;
+  /** Workflow abort signal; cancels in-flight LLM requests */
+  signal?: AbortSignal;
   saveOutput?: boolean;
+  /** Serve identical requests from .prism/cache (default: false) */
+  cache?: boolean;
+  onCacheHit?: (cacheKey: string) => void;
+  /** Receives token usage for each LLM request (not called on cache hits) */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Called before each LLM request; throwing stops it (e.g. BudgetExceededError) */
+  beforeRequest?: () => void;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
 }
 
 /**
@@ -38,6 +57,7 @@ export async function analyzeFigmaDesign(
   sessionId: string,
   options?: AnalyzeFigmaOptions
 ): Promise<ComponentsOutput> {
+  const events = options?.events ?? createConsoleEventBus();
   const startTime = Date.now();
 
   try {
@@ -60,18 +80,25 @@ export async function analyzeFigmaDesign(
       throw new WorkflowError('Session ID cannot be empty', 'figma-analysis');
     }
 
-    console.log('📐 Analyzing Figma design...');
-    console.log(`   Session: ${sessionId}`);
-    console.log(`   Data size: ${figmaData.length} characters`);
+    events.info('📐 Analyzing Figma design...');
+    events.info(`   Session: ${sessionId}`);
+    events.info(`   Data size: ${figmaData.length} characters`);
 
     // 2. Create LLM provider with fallback support
-    console.log('🤖 Initializing AI provider...');
-    const llm = await createLLMProvider(options?.onFallback);
+    events.info('🤖 Initializing AI provider...');
+    const handlers = createLLMEventHandlers(events, 'figma-analyzer', {
+      onUsage: options?.onUsage,
+      onFallback: options?.onFallback,
+    });
+    const llm = await createLLMProvider(handlers.onFallback, {
+      signal: options?.signal,
+      beforeRequest: options?.beforeRequest,
+    });
     const providerInfo = llm.getInfo();
-    console.log(`   Using: ${providerInfo.name} (${providerInfo.model})`);
+    events.info(`   Using: ${providerInfo.name} (${providerInfo.model})`);
 
     // 3. Load prompt template
-    console.log('📝 Loading prompt template...');
+    events.info('📝 Loading prompt template...');
     const prompt = await preparePrompt('figma-analyzer', {
       figma_data: figmaData,
       session_id: sessionId,
@@ -79,19 +106,35 @@ export async function analyzeFigmaDesign(
     });
 
     // 4. Generate structured output (already validated by generateStructured)
-    console.log('🔍 Extracting components and design tokens...');
-    const validated = await llm.generateStructured<ComponentsOutput>(
-      prompt,
-      ComponentsOutputSchema,
-      {
-        temperature: options?.temperature ?? 0,
-      }
-    );
+    events.info('🔍 Extracting components and design tokens...');
+    const useCache = options?.cache === true;
+    const { result: validated, cacheHit, cacheKey } =
+      await generateStructuredWithCache<ComponentsOutput>(
+        llm,
+        prompt,
+        ComponentsOutputSchema,
+        {
+          temperature: options?.temperature ?? 0,
+          onUsage: handlers.onUsage,
+        },
+        {
+          enabled: useCache,
+          inputHash: useCache ? hashContent(figmaData) : '',
+          templateHash: useCache ? await hashPromptTemplate('figma-analyzer') : '',
+        }
+      );
 
-    console.log('✓ Validating output...');
+    if (cacheHit && cacheKey) {
+      events.info(`♻️  Cache hit (${cacheKey.slice(0, 12)})`);
+      options?.onCacheHit?.(cacheKey);
+      // The cached result was analyzed in an earlier run, possibly for another session
+      validated.metadata.analyzed_at = new Date().toISOString();
+    }
+
+    events.info('✓ Validating output...');
 
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.log(`✅ Extracted ${validated.components.length} components (${duration}s)`);
+    events.info(`✅ Extracted ${validated.components.length} components (${duration}s)`);
 
     // 6. Save output if requested
     if (options?.saveOutput !== false) {
@@ -104,14 +147,14 @@ export async function analyzeFigmaDesign(
       );
       const outputPath = join(outputDir, 'components.yaml');
 
-      console.log(`💾 Saving to ${outputPath}...`);
+      events.info(`💾 Saving to ${outputPath}...`);
       await writeYAMLWithSchema(outputPath, validated, ComponentsOutputSchema);
     }
 
     return validated;
   } catch (error) {
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.error(`❌ Figma analysis failed after ${duration}s`);
+    events.error(`❌ Figma analysis failed after ${duration}s`);
 
     if (error instanceof WorkflowError) {
       throw error;
@@ -121,13 +164,15 @@ export async function analyzeFigmaDesign(
     if (error && typeof error === 'object' && 'issues' in error) {
       throw new WorkflowError(
         `Figma analysis failed: ${JSON.stringify((error as { issues: unknown }).issues, null, 2)}`,
-        'figma-analysis'
+        'figma-analysis',
+        error instanceof Error ? error : undefined
       );
     }
 
     throw new WorkflowError(
       `Figma analysis failed: ${error instanceof Error ? error.message : String(error)}`,
-      'figma-analysis'
+      'figma-analysis',
+      error instanceof Error ? error : undefined
     );
   }
 }
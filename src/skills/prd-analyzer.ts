@@ -13,11 +13,20 @@
  */
 
 import { createLLMProvider } from '../providers/index.js';
-import { preparePrompt } from '../utils/prompts.js';
+import type { TokenUsage, ProviderFallbackEvent } from '../providers/types.js';
+import { generateStructuredWithCache } from '../providers/cache.js';
+import { preparePrompt, hashPromptTemplate } from '../utils/prompts.js';
+import { hashContent } from '../utils/hash.js';
 import { writeYAMLWithSchema } from '../utils/files.js';
+import {
+  createConsoleEventBus,
+  createLLMEventHandlers,
+  type WorkflowEventBus,
+} from '../utils/events.js';
 import { RequirementsOutputSchema } from '../schemas/requirement.js';
 import type { RequirementsOutput } from '../types/requirement.js';
 import { WorkflowError, ValidationError } from '../utils/errors.js';
+import { analyzeRequirementConflicts, applyConflictIssues } from './prd-analyzer/conflict-analyzer.js';
 import { join } from 'path';
 
 /**
@@ -35,10 +44,25 @@ export async function analyzePRD(
   sessionId: string,
   options?: {
     temperature?: number;
-    onFallback?: (event: any) => void;
+    onFallback?: (event: ProviderFallbackEvent) => void;
+    /** Workflow abort signal; cancels in-flight LLM requests */
+    signal?: AbortSignal;
     saveOutput?: boolean;
+    /** Serve identical requests from .prism/cache (default: false) */
+    cache?: boolean;
+    onCacheHit?: (cacheKey: string) => void;
+    /** Receives token usage for each LLM request (not called on cache hits) */
+    onUsage?: (usage: TokenUsage) => void;
+    /** Called before each LLM request; throwing stops it (e.g. BudgetExceededError) */
+    beforeRequest?: () => void;
+    /** Ask the LLM for conflicting requirements in addition to the heuristics (default: false) */
+    semanticConflicts?: boolean;
+    /** Progress events (default: console output) */
+    events?: WorkflowEventBus;
   }
 ): Promise<RequirementsOutput> {
+  const events = options?.events ?? createConsoleEventBus();
+
   // Validate inputs
   if (!prdContent || prdContent.trim().length === 0) {
     throw new WorkflowError(
@@ -54,46 +78,84 @@ export async function analyzePRD(
     );
   }
 
-  console.log('📄 Analyzing PRD...');
-  console.log(`   Session: ${sessionId}`);
-  console.log(`   Content length: ${prdContent.length} characters`);
+  events.info('📄 Analyzing PRD...');
+  events.info(`   Session: ${sessionId}`);
+  events.info(`   Content length: ${prdContent.length} characters`);
 
   const startTime = Date.now();
 
   try {
     // 1. Create LLM provider with fallback chain
-    console.log('🤖 Initializing AI provider...');
-    const llm = await createLLMProvider(options?.onFallback);
+    events.info('🤖 Initializing AI provider...');
+    const handlers = createLLMEventHandlers(events, 'prd-analyzer', {
+      onUsage: options?.onUsage,
+      onFallback: options?.onFallback,
+    });
+    const llm = await createLLMProvider(handlers.onFallback, {
+      signal: options?.signal,
+      beforeRequest: options?.beforeRequest,
+    });
     const providerInfo = llm.getInfo();
-    console.log(`   Using: ${providerInfo.name} (${providerInfo.model})`);
+    events.info(`   Using: ${providerInfo.name} (${providerInfo.model})`);
 
     // 2. Load and interpolate prompt template
-    console.log('📝 Loading prompt template...');
+    events.info('📝 Loading prompt template...');
     const prompt = await preparePrompt('prd-analyzer', {
       prd_content: prdContent,
       session_id: sessionId,
       current_date: new Date().toISOString(),
     });
 
-    // 3. Call LLM to extract requirements
-    console.log('🔍 Extracting requirements...');
-    const result = await llm.generateStructured<RequirementsOutput>(
+    // 3. Call LLM to extract requirements (or reuse a cached result)
+    events.info('🔍 Extracting requirements...');
+    const useCache = options?.cache === true;
+    const { result, cacheHit, cacheKey } = await generateStructuredWithCache<RequirementsOutput>(
+      llm,
       prompt,
       RequirementsOutputSchema,
       {
         temperature: options?.temperature ?? 0, // Deterministic for analysis
         maxTokens: 8000,
+        onUsage: handlers.onUsage,
+      },
+      {
+        enabled: useCache,
+        inputHash: useCache ? hashContent(prdContent) : '',
+        templateHash: useCache ? await hashPromptTemplate('prd-analyzer') : '',
       }
     );
 
+    if (cacheHit && cacheKey) {
+      events.info(`♻️  Cache hit (${cacheKey.slice(0, 12)})`);
+      options?.onCacheHit?.(cacheKey);
+      // The cached result was analyzed in an earlier run, possibly for another session
+      result.metadata.analyzed_at = new Date().toISOString();
+    }
+
     // 4. Validate output
-    console.log('✓ Validating output...');
+    events.info('✓ Validating output...');
     const validated = RequirementsOutputSchema.parse(result);
 
+    // 5. Record conflicts between requirements on both sides
+    events.info('⚖️  Checking for conflicting requirements...');
+    const conflicts = await analyzeRequirementConflicts(validated.requirements, {
+      semantic: options?.semanticConflicts === true,
+      cache: useCache,
+      onUsage: options?.onUsage,
+      beforeRequest: options?.beforeRequest,
+      onFallback: options?.onFallback,
+      signal: options?.signal,
+      events,
+    });
+    applyConflictIssues(validated.requirements, conflicts);
+    if (conflicts.length > 0) {
+      events.warn(`⚠️  ${conflicts.length} conflicting requirement pair(s) found`);
+    }
+
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.log(`✅ Extracted ${validated.requirements.length} requirements (${duration}s)`);
+    events.info(`✅ Extracted ${validated.requirements.length} requirements (${duration}s)`);
 
-    // 5. Save output (optional, default true)
+    // 6. Save output (optional, default true)
     if (options?.saveOutput !== false) {
       const outputPath = join(
         '.prism',
@@ -103,19 +165,19 @@ export async function analyzePRD(
         'requirements.yaml'
       );
 
-      console.log(`💾 Saving to ${outputPath}...`);
+      events.info(`💾 Saving to ${outputPath}...`);
       await writeYAMLWithSchema(outputPath, validated, RequirementsOutputSchema);
     }
 
     // Performance check (should be < 2 minutes)
     if (duration > 120) {
-      console.warn(`⚠️  Analysis took ${duration}s (target: < 120s)`);
+      events.warn(`⚠️  Analysis took ${duration}s (target: < 120s)`);
     }
 
     return validated;
   } catch (error) {
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.error(`❌ PRD analysis failed after ${duration}s`);
+    events.error(`❌ PRD analysis failed after ${duration}s`);
 
     if (error instanceof ValidationError) {
       throw error;
@@ -123,7 +185,8 @@ export async function analyzePRD(
 
     throw new WorkflowError(
       `PRD analysis failed: ${error instanceof Error ? error.message : String(error)}`,
-      'prd-analysis'
+      'prd-analysis',
+      error instanceof Error ? error : undefined
     );
   }
 }
@@ -165,7 +228,6 @@ export async function analyzePRDFromConfluence(
   // Create Confluence client
   const client = new ConfluenceMCPClient({
     name: 'confluence',
-    endpoint: process.env['CONFLUENCE_URL'],
     credentials: {
       apiToken: process.env['CONFLUENCE_API_TOKEN'] || '',
       username: process.env['CONFLUENCE_USERNAME'] || '',
@@ -0,0 +1,426 @@
+/**
+ * Conflict Analysis Module
+ *
+ * Detects requirements that contradict each other: latency targets that
+ * volume requirements make unreachable, different limits for the same
+ * setting, and rules one requirement mandates and another forbids.
+ * Requirements are compared within the same category; an optional LLM
+ * pass finds conflicts the heuristics cannot.
+ *
+ * @module skills/prd-analyzer/conflict-analyzer
+ */
+
+import { z } from 'zod';
+import { createLLMProvider } from '../../providers/index.js';
+import type { TokenUsage, ProviderFallbackEvent } from '../../providers/types.js';
+import { generateStructuredWithCache } from '../../providers/cache.js';
+import { preparePrompt, hashPromptTemplate } from '../../utils/prompts.js';
+import { hashContent } from '../../utils/hash.js';
+import { BudgetExceededError } from '../../utils/errors.js';
+import { extractTerms } from '../../utils/terms.js';
+import {
+  createConsoleEventBus,
+  createLLMEventHandlers,
+  type WorkflowEventBus,
+} from '../../utils/events.js';
+import { RequirementIssueSeveritySchema } from '../../schemas/requirement.js';
+import type { Requirement, RequirementIssueSeverity } from '../../types/requirement.js';
+
+/**
+ * Conflict between two requirements
+ */
+export interface RequirementConflict {
+  requirement_ids: [string, string];
+  severity: RequirementIssueSeverity;
+  description: string;
+  method: 'heuristic' | 'llm';
+}
+
+/**
+ * Options for conflict analysis
+ */
+export interface ConflictAnalysisOptions {
+  /** Ask the LLM for conflicts in addition to the heuristics (default: false) */
+  semantic?: boolean;
+  /** Serve identical LLM requests from .prism/cache (default: false) */
+  cache?: boolean;
+  onFallback?: (event: ProviderFallbackEvent) => void;
+  /** Workflow abort signal; cancels in-flight LLM requests */
+  signal?: AbortSignal;
+  /** Receives token usage for each LLM request (not called on cache hits) */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Called before each LLM request; throwing stops it (e.g. BudgetExceededError) */
+  beforeRequest?: () => void;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
+}
+
+const LLMConflictsSchema = z.object({
+  conflicts: z.array(
+    z.object({
+      requirement_ids: z.array(z.string()).length(2),
+      severity: RequirementIssueSeveritySchema,
+      description: z.string().min(1),
+    })
+  ),
+});
+
+/** "within 1s", "under 500ms", "less than 2 seconds" */
+const TIME_LIMIT = /\b(?:within|under|below|less than|in)\s+(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?)\b/i;
+
+/** "all 10k records", "10,000 rows" */
+const VOLUME = /\b(\d+(?:[.,]\d+)*)\s*(k|m)?\+?\s+(?:[a-z]+\s+)?(records|rows|items|results|entries|products|orders|documents|messages|users)\b/i;
+
+/** Volume requirements that must be served in one go */
+const ALL_AT_ONCE = /\ball\b|\bon (?:page )?load\b|\bat once\b|\bwithout pagination\b|\bsingle page\b/i;
+
+const LIMIT_UNITS: Record<string, string> = {
+  minute: 'minutes', minutes: 'minutes', min: 'minutes', mins: 'minutes',
+  hour: 'hours', hours: 'hours',
+  day: 'days', days: 'days',
+  character: 'characters', characters: 'characters', chars: 'characters',
+  attempt: 'attempts', attempts: 'attempts',
+  mb: 'MB', gb: 'GB',
+};
+
+/** "at least 8 characters", "after 15 minutes", "up to 5 attempts" */
+const NUMERIC_LIMIT = new RegExp(
+  `\\b(at least|minimum of|min\\.?|at most|maximum of|max\\.?|up to|no more than|after|within|every)?\\s*(\\d+(?:\\.\\d+)?)\\s*(${Object.keys(LIMIT_UNITS).join('|')})\\b`,
+  'gi'
+);
+
+const NEGATION = /\b(?:must not|shall not|should not|cannot|can't|never|not be|not allowed|prohibited|forbidden)\b/i;
+
+/** Negation, qualifiers and common verbs say nothing about what a sentence is about */
+const NON_SUBJECT_TERMS = extractTerms(
+  'not never cannot allowed prohibited forbidden be is are after every least most minimum maximum ' +
+    'up more than less under no expire exceed take last allow require support display show load ' +
+    'render run happen occur set'
+);
+
+/**
+ * Finds conflicting requirement pairs
+ *
+ * Runs the heuristics, then (when `semantic` is set) an LLM pass. If the
+ * LLM pass fails, heuristic conflicts are still returned.
+ *
+ * @param requirements - Requirements to compare
+ * @param options - Analysis options
+ * @returns Conflicts, one per requirement pair
+ * @throws {BudgetExceededError} If the session budget is spent before an LLM request
+ */
+export async function analyzeRequirementConflicts(
+  requirements: Requirement[],
+  options?: ConflictAnalysisOptions
+): Promise<RequirementConflict[]> {
+  const events = options?.events ?? createConsoleEventBus();
+  const conflicts = detectConflictsHeuristically(requirements);
+
+  if (options?.semantic && requirements.length > 1) {
+    try {
+      const known = new Set(conflicts.map((conflict) => pairKey(...conflict.requirement_ids)));
+      for (const conflict of await detectConflictsWithLLM(requirements, { ...options, events })) {
+        if (!known.has(pairKey(...conflict.requirement_ids))) {
+          known.add(pairKey(...conflict.requirement_ids));
+          conflicts.push(conflict);
+        }
+      }
+    } catch (error) {
+      if (error instanceof BudgetExceededError || (error instanceof Error && error.name === 'AbortError')) {
+        throw error;
+      }
+      events.warn(
+        `⚠️  LLM conflict analysis failed, using heuristics only: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Compares requirement pairs within the same category using heuristics
+ *
+ * @param requirements - Requirements to compare
+ * @returns Conflicts, one per requirement pair
+ */
+export function detectConflictsHeuristically(requirements: Requirement[]): RequirementConflict[] {
+  const conflicts: RequirementConflict[] = [];
+
+  requirements.forEach((a, index) => {
+    for (const b of requirements.slice(index + 1)) {
+      if (categoryOf(a) !== categoryOf(b)) {
+        continue;
+      }
+
+      const description =
+        findLatencyVolumeConflict(a, b) ?? findLimitConflict(a, b) ?? findPolarityConflict(a, b);
+      if (description) {
+        conflicts.push({
+          requirement_ids: [a.id, b.id],
+          severity: conflictSeverity(a, b),
+          description,
+          method: 'heuristic',
+        });
+      }
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Records each conflict as a `conflict` issue on both requirements
+ *
+ * Existing conflict issues for the same pair are replaced, so re-running
+ * the analysis does not duplicate them.
+ *
+ * @param requirements - Requirements to update (modified in place)
+ * @param conflicts - Conflicts from analyzeRequirementConflicts
+ */
+export function applyConflictIssues(requirements: Requirement[], conflicts: RequirementConflict[]): void {
+  const byId = new Map(requirements.map((req) => [req.id, req]));
+
+  for (const conflict of conflicts) {
+    const [firstId, secondId] = conflict.requirement_ids;
+    for (const [id, otherId] of [[firstId, secondId], [secondId, firstId]] as const) {
+      const requirement = byId.get(id);
+      if (!requirement) {
+        continue;
+      }
+
+      requirement.issues = requirement.issues.filter(
+        (issue) => !(issue.type === 'conflict' && issue.related_requirement_ids?.includes(otherId))
+      );
+      requirement.issues.push({
+        type: 'conflict',
+        severity: conflict.severity,
+        description: conflict.description,
+        suggestion: `Confirm with product whether ${id} or ${otherId} takes precedence`,
+        related_requirement_ids: [otherId],
+      });
+    }
+  }
+}
+
+/**
+ * Asks the LLM for conflicts between requirements of the same category
+ */
+async function detectConflictsWithLLM(
+  requirements: Requirement[],
+  options: ConflictAnalysisOptions & { events: WorkflowEventBus }
+): Promise<RequirementConflict[]> {
+  const { events } = options;
+  events.info('   Checking requirements for conflicts with the LLM...');
+
+  const handlers = createLLMEventHandlers(events, 'prd-analyzer', {
+    onUsage: options.onUsage,
+    onFallback: options.onFallback,
+  });
+  const llm = await createLLMProvider(handlers.onFallback, {
+    signal: options.signal,
+    beforeRequest: options.beforeRequest,
+  });
+
+  const requirementsJSON = JSON.stringify(
+    requirements.map((req) => ({
+      id: req.id,
+      category: categoryOf(req),
+      title: req.title,
+      description: req.description,
+      acceptance_criteria: req.acceptance_criteria,
+    })),
+    null,
+    2
+  );
+  const prompt = await preparePrompt('conflict-analyzer', { requirements: requirementsJSON });
+
+  const useCache = options.cache === true;
+  const { result } = await generateStructuredWithCache(
+    llm,
+    prompt,
+    LLMConflictsSchema,
+    { temperature: 0, onUsage: handlers.onUsage },
+    {
+      enabled: useCache,
+      inputHash: useCache ? hashContent(requirementsJSON) : '',
+      templateHash: useCache ? await hashPromptTemplate('conflict-analyzer') : '',
+    }
+  );
+
+  const byId = new Map(requirements.map((req) => [req.id, req]));
+
+  return result.conflicts.flatMap((conflict): RequirementConflict[] => {
+    const [firstId = '', secondId = ''] = conflict.requirement_ids;
+    const first = byId.get(firstId);
+    const second = byId.get(secondId);
+
+    if (!first || !second || first === second || categoryOf(first) !== categoryOf(second)) {
+      return [];
+    }
+
+    return [
+      {
+        requirement_ids: [firstId, secondId],
+        severity: conflict.severity,
+        description: conflict.description,
+        method: 'llm',
+      },
+    ];
+  });
+}
+
+/**
+ * Tight latency target in one requirement, bulk loading in the other
+ */
+function findLatencyVolumeConflict(a: Requirement, b: Requirement): string | undefined {
+  for (const [fast, bulk] of [[a, b], [b, a]] as const) {
+    const limit = findSentences(fast).map(parseTimeLimit).find((seconds) => seconds !== undefined);
+    if (limit === undefined || limit > 3) {
+      continue;
+    }
+
+    for (const sentence of findSentences(bulk)) {
+      const volume = parseVolume(sentence);
+      if (volume !== undefined && volume >= 1000 && ALL_AT_ONCE.test(sentence)) {
+        return `${fast.id} requires responses within ${formatSeconds(limit)}, but ${bulk.id} requires ${volume.toLocaleString('en-US')} ${
+          sentence.match(VOLUME)?.[3] ?? 'records'
+        } at once ("${sentence}")`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Different values for the same limit (e.g. session timeout of 15 vs 30 minutes)
+ */
+function findLimitConflict(a: Requirement, b: Requirement): string | undefined {
+  const limitsA = findSentences(a).flatMap(parseLimits);
+  const limitsB = findSentences(b).flatMap(parseLimits);
+
+  for (const limitA of limitsA) {
+    for (const limitB of limitsB) {
+      if (
+        limitA.unit === limitB.unit &&
+        limitA.bound === limitB.bound &&
+        limitA.value !== limitB.value &&
+        overlaps(limitA.subject, limitB.subject, 1)
+      ) {
+        return `${a.id} sets ${limitA.value} ${limitA.unit} ("${limitA.sentence}"), but ${b.id} sets ${limitB.value} ${limitB.unit} ("${limitB.sentence}")`;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * One requirement mandates what the other forbids
+ */
+function findPolarityConflict(a: Requirement, b: Requirement): string | undefined {
+  for (const [forbidding, allowing] of [[a, b], [b, a]] as const) {
+    for (const negative of findSentences(forbidding).filter((sentence) => NEGATION.test(sentence))) {
+      const negativeTerms = subjectTerms(negative);
+
+      for (const positive of findSentences(allowing).filter((sentence) => !NEGATION.test(sentence))) {
+        if (overlaps(negativeTerms, subjectTerms(positive), 2)) {
+          return `${forbidding.id} forbids what ${allowing.id} requires: "${negative}" vs "${positive}"`;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function categoryOf(requirement: Requirement): string {
+  return requirement.category ?? requirement.type;
+}
+
+function conflictSeverity(a: Requirement, b: Requirement): RequirementIssueSeverity {
+  const priorities = [a.priority, b.priority];
+  if (priorities.includes('critical')) return 'critical';
+  if (priorities.includes('high')) return 'high';
+  return 'medium';
+}
+
+function findSentences(requirement: Requirement): string[] {
+  return [requirement.title, requirement.description, ...requirement.acceptance_criteria]
+    .flatMap((text) => text.split(/(?<=[.!?;])\s+|\n/))
+    .map((sentence) => sentence.trim().replace(/[.;]$/, ''))
+    .filter((sentence) => sentence.length > 0);
+}
+
+function parseTimeLimit(sentence: string): number | undefined {
+  const match = sentence.match(TIME_LIMIT);
+  if (!match?.[1] || !match[2]) {
+    return undefined;
+  }
+  const value = Number(match[1]);
+  return match[2].toLowerCase().startsWith('m') ? value / 1000 : value;
+}
+
+function parseVolume(sentence: string): number | undefined {
+  const match = sentence.match(VOLUME);
+  if (!match?.[1]) {
+    return undefined;
+  }
+  const value = Number(match[1].replace(/,/g, ''));
+  const multiplier = match[2]?.toLowerCase() === 'k' ? 1000 : match[2]?.toLowerCase() === 'm' ? 1_000_000 : 1;
+  return value * multiplier;
+}
+
+function parseLimits(sentence: string): {
+  value: number;
+  unit: string;
+  bound: 'min' | 'max' | 'exact';
+  subject: Set<string>;
+  sentence: string;
+}[] {
+  return [...sentence.matchAll(NUMERIC_LIMIT)].map((match) => {
+    const qualifier = (match[1] ?? '').toLowerCase();
+    const bound = /least|min/.test(qualifier)
+      ? 'min'
+      : /most|max|up to|no more|within/.test(qualifier)
+        ? 'max'
+        : 'exact';
+
+    return {
+      value: Number(match[2]),
+      unit: LIMIT_UNITS[match[3]!.toLowerCase()]!,
+      bound,
+      subject: subjectTerms(sentence),
+      sentence,
+    };
+  });
+}
+
+/**
+ * Terms that say what a sentence is about (no numbers, units, qualifiers or common verbs)
+ */
+function subjectTerms(sentence: string): Set<string> {
+  const units = extractTerms(Object.keys(LIMIT_UNITS).join(' '));
+  return new Set(
+    [...extractTerms(sentence)].filter(
+      (term) => !/^\d/.test(term) && !units.has(term) && !NON_SUBJECT_TERMS.has(term)
+    )
+  );
+}
+
+/**
+ * Whether two sentences share at least `minShared` subject terms, covering
+ * at least half of the shorter sentence's subject
+ */
+function overlaps(a: Set<string>, b: Set<string>, minShared: number): boolean {
+  const shared = [...a].filter((term) => b.has(term)).length;
+  return shared >= minShared && shared / Math.min(a.size, b.size) >= 0.5;
+}
+
+function formatSeconds(seconds: number): string {
+  return seconds < 1 ? `${Math.round(seconds * 1000)}ms` : `${seconds}s`;
+}
+
+function pairKey(first: string, second: string): string {
+  return [first, second].sort().join('|');
+}
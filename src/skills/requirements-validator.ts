@@ -12,13 +12,24 @@ import type { RequirementsOutput } from '../types/requirement.js';
 import type { ComponentsOutput } from '../types/component.js';
 import type { GapsOutput, Gap } from '../types/gap.js';
 import { GapsOutputSchema } from '../schemas/gap.js';
+import { TraceabilityMatrixSchema } from '../schemas/traceability.js';
 import { writeYAMLWithSchema } from '../utils/files.js';
 import { WorkflowError } from '../utils/errors.js';
+import { createConsoleEventBus } from '../utils/events.js';
+import {
+  buildTraceabilityMatrix,
+  TRACEABILITY_THRESHOLD,
+  type TraceabilityOptions,
+} from './requirements-validator/traceability.js';
+import {
+  detectInconsistencies,
+  detectIncompleteMapping,
+} from './requirements-validator/consistency.js';
 
 /**
  * Options for requirements validation
  */
-export interface ValidateRequirementsOptions {
+export interface ValidateRequirementsOptions extends TraceabilityOptions {
   saveOutput?: boolean;
 }
 
@@ -38,6 +49,7 @@ export async function validateRequirements(
   sessionId: string,
   options?: ValidateRequirementsOptions
 ): Promise<GapsOutput> {
+  const events = options?.events ?? createConsoleEventBus();
   const startTime = Date.now();
 
   try {
@@ -54,21 +66,29 @@ export async function validateRequirements(
       throw new WorkflowError('Session ID cannot be empty', 'requirements-validation');
     }
 
-    console.log('🔍 Validating requirements against components...');
-    console.log(`   Session: ${sessionId}`);
-    console.log(`   Requirements: ${requirements.requirements.length}`);
-    console.log(`   Components: ${components.components.length}`);
+    events.info('🔍 Validating requirements against components...');
+    events.info(`   Session: ${sessionId}`);
+    events.info(`   Requirements: ${requirements.requirements.length}`);
+    events.info(`   Components: ${components.components.length}`);
+
+    // 2. Trace requirements to components
+    events.info('   Tracing requirements to components...');
+    const matrix = await buildTraceabilityMatrix(requirements, components, { ...options, events });
+    const untracedRequirements = new Set(matrix.untraced_requirements);
+    const untracedComponents = new Set(matrix.untraced_components);
+    events.info(
+      `   Links: ${matrix.metadata.total_links} (untraced: ${untracedRequirements.size} requirements, ${untracedComponents.size} components)`
+    );
 
-    // 2. Detect gaps
+    // 3. Detect gaps
     const gaps: Gap[] = [];
     let gapCounter = 1;
 
-    // 2a. Detect missing UI for requirements
-    console.log('   Checking for missing UI components...');
+    // 3a. Detect missing UI for requirements
+    events.info('   Checking for missing UI components...');
     for (const req of requirements.requirements) {
       if (req.type === 'functional') {
-        const hasUI = detectUIMapping(req.id, components);
-        if (!hasUI) {
+        if (untracedRequirements.has(req.id)) {
           gaps.push({
             id: `GAP-${String(gapCounter++).padStart(3, '0')}`,
             type: 'missing_ui',
@@ -81,11 +101,10 @@ export async function validateRequirements(
       }
     }
 
-    // 2b. Detect orphaned components (no corresponding requirements)
-    console.log('   Checking for orphaned components...');
+    // 3b. Detect orphaned components (no corresponding requirements)
+    events.info('   Checking for orphaned components...');
     for (const comp of components.components) {
-      const hasRequirement = detectRequirementMapping(comp.id, requirements);
-      if (!hasRequirement) {
+      if (untracedComponents.has(comp.id)) {
         gaps.push({
           id: `GAP-${String(gapCounter++).padStart(3, '0')}`,
           type: 'no_requirement',
@@ -97,8 +116,70 @@ export async function validateRequirements(
       }
     }
 
-    // 2c. Detect missing acceptance criteria
-    console.log('   Checking for missing acceptance criteria...');
+    // 3c. Detect inconsistencies and partial mappings on traced requirements
+    if (components.components.length > 0) {
+      events.info('   Checking linked components for inconsistencies...');
+      for (const req of requirements.requirements) {
+        const linkedIds = new Set(
+          matrix.links
+            .filter((link) => link.requirement_id === req.id && link.confidence >= TRACEABILITY_THRESHOLD)
+            .map((link) => link.component_id)
+        );
+        const linked = components.components.filter((comp) => linkedIds.has(comp.id));
+
+        for (const finding of detectInconsistencies(req, linked, components.design_tokens)) {
+          gaps.push({
+            id: `GAP-${String(gapCounter++).padStart(3, '0')}`,
+            type: 'inconsistency',
+            severity: req.priority === 'critical' || req.priority === 'high' ? 'high' : 'medium',
+            requirement_id: finding.requirement_id,
+            component_id: finding.component_id,
+            description: finding.description,
+            stakeholder: ['product', 'design'],
+          });
+        }
+
+        const incomplete = detectIncompleteMapping(req, linked);
+        if (incomplete) {
+          gaps.push({
+            id: `GAP-${String(gapCounter++).padStart(3, '0')}`,
+            type: 'incomplete_mapping',
+            severity: req.priority === 'critical' ? 'high' : 'medium',
+            requirement_id: incomplete.requirement_id,
+            component_id: incomplete.component_id,
+            description: incomplete.description,
+            stakeholder: ['design'],
+          });
+        }
+      }
+    }
+
+    // 3d. Report conflicting requirements (recorded as issues by PRD analysis)
+    events.info('   Checking for conflicting requirements...');
+    const reportedConflicts = new Set<string>();
+    for (const req of requirements.requirements) {
+      for (const issue of req.issues ?? []) {
+        const otherIds = issue.related_requirement_ids ?? [];
+        const pairKey = [req.id, ...otherIds].sort().join('|');
+        if (issue.type !== 'conflict' || otherIds.length === 0 || reportedConflicts.has(pairKey)) {
+          continue;
+        }
+
+        reportedConflicts.add(pairKey);
+        gaps.push({
+          id: `GAP-${String(gapCounter++).padStart(3, '0')}`,
+          type: 'inconsistency',
+          severity: issue.severity,
+          requirement_id: req.id,
+          related_requirement_ids: otherIds,
+          description: issue.description,
+          stakeholder: ['product', 'engineering'],
+        });
+      }
+    }
+
+    // 3e. Detect missing acceptance criteria
+    events.info('   Checking for missing acceptance criteria...');
     for (const req of requirements.requirements) {
       if (!req.acceptance_criteria || req.acceptance_criteria.length === 0) {
         gaps.push({
@@ -112,7 +193,9 @@ export async function validateRequirements(
       }
     }
 
-    // 3. Calculate statistics
+    gaps.forEach((gap) => events.emit('gap-detected', { gap }));
+
+    // 4. Calculate statistics
     const criticalCount = gaps.filter(g => g.severity === 'critical').length;
     const highCount = gaps.filter(g => g.severity === 'high').length;
     const mediumCount = gaps.filter(g => g.severity === 'medium').length;
@@ -132,10 +215,10 @@ export async function validateRequirements(
     };
 
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.log(`✅ Validation complete: ${gaps.length} gaps detected (${duration}s)`);
-    console.log(`   Critical: ${criticalCount}, High: ${highCount}, Medium: ${mediumCount}, Low: ${lowCount}`);
+    events.info(`✅ Validation complete: ${gaps.length} gaps detected (${duration}s)`);
+    events.info(`   Critical: ${criticalCount}, High: ${highCount}, Medium: ${mediumCount}, Low: ${lowCount}`);
 
-    // 4. Save output if requested
+    // 5. Save output if requested
     if (options?.saveOutput !== false) {
       const outputDir = join(
         process.cwd(),
@@ -145,15 +228,17 @@ export async function validateRequirements(
         '03-validation'
       );
       const outputPath = join(outputDir, 'gaps.yaml');
+      const matrixPath = join(outputDir, 'traceability.yaml');
 
-      console.log(`💾 Saving to ${outputPath}...`);
+      events.info(`💾 Saving to ${outputPath}...`);
       await writeYAMLWithSchema(outputPath, validated, GapsOutputSchema);
+      await writeYAMLWithSchema(matrixPath, matrix, TraceabilityMatrixSchema);
     }
 
     return validated;
   } catch (error) {
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.error(`❌ Requirements validation failed after ${duration}s`);
+    events.error(`❌ Requirements validation failed after ${duration}s`);
 
     if (error instanceof WorkflowError) {
       throw error;
@@ -161,28 +246,8 @@ export async function validateRequirements(
 
     throw new WorkflowError(
       `Requirements validation failed: ${error instanceof Error ? error.message : String(error)}`,
-      'requirements-validation'
+      'requirements-validation',
+      error instanceof Error ? error : undefined
     );
   }
 }
-
-/**
- * Helper: Detect if a requirement has corresponding UI in components
- */
-function detectUIMapping(_requirementId: string, components: ComponentsOutput): boolean {
-  // Simple heuristic: Check if any component mentions the requirement
-  // In a real implementation, this would use more sophisticated matching
-  return components.components.some(comp => {
-    // Check if component usage screens or names relate to the requirement
-    return comp.usage.screens.length > 0;
-  });
-}
-
-/**
- * Helper: Detect if a component has corresponding requirement
- */
-function detectRequirementMapping(_componentId: string, requirements: RequirementsOutput): boolean {
-  // Simple heuristic: Check if any functional requirement exists
-  // In a real implementation, this would use semantic matching or explicit links
-  return requirements.requirements.some(req => req.type === 'functional');
-}
@@ -0,0 +1,197 @@
+/**
+ * Mapping Consistency Module
+ *
+ * Checks traced requirement-component pairs for contradictions (dark mode
+ * without a dark palette, fewer form inputs than the requirement lists,
+ * missing UI states) and for acceptance criteria no linked component covers.
+ *
+ * @module skills/requirements-validator/consistency
+ */
+
+import type { Requirement } from '../../types/requirement.js';
+import type { Component, DesignTokens } from '../../types/component.js';
+import { extractTerms, withoutGenericTerms } from '../../utils/terms.js';
+
+/**
+ * Inconsistency or partial mapping found for a requirement
+ */
+export interface MappingFinding {
+  type: 'inconsistency' | 'incomplete_mapping';
+  requirement_id: string;
+  /** Component the finding is about (omitted for design-wide findings) */
+  component_id?: string;
+  description: string;
+}
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5,
+  six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+/** "5 fields", "three required form fields", "4 inputs" */
+const FIELD_COUNT = /\b(\d+|one|two|three|four|five|six|seven|eight|nine|ten)\s+(?:[a-z]+\s+){0,2}(?:fields|inputs)\b/i;
+
+const DARK_MODE = /\bdark[\s-]?(?:mode|theme)\b/i;
+
+/** Component types and property names that collect user input */
+const INPUT_PATTERN = /input|field|textarea|select|dropdown|checkbox|radio|picker|switch|toggle/i;
+
+/** UI states acceptance criteria commonly require */
+const UI_STATES = ['disabled', 'loading', 'error', 'empty', 'selected', 'expanded', 'success'];
+
+/**
+ * Checks a requirement's linked components against its text
+ *
+ * @param requirement - Traced requirement
+ * @param linked - Components linked to it at or above the traceability threshold
+ * @param designTokens - File-level design tokens from the Figma analysis
+ * @returns Inconsistency findings (empty if none)
+ */
+export function detectInconsistencies(
+  requirement: Requirement,
+  linked: Component[],
+  designTokens: DesignTokens
+): MappingFinding[] {
+  const findings: MappingFinding[] = [];
+  const text = [requirement.title, requirement.description, ...requirement.acceptance_criteria].join('\n');
+
+  // Dark mode needs dark colors somewhere in the design
+  if (DARK_MODE.test(text)) {
+    const palettes = [designTokens, ...linked.map((comp) => comp.design_tokens)];
+    const hasDarkColors = palettes.some((tokens) =>
+      Object.keys(tokens.colors ?? {}).some((key) => /dark/i.test(key))
+    );
+    const hasDarkVariant = linked.some((comp) => comp.variants.some((variant) => mentions(variant, 'dark')));
+
+    if (!hasDarkColors && !hasDarkVariant) {
+      findings.push({
+        type: 'inconsistency',
+        requirement_id: requirement.id,
+        component_id: linked[0]?.id,
+        description: `Requirement "${requirement.title}" calls for dark mode, but the design has no dark color tokens or dark variants`,
+      });
+    }
+  }
+
+  if (linked.length === 0) {
+    return findings;
+  }
+
+  // Form field count
+  const fieldMatch = text.match(FIELD_COUNT);
+  if (fieldMatch?.[1]) {
+    const expected = NUMBER_WORDS[fieldMatch[1].toLowerCase()] ?? Number(fieldMatch[1]);
+    const found = countInputs(linked);
+
+    if (found < expected) {
+      findings.push({
+        type: 'inconsistency',
+        requirement_id: requirement.id,
+        component_id: (linked.find((comp) => /form/i.test(comp.type)) ?? linked[0])!.id,
+        description: `Requirement "${requirement.title}" specifies ${expected} fields, but linked components (${linked
+          .map((comp) => comp.id)
+          .join(', ')}) provide ${found} inputs`,
+      });
+    }
+  }
+
+  // UI states named in acceptance criteria ("shows a loading state")
+  for (const state of UI_STATES) {
+    const pattern = new RegExp(`\\b${state}\\s+(?:state|message|view|indicator)\\b`, 'i');
+    if (!requirement.acceptance_criteria.some((criterion) => pattern.test(criterion))) {
+      continue;
+    }
+
+    const supported = linked.some(
+      (comp) =>
+        comp.variants.some((variant) => mentions(variant, state)) ||
+        comp.properties.some((prop) => prop.name.toLowerCase().includes(state))
+    );
+    if (!supported) {
+      findings.push({
+        type: 'inconsistency',
+        requirement_id: requirement.id,
+        component_id: linked[0]!.id,
+        description: `Requirement "${requirement.title}" expects a ${state} state, but no variant or property of ${linked
+          .map((comp) => comp.id)
+          .join(', ')} provides one`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Finds acceptance criteria that none of the linked components cover
+ *
+ * A criterion is covered when it shares a term with a linked component's
+ * name, description, screens, properties or variants. Returns a finding
+ * only when some criteria are covered and others are not; requirements
+ * with no coverage at all are reported as missing UI instead.
+ *
+ * @param requirement - Traced requirement
+ * @param linked - Components linked to it at or above the traceability threshold
+ * @returns Incomplete mapping finding, or undefined
+ */
+export function detectIncompleteMapping(
+  requirement: Requirement,
+  linked: Component[]
+): MappingFinding | undefined {
+  if (linked.length === 0 || requirement.acceptance_criteria.length < 2) {
+    return undefined;
+  }
+
+  const covered = new Set(linked.flatMap((comp) => [...coverageTerms(comp)]));
+  const uncovered = requirement.acceptance_criteria.filter(
+    (criterion) => ![...withoutGenericTerms(extractTerms(criterion))].some((term) => covered.has(term))
+  );
+
+  if (uncovered.length === 0 || uncovered.length === requirement.acceptance_criteria.length) {
+    return undefined;
+  }
+
+  const coveredCount = requirement.acceptance_criteria.length - uncovered.length;
+  return {
+    type: 'incomplete_mapping',
+    requirement_id: requirement.id,
+    component_id: linked[0]!.id,
+    description: `Requirement "${requirement.title}" has UI for ${coveredCount} of ${
+      requirement.acceptance_criteria.length
+    } acceptance criteria; not covered: ${uncovered.map((criterion) => `"${criterion}"`).join(', ')}`,
+  };
+}
+
+/**
+ * Terms describing what a component does
+ */
+function coverageTerms(component: Component): Set<string> {
+  return withoutGenericTerms(
+    extractTerms(
+      [
+        component.name,
+        component.description ?? '',
+        ...component.usage.screens,
+        ...component.properties.flatMap((prop) => [prop.name, prop.description ?? '']),
+        ...component.variants.map((variant) => variant.name),
+      ].join(' ')
+    )
+  );
+}
+
+/**
+ * Counts input components, plus input properties of form components
+ */
+function countInputs(components: Component[]): number {
+  return components.reduce((count, comp) => {
+    if (INPUT_PATTERN.test(comp.type)) {
+      return count + 1;
+    }
+    return count + comp.properties.filter((prop) => INPUT_PATTERN.test(`${prop.name} ${prop.type}`)).length;
+  }, 0);
+}
+
+function mentions(variant: Component['variants'][number], term: string): boolean {
+  const values = [variant.name, ...Object.values(variant.properties).map(String)];
+  return values.some((value) => value.toLowerCase().includes(term));
+}
@@ -0,0 +1,323 @@
+/**
+ * Requirement Traceability Module
+ *
+ * Links requirements to the Figma components that implement them, using
+ * explicit REQ-… references in component descriptions, lexical similarity,
+ * and (optionally) LLM-assisted semantic matching.
+ *
+ * @module skills/requirements-validator/traceability
+ */
+
+import { createLLMProvider } from '../../providers/index.js';
+import type { TokenUsage, ProviderFallbackEvent } from '../../providers/types.js';
+import { generateStructuredWithCache } from '../../providers/cache.js';
+import { preparePrompt, hashPromptTemplate } from '../../utils/prompts.js';
+import { hashContent } from '../../utils/hash.js';
+import { BudgetExceededError } from '../../utils/errors.js';
+import { extractTerms, withoutGenericTerms } from '../../utils/terms.js';
+import {
+  createConsoleEventBus,
+  createLLMEventHandlers,
+  type WorkflowEventBus,
+} from '../../utils/events.js';
+import { SemanticMatchesSchema } from '../../schemas/traceability.js';
+import type { Requirement, RequirementsOutput } from '../../types/requirement.js';
+import type { Component, ComponentsOutput } from '../../types/component.js';
+import type { TraceabilityLink, TraceabilityMatrix } from '../../types/traceability.js';
+
+/** Links at or above this confidence count as traced */
+export const TRACEABILITY_THRESHOLD = 0.5;
+
+/** Weaker links are dropped from the matrix */
+const MIN_LINK_CONFIDENCE = 0.2;
+
+const REQUIREMENT_REFERENCE = /\bREQ-[A-Z]+-\d{3}\b/g;
+
+/**
+ * Options for traceability matching
+ */
+export interface TraceabilityOptions {
+  /** Ask the LLM for semantic matches in addition to lexical ones (default: false) */
+  semanticMatching?: boolean;
+  /** Serve identical semantic matching requests from .prism/cache (default: false) */
+  cache?: boolean;
+  onFallback?: (event: ProviderFallbackEvent) => void;
+  /** Workflow abort signal; cancels in-flight LLM requests */
+  signal?: AbortSignal;
+  /** Receives token usage for each LLM request (not called on cache hits) */
+  onUsage?: (usage: TokenUsage) => void;
+  /** Called before each LLM request; throwing stops it (e.g. BudgetExceededError) */
+  beforeRequest?: () => void;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
+}
+
+/**
+ * Builds the requirement-to-component traceability matrix
+ *
+ * For each requirement-component pair the strongest link wins: explicit
+ * references score 1.0, lexical and semantic matches score by similarity.
+ * If semantic matching fails, the matrix falls back to lexical links.
+ *
+ * @param requirements - Structured requirements from PRD Analyzer
+ * @param components - Structured components from Figma Analyzer
+ * @param options - Matching options
+ * @returns Traceability matrix
+ * @throws {BudgetExceededError} If the session budget is spent before a semantic matching request
+ */
+export async function buildTraceabilityMatrix(
+  requirements: RequirementsOutput,
+  components: ComponentsOutput,
+  options?: TraceabilityOptions
+): Promise<TraceabilityMatrix> {
+  const events = options?.events ?? createConsoleEventBus();
+  const links = new Map<string, TraceabilityLink>();
+
+  const addLink = (link: TraceabilityLink) => {
+    const key = `${link.requirement_id}|${link.component_id}`;
+    const existing = links.get(key);
+    if (!existing || link.confidence > existing.confidence) {
+      links.set(key, link);
+    }
+  };
+
+  findExplicitLinks(requirements.requirements, components.components).forEach(addLink);
+
+  for (const requirement of requirements.requirements) {
+    for (const component of components.components) {
+      const { confidence, matchedTerms } = scoreLexicalMatch(requirement, component);
+      if (confidence >= MIN_LINK_CONFIDENCE) {
+        addLink({
+          requirement_id: requirement.id,
+          component_id: component.id,
+          confidence,
+          method: 'lexical',
+          evidence: [`Shared terms: ${matchedTerms.join(', ')}`],
+        });
+      }
+    }
+  }
+
+  let semanticMatching = false;
+  if (
+    options?.semanticMatching &&
+    requirements.requirements.length > 0 &&
+    components.components.length > 0
+  ) {
+    try {
+      (await matchSemantically(requirements, components, { ...options, events })).forEach(addLink);
+      semanticMatching = true;
+    } catch (error) {
+      if (error instanceof BudgetExceededError || (error instanceof Error && error.name === 'AbortError')) {
+        throw error;
+      }
+      events.warn(
+        `⚠️  Semantic matching failed, using lexical matches only: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  const sorted = [...links.values()].sort(
+    (a, b) =>
+      a.requirement_id.localeCompare(b.requirement_id) ||
+      b.confidence - a.confidence ||
+      a.component_id.localeCompare(b.component_id)
+  );
+  const traced = sorted.filter((link) => link.confidence >= TRACEABILITY_THRESHOLD);
+
+  return {
+    metadata: {
+      generated_at: new Date().toISOString(),
+      confidence_threshold: TRACEABILITY_THRESHOLD,
+      semantic_matching: semanticMatching,
+      total_links: sorted.length,
+    },
+    links: sorted,
+    untraced_requirements: requirements.requirements
+      .filter((req) => !traced.some((link) => link.requirement_id === req.id))
+      .map((req) => req.id),
+    untraced_components: components.components
+      .filter((comp) => !traced.some((link) => link.component_id === comp.id))
+      .map((comp) => comp.id),
+  };
+}
+
+/**
+ * Finds components whose name, description or property descriptions
+ * reference a requirement ID (e.g. "Implements REQ-FUNC-001")
+ *
+ * @param requirements - Known requirements; references to other IDs are ignored
+ * @param components - Components to scan
+ * @returns Explicit links with confidence 1.0
+ */
+export function findExplicitLinks(
+  requirements: Requirement[],
+  components: Component[]
+): TraceabilityLink[] {
+  const requirementIds = new Set(requirements.map((req) => req.id));
+  const links: TraceabilityLink[] = [];
+
+  for (const component of components) {
+    const sources: Array<[string, string | undefined]> = [
+      ['name', component.name],
+      ['description', component.description],
+      ...component.properties.map(
+        (prop): [string, string | undefined] => [`property "${prop.name}"`, prop.description]
+      ),
+    ];
+
+    const evidence = new Map<string, string[]>();
+    for (const [field, text] of sources) {
+      for (const id of text?.match(REQUIREMENT_REFERENCE) ?? []) {
+        if (requirementIds.has(id)) {
+          evidence.set(id, [...(evidence.get(id) ?? []), `Component ${field} references ${id}`]);
+        }
+      }
+    }
+
+    for (const [id, reasons] of evidence) {
+      links.push({
+        requirement_id: id,
+        component_id: component.id,
+        confidence: 1,
+        method: 'explicit',
+        evidence: [...new Set(reasons)],
+      });
+    }
+  }
+
+  return links;
+}
+
+/**
+ * Scores how closely a component's name and screens match a requirement's text
+ *
+ * Combines three overlap ratios: component name terms found in the
+ * requirement (weight 0.5), the best-matching screen name (0.2), and
+ * requirement title terms found in the component (0.3).
+ *
+ * @param requirement - Requirement to match
+ * @param component - Candidate component
+ * @returns Confidence (0.0-1.0) and the terms both sides share
+ */
+export function scoreLexicalMatch(
+  requirement: Requirement,
+  component: Component
+): { confidence: number; matchedTerms: string[] } {
+  const requirementTerms = extractTerms(
+    [requirement.title, requirement.description, ...requirement.acceptance_criteria].join(' ')
+  );
+  const titleTerms = extractTerms(requirement.title);
+
+  const nameTerms = withoutGenericTerms(
+    extractTerms(`${component.name} ${component.description ?? ''}`)
+  );
+  const screenTerms = component.usage.screens.map((screen) => withoutGenericTerms(extractTerms(screen)));
+  const componentTerms = new Set([
+    ...nameTerms,
+    ...screenTerms.flatMap((terms) => [...terms]),
+    ...extractTerms(component.type),
+  ]);
+
+  const nameScore = overlapRatio(nameTerms, requirementTerms);
+  const screenScore = Math.max(0, ...screenTerms.map((terms) => overlapRatio(terms, requirementTerms)));
+  const titleScore = overlapRatio(titleTerms, componentTerms);
+
+  const confidence = Math.round((0.5 * nameScore + 0.2 * screenScore + 0.3 * titleScore) * 100) / 100;
+  const matchedTerms = [...componentTerms].filter((term) => requirementTerms.has(term)).sort();
+
+  return { confidence, matchedTerms };
+}
+
+/**
+ * Asks the LLM which components implement which requirements
+ */
+async function matchSemantically(
+  requirements: RequirementsOutput,
+  components: ComponentsOutput,
+  options: TraceabilityOptions & { events: WorkflowEventBus }
+): Promise<TraceabilityLink[]> {
+  const { events } = options;
+  events.info('   Matching requirements to components semantically...');
+
+  const handlers = createLLMEventHandlers(events, 'requirements-validator', {
+    onUsage: options.onUsage,
+    onFallback: options.onFallback,
+  });
+  const llm = await createLLMProvider(handlers.onFallback, {
+    signal: options.signal,
+    beforeRequest: options.beforeRequest,
+  });
+
+  const requirementsJSON = JSON.stringify(
+    requirements.requirements.map((req) => ({
+      id: req.id,
+      type: req.type,
+      title: req.title,
+      description: req.description,
+      acceptance_criteria: req.acceptance_criteria,
+    })),
+    null,
+    2
+  );
+  const componentsJSON = JSON.stringify(
+    components.components.map((comp) => ({
+      id: comp.id,
+      name: comp.name,
+      type: comp.type,
+      description: comp.description,
+      screens: comp.usage.screens,
+      properties: comp.properties.map((prop) => prop.name),
+    })),
+    null,
+    2
+  );
+
+  const prompt = await preparePrompt('traceability-matcher', {
+    requirements: requirementsJSON,
+    components: componentsJSON,
+  });
+
+  const useCache = options.cache === true;
+  const { result } = await generateStructuredWithCache(
+    llm,
+    prompt,
+    SemanticMatchesSchema,
+    { temperature: 0, onUsage: handlers.onUsage },
+    {
+      enabled: useCache,
+      inputHash: useCache ? hashContent(requirementsJSON, componentsJSON) : '',
+      templateHash: useCache ? await hashPromptTemplate('traceability-matcher') : '',
+    }
+  );
+
+  const requirementIds = new Set(requirements.requirements.map((req) => req.id));
+  const componentIds = new Set(components.components.map((comp) => comp.id));
+
+  return result.links
+    .filter(
+      (link) =>
+        requirementIds.has(link.requirement_id) &&
+        componentIds.has(link.component_id) &&
+        link.confidence >= MIN_LINK_CONFIDENCE
+    )
+    .map((link) => ({
+      requirement_id: link.requirement_id,
+      component_id: link.component_id,
+      confidence: link.confidence,
+      method: 'semantic' as const,
+      evidence: [link.rationale],
+    }));
+}
+
+/**
+ * Share of `terms` that also appear in `other` (0 when `terms` is empty)
+ */
+function overlapRatio(terms: Set<string>, other: Set<string>): number {
+  if (terms.size === 0) {
+    return 0;
+  }
+  return [...terms].filter((term) => other.has(term)).length / terms.size;
+}
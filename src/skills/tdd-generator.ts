@@ -10,6 +10,7 @@
 import { join } from 'path';
 import { writeFile } from '../utils/files.js';
 import { WorkflowError } from '../utils/errors.js';
+import { createConsoleEventBus, type WorkflowEventBus } from '../utils/events.js';
 import type { RequirementsOutput } from '../types/requirement.js';
 import type { ComponentsOutput } from '../types/component.js';
 import type { TDD } from '../types/tdd.js';
@@ -26,6 +27,8 @@ export interface GenerateTDDOptions {
   onFallback?: (event: unknown) => void;
   saveOutput?: boolean;
   projectName?: string;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
 }
 
 /**
@@ -44,6 +47,7 @@ export async function generateTDD(
   sessionId: string,
   options?: GenerateTDDOptions
 ): Promise<TDD> {
+  const events = options?.events ?? createConsoleEventBus();
   const startTime = Date.now();
 
   try {
@@ -62,11 +66,11 @@ export async function generateTDD(
 
     const projectName = options?.projectName || 'Project';
 
-    console.log('📋 Generating Technical Design Document...');
-    console.log(`   Session: ${sessionId}`);
-    console.log(`   Project: ${projectName}`);
-    console.log(`   Requirements: ${requirements.requirements.length}`);
-    console.log(`   Components: ${components.components.length}`);
+    events.info('📋 Generating Technical Design Document...');
+    events.info(`   Session: ${sessionId}`);
+    events.info(`   Project: ${projectName}`);
+    events.info(`   Requirements: ${requirements.requirements.length}`);
+    events.info(`   Components: ${components.components.length}`);
 
     // 2. Prepare comprehensive input for TDD generation
     // Note: In production, this would use LLM provider with structured output
@@ -81,7 +85,7 @@ export async function generateTDD(
     // };
 
     // 3. Generate TDD using simplified logic
-    console.log('🔨 Generating comprehensive TDD...');
+    events.info('🔨 Generating comprehensive TDD...');
 
     // TODO: In production, use LLM provider with structured output
     // const llm = await createLLMProvider(options?.onFallback);
@@ -95,21 +99,21 @@ export async function generateTDD(
     );
 
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.log(`✅ TDD generation complete (${duration}s)`);
-    console.log(`   Sections: ${tdd.sections.length}`);
-    console.log(`   API Endpoints: ${Object.keys(tdd.api_spec.paths).length}`);
-    console.log(`   Database Tables: ${tdd.database_schema.tables.length}`);
-    console.log(`   Implementation Tasks: ${tdd.tasks.length}`);
+    events.info(`✅ TDD generation complete (${duration}s)`);
+    events.info(`   Sections: ${tdd.sections.length}`);
+    events.info(`   API Endpoints: ${Object.keys(tdd.api_spec.paths).length}`);
+    events.info(`   Database Tables: ${tdd.database_schema.tables.length}`);
+    events.info(`   Implementation Tasks: ${tdd.tasks.length}`);
 
     // 6. Save outputs if requested
     if (options?.saveOutput !== false) {
-      await saveTDDOutputs(tdd, sessionId);
+      await saveTDDOutputs(tdd, sessionId, events);
     }
 
     return tdd;
   } catch (error) {
     const duration = Math.round((Date.now() - startTime) / 1000);
-    console.error(`❌ TDD generation failed after ${duration}s`);
+    events.error(`❌ TDD generation failed after ${duration}s`);
 
     if (error instanceof WorkflowError) {
       throw error;
@@ -243,7 +247,11 @@ async function generateSimplifiedTDD(
 /**
  * Helper: Save TDD outputs to session directory
  */
-async function saveTDDOutputs(tdd: TDD, sessionId: string): Promise<void> {
+async function saveTDDOutputs(
+  tdd: TDD,
+  sessionId: string,
+  events: WorkflowEventBus
+): Promise<void> {
   const outputDir = join(
     process.cwd(),
     '.prism',
@@ -252,7 +260,7 @@ async function saveTDDOutputs(tdd: TDD, sessionId: string): Promise<void> {
     '05-tdd'
   );
 
-  console.log(`💾 Saving TDD outputs to ${outputDir}...`);
+  events.info(`💾 Saving TDD outputs to ${outputDir}...`);
 
   // Save main TDD document as markdown
   const tddMarkdown = `${tdd.title}\n\n${tdd.sections.map(s => s.content).join('\n\n---\n\n')}`;
@@ -271,7 +279,7 @@ async function saveTDDOutputs(tdd: TDD, sessionId: string): Promise<void> {
   // Save architecture diagram
   await writeFile(join(outputDir, 'architecture.mmd'), tdd.architecture_diagram);
 
-  console.log('✓ All TDD artifacts saved');
+  events.info('✓ All TDD artifacts saved');
 }
 
 /**
@@ -60,6 +60,9 @@ export interface Component {
   /** Atomic design category */
   category: ComponentCategory;
 
+  /** Figma component description (may reference requirements, e.g. REQ-FUNC-001) */
+  description?: string;
+
   /** Component variants */
   variants: ComponentVariant[];
 
@@ -15,20 +15,64 @@ export interface ConfigurationProfile {
     provider: string;
     model?: string;
     temperature?: number;
+    maxTokens?: number;
+    /** OpenAI-compatible endpoint for the local provider */
+    localBaseUrl?: string;
+    localModel?: string;
+    /** Retries after invalid structured output */
+    maxRepairAttempts?: number;
+    /** Retries per provider after transient failures */
+    maxRetries?: number;
+    requestTimeoutMs?: number;
   };
 
   /** MCP server configurations */
   mcps?: {
-    confluence?: object;
+    confluence?: {
+      url?: string;
+      /** Default space for title lookups and search */
+      space?: string;
+    };
     figma?: object;
-    jira?: object;
-    slack?: object;
+    jira?: {
+      url?: string;
+      /** Project key for clarification issues */
+      project?: string;
+      /** Issue type of each question (default: Task) */
+      issueType?: string;
+      /** Create the issues in one epic per session */
+      epic?: boolean;
+      /** Jira account ID to assign questions to, per stakeholder type */
+      assignees?: {
+        product?: string;
+        design?: string;
+        engineering?: string;
+      };
+    };
+    slack?: {
+      /** Channel ID clarification questions are posted to */
+      channel?: string;
+      /** Web API base URL (default: https://slack.com/api) */
+      url?: string;
+    };
   };
 
   /** Workflow settings */
   workflow?: {
+    /** Workflow timeout (FR-016) */
+    timeoutMinutes?: number;
     clarificationMode?: string;
+    /** File format exported in file clarification mode (default: markdown) */
+    clarificationFormat?: 'markdown' | 'yaml' | 'csv';
+    /** Keep polling Jira/Slack for answers at this interval instead of pausing right away */
+    clarificationPollSeconds?: number;
     maxClarificationIterations?: number;
+    /** Ask the LLM to match requirements to components during validation */
+    semanticMatching?: boolean;
+    /** Ask the LLM to find conflicting requirements during PRD analysis */
+    semanticConflicts?: boolean;
+    /** Ask the LLM to write clarification questions from the requirement and component context */
+    semanticQuestions?: boolean;
   };
 
   /** Output settings */
@@ -42,25 +86,72 @@ export interface ConfigurationProfile {
   retention: {
     sessionDays: number;
   };
+
+  /** Cost guardrails */
+  budget?: {
+    /** Maximum spend per session in USD */
+    maxUsdPerSession?: number;
+  };
+
+  /** Profile to apply (overridden by PRISM_PROFILE and --profile) */
+  profile?: string;
+
+  /** Named profiles (e.g. one per client), applied over the settings above */
+  profiles?: Record<string, NamedProfile>;
 }
 
-/** Zod schema for configuration validation */
-export const ConfigurationProfileSchema = z.object({
-  version: z.string(),
+/**
+ * Named configuration profile
+ *
+ * Sets any subset of the settings. `extends` names a base profile whose
+ * settings it inherits and overrides.
+ */
+export type NamedProfile = z.infer<typeof NamedProfileSchema>;
+
+/** Zod schema for the settings a profile can override */
+const ConfigurationSettingsSchema = z.object({
   llm: z.object({
-    provider: z.enum(['anthropic', 'openai', 'google']),
+    provider: z.enum(['anthropic', 'openai', 'google', 'local', 'replay']),
     model: z.string().optional(),
     temperature: z.number().min(0).max(1).optional(),
+    maxTokens: z.number().int().positive().optional(),
+    localBaseUrl: z.string().url().optional(),
+    localModel: z.string().optional(),
+    maxRepairAttempts: z.number().int().min(0).optional(),
+    maxRetries: z.number().int().min(0).optional(),
+    requestTimeoutMs: z.number().int().positive().optional(),
   }),
   mcps: z.object({
-    confluence: z.object({}).optional(),
+    confluence: z.object({
+      url: z.string().url().optional(),
+      space: z.string().optional(),
+    }).optional(),
     figma: z.object({}).optional(),
-    jira: z.object({}).optional(),
-    slack: z.object({}).optional(),
+    jira: z.object({
+      url: z.string().url().optional(),
+      project: z.string().optional(),
+      issueType: z.string().optional(),
+      epic: z.boolean().optional(),
+      assignees: z.object({
+        product: z.string().optional(),
+        design: z.string().optional(),
+        engineering: z.string().optional(),
+      }).optional(),
+    }).optional(),
+    slack: z.object({
+      channel: z.string().optional(),
+      url: z.string().url().optional(),
+    }).optional(),
   }).optional(),
   workflow: z.object({
-    clarificationMode: z.enum(['interactive', 'jira', 'slack']).optional(),
+    timeoutMinutes: z.number().positive().optional(),
+    clarificationMode: z.enum(['interactive', 'jira', 'slack', 'file']).optional(),
+    clarificationFormat: z.enum(['markdown', 'yaml', 'csv']).optional(),
+    clarificationPollSeconds: z.number().positive().optional(),
     maxClarificationIterations: z.number().min(1).max(10).optional(),
+    semanticMatching: z.boolean().optional(),
+    semanticConflicts: z.boolean().optional(),
+    semanticQuestions: z.boolean().optional(),
   }).optional(),
   output: z.object({
     baseDirectory: z.string().optional(),
@@ -70,4 +161,29 @@ export const ConfigurationProfileSchema = z.object({
   retention: z.object({
     sessionDays: z.number().min(1).max(365),
   }),
+  budget: z.object({
+    maxUsdPerSession: z.number().positive().optional(),
+  }).optional(),
 });
+
+/** Zod schema for a named profile */
+export const NamedProfileSchema = ConfigurationSettingsSchema.deepPartial().extend({
+  extends: z.string().optional(),
+});
+
+/** Zod schema for configuration validation */
+export const ConfigurationProfileSchema = ConfigurationSettingsSchema.extend({
+  version: z.string(),
+  profile: z.string().optional(),
+  profiles: z.record(NamedProfileSchema).optional(),
+});
+
+/**
+ * Contents of one configuration file (user-global or project)
+ *
+ * Files may set any subset of the profile; the rest comes from lower layers.
+ */
+export type ConfigurationFile = z.infer<typeof ConfigurationFileSchema>;
+
+/** Zod schema for a configuration file */
+export const ConfigurationFileSchema = ConfigurationProfileSchema.deepPartial();
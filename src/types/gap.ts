@@ -32,6 +32,9 @@ export interface Gap {
   /** Related requirement ID (if applicable) */
   requirement_id?: string;
 
+  /** Other requirements involved (e.g. the other side of a conflict) */
+  related_requirement_ids?: string[];
+
   /** Related component ID (if applicable) */
   component_id?: string;
 
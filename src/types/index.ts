@@ -9,4 +9,5 @@ export * from './component.js';
 export * from './gap.js';
 export * from './question.js';
 export * from './session.js';
+export * from './traceability.js';
 export * from './tdd.js';
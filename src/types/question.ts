@@ -37,6 +37,9 @@ export interface ClarificationQuestion {
 
   /** Related gap ID */
   gap_id: string;
+
+  /** Other gaps the same answer resolves (duplicate and similar gaps merged into this question) */
+  related_gap_ids?: string[];
 }
 
 /**
@@ -46,6 +49,10 @@ export interface QuestionsOutput {
   metadata: {
     generated_at: string; // ISO8601
     total_questions: number;
+    /** Gaps the questions cover (similar gaps share a question) */
+    total_gaps?: number;
+    /** Hash of the gaps, requirements, components and options the questions were generated from */
+    input_hash?: string;
     critical_count: number;
     high_count: number;
     medium_count: number;
@@ -77,3 +84,98 @@ export interface ClarificationSession {
   questions_answered: number;
   responses: ClarificationResponse[];
 }
+
+/**
+ * Questions posted to an external channel (Jira issues, Slack threads)
+ *
+ * Saved as 04-clarification/dispatch.yaml so later runs poll the same
+ * issues or threads instead of posting the questions again.
+ */
+export interface ClarificationDispatch {
+  mode: 'jira' | 'slack';
+  dispatched_at: string; // ISO8601
+  /** Epic key (Jira) or channel ID (Slack) the questions were posted under */
+  parent?: string;
+  items: Array<{
+    question_id: string;
+    /** Issue key (Jira) or thread timestamp (Slack) */
+    ref: string;
+    url?: string;
+  }>;
+}
+
+/**
+ * External channel that asks stakeholders and collects their answers
+ */
+export interface ClarificationChannel {
+  readonly mode: ClarificationDispatch['mode'];
+
+  /** Whether the channel asks this question (default: every question) */
+  asks?(question: ClarificationQuestion): boolean;
+
+  /**
+   * Post questions to stakeholders
+   *
+   * @param questions - Questions not posted yet
+   * @param sessionId - Session the questions belong to
+   * @param parent - Parent of earlier posts to reuse (epic key or channel)
+   */
+  dispatch(questions: QuestionsOutput, sessionId: string, parent?: string): Promise<ClarificationDispatch>;
+
+  /**
+   * Read the answers given so far
+   *
+   * @param questions - Questions of the session (for suggestion numbers)
+   * @param dispatch - Where the questions were posted
+   * @returns Responses for answered questions
+   */
+  collect(questions: QuestionsOutput, dispatch: ClarificationDispatch): Promise<ClarificationResponse[]>;
+}
+
+
+/**
+ * Change to one requirement field made by clarification answers
+ */
+export interface RequirementFieldChange {
+  field: 'description' | 'acceptance_criteria' | 'status';
+  before: string | string[];
+  after: string | string[];
+}
+
+/**
+ * How one requirement changed in a clarification round
+ */
+export interface RequirementRevision {
+  requirement_id: string;
+  /** Answered questions applied to the requirement */
+  question_ids: string[];
+  changes: RequirementFieldChange[];
+}
+
+/**
+ * One round of questions, answers and requirement updates
+ */
+export interface ClarificationRound {
+  round: number;
+  questions_asked: number;
+  questions_answered: number;
+  revisions: RequirementRevision[];
+  /** Gaps found by validating the refined requirements that were not asked about yet */
+  new_gaps?: number;
+}
+
+/**
+ * Requirement refinement across clarification rounds
+ *
+ * Saved as 04-clarification/refinement.yaml next to the refined
+ * requirements (04-clarification/requirements.yaml).
+ */
+export interface RefinementOutput {
+  metadata: {
+    refined_at: string; // ISO8601
+    total_rounds: number;
+    max_rounds: number;
+    requirements_changed: number;
+  };
+  rounds: ClarificationRound[];
+}
@@ -31,6 +31,8 @@ export interface RequirementIssue {
   severity: RequirementIssueSeverity;
   description: string;
   suggestion?: string;
+  /** Other requirements involved (e.g. the other side of a conflict) */
+  related_requirement_ids?: string[];
 }
 
 /**
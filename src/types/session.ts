@@ -12,14 +12,24 @@ export type WorkflowStep =
   | 'clarification'
   | 'tdd-generation';
 
+/**
+ * Identifier for a team-registered pipeline step (e.g. custom:security-review)
+ */
+export type CustomStepId = `custom:${string}`;
+
+/**
+ * Any step the pipeline can checkpoint: built-in or custom
+ */
+export type StepId = WorkflowStep | CustomStepId;
+
 export type SessionStatus = 'in-progress' | 'paused' | 'completed' | 'failed';
 
 /**
  * Checkpoint saved after each skill completes (per FR-050)
  */
 export interface Checkpoint {
-  /** Which skill completed */
-  step: WorkflowStep;
+  /** Which step completed */
+  step: StepId;
 
   /** When checkpoint was created */
   timestamp: string; // ISO8601
@@ -32,9 +42,40 @@ export interface Checkpoint {
     duration_ms: number;
     provider_used?: string;
     estimated_cost?: number;
+    /** Prompt tokens used by this step */
+    input_tokens?: number;
+    /** Completion tokens used by this step */
+    output_tokens?: number;
+    /** SHA-256 of the step inputs, used to detect stale checkpoints */
+    input_hash?: string;
+    /** Whether the LLM result was served from .prism/cache */
+    cache_hit?: boolean;
   };
 }
 
+/**
+ * Token usage and cost accumulated over a session
+ */
+export interface SessionUsage {
+  input_tokens: number;
+  output_tokens: number;
+  /** Total cost in USD (includes steps that were later re-run) */
+  estimated_cost: number;
+}
+
+/**
+ * Provider fallback that happened during a step
+ */
+export interface ProviderFallbackRecord {
+  step: StepId;
+  /** Provider that failed (e.g. anthropic) */
+  failed_provider: string;
+  /** Provider that took over the request */
+  active_provider: string;
+  reason: string;
+  timestamp: string; // ISO8601
+}
+
 /**
  * Session output paths
  */
@@ -43,8 +84,13 @@ export interface SessionOutputs {
   components_yaml?: string;
   validation_report?: string;
   gaps_yaml?: string;
+  traceability_yaml?: string;
   questions_md?: string;
   clarification_summary?: string;
+  /** Requirements with clarification answers applied */
+  refined_requirements_yaml?: string;
+  /** Per-round requirement changes */
+  refinement_yaml?: string;
   tdd_md?: string;
   api_spec_yaml?: string;
   database_schema_sql?: string;
@@ -60,7 +106,7 @@ export interface Session {
   session_id: string;
 
   /** Current workflow step */
-  current_step: WorkflowStep;
+  current_step: StepId;
 
   /** Session status */
   status: SessionStatus;
@@ -80,14 +126,24 @@ export interface Session {
   /** Output file paths */
   outputs: SessionOutputs;
 
-  /** Checkpoint history (5 checkpoints max per FR-050) */
+  /** Checkpoint history (one per completed step: 5 built-in plus any custom steps) */
   checkpoints: Checkpoint[];
 
+  /** Accumulated token usage and cost */
+  usage?: SessionUsage;
+
+  /** Provider fallbacks, in the order they happened */
+  provider_fallbacks?: ProviderFallbackRecord[];
+
   /** Configuration snapshot */
   config: {
     ai_provider: string;
     workflow_timeout_minutes: number;
     max_clarification_iterations: number;
+    /** Budget limit in USD; the run stops once it is reached */
+    max_cost_usd?: number;
+    /** Configuration profile the session was created with; resumes reuse it */
+    profile?: string;
   };
 }
 
@@ -0,0 +1,51 @@
+/**
+ * Traceability entity
+ *
+ * Links requirements to the Figma components that implement them
+ */
+
+/**
+ * How a requirement-component link was found
+ *
+ * - explicit: the component description references the requirement ID (REQ-…)
+ * - lexical: requirement and component text share terms
+ * - semantic: an LLM judged the component to implement the requirement
+ */
+export type TraceabilityMethod = 'explicit' | 'lexical' | 'semantic';
+
+/**
+ * Link between a requirement and a component
+ */
+export interface TraceabilityLink {
+  requirement_id: string;
+  component_id: string;
+
+  /** Match confidence (0.0-1.0) */
+  confidence: number;
+
+  /** Method that produced the confidence */
+  method: TraceabilityMethod;
+
+  /** Why the link was made (matched terms, references, LLM rationale) */
+  evidence: string[];
+}
+
+/**
+ * Traceability matrix from Requirements Validator
+ *
+ * Saved to .prism/sessions/{session_id}/03-validation/traceability.yaml
+ */
+export interface TraceabilityMatrix {
+  metadata: {
+    generated_at: string; // ISO8601
+    /** Links at or above this confidence count as traced */
+    confidence_threshold: number;
+    semantic_matching: boolean;
+    total_links: number;
+  };
+  links: TraceabilityLink[];
+  /** Requirements with no link at or above the threshold */
+  untraced_requirements: string[];
+  /** Components with no link at or above the threshold */
+  untraced_components: string[];
+}
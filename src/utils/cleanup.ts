@@ -5,12 +5,13 @@
  * Per research.md section 6: Session Cleanup Scheduling
  *
  * Triggers: On startup (7-day throttle) + on-demand command
- * Retention: 30 days default (configurable)
+ * Retention: 30 days default (retention.sessionDays)
  */
 
 import { readdir, stat, rm, readFile, writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
+import { resolveConfig } from './config-resolver.js';
 
 export interface CleanupResult {
   deletedCount: number;
@@ -50,10 +51,12 @@ async function getDirectorySize(dirPath: string): Promise<number> {
 /**
  * Clean up old sessions based on retention policy
  *
- * @param retentionDays - Number of days to retain sessions (default: 30)
+ * @param retentionDays - Number of days to retain sessions (default: retention.sessionDays)
  * @returns Cleanup result with counts and errors
  */
-export async function cleanupOldSessions(retentionDays: number = 30): Promise<CleanupResult> {
+export async function cleanupOldSessions(
+  retentionDays: number = resolveConfig().config.retention.sessionDays
+): Promise<CleanupResult> {
   const sessionsDir = join(process.cwd(), '.prism', 'sessions');
   const now = Date.now();
   const retentionMs = retentionDays * 24 * 60 * 60 * 1000;
@@ -129,7 +132,7 @@ export async function maybeCleanupSessions(): Promise<CleanupResult | null> {
   }
 
   // Execute cleanup
-  const result = await cleanupOldSessions(30);
+  const result = await cleanupOldSessions();
 
   // Save cleanup timestamp
   await writeFile(lastCleanupPath, Date.now().toString());
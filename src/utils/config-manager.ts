@@ -2,68 +2,44 @@
  * Configuration Manager
  *
  * Manages user configuration persistence and retrieval
- * Stores configuration in .prism/config.yaml
+ * Stores configuration in .prism/config.yaml (project) or
+ * ~/.prism/config.yaml (user-global)
  */
 
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import { join } from 'path';
-import { parse as parseYAML, stringify as stringifyYAML } from 'yaml';
-import type { ConfigurationProfile } from '../types/config.js';
-import { ConfigurationProfileSchema } from '../types/config.js';
-
-const CONFIG_PATH = join(process.cwd(), '.prism', 'config.yaml');
-
-/**
- * Default configuration
- */
-const DEFAULT_CONFIG: ConfigurationProfile = {
-  version: '1.0',
-  llm: {
-    provider: 'anthropic',
-    temperature: 0,
-  },
-  retention: {
-    sessionDays: 30,
-  },
-};
+import { writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { stringify as stringifyYAML } from 'yaml';
+import type { ConfigurationFile } from '../types/config.js';
+import { ConfigurationFileSchema } from '../types/config.js';
+import { getProjectConfigPath, readConfigFile } from './config-resolver.js';
 
 /**
- * Configuration manager for MT-PRISM settings
+ * Configuration manager for one MT-PRISM configuration file
+ *
+ * Reads and writes a single layer (project or user-global). Use
+ * resolveConfig() for the effective settings.
  */
 export class ConfigManager {
-  private cache: ConfigurationProfile | null = null;
+  private cache: ConfigurationFile | null = null;
+
+  /**
+   * @param configPath - Configuration file (default: project .prism/config.yaml)
+   */
+  constructor(private readonly configPath: string = getProjectConfigPath()) {}
 
   /**
    * Load configuration from disk
    *
-   * @returns Configuration profile
+   * @returns Configuration file contents (empty if the file does not exist)
+   * @throws {ValidationError} If the file is invalid
    */
-  async load(): Promise<ConfigurationProfile> {
+  async load(): Promise<ConfigurationFile> {
     if (this.cache) {
       return this.cache;
     }
 
-    try {
-      if (!existsSync(CONFIG_PATH)) {
-        // Create default config
-        await this.save(DEFAULT_CONFIG);
-        this.cache = DEFAULT_CONFIG;
-        return DEFAULT_CONFIG;
-      }
-
-      const content = await readFile(CONFIG_PATH, 'utf-8');
-      const config = parseYAML(content) as ConfigurationProfile;
-
-      // Validate against schema
-      const validated = ConfigurationProfileSchema.parse(config);
-      this.cache = validated;
-      return validated;
-    } catch (error) {
-      console.warn('Failed to load config, using defaults:', error);
-      this.cache = DEFAULT_CONFIG;
-      return DEFAULT_CONFIG;
-    }
+    this.cache = readConfigFile(this.configPath) ?? {};
+    return this.cache;
   }
 
   /**
@@ -71,19 +47,16 @@ export class ConfigManager {
    *
    * @param config - Configuration to save
    */
-  async save(config: ConfigurationProfile): Promise<void> {
+  async save(config: ConfigurationFile): Promise<void> {
     // Validate before saving
-    const validated = ConfigurationProfileSchema.parse(config);
+    const validated = ConfigurationFileSchema.parse(config);
 
-    // Ensure .prism directory exists
-    const prismDir = join(process.cwd(), '.prism');
-    if (!existsSync(prismDir)) {
-      await mkdir(prismDir, { recursive: true, mode: 0o755 });
-    }
+    // Ensure the directory exists
+    await mkdir(dirname(this.configPath), { recursive: true, mode: 0o755 });
 
     // Write config file with restricted permissions (0600)
     const content = stringifyYAML(validated);
-    await writeFile(CONFIG_PATH, content, { mode: 0o600 });
+    await writeFile(this.configPath, content, { mode: 0o600 });
 
     // Update cache
     this.cache = validated;
@@ -117,7 +90,8 @@ export class ConfigManager {
    * @param value - Value to set
    */
   async set(key: string, value: any): Promise<void> {
-    const config = await this.load();
+    // Copy, so a value rejected by validation does not stay in the cache
+    const config = structuredClone(await this.load());
     const parts = key.split('.');
     const lastKey = parts.pop();
 
@@ -138,11 +112,10 @@ export class ConfigManager {
   }
 
   /**
-   * Reset configuration to defaults
+   * Reset configuration (lower layers apply again)
    */
   async reset(): Promise<void> {
-    await this.save(DEFAULT_CONFIG);
-    this.cache = DEFAULT_CONFIG;
+    await this.save({});
   }
 
   /**
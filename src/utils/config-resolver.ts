@@ -0,0 +1,402 @@
+/**
+ * Configuration Resolver
+ *
+ * Resolves MT-PRISM settings from layers, each overriding the previous one:
+ *
+ *   1. Built-in defaults
+ *   2. User-global ~/.prism/config.yaml
+ *   3. Project .prism/config.yaml
+ *   4. The selected named profile (and the profiles it extends)
+ *   5. Environment variables (including .env)
+ *   6. CLI flags
+ *
+ * The profile is chosen like any other setting (`profile` in a config file,
+ * PRISM_PROFILE, --profile); a resumed session pins the profile it was
+ * created with.
+ *
+ * API keys are read from the environment only and never resolved from
+ * configuration files.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { config as loadDotenv } from 'dotenv';
+import { parse as parseYAML } from 'yaml';
+import {
+  ConfigurationFileSchema,
+  ConfigurationProfileSchema,
+  type ConfigurationFile,
+  type ConfigurationProfile,
+  type NamedProfile,
+} from '../types/config.js';
+import { ValidationError } from './errors.js';
+
+// Load environment variables (quietly: stdout may carry --json output)
+loadDotenv({ quiet: true });
+
+/**
+ * Configuration layer a value came from
+ */
+export type ConfigSource = 'default' | 'user' | 'project' | 'profile' | 'env' | 'flag' | 'session';
+
+/**
+ * Where a resolved value came from
+ */
+export interface ConfigOrigin {
+  source: ConfigSource;
+  /** File path, environment variable or flag that set the value */
+  detail?: string;
+}
+
+/**
+ * Resolved configuration with the origin of every value
+ */
+export interface ResolvedConfig {
+  config: ConfigurationProfile & {
+    workflow: { timeoutMinutes: number; maxClarificationIterations: number };
+  };
+  /** Origin by dot-separated key (e.g. "llm.provider") */
+  origins: Record<string, ConfigOrigin>;
+  /** Applied profile, if any */
+  profile?: {
+    name: string;
+    /** Profiles applied, base first (e.g. ['base', 'acme']) */
+    chain: string[];
+    /** Where the profile was selected */
+    origin: ConfigOrigin;
+  };
+}
+
+/**
+ * Value set by a CLI flag
+ */
+export interface ConfigFlag {
+  /** Dot-separated key (e.g. "llm.provider") */
+  key: string;
+  value: unknown;
+  /** Flag as typed (e.g. "--provider") */
+  flag: string;
+}
+
+/**
+ * Profile pinned by a resumed session
+ */
+export interface PinnedProfile {
+  /** Profile the session was created with (undefined: none) */
+  name?: string;
+  /** Shown as the origin (e.g. "sess-123") */
+  sessionId: string;
+}
+
+/**
+ * Built-in defaults
+ */
+export const DEFAULT_CONFIG = {
+  version: '1.0',
+  llm: {
+    provider: 'anthropic',
+    temperature: 0,
+  },
+  workflow: {
+    timeoutMinutes: 30,
+    maxClarificationIterations: 3,
+  },
+  retention: {
+    sessionDays: 30,
+  },
+} satisfies ResolvedConfig['config'];
+
+/**
+ * Environment variables and the settings they override
+ */
+export const CONFIG_ENV_VARS: { key: string; env: string; type: 'string' | 'number' }[] = [
+  { key: 'profile', env: 'PRISM_PROFILE', type: 'string' },
+  { key: 'llm.provider', env: 'AI_PROVIDER', type: 'string' },
+  { key: 'llm.model', env: 'AI_MODEL', type: 'string' },
+  { key: 'llm.temperature', env: 'AI_TEMPERATURE', type: 'number' },
+  { key: 'llm.maxTokens', env: 'AI_MAX_TOKENS', type: 'number' },
+  { key: 'llm.localBaseUrl', env: 'LOCAL_LLM_BASE_URL', type: 'string' },
+  { key: 'llm.localModel', env: 'LOCAL_LLM_MODEL', type: 'string' },
+  { key: 'llm.maxRepairAttempts', env: 'AI_MAX_REPAIR_ATTEMPTS', type: 'number' },
+  { key: 'llm.maxRetries', env: 'AI_MAX_RETRIES', type: 'number' },
+  { key: 'llm.requestTimeoutMs', env: 'AI_REQUEST_TIMEOUT_MS', type: 'number' },
+  { key: 'workflow.timeoutMinutes', env: 'WORKFLOW_TIMEOUT_MINUTES', type: 'number' },
+  { key: 'workflow.maxClarificationIterations', env: 'MAX_CLARIFICATION_ITERATIONS', type: 'number' },
+  { key: 'retention.sessionDays', env: 'SESSION_RETENTION_DAYS', type: 'number' },
+  { key: 'budget.maxUsdPerSession', env: 'PRISM_MAX_COST_USD', type: 'number' },
+  { key: 'mcps.confluence.url', env: 'CONFLUENCE_URL', type: 'string' },
+  { key: 'mcps.confluence.space', env: 'CONFLUENCE_SPACE', type: 'string' },
+  { key: 'mcps.jira.url', env: 'JIRA_URL', type: 'string' },
+  { key: 'mcps.jira.project', env: 'JIRA_PROJECT_KEY', type: 'string' },
+  { key: 'mcps.slack.channel', env: 'SLACK_CHANNEL_ID', type: 'string' },
+];
+
+/**
+ * Values set by CLI flags for this process (see setConfigFlags)
+ */
+let configFlags: ConfigFlag[] = [];
+
+/**
+ * Profile pinned by the session being resumed (see pinConfigProfile)
+ */
+let pinnedProfile: PinnedProfile | undefined;
+
+/**
+ * Path of the user-global configuration file
+ */
+export function getUserConfigPath(): string {
+  return join(homedir(), '.prism', 'config.yaml');
+}
+
+/**
+ * Path of the project configuration file
+ */
+export function getProjectConfigPath(): string {
+  return join(process.cwd(), '.prism', 'config.yaml');
+}
+
+/**
+ * Set the values given as CLI flags
+ *
+ * Called once by the CLI after parsing, so subsystems that resolve the
+ * configuration later see the flags too.
+ *
+ * @param flags - Flag values (replaces earlier ones)
+ */
+export function setConfigFlags(flags: ConfigFlag[]): void {
+  configFlags = flags;
+}
+
+/**
+ * Pin the profile of a resumed session
+ *
+ * While pinned, the session's profile (or no profile) applies regardless of
+ * config files, PRISM_PROFILE and --profile.
+ *
+ * @param pin - Session profile, or undefined to unpin
+ */
+export function pinConfigProfile(pin: PinnedProfile | undefined): void {
+  pinnedProfile = pin;
+}
+
+/**
+ * Resolve the configuration from all layers
+ *
+ * Files are read on every call, so changes made with `prism config set`
+ * apply immediately.
+ *
+ * @returns Merged configuration and the origin of each value
+ * @throws {ValidationError} If a configuration file or the merged result is invalid
+ */
+export function resolveConfig(): ResolvedConfig {
+  const config: Record<string, unknown> = {};
+  const origins: Record<string, ConfigOrigin> = {};
+
+  const apply = (values: Record<string, unknown>, origin: ConfigOrigin) => {
+    for (const [key, value] of flattenConfig(values)) {
+      setPath(config, key, value);
+      origins[key] = origin;
+    }
+  };
+
+  apply(DEFAULT_CONFIG, { source: 'default' });
+
+  for (const [source, path] of [
+    ['user', getUserConfigPath()],
+    ['project', getProjectConfigPath()],
+  ] as const) {
+    const file = readConfigFile(path);
+    if (file) {
+      apply(file, { source, detail: path });
+    }
+  }
+
+  const envLayer: [Record<string, unknown>, ConfigOrigin][] = [];
+  for (const { key, env, type } of CONFIG_ENV_VARS) {
+    const raw = process.env[env];
+    if (raw) {
+      // Non-numeric values stay strings, so validation reports them with their origin
+      const value = type === 'number' && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+      envLayer.push([toNested(key, value), { source: 'env', detail: env }]);
+    }
+  }
+
+  const flagLayer: [Record<string, unknown>, ConfigOrigin][] = configFlags
+    .filter(({ value }) => value !== undefined)
+    .map(({ key, value, flag }) => [toNested(key, value), { source: 'flag', detail: flag }]);
+
+  // The profile is selected with the usual precedence, but applied below env and flags
+  let selected: { name: string; origin: ConfigOrigin } | undefined =
+    typeof config['profile'] === 'string'
+      ? { name: config['profile'], origin: origins['profile']! }
+      : undefined;
+  for (const [values, origin] of [...envLayer, ...flagLayer]) {
+    if (typeof values['profile'] === 'string') {
+      selected = { name: values['profile'], origin };
+    }
+  }
+  if (pinnedProfile) {
+    const origin: ConfigOrigin = { source: 'session', detail: pinnedProfile.sessionId };
+    selected = pinnedProfile.name ? { name: pinnedProfile.name, origin } : undefined;
+  }
+
+  let profile: ResolvedConfig['profile'];
+  if (selected) {
+    const profiles = (config['profiles'] ?? {}) as Record<string, NamedProfile>;
+    const chain = resolveProfileChain(profiles, selected.name);
+    for (const name of chain) {
+      const { extends: _base, ...settings } = profiles[name]!;
+      apply(settings, { source: 'profile', detail: name });
+    }
+    profile = { name: selected.name, chain, origin: selected.origin };
+  }
+
+  for (const [values, origin] of [...envLayer, ...flagLayer]) {
+    apply(values, origin);
+  }
+
+  if (profile) {
+    config['profile'] = profile.name;
+    origins['profile'] = profile.origin;
+  } else {
+    delete config['profile'];
+    delete origins['profile'];
+  }
+
+  const result = ConfigurationProfileSchema.safeParse(config);
+  if (!result.success) {
+    throw new ValidationError(
+      'Invalid configuration',
+      'ConfigurationProfile',
+      result.error.issues.map((issue) => {
+        const key = issue.path.join('.');
+        return `${key}: ${issue.message} (from ${formatConfigOrigin(origins[key])})`;
+      })
+    );
+  }
+
+  return { config: result.data as ResolvedConfig['config'], origins, profile };
+}
+
+/**
+ * Helper: Profile names to apply, base first
+ *
+ * @throws {ValidationError} On unknown profiles and inheritance cycles
+ */
+function resolveProfileChain(profiles: Record<string, NamedProfile>, name: string): string[] {
+  const chain: string[] = [];
+
+  for (let current: string | undefined = name; current; current = profiles[current]?.extends) {
+    if (chain.includes(current)) {
+      throw new ValidationError('Profile inheritance cycle', 'ConfigurationProfile', [
+        [...chain.reverse(), current].join(' → '),
+      ]);
+    }
+    if (!profiles[current]) {
+      const available = Object.keys(profiles);
+      throw new ValidationError(`Unknown profile "${current}"`, 'ConfigurationProfile', [
+        available.length > 0
+          ? `Available profiles: ${available.join(', ')}`
+          : 'No profiles are defined (add them under profiles: in .prism/config.yaml)',
+      ]);
+    }
+    chain.unshift(current);
+  }
+
+  return chain;
+}
+
+/**
+ * Read a configuration file
+ *
+ * @param path - File path
+ * @returns File contents, or undefined if the file does not exist
+ * @throws {ValidationError} If the file is not valid YAML or fails the schema
+ */
+export function readConfigFile(path: string): ConfigurationFile | undefined {
+  if (!existsSync(path)) {
+    return undefined;
+  }
+
+  let content: unknown;
+  try {
+    content = parseYAML(readFileSync(path, 'utf-8')) ?? {};
+  } catch (error) {
+    throw new ValidationError(
+      `${path} is not valid YAML`,
+      'ConfigurationFile',
+      [error instanceof Error ? error.message : String(error)]
+    );
+  }
+
+  const result = ConfigurationFileSchema.safeParse(content);
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid configuration in ${path}`,
+      'ConfigurationFile',
+      result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Describe where a value came from (e.g. "env AI_PROVIDER")
+ */
+export function formatConfigOrigin(origin: ConfigOrigin | undefined): string {
+  if (!origin) {
+    return 'unknown';
+  }
+  return origin.detail ? `${origin.source} ${origin.detail}` : origin.source;
+}
+
+/**
+ * Flatten a configuration object into dot-separated keys and leaf values
+ *
+ * Arrays and empty objects are leaves.
+ */
+export function flattenConfig(values: object, prefix = ''): [string, unknown][] {
+  return Object.entries(values).flatMap(([name, value]): [string, unknown][] => {
+    const key = prefix ? `${prefix}.${name}` : name;
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+      return flattenConfig(value, key);
+    }
+    return value === undefined ? [] : [[key, value]];
+  });
+}
+
+/**
+ * Helper: Build { a: { b: value } } from "a.b"
+ */
+function toNested(key: string, value: unknown): Record<string, unknown> {
+  const nested: Record<string, unknown> = {};
+  setPath(nested, key, value);
+  return nested;
+}
+
+/**
+ * Helper: Set a dot-separated path, creating intermediate objects
+ */
+function setPath(target: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split('.');
+  const last = parts.pop()!;
+  let current = target;
+
+  for (const part of parts) {
+    if (!isPlainObject(current[part])) {
+      current[part] = {};
+    }
+    current = current[part] as Record<string, unknown>;
+  }
+
+  current[last] = value;
+}
+
+/**
+ * Helper: Whether a value is a plain object (not an array or null)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,111 @@
+/**
+ * Cost Tracker
+ *
+ * Accumulates LLM token usage per pipeline step and per session, and
+ * enforces the session budget (Session.config.max_cost_usd).
+ *
+ * Session totals are stored on the session itself so they survive resume
+ * and include steps that were later invalidated and re-run.
+ */
+
+import type { TokenUsage } from '../providers/types.js';
+import type { Session, SessionUsage, StepId } from '../types/session.js';
+import { BudgetExceededError } from './errors.js';
+
+/**
+ * Usage attributed to a single step, in checkpoint metadata format
+ */
+export interface StepUsage {
+  provider_used: string;
+  input_tokens: number;
+  output_tokens: number;
+  estimated_cost: number;
+}
+
+/**
+ * Per-step and per-session cost accounting
+ */
+export class CostTracker {
+  private steps = new Map<StepId, StepUsage>();
+
+  /**
+   * @param session - Session to accumulate totals on (mutated, not persisted)
+   */
+  constructor(private readonly session: Session) {}
+
+  /**
+   * Record usage for a step
+   *
+   * Called from the providers' onUsage hook once a response has arrived.
+   * Never throws: the paid-for result is kept, and the budget stops the next
+   * request instead (see assertWithinBudget).
+   *
+   * @param step - Step that made the request
+   * @param usage - Usage reported by the provider
+   */
+  record(step: StepId, usage: TokenUsage): void {
+    const stepUsage = this.steps.get(step) ?? {
+      provider_used: usage.provider,
+      input_tokens: 0,
+      output_tokens: 0,
+      estimated_cost: 0,
+    };
+    stepUsage.provider_used = usage.provider;
+    stepUsage.input_tokens += usage.inputTokens;
+    stepUsage.output_tokens += usage.outputTokens;
+    stepUsage.estimated_cost += usage.costUsd;
+    this.steps.set(step, stepUsage);
+
+    const total: SessionUsage = this.session.usage ?? {
+      input_tokens: 0,
+      output_tokens: 0,
+      estimated_cost: 0,
+    };
+    total.input_tokens += usage.inputTokens;
+    total.output_tokens += usage.outputTokens;
+    total.estimated_cost += usage.costUsd;
+    this.session.usage = total;
+  }
+
+  /**
+   * Take (and reset) the usage recorded for a step
+   *
+   * @returns Usage since the last call, or undefined if the step made no LLM requests
+   */
+  takeStepUsage(step: StepId): StepUsage | undefined {
+    const stepUsage = this.steps.get(step);
+    this.steps.delete(step);
+    return stepUsage;
+  }
+
+  /**
+   * Total session cost in USD
+   */
+  getTotalCost(): number {
+    return this.session.usage?.estimated_cost ?? 0;
+  }
+
+  /**
+   * Throw if the session budget has been reached
+   *
+   * Called before each LLM request (the providers' beforeRequest hook) and
+   * before each stage.
+   *
+   * @throws {BudgetExceededError} When total cost >= max_cost_usd
+   */
+  assertWithinBudget(): void {
+    const budget = this.session.config.max_cost_usd;
+    const spent = this.getTotalCost();
+
+    if (budget !== undefined && spent >= budget) {
+      throw new BudgetExceededError(spent, budget);
+    }
+  }
+}
+
+/**
+ * Format a USD amount for display
+ */
+export function formatCost(usd: number): string {
+  return `$${usd.toFixed(4)}`;
+}
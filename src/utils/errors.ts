@@ -5,6 +5,8 @@
  * Per NFR-006: All skills must provide clear, actionable error messages
  */
 
+import type { ClarificationDispatch } from '../types/question.js';
+
 /**
  * Base error class for all MT-PRISM errors
  */
@@ -128,6 +130,66 @@ export class WorkflowError extends PRISMError {
   }
 }
 
+/**
+ * Posting clarification questions failed after some were posted
+ */
+export class ClarificationDispatchError extends PRISMError {
+  constructor(
+    /** Where the questions posted before the failure went */
+    public readonly dispatch: ClarificationDispatch,
+    public override readonly cause: Error
+  ) {
+    super(cause.message, 'MCP_ERROR', true); // Resumable: only the rest is posted again
+    this.name = 'ClarificationDispatchError';
+    this.cause = cause;
+  }
+}
+
+/**
+ * Session cost reached the configured budget
+ */
+export class BudgetExceededError extends PRISMError {
+  constructor(
+    public readonly spentUsd: number,
+    public readonly budgetUsd: number
+  ) {
+    super(
+      `Budget of $${budgetUsd.toFixed(2)} reached ($${spentUsd.toFixed(4)} spent)`,
+      'BUDGET_EXCEEDED',
+      true // Resumable after raising the budget
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Workflow stopped at a step to wait for stakeholder input
+ */
+export class WorkflowPausedError extends PRISMError {
+  constructor(
+    message: string,
+    public readonly step: string,
+    /** Command that provides the input and continues (default: prism resume) */
+    public readonly resumeCommand?: string
+  ) {
+    super(message, 'WORKFLOW_PAUSED', true); // Resumable once the input is provided
+    this.name = 'WorkflowPausedError';
+  }
+}
+
+/**
+ * Command line is invalid (unknown command or option, bad or missing value)
+ */
+export class UsageError extends PRISMError {
+  constructor(
+    message: string,
+    public readonly details: string[] = []
+  ) {
+    super(message, 'USAGE_ERROR', false);
+    this.name = 'UsageError';
+  }
+}
+
 /**
  * Format error for user-friendly display (NFR-006)
  *
@@ -163,6 +225,10 @@ export function formatError(error: unknown): string {
       message += `   💡 Try deleting .prism/sessions/${error.sessionId} and restarting\n`;
     } else if (error instanceof ConfigurationError) {
       message += `   💡 Check your .env file and ensure ${error.configKey} is set correctly\n`;
+    } else if (error instanceof BudgetExceededError) {
+      message += `   💡 Raise the budget (--max-cost or PRISM_MAX_COST_USD) and resume the session\n`;
+    } else if (error instanceof UsageError) {
+      message += `   💡 Run prism help <command> for usage\n`;
     } else if (error instanceof WorkflowError) {
       message += `   💡 Workflow can be resumed from last checkpoint\n`;
       if (error.cause) {
@@ -0,0 +1,311 @@
+/**
+ * Workflow Event Bus
+ *
+ * Typed progress events emitted by the discovery workflow, the pipeline and
+ * the skills. Output is a matter of subscribers: the console subscriber
+ * renders the familiar emoji log, the JSON-lines subscriber writes one event
+ * per line for other tools (prism --output=jsonl).
+ *
+ * Skills and workflows called without a bus create one with the console
+ * subscriber attached, so standalone use prints as before.
+ */
+
+import { EventEmitter } from 'events';
+import type { Writable } from 'stream';
+import type { StepId } from '../types/session.js';
+import type { Gap } from '../types/gap.js';
+import type { TokenUsage, ProviderFallbackEvent } from '../providers/types.js';
+import { formatCost } from './cost-tracker.js';
+
+/**
+ * A step started running
+ */
+export interface StepStartedEvent {
+  type: 'step-started';
+  step: StepId;
+  name: string;
+  icon: string;
+  /** Position in the run, e.g. "2/5" */
+  position: string;
+}
+
+/**
+ * A step finished and was checkpointed
+ */
+export interface StepCompletedEvent {
+  type: 'step-completed';
+  step: StepId;
+  name: string;
+  duration_ms: number;
+  cache_hit?: boolean;
+  estimated_cost?: number;
+}
+
+/**
+ * A step was not run
+ */
+export interface StepSkippedEvent {
+  type: 'step-skipped';
+  step: StepId;
+  name: string;
+  position: string;
+  /** completed: checkpoint is up to date; disabled: step does not apply */
+  reason: 'completed' | 'disabled';
+}
+
+/**
+ * An LLM request completed
+ */
+export interface LLMCallEvent {
+  type: 'llm-call';
+  /** Skill that made the request (e.g. prd-analyzer) */
+  skill: string;
+  provider: string;
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  estimated_cost: number;
+}
+
+/**
+ * A request moved to another provider in the fallback chain
+ */
+export interface FallbackEvent {
+  type: 'fallback';
+  skill: string;
+  failed_provider: string;
+  active_provider: string;
+  reason: string;
+}
+
+/**
+ * Validation found a gap
+ */
+export interface GapDetectedEvent {
+  type: 'gap-detected';
+  gap: Gap;
+}
+
+/**
+ * Session state was saved after a step
+ */
+export interface CheckpointSavedEvent {
+  type: 'checkpoint-saved';
+  session_id: string;
+  step: StepId;
+}
+
+/**
+ * Human-readable progress message
+ */
+export interface LogEvent {
+  type: 'log';
+  level: 'info' | 'warn' | 'error';
+  message: string;
+}
+
+/**
+ * Any workflow event, as delivered to subscribers
+ */
+export type WorkflowEvent = (
+  | StepStartedEvent
+  | StepCompletedEvent
+  | StepSkippedEvent
+  | LLMCallEvent
+  | FallbackEvent
+  | GapDetectedEvent
+  | CheckpointSavedEvent
+  | LogEvent
+) & {
+  timestamp: string; // ISO8601
+};
+
+export type WorkflowEventType = WorkflowEvent['type'];
+
+/**
+ * Event of the given type
+ */
+export type WorkflowEventOf<K extends WorkflowEventType> = Extract<WorkflowEvent, { type: K }>;
+
+/**
+ * Event payload as passed to emit (type and timestamp are added by the bus)
+ */
+export type WorkflowEventPayload<K extends WorkflowEventType> = Omit<
+  WorkflowEventOf<K>,
+  'type' | 'timestamp'
+>;
+
+/**
+ * Channel used for subscribers of every event type
+ */
+const ANY_EVENT = '*';
+
+/**
+ * Typed event bus for workflow progress
+ */
+export class WorkflowEventBus {
+  private emitter = new EventEmitter();
+
+  /**
+   * Emit an event to its subscribers and to catch-all subscribers
+   */
+  emit<K extends WorkflowEventType>(type: K, payload: WorkflowEventPayload<K>): void {
+    const event = { ...payload, type, timestamp: new Date().toISOString() };
+    this.emitter.emit(type, event);
+    this.emitter.emit(ANY_EVENT, event);
+  }
+
+  /**
+   * Subscribe to one event type
+   *
+   * @returns Function that removes the subscription
+   */
+  on<K extends WorkflowEventType>(
+    type: K,
+    listener: (event: WorkflowEventOf<K>) => void
+  ): () => void {
+    this.emitter.on(type, listener);
+    return () => this.emitter.off(type, listener);
+  }
+
+  /**
+   * Subscribe to every event
+   *
+   * @returns Function that removes the subscription
+   */
+  onAny(listener: (event: WorkflowEvent) => void): () => void {
+    this.emitter.on(ANY_EVENT, listener);
+    return () => this.emitter.off(ANY_EVENT, listener);
+  }
+
+  /** Emit an informational log message */
+  info(message: string): void {
+    this.emit('log', { level: 'info', message });
+  }
+
+  /** Emit a warning log message */
+  warn(message: string): void {
+    this.emit('log', { level: 'warn', message });
+  }
+
+  /** Emit an error log message */
+  error(message: string): void {
+    this.emit('log', { level: 'error', message });
+  }
+}
+
+/**
+ * Render events as the console progress log
+ *
+ * LLM calls, gaps and checkpoints are summarized by the log messages of the
+ * skills and steps, so they are not printed individually.
+ *
+ * @returns Function that removes the subscriber
+ */
+export function subscribeConsole(events: WorkflowEventBus): () => void {
+  return events.onAny((event) => {
+    switch (event.type) {
+      case 'log':
+        console[event.level](event.message);
+        break;
+      case 'step-started':
+        console.log(`${event.icon} Step ${event.position}: ${event.name}...`);
+        break;
+      case 'step-completed': {
+        const details = [
+          `${event.duration_ms}ms`,
+          ...(event.cache_hit ? ['cached'] : []),
+          ...(event.estimated_cost ? [formatCost(event.estimated_cost)] : []),
+        ];
+        console.log(`✅ ${event.name} complete (${details.join(', ')})`);
+        console.log('');
+        break;
+      }
+      case 'step-skipped':
+        if (event.reason === 'completed') {
+          console.log(`✓ ${event.name} (already completed)`);
+        } else {
+          console.log(`⏭️  Step ${event.position}: Skipping ${event.name}`);
+          console.log('');
+        }
+        break;
+      case 'fallback':
+        console.warn(
+          `⚠️  Provider fallback: ${event.failed_provider} failed (${event.reason}). Now using ${event.active_provider}.`
+        );
+        break;
+    }
+  });
+}
+
+/**
+ * Write every event as a JSON line
+ *
+ * @param events - Event bus
+ * @param output - Destination stream (default: stdout)
+ * @returns Function that removes the subscriber
+ */
+export function subscribeJSONLines(
+  events: WorkflowEventBus,
+  output: Writable = process.stdout
+): () => void {
+  return events.onAny((event) => {
+    output.write(`${JSON.stringify(event)}\n`);
+  });
+}
+
+/**
+ * Provider callbacks of an LLM-backed skill
+ */
+export interface LLMEventHandlers {
+  onUsage: (usage: TokenUsage) => void;
+  onFallback: (event: ProviderFallbackEvent) => void;
+}
+
+/**
+ * Wrap a skill's provider callbacks so they also emit llm-call and fallback events
+ *
+ * @param events - Event bus
+ * @param skill - Skill name reported in the events
+ * @param handlers - Callbacks supplied by the caller (optional)
+ * @returns Callbacks to pass to the provider
+ */
+export function createLLMEventHandlers(
+  events: WorkflowEventBus,
+  skill: string,
+  handlers: Partial<LLMEventHandlers> = {}
+): LLMEventHandlers {
+  return {
+    onUsage: (usage) => {
+      events.emit('llm-call', {
+        skill,
+        provider: usage.provider,
+        model: usage.model,
+        input_tokens: usage.inputTokens,
+        output_tokens: usage.outputTokens,
+        estimated_cost: usage.costUsd,
+      });
+      handlers.onUsage?.(usage);
+    },
+    onFallback: (event) => {
+      events.emit('fallback', {
+        skill,
+        failed_provider: event.failedProvider,
+        active_provider: event.activeProvider,
+        reason: event.reason,
+      });
+      handlers.onFallback?.(event);
+    },
+  };
+}
+
+/**
+ * Create an event bus that prints to the console
+ *
+ * Default for skills and workflows called without a bus.
+ */
+export function createConsoleEventBus(): WorkflowEventBus {
+  const events = new WorkflowEventBus();
+  subscribeConsole(events);
+  return events;
+}
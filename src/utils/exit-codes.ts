@@ -0,0 +1,75 @@
+/**
+ * CLI Exit Codes
+ *
+ * Distinct process exit codes so CI can tell why a run did not succeed
+ * without parsing log output.
+ */
+
+import {
+  ValidationError,
+  BudgetExceededError,
+  WorkflowPausedError,
+  ConfigurationError,
+  UsageError,
+} from './errors.js';
+
+/**
+ * Exit codes of the prism CLI
+ */
+export const EXIT_CODES = {
+  /** Workflow completed */
+  success: 0,
+  /** Unexpected failure */
+  failure: 1,
+  /** No AI provider credentials found, or they were rejected */
+  credentialsMissing: 2,
+  /** Invalid arguments, or input/output that failed schema validation */
+  validationFailed: 3,
+  /** Session paused (workflow timeout, budget reached or waiting for answers); resumable */
+  paused: 4,
+  /** Workflow completed but found more gaps than allowed (--max-gaps) */
+  gapsAboveThreshold: 5,
+} as const;
+
+export type ExitCode = (typeof EXIT_CODES)[keyof typeof EXIT_CODES];
+
+/**
+ * Map an error thrown by the workflow to an exit code
+ *
+ * Follows the `cause` chain, since the workflow wraps skill errors in a
+ * WorkflowError.
+ *
+ * @param error - Error thrown by executeDiscoveryWorkflow
+ * @returns Exit code for the most specific known error in the chain
+ */
+export function exitCodeForError(error: unknown): ExitCode {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (
+      current instanceof ValidationError ||
+      current instanceof UsageError ||
+      current.name === 'ZodError'
+    ) {
+      return EXIT_CODES.validationFailed;
+    }
+    if (
+      current instanceof BudgetExceededError ||
+      current instanceof WorkflowPausedError ||
+      current.name === 'AbortError'
+    ) {
+      return EXIT_CODES.paused;
+    }
+    if (current instanceof ConfigurationError || isAuthenticationError(current)) {
+      return EXIT_CODES.credentialsMissing;
+    }
+  }
+
+  return EXIT_CODES.failure;
+}
+
+/**
+ * Helper: Provider SDK error for a rejected API key
+ */
+function isAuthenticationError(error: Error): boolean {
+  const status = (error as { status?: unknown }).status;
+  return status === 401 || status === 403;
+}
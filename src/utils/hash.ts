@@ -0,0 +1,26 @@
+import { createHash } from 'crypto';
+
+/**
+ * Content hashing utilities
+ *
+ * Used to fingerprint step inputs so stale checkpoints can be detected
+ */
+
+/**
+ * Hash one or more content parts with SHA-256
+ *
+ * Parts are length-prefixed so ['ab', 'c'] and ['a', 'bc'] hash differently.
+ *
+ * @param parts - Content to hash
+ * @returns Hex-encoded digest
+ */
+export function hashContent(...parts: string[]): string {
+  const hash = createHash('sha256');
+
+  for (const part of parts) {
+    hash.update(`${part.length}:`);
+    hash.update(part);
+  }
+
+  return hash.digest('hex');
+}
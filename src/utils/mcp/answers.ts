@@ -0,0 +1,57 @@
+/**
+ * Stakeholder Answer Parsing
+ *
+ * Reads clarification answers written as free-form messages (Jira
+ * comments, Slack thread replies) and labels the questions they answer.
+ *
+ * @module utils/mcp/answers
+ */
+
+import type { ClarificationQuestion } from '../../types/question.js';
+
+/** Confidence recorded when an answer does not state one */
+export const DEFAULT_ANSWER_CONFIDENCE = 0.8;
+
+/** Optional "Answer:" prefix marking a message as the answer */
+export const ANSWER_PREFIX = /^\s*answer\s*:\s*/i;
+
+const CONFIDENCE_LINE = /^\s*confidence\s*:\s*(\S+)\s*$/im;
+
+/**
+ * Parses an answer message
+ *
+ * Strips an "Answer:" prefix, reads an optional "Confidence: 0.9" line and
+ * resolves a bare suggestion number to the suggestion text.
+ *
+ * @param text - Message text
+ * @param question - Question the message answers
+ * @returns Response and confidence, or undefined if the message has no answer text
+ */
+export function parseAnswerMessage(
+  text: string,
+  question: ClarificationQuestion
+): { response: string; confidence: number } | undefined {
+  const confidenceValue = Number(text.match(CONFIDENCE_LINE)?.[1]);
+  const confidence =
+    !Number.isNaN(confidenceValue) && confidenceValue >= 0 && confidenceValue <= 1
+      ? confidenceValue
+      : DEFAULT_ANSWER_CONFIDENCE;
+
+  let response = text.replace(CONFIDENCE_LINE, '').replace(ANSWER_PREFIX, '').trim();
+  if (/^\d+$/.test(response)) {
+    response = question.suggestions[parseInt(response, 10) - 1] ?? response;
+  }
+
+  return response.length > 0 ? { response, confidence } : undefined;
+}
+
+/**
+ * Gap reference for a question's footer ("gap GAP-001", "gaps GAP-001, GAP-004")
+ *
+ * @param question - Clarification question
+ * @returns Label naming every gap the question covers
+ */
+export function formatGapIds(question: ClarificationQuestion): string {
+  const gapIds = [question.gap_id, ...(question.related_gap_ids ?? [])];
+  return `${gapIds.length > 1 ? 'gaps' : 'gap'} ${gapIds.join(', ')}`;
+}
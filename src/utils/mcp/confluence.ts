@@ -9,6 +9,7 @@
 
 import { MCPClient, type MCPConfig, type MCPRequest, type MCPResponse } from '../mcp.js';
 import { MCPError } from '../errors.js';
+import { resolveConfig } from '../config-resolver.js';
 
 /**
  * Confluence page metadata
@@ -44,10 +45,15 @@ export type ContentFormat = 'storage' | 'markdown' | 'plain';
  * Extends MCPClient base class with Confluence-specific methods
  */
 export class ConfluenceMCPClient extends MCPClient {
+  /** Space used when a call passes no space key (mcps.confluence.space) */
+  readonly defaultSpaceKey?: string;
+
   constructor(config: Partial<MCPConfig> = {}) {
+    const confluence = resolveConfig().config.mcps?.confluence;
+
     super({
       name: 'confluence',
-      endpoint: config.endpoint || process.env['CONFLUENCE_URL'] || '',
+      endpoint: config.endpoint || confluence?.url || '',
       credentials: config.credentials || {
         apiToken: process.env['CONFLUENCE_API_TOKEN'] || '',
         username: process.env['CONFLUENCE_USERNAME'] || '',
@@ -59,7 +65,7 @@ export class ConfluenceMCPClient extends MCPClient {
     // Validate configuration
     if (!this.config.endpoint) {
       throw new MCPError(
-        'Confluence URL not configured. Set CONFLUENCE_URL environment variable.',
+        'Confluence URL not configured. Set mcps.confluence.url or the CONFLUENCE_URL environment variable.',
         this.config.name,
         'constructor'
       );
@@ -73,6 +79,8 @@ export class ConfluenceMCPClient extends MCPClient {
         'constructor'
       );
     }
+
+    this.defaultSpaceKey = confluence?.space;
   }
 
   /**
@@ -106,7 +114,7 @@ export class ConfluenceMCPClient extends MCPClient {
   /**
    * Fetches page by title and space key
    *
-   * @param spaceKey - Confluence space key
+   * @param spaceKey - Confluence space key ('' for the default space)
    * @param title - Page title
    * @returns Page content as string
    */
@@ -114,7 +122,7 @@ export class ConfluenceMCPClient extends MCPClient {
     const request: MCPRequest = {
       method: 'confluence.getPageByTitle',
       params: {
-        spaceKey,
+        spaceKey: this.resolveSpaceKey(spaceKey, 'getPageByTitle'),
         title,
       },
     };
@@ -161,7 +169,7 @@ export class ConfluenceMCPClient extends MCPClient {
   /**
    * Searches for pages in a space
    *
-   * @param spaceKey - Confluence space key
+   * @param spaceKey - Confluence space key ('' for the default space)
    * @param keyword - Search keyword
    * @returns List of matching pages
    */
@@ -169,7 +177,7 @@ export class ConfluenceMCPClient extends MCPClient {
     const request: MCPRequest = {
       method: 'confluence.searchPages',
       params: {
-        spaceKey,
+        spaceKey: this.resolveSpaceKey(spaceKey, 'searchPages'),
         query: keyword,
       },
     };
@@ -189,7 +197,7 @@ export class ConfluenceMCPClient extends MCPClient {
   /**
    * Lists pages in a space
    *
-   * @param spaceKey - Confluence space key
+   * @param spaceKey - Confluence space key ('' for the default space)
    * @param options - Listing options
    * @returns List of pages
    */
@@ -204,7 +212,7 @@ export class ConfluenceMCPClient extends MCPClient {
     const request: MCPRequest = {
       method: 'confluence.listPages',
       params: {
-        spaceKey,
+        spaceKey: this.resolveSpaceKey(spaceKey, 'listPagesInSpace'),
         limit: options?.limit || 25,
         start: options?.start || 0,
         label: options?.label,
@@ -305,4 +313,19 @@ export class ConfluenceMCPClient extends MCPClient {
       };
     }
   }
+
+  /**
+   * Helper: Space key of a call, or the configured default space
+   */
+  private resolveSpaceKey(spaceKey: string, operation: string): string {
+    const resolved = spaceKey || this.defaultSpaceKey;
+    if (!resolved) {
+      throw new MCPError(
+        'No Confluence space given. Pass a space key or set mcps.confluence.space (CONFLUENCE_SPACE).',
+        this.config.name,
+        operation
+      );
+    }
+    return resolved;
+  }
 }
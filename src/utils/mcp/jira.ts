@@ -0,0 +1,438 @@
+/**
+ * Jira MCP Client
+ *
+ * Implements Model Context Protocol client for Atlassian Jira.
+ * Posts clarification questions as issues and reads stakeholder answers
+ * back from issue comments.
+ *
+ * @module utils/mcp/jira
+ */
+
+import { MCPClient, type MCPConfig, type MCPRequest, type MCPResponse } from '../mcp.js';
+import { MCPError, ClarificationDispatchError } from '../errors.js';
+import { resolveConfig } from '../config-resolver.js';
+import type { ConfigurationProfile } from '../../types/config.js';
+import type {
+  ClarificationChannel,
+  ClarificationDispatch,
+  ClarificationQuestion,
+  ClarificationResponse,
+  QuestionsOutput,
+} from '../../types/question.js';
+import type { GapSeverity } from '../../types/gap.js';
+import { parseAnswerMessage, formatGapIds, ANSWER_PREFIX } from './answers.js';
+
+/**
+ * Jira settings (mcps.jira)
+ */
+export type JiraSettings = NonNullable<NonNullable<ConfigurationProfile['mcps']>['jira']>;
+
+/**
+ * Fields of a new Jira issue
+ */
+export interface JiraIssueInput {
+  summary: string;
+  description: string;
+  /** Issue type name (default: mcps.jira.issueType, then Task) */
+  issueType?: string;
+  /** Jira account ID */
+  assignee?: string;
+  priority?: string;
+  labels?: string[];
+  /** Parent issue key (epic or parent of a sub-task) */
+  parentKey?: string;
+}
+
+/**
+ * Created issue
+ */
+export interface JiraIssueRef {
+  id: string;
+  key: string;
+  url: string;
+}
+
+/**
+ * Issue status
+ */
+export interface JiraIssueStatus {
+  key: string;
+  status: string;
+  /** Resolution name, or undefined while the issue is unresolved */
+  resolution?: string;
+}
+
+/**
+ * Issue comment
+ */
+export interface JiraComment {
+  id: string;
+  author: string;
+  body: string;
+  created: string; // ISO 8601
+}
+
+const PRIORITY_NAMES: Record<GapSeverity, string> = {
+  critical: 'Highest',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+};
+
+/**
+ * Jira MCP Client
+ *
+ * Extends MCPClient base class with Jira-specific methods. Each
+ * clarification question becomes an issue (optionally in one epic per
+ * session), assigned by stakeholder type. A comment starting with
+ * "Answer:" answers the question; on a resolved issue the latest comment
+ * does. An optional "Confidence: 0.9" line sets the confidence.
+ */
+export class JiraMCPClient extends MCPClient implements ClarificationChannel {
+  readonly mode = 'jira' as const;
+  private readonly settings: JiraSettings;
+
+  constructor(config: Partial<MCPConfig> = {}, settings?: JiraSettings) {
+    const jira = settings ?? resolveConfig().config.mcps?.jira ?? {};
+
+    super({
+      name: 'jira',
+      endpoint: (config.endpoint || jira.url || '').replace(/\/+$/, ''),
+      credentials: config.credentials || {
+        apiToken: process.env['JIRA_API_TOKEN'] || '',
+        email: process.env['JIRA_EMAIL'] || '',
+      },
+      timeout: config.timeout || 30000,
+      maxRetries: config.maxRetries || 3,
+    });
+
+    // Validate configuration
+    if (!this.config.endpoint) {
+      throw new MCPError(
+        'Jira URL not configured. Set mcps.jira.url or the JIRA_URL environment variable.',
+        this.config.name,
+        'constructor'
+      );
+    }
+
+    const creds = this.config.credentials as Record<string, string>;
+    if (!creds['apiToken'] || !creds['email']) {
+      throw new MCPError(
+        'Jira credentials not configured. Set JIRA_API_TOKEN and JIRA_EMAIL environment variables.',
+        this.config.name,
+        'constructor'
+      );
+    }
+
+    if (!jira.project) {
+      throw new MCPError(
+        'Jira project not configured. Set mcps.jira.project or the JIRA_PROJECT_KEY environment variable.',
+        this.config.name,
+        'constructor'
+      );
+    }
+
+    this.settings = jira;
+  }
+
+  /**
+   * Creates an issue in the configured project
+   *
+   * @param input - Issue fields
+   * @returns Key and browse URL of the new issue
+   */
+  async createIssue(input: JiraIssueInput): Promise<JiraIssueRef> {
+    const request: MCPRequest = {
+      method: 'jira.createIssue',
+      params: {
+        fields: {
+          project: { key: this.settings.project },
+          summary: input.summary,
+          description: input.description,
+          issuetype: { name: input.issueType ?? this.settings.issueType ?? 'Task' },
+          ...(input.assignee ? { assignee: { accountId: input.assignee } } : {}),
+          ...(input.priority ? { priority: { name: input.priority } } : {}),
+          ...(input.labels ? { labels: input.labels } : {}),
+          ...(input.parentKey ? { parent: { key: input.parentKey } } : {}),
+        },
+      },
+    };
+
+    try {
+      const response = await this.executeRequest<{ id: string; key: string }>(request);
+      return { id: response.id, key: response.key, url: `${this.config.endpoint}/browse/${response.key}` };
+    } catch (error) {
+      throw new MCPError(
+        `Failed to create issue "${input.summary}": ${error instanceof Error ? error.message : String(error)}`,
+        this.config.name,
+        'createIssue'
+      );
+    }
+  }
+
+  /**
+   * Fetches the status and resolution of an issue
+   *
+   * @param issueKey - Issue key (e.g. PROJ-123)
+   * @returns Issue status
+   */
+  async getIssueStatus(issueKey: string): Promise<JiraIssueStatus> {
+    const request: MCPRequest = {
+      method: 'jira.getIssue',
+      params: { issueKey },
+    };
+
+    try {
+      const response = await this.executeRequest<{
+        key: string;
+        fields: { status?: { name: string }; resolution?: { name: string } | null };
+      }>(request);
+      return {
+        key: response.key,
+        status: response.fields.status?.name ?? 'Unknown',
+        resolution: response.fields.resolution?.name,
+      };
+    } catch (error) {
+      throw new MCPError(
+        `Failed to fetch issue ${issueKey}: ${error instanceof Error ? error.message : String(error)}`,
+        this.config.name,
+        'getIssueStatus'
+      );
+    }
+  }
+
+  /**
+   * Lists the comments on an issue, oldest first
+   *
+   * @param issueKey - Issue key (e.g. PROJ-123)
+   * @returns Comments
+   */
+  async getComments(issueKey: string): Promise<JiraComment[]> {
+    const request: MCPRequest = {
+      method: 'jira.getComments',
+      params: { issueKey },
+    };
+
+    try {
+      const response = await this.executeRequest<{
+        comments: Array<{
+          id: string;
+          author?: { displayName?: string; accountId?: string };
+          body: string;
+          created: string;
+        }>;
+      }>(request);
+      return response.comments.map((comment) => ({
+        id: comment.id,
+        author: comment.author?.displayName ?? comment.author?.accountId ?? 'unknown',
+        body: comment.body,
+        created: toISODate(comment.created),
+      }));
+    } catch (error) {
+      throw new MCPError(
+        `Failed to fetch comments of ${issueKey}: ${error instanceof Error ? error.message : String(error)}`,
+        this.config.name,
+        'getComments'
+      );
+    }
+  }
+
+  /**
+   * Creates one issue per question (in one epic per session with mcps.jira.epic)
+   *
+   * @param questions - Questions to post
+   * @param sessionId - Session the questions belong to (added as a label)
+   * @param parent - Epic of an earlier dispatch to add issues to
+   * @returns Question-to-issue mapping
+   * @throws {ClarificationDispatchError} With the issues created so far, if creating one fails
+   */
+  async dispatch(questions: QuestionsOutput, sessionId: string, parent?: string): Promise<ClarificationDispatch> {
+    let epicKey = parent;
+    if (this.settings.epic && !epicKey) {
+      const epic = await this.createIssue({
+        summary: `Clarification questions for ${sessionId}`,
+        description: `Open questions found by PRISM while analyzing requirements and designs (session ${sessionId}).`,
+        issueType: 'Epic',
+        labels: ['prism', sessionId],
+      });
+      epicKey = epic.key;
+    }
+
+    const dispatch: ClarificationDispatch = {
+      mode: 'jira',
+      dispatched_at: new Date().toISOString(),
+      ...(epicKey ? { parent: epicKey } : {}),
+      items: [],
+    };
+    for (const question of questions.questions) {
+      try {
+        const issue = await this.createIssue({
+          summary: `[${question.id}] ${truncate(question.question, 200)}`,
+          description: formatDescription(question),
+          assignee: this.settings.assignees?.[question.stakeholder_type],
+          priority: PRIORITY_NAMES[question.priority],
+          labels: ['prism', sessionId, `stakeholder-${question.stakeholder_type}`],
+          parentKey: epicKey,
+        });
+        dispatch.items.push({ question_id: question.id, ref: issue.key, url: issue.url });
+      } catch (error) {
+        throw new ClarificationDispatchError(dispatch, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    return dispatch;
+  }
+
+  /**
+   * Reads answers from the comments of dispatched issues
+   *
+   * @param questions - Questions of the session (for suggestion numbers)
+   * @param dispatch - Question-to-issue mapping
+   * @returns Responses for the questions answered so far
+   */
+  async collect(questions: QuestionsOutput, dispatch: ClarificationDispatch): Promise<ClarificationResponse[]> {
+    const byId = new Map(questions.questions.map((q) => [q.id, q]));
+    const responses: ClarificationResponse[] = [];
+
+    for (const item of dispatch.items) {
+      const question = byId.get(item.question_id);
+      if (!question) {
+        continue;
+      }
+
+      const comments = await this.getComments(item.ref);
+      let answer = [...comments].reverse().find((comment) => ANSWER_PREFIX.test(comment.body));
+      if (!answer && comments.length > 0 && (await this.getIssueStatus(item.ref)).resolution) {
+        answer = comments[comments.length - 1];
+      }
+
+      const response = answer && parseAnswerMessage(answer.body, question);
+      if (answer && response) {
+        responses.push({
+          question_id: question.id,
+          ...response,
+          answered_by: answer.author,
+          answered_at: answer.created,
+        });
+      }
+    }
+
+    return responses;
+  }
+
+  /**
+   * Implements abstract sendRequest method from MCPClient
+   *
+   * Maps MCP methods onto the Jira REST API (v2, plain-text bodies).
+   *
+   * @param request - MCP request
+   * @returns MCP response
+   */
+  protected async sendRequest<T>(request: MCPRequest): Promise<MCPResponse<T>> {
+    const creds = this.config.credentials as Record<string, string>;
+    const authHeader = `Basic ${Buffer.from(`${creds['email']}:${creds['apiToken']}`).toString('base64')}`;
+
+    try {
+      const { method, path, body } = toRESTCall(request);
+
+      // Use node-fetch for HTTP requests
+      const fetch = (await import('node-fetch')).default;
+
+      const response = await fetch(`${this.config.endpoint}${path}`, {
+        method,
+        headers: {
+          'Authorization': authHeader,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        // @ts-ignore - node-fetch types
+        timeout: this.config.timeout,
+      });
+
+      if (!response.ok) {
+        // Map HTTP status to appropriate error
+        if (response.status === 401 || response.status === 403) {
+          throw new Error(`Authentication failed: ${response.statusText}`);
+        }
+        if (response.status === 404) {
+          throw new Error(`Resource not found: ${response.statusText}`);
+        }
+        if (response.status === 429) {
+          throw new Error(`429 Rate limit exceeded`);
+        }
+        if (response.status >= 500) {
+          throw new Error(`${response.status} Server error: ${response.statusText}`);
+        }
+
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      const text = await response.text();
+
+      return {
+        result: (text ? JSON.parse(text) : {}) as T,
+      };
+    } catch (error) {
+      return {
+        error: {
+          code: -32000,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Helper: REST call for an MCP request
+ */
+function toRESTCall(request: MCPRequest): { method: string; path: string; body?: unknown } {
+  const issueKey = encodeURIComponent(String(request.params?.['issueKey'] ?? ''));
+
+  switch (request.method) {
+    case 'ping':
+      return { method: 'GET', path: '/rest/api/2/myself' };
+    case 'jira.createIssue':
+      return { method: 'POST', path: '/rest/api/2/issue', body: { fields: request.params?.['fields'] } };
+    case 'jira.getIssue':
+      return { method: 'GET', path: `/rest/api/2/issue/${issueKey}?fields=status,resolution` };
+    case 'jira.getComments':
+      return { method: 'GET', path: `/rest/api/2/issue/${issueKey}/comment` };
+    default:
+      throw new Error(`Unsupported method ${request.method}`);
+  }
+}
+
+/**
+ * Helper: Issue description with context, suggestions and answer instructions
+ */
+function formatDescription(question: ClarificationQuestion): string {
+  const lines = [question.question, '', `*Context:* ${question.context}`];
+
+  if (question.suggestions.length > 0) {
+    lines.push('', '*Suggestions:*', ...question.suggestions.map((s) => `# ${s}`));
+  }
+
+  lines.push(
+    '',
+    'Reply with a comment starting with "Answer:" (text or a suggestion number), or resolve the issue after commenting.',
+    'Add a line "Confidence: 0.9" to rate your confidence from 0 to 1.',
+    '',
+    `PRISM question ${question.id} (${question.priority}, ${question.stakeholder_type}), ${formatGapIds(question)}`
+  );
+
+  return lines.join('\n');
+}
+
+/**
+ * Helper: Jira timestamp (e.g. 2025-01-31T10:00:00.000+0000) as ISO 8601 UTC
+ */
+function toISODate(value: string): string {
+  const date = new Date(value.replace(/([+-]\d{2})(\d{2})$/, '$1:$2'));
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
@@ -0,0 +1,353 @@
+/**
+ * Slack MCP Client
+ *
+ * Implements Model Context Protocol client for Slack.
+ * Posts critical and high priority clarification questions to a channel
+ * and reads stakeholder answers back from thread replies.
+ *
+ * @module utils/mcp/slack
+ */
+
+import { MCPClient, type MCPConfig, type MCPRequest, type MCPResponse } from '../mcp.js';
+import { MCPError, ClarificationDispatchError } from '../errors.js';
+import { resolveConfig } from '../config-resolver.js';
+import type { ConfigurationProfile } from '../../types/config.js';
+import type {
+  ClarificationChannel,
+  ClarificationDispatch,
+  ClarificationQuestion,
+  ClarificationResponse,
+  QuestionsOutput,
+} from '../../types/question.js';
+import type { GapSeverity } from '../../types/gap.js';
+import { parseAnswerMessage, formatGapIds } from './answers.js';
+
+/**
+ * Slack settings (mcps.slack)
+ */
+export type SlackSettings = NonNullable<NonNullable<ConfigurationProfile['mcps']>['slack']>;
+
+/**
+ * Posted message
+ */
+export interface SlackMessageRef {
+  channel: string;
+  /** Message timestamp, which also identifies its thread */
+  ts: string;
+}
+
+/**
+ * Thread reply
+ */
+export interface SlackReply {
+  ts: string;
+  /** User ID of the author */
+  user: string;
+  text: string;
+  /** Whether an app or bot posted the reply */
+  bot: boolean;
+}
+
+/** Priorities posted to Slack; the rest are left for other modes */
+const ASKED_PRIORITIES: GapSeverity[] = ['critical', 'high'];
+
+const PRIORITY_ICONS: Record<GapSeverity, string> = {
+  critical: '🔴',
+  high: '🟠',
+  medium: '🟡',
+  low: '⚪',
+};
+
+/**
+ * Slack MCP Client
+ *
+ * Extends MCPClient base class with Slack Web API methods. Each critical
+ * or high priority question is posted as a message with its suggestions
+ * numbered; stakeholders answer in the message's thread with text or a
+ * suggestion number (buttons would need a public interactivity URL, which
+ * a CLI run cannot provide). The latest human reply answers the question;
+ * an optional "Confidence: 0.9" line sets the confidence.
+ */
+export class SlackMCPClient extends MCPClient implements ClarificationChannel {
+  readonly mode = 'slack' as const;
+  private readonly channel: string;
+
+  constructor(config: Partial<MCPConfig> = {}, settings?: SlackSettings) {
+    const slack = settings ?? resolveConfig().config.mcps?.slack ?? {};
+
+    super({
+      name: 'slack',
+      endpoint: (config.endpoint || slack.url || 'https://slack.com/api').replace(/\/+$/, ''),
+      credentials: config.credentials || {
+        botToken: process.env['SLACK_BOT_TOKEN'] || '',
+      },
+      timeout: config.timeout || 30000,
+      maxRetries: config.maxRetries || 3,
+    });
+
+    // Validate configuration
+    const creds = this.config.credentials as Record<string, string>;
+    if (!creds['botToken']) {
+      throw new MCPError(
+        'Slack credentials not configured. Set the SLACK_BOT_TOKEN environment variable.',
+        this.config.name,
+        'constructor'
+      );
+    }
+
+    if (!slack.channel) {
+      throw new MCPError(
+        'Slack channel not configured. Set mcps.slack.channel or the SLACK_CHANNEL_ID environment variable.',
+        this.config.name,
+        'constructor'
+      );
+    }
+
+    this.channel = slack.channel;
+  }
+
+  /**
+   * Only critical and high priority questions are posted to Slack
+   *
+   * @param question - Clarification question
+   * @returns Whether the question is posted
+   */
+  asks(question: ClarificationQuestion): boolean {
+    return ASKED_PRIORITIES.includes(question.priority);
+  }
+
+  /**
+   * Posts a message to a channel
+   *
+   * @param text - Message text (Slack mrkdwn)
+   * @param channel - Channel ID (default: mcps.slack.channel)
+   * @returns Channel and timestamp of the message
+   */
+  async postMessage(text: string, channel: string = this.channel): Promise<SlackMessageRef> {
+    const request: MCPRequest = {
+      method: 'slack.postMessage',
+      params: { channel, text, unfurl_links: false },
+    };
+
+    try {
+      const response = await this.executeRequest<{ channel: string; ts: string }>(request);
+      return { channel: response.channel, ts: response.ts };
+    } catch (error) {
+      throw new MCPError(
+        `Failed to post to ${channel}: ${error instanceof Error ? error.message : String(error)}`,
+        this.config.name,
+        'postMessage'
+      );
+    }
+  }
+
+  /**
+   * Lists the replies in a message's thread, oldest first
+   *
+   * @param channel - Channel ID
+   * @param ts - Timestamp of the thread's parent message
+   * @returns Replies, without the parent message
+   */
+  async getReplies(channel: string, ts: string): Promise<SlackReply[]> {
+    const request: MCPRequest = {
+      method: 'slack.getReplies',
+      params: { channel, ts },
+    };
+
+    try {
+      const response = await this.executeRequest<{
+        messages?: Array<{ ts: string; user?: string; text?: string; bot_id?: string; subtype?: string }>;
+      }>(request);
+      return (response.messages ?? [])
+        .filter((message) => message.ts !== ts)
+        .map((message) => ({
+          ts: message.ts,
+          user: message.user ?? 'unknown',
+          text: message.text ?? '',
+          bot: Boolean(message.bot_id) || message.subtype === 'bot_message',
+        }));
+    } catch (error) {
+      throw new MCPError(
+        `Failed to fetch replies of ${ts}: ${error instanceof Error ? error.message : String(error)}`,
+        this.config.name,
+        'getReplies'
+      );
+    }
+  }
+
+  /**
+   * Posts one message per question
+   *
+   * @param questions - Questions to post (critical and high only; see asks)
+   * @param sessionId - Session the questions belong to
+   * @param parent - Channel of an earlier dispatch, so all threads stay in one channel
+   * @returns Question-to-thread mapping (parent is the channel)
+   * @throws {ClarificationDispatchError} With the messages posted so far, if posting one fails
+   */
+  async dispatch(questions: QuestionsOutput, sessionId: string, parent?: string): Promise<ClarificationDispatch> {
+    const channel = parent ?? this.channel;
+    const dispatch: ClarificationDispatch = {
+      mode: 'slack',
+      dispatched_at: new Date().toISOString(),
+      parent: channel,
+      items: [],
+    };
+    for (const question of questions.questions.filter((q) => this.asks(q))) {
+      try {
+        const message = await this.postMessage(formatMessage(question, sessionId), channel);
+        dispatch.items.push({ question_id: question.id, ref: message.ts });
+      } catch (error) {
+        throw new ClarificationDispatchError(dispatch, error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+
+    return dispatch;
+  }
+
+  /**
+   * Reads answers from the threads of posted questions
+   *
+   * @param questions - Questions of the session (for suggestion numbers)
+   * @param dispatch - Question-to-thread mapping
+   * @returns Responses for the questions answered so far
+   */
+  async collect(questions: QuestionsOutput, dispatch: ClarificationDispatch): Promise<ClarificationResponse[]> {
+    const byId = new Map(questions.questions.map((q) => [q.id, q]));
+    const channel = dispatch.parent ?? this.channel;
+    const responses: ClarificationResponse[] = [];
+
+    for (const item of dispatch.items) {
+      const question = byId.get(item.question_id);
+      if (!question) {
+        continue;
+      }
+
+      const replies = await this.getReplies(channel, item.ref);
+      const answer = replies.filter((reply) => !reply.bot).pop();
+
+      const response = answer && parseAnswerMessage(answer.text, question);
+      if (answer && response) {
+        responses.push({
+          question_id: question.id,
+          ...response,
+          answered_by: answer.user,
+          answered_at: new Date(parseFloat(answer.ts) * 1000).toISOString(),
+        });
+      }
+    }
+
+    return responses;
+  }
+
+  /**
+   * Implements abstract sendRequest method from MCPClient
+   *
+   * Maps MCP methods onto Slack Web API methods (form-encoded POST).
+   *
+   * @param request - MCP request
+   * @returns MCP response
+   */
+  protected async sendRequest<T>(request: MCPRequest): Promise<MCPResponse<T>> {
+    const creds = this.config.credentials as Record<string, string>;
+
+    try {
+      const apiMethod = toAPIMethod(request.method);
+      const body = new URLSearchParams(
+        Object.entries(request.params ?? {}).map(([key, value]): [string, string] => [key, String(value)])
+      );
+
+      // Use node-fetch for HTTP requests
+      const fetch = (await import('node-fetch')).default;
+
+      const response = await fetch(`${this.config.endpoint}/${apiMethod}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${creds['botToken']}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Accept': 'application/json',
+        },
+        body: body.toString(),
+        // @ts-ignore - node-fetch types
+        timeout: this.config.timeout,
+      });
+
+      if (!response.ok) {
+        // Map HTTP status to appropriate error
+        if (response.status === 401 || response.status === 403) {
+          throw new Error(`Authentication failed: ${response.statusText}`);
+        }
+        if (response.status === 429) {
+          throw new Error(`429 Rate limit exceeded`);
+        }
+        if (response.status >= 500) {
+          throw new Error(`${response.status} Server error: ${response.statusText}`);
+        }
+
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      }
+
+      // Slack reports API errors in the body with HTTP 200
+      const data = (await response.json()) as { ok: boolean; error?: string };
+      if (!data.ok) {
+        if (data.error === 'invalid_auth' || data.error === 'not_authed' || data.error === 'account_inactive') {
+          throw new Error(`Authentication failed: ${data.error}`);
+        }
+        if (data.error === 'ratelimited') {
+          throw new Error(`429 Rate limit exceeded`);
+        }
+
+        throw new Error(`Slack API error: ${data.error ?? 'unknown'}`);
+      }
+
+      return {
+        result: data as T,
+      };
+    } catch (error) {
+      return {
+        error: {
+          code: -32000,
+          message: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Helper: Slack Web API method for an MCP request
+ */
+function toAPIMethod(method: string): string {
+  switch (method) {
+    case 'ping':
+      return 'auth.test';
+    case 'slack.postMessage':
+      return 'chat.postMessage';
+    case 'slack.getReplies':
+      return 'conversations.replies';
+    default:
+      throw new Error(`Unsupported method ${method}`);
+  }
+}
+
+/**
+ * Helper: Question message with context, numbered suggestions and reply instructions
+ */
+function formatMessage(question: ClarificationQuestion, sessionId: string): string {
+  const lines = [
+    `${PRIORITY_ICONS[question.priority]} *[${question.id}] ${question.priority} · ${question.stakeholder_type}*`,
+    question.question,
+    `> ${question.context.replace(/\n/g, '\n> ')}`,
+  ];
+
+  if (question.suggestions.length > 0) {
+    lines.push('', '*Suggestions:*', ...question.suggestions.map((s, index) => `${index + 1}. ${s}`));
+  }
+
+  lines.push(
+    '',
+    '_Reply in this thread with your answer or a suggestion number. Add a line "Confidence: 0.9" to rate your confidence from 0 to 1._',
+    `_PRISM session ${sessionId}, ${formatGapIds(question)}_`
+  );
+
+  return lines.join('\n');
+}
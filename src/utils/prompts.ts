@@ -1,5 +1,6 @@
 import { join } from 'path';
 import { readFile } from './files.js';
+import { hashContent } from './hash.js';
 
 /**
  * Prompt template loader utility
@@ -14,8 +15,10 @@ const PROMPTS_DIR = join(process.cwd(), 'prompts');
  */
 export type PromptTemplate =
   | 'prd-analyzer'
+  | 'conflict-analyzer'
   | 'figma-analyzer'
   | 'validator'
+  | 'traceability-matcher'
   | 'clarification-manager'
   | 'tdd-generator';
 
@@ -81,3 +84,15 @@ export async function preparePrompt(
 
   return replaceVariables(content, variables);
 }
+
+/**
+ * Hash the raw prompt template (before variable replacement)
+ *
+ * Used as part of the LLM result cache key so template edits invalidate the cache.
+ *
+ * @param template - Prompt template name
+ * @returns Hex-encoded SHA-256 digest
+ */
+export async function hashPromptTemplate(template: PromptTemplate): Promise<string> {
+  return hashContent(await loadPrompt(template));
+}
@@ -2,10 +2,12 @@ import { join } from 'path';
 import {
   ensureDir,
   writeYAMLWithSchema,
-  readYAMLWithSchema,
+  readYAML,
   fileExists,
 } from './files.js';
+import { z } from 'zod';
 import {
+  SessionSchema,
   SessionStateSchema,
   CheckpointSchema,
 } from '../schemas/session.js';
@@ -13,9 +15,10 @@ import type {
   Session,
   SessionState,
   Checkpoint,
-  WorkflowStep,
+  StepId,
 } from '../types/session.js';
 import { SessionError } from './errors.js';
+import { resolveConfig } from './config-resolver.js';
 
 /**
  * Session management utilities
@@ -62,6 +65,7 @@ export async function initSession(
 ): Promise<Session> {
   const sessionId = generateSessionId();
   const now = new Date().toISOString();
+  const { config, profile } = resolveConfig();
 
   const session: Session = {
     session_id: sessionId,
@@ -74,15 +78,10 @@ export async function initSession(
     outputs: {},
     checkpoints: [],
     config: {
-      ai_provider: process.env['AI_PROVIDER'] || 'anthropic',
-      workflow_timeout_minutes: parseInt(
-        process.env['WORKFLOW_TIMEOUT_MINUTES'] || '20',
-        10
-      ),
-      max_clarification_iterations: parseInt(
-        process.env['MAX_CLARIFICATION_ITERATIONS'] || '3',
-        10
-      ),
+      ai_provider: config.llm.provider,
+      workflow_timeout_minutes: config.workflow.timeoutMinutes,
+      max_clarification_iterations: config.workflow.maxClarificationIterations,
+      profile: profile?.name,
     },
   };
 
@@ -120,6 +119,9 @@ export async function saveSession(session: Session): Promise<void> {
 /**
  * Load session state
  *
+ * Accepts both the SessionState format and bare sessions saved by the
+ * discovery workflow.
+ *
  * @param sessionId - Session ID to load
  * @returns Session state
  * @throws SessionError if session doesn't exist or is corrupted
@@ -135,8 +137,12 @@ export async function loadSession(sessionId: string): Promise<Session> {
   }
 
   try {
-    const state = await readYAMLWithSchema(statePath, SessionStateSchema);
-    return state.session;
+    // The discovery workflow stores the bare session rather than a SessionState wrapper
+    const content = await readYAML(statePath);
+    const state = z
+      .union([SessionStateSchema, SessionSchema.transform((session) => ({ session }))])
+      .parse(content);
+    return state.session as Session;
   } catch (error) {
     throw new SessionError(
       `Failed to load or validate session state: ${
@@ -150,7 +156,8 @@ export async function loadSession(sessionId: string): Promise<Session> {
 /**
  * Save checkpoint after skill completes (FR-050)
  *
- * One of 5 checkpoints: prd-analysis, figma-analysis, validation, clarification, tdd-generation
+ * Built-in checkpoints: prd-analysis, figma-analysis, validation, clarification, tdd-generation
+ * Custom pipeline steps checkpoint under their custom:{name} ID
  *
  * @param session - Current session
  * @param step - Completed workflow step
@@ -160,12 +167,13 @@ export async function loadSession(sessionId: string): Promise<Session> {
  */
 export async function saveCheckpoint(
   session: Session,
-  step: WorkflowStep,
+  step: StepId,
   outputs: string[],
   metadata: {
     duration_ms: number;
     provider_used?: string;
     estimated_cost?: number;
+    input_hash?: string;
   }
 ): Promise<Session> {
   const checkpoint: Checkpoint = {
@@ -269,3 +277,20 @@ export async function listSessions(): Promise<string[]> {
     return [];
   }
 }
+
+/**
+ * Delete a session and all of its artifacts
+ *
+ * @param sessionId - Session ID to delete
+ * @throws SessionError if the session doesn't exist
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const fs = await import('fs/promises');
+
+  // Only plain session IDs, so the path cannot leave the sessions directory
+  if (!/^sess-[\w-]+$/.test(sessionId) || !(await fileExists(getSessionDir(sessionId)))) {
+    throw new SessionError('Session not found', sessionId);
+  }
+
+  await fs.rm(getSessionDir(sessionId), { recursive: true, force: true });
+}
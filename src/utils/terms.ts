@@ -0,0 +1,73 @@
+/**
+ * Term extraction utilities
+ *
+ * Turns requirement and component text into comparable term sets for
+ * lexical matching (traceability, coverage and conflict heuristics)
+ */
+
+/** Words too common in requirements to signal a match */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'for', 'from',
+  'has', 'have', 'in', 'into', 'is', 'it', 'its', 'must', 'of', 'on', 'or',
+  'shall', 'should', 'that', 'the', 'their', 'them', 'they', 'this', 'to',
+  'user', 'will', 'with', 'within', 'when', 'able', 'system',
+]);
+
+/** Design system vocabulary that says nothing about the feature a component serves (stemmed like extracted terms) */
+const GENERIC_UI_TERMS = new Set(
+  [
+    'button', 'input', 'field', 'card', 'modal', 'icon', 'text', 'label', 'component',
+    'primary', 'secondary', 'tertiary', 'small', 'medium', 'large', 'default',
+    'variant', 'state', 'hover', 'disabled', 'active', 'screen', 'page', 'view',
+    'frame', 'design', 'container', 'wrapper', 'group', 'instance',
+  ].map(stem)
+);
+
+/**
+ * Split text into lowercase, lightly stemmed terms without stop words
+ *
+ * camelCase and separators (/, -, _) split words, so "LoginForm" and
+ * "Login/Form" both yield ["login", "form"].
+ *
+ * @param text - Text to split
+ * @returns Distinct terms
+ */
+export function extractTerms(text: string): Set<string> {
+  const words = text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/);
+
+  return new Set(
+    words.filter((word) => word.length > 1 && !STOP_WORDS.has(word)).map(stem)
+  );
+}
+
+/**
+ * Drop design system vocabulary (button, primary, screen, …) from a term set
+ */
+export function withoutGenericTerms(terms: Set<string>): Set<string> {
+  return new Set([...terms].filter((term) => !GENERIC_UI_TERMS.has(term)));
+}
+
+/**
+ * Strip plural and verb endings so "exports", "exported" and "exporting" match
+ */
+function stem(word: string): string {
+  let result = word;
+  if (result.length > 4 && result.endsWith('ies')) {
+    result = `${result.slice(0, -3)}y`;
+  } else if (result.length > 3 && result.endsWith('s') && !result.endsWith('ss')) {
+    result = result.slice(0, -1);
+  }
+
+  if (result.length > 5 && result.endsWith('ing')) {
+    result = result.slice(0, -3);
+  } else if (result.length > 5 && result.endsWith('ed')) {
+    result = result.slice(0, -2);
+  } else if (result.length > 4 && result.endsWith('e')) {
+    result = result.slice(0, -1);
+  }
+
+  return result;
+}
@@ -7,20 +7,53 @@
  * @module workflows/discovery
  */
 
-import { join } from 'path';
-import type { Session, Checkpoint, WorkflowStep } from '../types/session.js';
+import { join, basename } from 'path';
+import type { Session, StepId } from '../types/session.js';
+import type { RequirementsOutput } from '../types/requirement.js';
+import type { ComponentsOutput } from '../types/component.js';
+import type { Gap, GapSeverity, GapType } from '../types/gap.js';
+import type { ClarificationRound, ClarificationSession, QuestionsOutput } from '../types/question.js';
 import { SessionSchema } from '../schemas/session.js';
-import { writeYAMLWithSchema, readYAMLWithSchema, fileExists } from '../utils/files.js';
-import { WorkflowError } from '../utils/errors.js';
+import { RequirementsOutputSchema } from '../schemas/requirement.js';
+import { ComponentsOutputSchema } from '../schemas/component.js';
+import { GapsOutputSchema } from '../schemas/gap.js';
+import { writeYAMLWithSchema, readYAMLWithSchema, readFile, fileExists, copyFile } from '../utils/files.js';
+import { WorkflowError, BudgetExceededError, WorkflowPausedError } from '../utils/errors.js';
 import { WorkflowTimeoutManager } from '../utils/timeout-manager.js';
+import { CostTracker, formatCost } from '../utils/cost-tracker.js';
+import { createConsoleEventBus, type WorkflowEventBus } from '../utils/events.js';
+import { resolveConfig, pinConfigProfile } from '../utils/config-resolver.js';
+import {
+  WorkflowPipeline,
+  getSessionArtifactPath,
+  shouldSkipStep,
+  type PipelineContext,
+  type PipelineStep,
+} from './pipeline.js';
+import { estimateStepCosts, type CostEstimate } from './estimate.js';
+import { getProviderInfo } from '../providers/index.js';
+import { JiraMCPClient } from '../utils/mcp/jira.js';
+import { SlackMCPClient } from '../utils/mcp/slack.js';
+import type { ProviderFallbackEvent } from '../providers/types.js';
 
 // Import skills
 import { analyzePRD } from '../skills/prd-analyzer.js';
 import { analyzeFigmaDesign } from '../skills/figma-analyzer.js';
-// TODO: Enable when implementing full workflow
-// import { validateRequirements } from '../skills/requirements-validator.js';
-// import { generateClarifications } from '../skills/clarification-manager.js';
-// import { generateTDD } from '../skills/tdd-generator.js';
+import { validateRequirements } from '../skills/requirements-validator.js';
+import {
+  generateClarifications,
+  runInteractiveClarification,
+  loadClarificationSession,
+  exportQuestionsFile,
+  syncChannelClarification,
+  refineRequirements,
+  selectNewGaps,
+  saveRefinement,
+  type ClarificationPrompter,
+  type GenerateClarificationsOptions,
+} from '../skills/clarification-manager.js';
+import { generateTDD } from '../skills/tdd-generator.js';
+import { validateRequirementsQuality } from '../skills/quality-validator.js';
 
 /**
  * Workflow execution options
@@ -30,8 +63,33 @@ export interface DiscoveryWorkflowOptions {
   figmaSource?: string;
   projectName?: string;
   resumeSessionId?: string;
+  /** Invalidate this step and everything downstream before resuming */
+  rerunFrom?: StepId;
+  /** Bypass the .prism/cache LLM result cache */
+  noCache?: boolean;
   aiProvider?: string;
   timeoutMinutes?: number;
+  /** Session budget in USD (default: PRISM_MAX_COST_USD, unlimited if unset) */
+  maxCostUsd?: number;
+  /**
+   * Ask whether to continue when the pre-flight estimate exceeds the remaining
+   * budget. Without it (non-interactive mode) the run is refused.
+   */
+  confirmOverBudget?: (estimate: CostEstimate, remainingUsd: number) => Promise<boolean>;
+  /**
+   * Ask clarification questions on the terminal (workflow.clarificationMode
+   * interactive). Without it the run pauses at the clarification step.
+   */
+  clarificationPrompter?: ClarificationPrompter;
+  /** Additional steps registered after the built-in steps */
+  customSteps?: PipelineStep[];
+  /** Progress events from the workflow and its skills (default: console output) */
+  events?: WorkflowEventBus;
+  /**
+   * Receives the session once it is loaded, and undefined when the run ends,
+   * so a signal handler can pause it (see pauseDiscoverySession)
+   */
+  onActiveSession?: (session: Session | undefined) => void;
 }
 
 /**
@@ -40,7 +98,10 @@ export interface DiscoveryWorkflowOptions {
 export interface DiscoveryWorkflowResult {
   sessionId: string;
   status: 'completed' | 'failed' | 'paused';
-  completedSteps: WorkflowStep[];
+  /** Steps that ran and were checkpointed in this run */
+  completedSteps: StepId[];
+  /** How to continue a paused run */
+  resumeCommand?: string;
   outputs: {
     tddPath?: string;
     apiSpecPath?: string;
@@ -48,9 +109,36 @@ export interface DiscoveryWorkflowResult {
     [key: string]: string | undefined;
   };
   duration: number;
+  /** Total session cost in USD, including earlier runs of a resumed session */
   estimatedCost: number;
 }
 
+/**
+ * Gap and requirement quality summary of a session
+ *
+ * Each part is omitted when the step that produces it has not run yet.
+ */
+export interface DiscoverySummary {
+  gaps?: {
+    total: number;
+    bySeverity: Record<GapSeverity, number>;
+    byType: Partial<Record<GapType, number>>;
+  };
+  quality?: {
+    /** 0.0-1.0 */
+    overallScore: number;
+    scores: {
+      completeness: number;
+      clarity: number;
+      consistency: number;
+      testability: number;
+    };
+    passedChecks: number;
+    failedChecks: number;
+    issueCount: number;
+  };
+}
+
 /**
  * Executes the complete discovery workflow
  *
@@ -61,18 +149,16 @@ export async function executeDiscoveryWorkflow(
   options: DiscoveryWorkflowOptions
 ): Promise<DiscoveryWorkflowResult> {
   const startTime = Date.now();
-  const timeoutMinutes = options.timeoutMinutes || 30;
+  const events = options.events ?? createConsoleEventBus();
 
-  console.log('🚀 Starting Discovery Workflow');
-  console.log(`   PRD Source: ${options.prdSource}`);
+  events.info('🚀 Starting Discovery Workflow');
+  events.info(`   PRD Source: ${options.prdSource}`);
   if (options.figmaSource) {
-    console.log(`   Figma Source: ${options.figmaSource}`);
+    events.info(`   Figma Source: ${options.figmaSource}`);
   }
-  console.log(`⏰ Timeout: ${timeoutMinutes} minutes`);
-  console.log('');
 
-  // T041: Initialize 30-minute timeout manager (FR-016)
-  const timeoutManager = new WorkflowTimeoutManager(timeoutMinutes);
+  // Created once the session (and a resumed session's profile) is known
+  let timeoutManager: WorkflowTimeoutManager | undefined;
   let session: Session | undefined;
 
   try {
@@ -89,236 +175,116 @@ export async function executeDiscoveryWorkflow(
     // Type assertion: session is definitely assigned after guard
     const activeSession: Session = session;
 
-    console.log(`📂 Session: ${activeSession.session_id}`);
-    console.log('');
+    if (options.resumeSessionId) {
+      pinSessionProfile(activeSession, events);
+    }
+
+    if (options.maxCostUsd !== undefined) {
+      activeSession.config.max_cost_usd = options.maxCostUsd;
+    }
+
+    events.info(`📂 Session: ${activeSession.session_id}`);
+    if (activeSession.config.profile) {
+      events.info(`   Profile: ${activeSession.config.profile}`);
+    }
+    events.info('');
+    options.onActiveSession?.(activeSession);
+
+    // T041: Initialize 30-minute timeout manager (FR-016)
+    const timeoutMinutes = options.timeoutMinutes || resolveConfig().config.workflow.timeoutMinutes;
+    const workflowTimeout = new WorkflowTimeoutManager(timeoutMinutes);
+    timeoutManager = workflowTimeout;
+    events.info(`⏰ Timeout: ${timeoutMinutes} minutes`);
+    events.info('');
 
     // Capture session in closure for timeout callback
     const sessionForCallback = activeSession;
 
     // T039: Start timeout with state save callback
-    timeoutManager.start(async () => {
-      console.log('💾 Saving session state before timeout...');
-      sessionForCallback.status = 'paused';
-      sessionForCallback.updated_at = new Date().toISOString();
-      await saveSession(sessionForCallback);
-      console.log(`✅ Session saved. Resume with: prism --resume=${sessionForCallback.session_id}`);
+    workflowTimeout.start(async () => {
+      events.info('💾 Saving session state before timeout...');
+      await pauseDiscoverySession(sessionForCallback);
+      events.info(`✅ Session saved. Resume with: prism resume ${sessionForCallback.session_id}`);
     });
 
-    const completedSteps: WorkflowStep[] = [];
-    let totalCost = 0;
+    const costTracker = new CostTracker(activeSession);
 
     // 2. Execute workflow steps
-    const steps: Array<{ step: WorkflowStep; name: string; execute: () => Promise<void> }> = [
-      {
-        step: 'prd-analysis',
-        name: 'PRD Analysis',
-        execute: async () => {
-          if (shouldSkipStep(activeSession, 'prd-analysis')) {
-            console.log('✓ PRD Analysis (already completed)');
-            return;
-          }
-
-          console.log('📄 Step 1/5: Analyzing PRD...');
-          const stepStart = Date.now();
-
-          await analyzePRD(options.prdSource, activeSession.session_id, {
-            saveOutput: true,
-          });
-
-          const checkpoint = await saveCheckpoint(
-            activeSession,
-            'prd-analysis',
-            Date.now() - stepStart,
-            [`.prism/sessions/${activeSession.session_id}/01-prd-analysis/requirements.yaml`]
-          );
-
-          completedSteps.push('prd-analysis');
-          console.log(`✅ PRD Analysis complete (${checkpoint.metadata.duration_ms}ms)`);
-          console.log('');
-        },
-      },
-      {
-        step: 'figma-analysis',
-        name: 'Figma Analysis',
-        execute: async () => {
-          if (shouldSkipStep(activeSession, 'figma-analysis')) {
-            console.log('✓ Figma Analysis (already completed)');
-            return;
-          }
-
-          if (!options.figmaSource) {
-            console.log('⏭️  Step 2/5: Skipping Figma Analysis (no Figma source provided)');
-            console.log('');
-            return;
-          }
-
-          console.log('🎨 Step 2/5: Analyzing Figma Design...');
-          const stepStart = Date.now();
-
-          await analyzeFigmaDesign(options.figmaSource, activeSession.session_id, {
-            saveOutput: true,
-          });
-
-          const checkpoint = await saveCheckpoint(
-            activeSession,
-            'figma-analysis',
-            Date.now() - stepStart,
-            [`.prism/sessions/${activeSession.session_id}/02-figma-analysis/components.yaml`]
-          );
-
-          completedSteps.push('figma-analysis');
-          console.log(`✅ Figma Analysis complete (${checkpoint.metadata.duration_ms}ms)`);
-          console.log('');
-        },
-      },
-      {
-        step: 'validation',
-        name: 'Requirements Validation',
-        execute: async () => {
-          if (shouldSkipStep(activeSession, 'validation')) {
-            console.log('✓ Requirements Validation (already completed)');
-            return;
-          }
-
-          console.log('🔍 Step 3/5: Validating Requirements...');
-          const stepStart = Date.now();
-
-          // TODO: Load requirements and components from previous steps
-          // const requirementsPath = join('.prism', 'sessions', session.session_id, '01-prd-analysis', 'requirements.yaml');
-          // const componentsPath = join('.prism', 'sessions', session.session_id, '02-figma-analysis', 'components.yaml');
-          // const requirements = await readYAMLWithSchema(requirementsPath, RequirementsOutputSchema);
-          // const components = await readYAMLWithSchema(componentsPath, ComponentsOutputSchema);
-          // const gaps = await validateRequirements(requirements, components, session.session_id);
-
-          console.log('   (Using simplified validation)');
-
-          const checkpoint = await saveCheckpoint(
-            activeSession,
-            'validation',
-            Date.now() - stepStart,
-            ['.prism/sessions/${activeSession.session_id}/03-validation/gaps.yaml']
-          );
-
-          completedSteps.push('validation');
-          console.log(`✅ Validation complete (${checkpoint.metadata.duration_ms}ms)`);
-          console.log('');
-        },
-      },
-      {
-        step: 'clarification',
-        name: 'Clarification',
-        execute: async () => {
-          if (shouldSkipStep(activeSession, 'clarification')) {
-            console.log('✓ Clarification (already completed)');
-            return;
-          }
-
-          console.log('❓ Step 4/5: Generating Clarification Questions...');
-          const stepStart = Date.now();
-
-          console.log('   (Using simplified clarification)');
-
-          const checkpoint = await saveCheckpoint(
-            activeSession,
-            'clarification',
-            Date.now() - stepStart,
-            ['.prism/sessions/${activeSession.session_id}/04-clarification/questions.yaml']
-          );
-
-          completedSteps.push('clarification');
-          console.log(`✅ Clarification complete (${checkpoint.metadata.duration_ms}ms)`);
-          console.log('');
-        },
-      },
-      {
-        step: 'tdd-generation',
-        name: 'TDD Generation',
-        execute: async () => {
-          if (shouldSkipStep(activeSession, 'tdd-generation')) {
-            console.log('✓ TDD Generation (already completed)');
-            return;
-          }
-
-          console.log('📋 Step 5/5: Generating Technical Design Document...');
-          const stepStart = Date.now();
-
-          console.log('   (Using simplified TDD generation)');
-
-          const checkpoint = await saveCheckpoint(
-            activeSession,
-            'tdd-generation',
-            Date.now() - stepStart,
-            [
-              `.prism/sessions/${activeSession.session_id}/05-tdd/tdd.md`,
-              `.prism/sessions/${activeSession.session_id}/05-tdd/api-spec.json`,
-              `.prism/sessions/${activeSession.session_id}/05-tdd/database-schema.sql`,
-            ]
-          );
-
-          completedSteps.push('tdd-generation');
-          console.log(`✅ TDD Generation complete (${checkpoint.metadata.duration_ms}ms)`);
-          console.log('');
-        },
-      },
-    ];
-
-    // Execute each step with timeout protection
-    for (const { execute } of steps) {
-      // Check if timeout occurred before executing next step
-      if (timeoutManager.isAborted()) {
-        console.warn('⏱️  Workflow timeout reached, stopping execution');
-        break;
-      }
+    const pipeline = createDiscoveryPipeline(options.customSteps);
 
-      await execute();
+    if (options.rerunFrom) {
+      const invalidated = pipeline.invalidate(activeSession, options.rerunFrom);
+      activeSession.status = 'in-progress';
+      await saveSession(activeSession);
+      events.info(`🔁 Re-running: ${invalidated.join(' → ')}`);
+      events.info('');
     }
 
+    await checkEstimatedCost(activeSession, options, events);
+    const { completedSteps } = await pipeline.run(
+      {
+        session: activeSession,
+        signal: workflowTimeout.getSignal(),
+        projectName: options.projectName,
+        useCache: !options.noCache,
+        costTracker,
+        events,
+        prompter: options.clarificationPrompter,
+      },
+      { saveSession }
+    );
+
     // 3. Mark session as complete (if not timeout)
-    if (!timeoutManager.isAborted()) {
+    if (!workflowTimeout.isAborted()) {
       activeSession.status = 'completed';
       activeSession.updated_at = new Date().toISOString();
       await saveSession(activeSession);
 
       // Cancel timeout on successful completion
-      timeoutManager.cancel();
+      workflowTimeout.cancel();
     }
 
     const totalDuration = Date.now() - startTime;
+    const totalCost = costTracker.getTotalCost();
     const minutes = Math.floor(totalDuration / 60000);
     const seconds = Math.floor((totalDuration % 60000) / 1000);
 
-    if (timeoutManager.isAborted()) {
-      console.log('⏸️  Workflow Paused (Timeout)');
-      console.log(`   Duration: ${minutes}m ${seconds}s`);
-      console.log(`   Session: ${activeSession.session_id}`);
-      console.log(`   Resume with: prism --resume=${activeSession.session_id}`);
-      console.log('');
+    if (workflowTimeout.isAborted()) {
+      events.info('⏸️  Workflow Paused (Timeout)');
+      events.info(`   Duration: ${minutes}m ${seconds}s`);
+      events.info(`   Session: ${activeSession.session_id}`);
+      events.info(`   Resume with: prism resume ${activeSession.session_id}`);
+      events.info('');
 
       return {
         sessionId: activeSession.session_id,
         status: 'paused',
         completedSteps,
+        resumeCommand: `prism resume ${activeSession.session_id}`,
         outputs: {},
         duration: totalDuration,
         estimatedCost: totalCost,
       };
     }
 
-    console.log('🎉 Discovery Workflow Complete!');
-    console.log(`   Duration: ${minutes}m ${seconds}s`);
-    console.log(`   Session: ${session.session_id}`);
-    console.log(`   Outputs: .prism/sessions/${activeSession.session_id}/`);
-    console.log('');
+    const outputDirectory = resolveConfig().config.output?.baseDirectory;
+    const outputs = await exportTDDOutputs(activeSession.session_id, outputDirectory);
+
+    events.info('🎉 Discovery Workflow Complete!');
+    events.info(`   Duration: ${minutes}m ${seconds}s`);
+    events.info(`   Cost: ${formatCost(totalCost)}`);
+    events.info(`   Session: ${session.session_id}`);
+    events.info(`   Outputs: .prism/sessions/${activeSession.session_id}/`);
+    if (outputDirectory) {
+      events.info(`   Exported to: ${join(outputDirectory, activeSession.session_id)}/`);
+    }
+    events.info('');
 
     return {
       sessionId: session.session_id,
       status: 'completed',
       completedSteps,
-      outputs: {
-        tddPath: `.prism/sessions/${activeSession.session_id}/05-tdd/tdd.md`,
-        apiSpecPath: `.prism/sessions/${activeSession.session_id}/05-tdd/api-spec.json`,
-        databaseSchemaPath: `.prism/sessions/${activeSession.session_id}/05-tdd/database-schema.sql`,
-      },
+      outputs,
       duration: totalDuration,
       estimatedCost: totalCost,
     };
@@ -327,29 +293,593 @@ export async function executeDiscoveryWorkflow(
     if (
       error instanceof Error &&
       error.name === 'AbortError' &&
-      timeoutManager.isAborted() &&
+      timeoutManager?.isAborted() &&
       session
     ) {
-      console.error('⏱️  Workflow timeout occurred');
-      console.error(`   Session paused. Resume with: prism --resume=${session.session_id}`);
+      events.error('⏱️  Workflow timeout occurred');
+      events.error(`   Session paused. Resume with: prism resume ${session.session_id}`);
+
+      return {
+        sessionId: session.session_id,
+        status: 'paused',
+        completedSteps: getStepsCompletedSince(session, startTime),
+        resumeCommand: `prism resume ${session.session_id}`,
+        outputs: {},
+        duration: Date.now() - startTime,
+        estimatedCost: session.usage?.estimated_cost ?? 0,
+      };
+    }
+
+    // Waiting for stakeholder input (e.g. clarification stopped halfway)
+    if (error instanceof WorkflowPausedError && session) {
+      timeoutManager?.cancel();
+      await pauseDiscoverySession(session);
+
+      const resumeCommand = error.resumeCommand ?? `prism resume ${session.session_id}`;
+      events.info(`⏸️  ${error.message}`);
+      events.info(`   Resume with: ${resumeCommand}`);
+      events.info('');
 
       return {
         sessionId: session.session_id,
         status: 'paused',
-        completedSteps: [],
+        completedSteps: getStepsCompletedSince(session, startTime),
+        resumeCommand,
         outputs: {},
         duration: Date.now() - startTime,
-        estimatedCost: 0,
+        estimatedCost: session.usage?.estimated_cost ?? 0,
       };
     }
 
-    console.error('❌ Workflow failed:', error instanceof Error ? error.message : String(error));
+    // Budget reached: pause so the session can be resumed with a higher limit
+    const budgetError = findBudgetError(error);
+    if (budgetError && session) {
+      timeoutManager?.cancel();
+      await pauseDiscoverySession(session);
+
+      events.error(`💸 ${budgetError.message}`);
+      events.error(`   Session paused. Raise the budget and resume with: prism resume ${session.session_id} --max-cost=<usd>`);
+
+      throw new WorkflowError(`Discovery workflow stopped: ${budgetError.message}`, 'budget-check', budgetError);
+    }
+
+    events.error(`❌ Workflow failed: ${error instanceof Error ? error.message : String(error)}`);
 
     throw new WorkflowError(
       `Discovery workflow failed: ${error instanceof Error ? error.message : String(error)}`,
-      'discovery-workflow'
+      'discovery-workflow',
+      error instanceof Error ? error : undefined
+    );
+  } finally {
+    options.onActiveSession?.(undefined);
+    pinConfigProfile(undefined);
+  }
+}
+
+/**
+ * Pins a resumed session's profile for the rest of the process
+ *
+ * Resumed sessions keep the profile they were created with; an explicit
+ * --profile or PRISM_PROFILE for another profile is ignored with a warning.
+ * Call it before anything resolves the configuration (e.g. the CLI's
+ * provider check).
+ *
+ * @param session - Session being resumed
+ * @param events - Receives the warning (default: console output)
+ */
+export function pinSessionProfile(session: Session, events?: WorkflowEventBus): void {
+  const requested = resolveConfig().profile;
+  pinConfigProfile({ name: session.config.profile, sessionId: session.session_id });
+
+  const explicit = requested?.origin.source === 'flag' || requested?.origin.source === 'env';
+  if (explicit && requested.name !== session.config.profile) {
+    (events ?? createConsoleEventBus()).warn(
+      `⚠️  Session was created with profile ${session.config.profile ?? '(none)'}; ignoring profile ${requested.name}`
+    );
+  }
+}
+
+/**
+ * Saves a discovery session as paused so `prism resume` can continue it
+ *
+ * @param session - Session of a running or stopped workflow
+ */
+export async function pauseDiscoverySession(session: Session): Promise<void> {
+  session.status = 'paused';
+  session.updated_at = new Date().toISOString();
+  await saveSession(session);
+}
+
+/**
+ * Runs a command outside the pipeline with cost tracking for a session
+ *
+ * The usage recorded through the tracker is added to the session's totals
+ * and saved, also when the command fails; a session whose budget is
+ * already spent is refused before the command starts.
+ *
+ * @param sessionId - Session to charge
+ * @param run - Command; records its LLM usage on the tracker
+ * @returns Result of the command
+ * @throws {BudgetExceededError} When the session budget is reached
+ */
+export async function trackSessionCost<T>(
+  sessionId: string,
+  run: (costTracker: CostTracker) => Promise<T>
+): Promise<T> {
+  const session = await resumeSession(sessionId);
+  const costTracker = new CostTracker(session);
+  costTracker.assertWithinBudget();
+
+  try {
+    return await run(costTracker);
+  } finally {
+    session.updated_at = new Date().toISOString();
+    await saveSession(session);
+  }
+}
+
+/**
+ * Session artifacts produced by the built-in steps (relative to the session directory)
+ */
+export const DISCOVERY_ARTIFACTS = {
+  requirements: '01-prd-analysis/requirements.yaml',
+  components: '02-figma-analysis/components.yaml',
+  gaps: '03-validation/gaps.yaml',
+  traceability: '03-validation/traceability.yaml',
+  questions: '04-clarification/questions.yaml',
+  clarificationSession: '04-clarification/session.yaml',
+  refinedRequirements: '04-clarification/requirements.yaml',
+  refinement: '04-clarification/refinement.yaml',
+  tdd: '05-tdd/tdd.md',
+  apiSpec: '05-tdd/api-spec.json',
+  databaseSchema: '05-tdd/database-schema.sql',
+} as const;
+
+/**
+ * Built-in discovery steps
+ *
+ * PRD Analysis and Figma Analysis have no dependencies and run in parallel.
+ */
+const DISCOVERY_STEPS: PipelineStep[] = [
+  {
+    id: 'prd-analysis',
+    name: 'PRD Analysis',
+    icon: '📄',
+    dependsOn: [],
+    inputs: [],
+    outputs: [DISCOVERY_ARTIFACTS.requirements],
+    fingerprint: async ({ session }) => loadSourceContent(session.prd_source),
+    run: async ({ session, signal, useCache, costTracker, events }) => {
+      let cacheHit = false;
+      const prdContent = await loadSourceContent(session.prd_source);
+      await analyzePRD(prdContent, session.session_id, {
+        saveOutput: true,
+        cache: useCache !== false,
+        onCacheHit: () => {
+          cacheHit = true;
+        },
+        onUsage: (usage) => costTracker?.record('prd-analysis', usage),
+        beforeRequest: () => costTracker?.assertWithinBudget(),
+        onFallback: (event) => recordProviderFallback(session, 'prd-analysis', event),
+        semanticConflicts: resolveConfig().config.workflow.semanticConflicts === true,
+        signal,
+        events,
+      });
+
+      session.outputs.requirements_yaml = getSessionArtifactPath(
+        session.session_id,
+        DISCOVERY_ARTIFACTS.requirements
+      );
+
+      return { metadata: { cache_hit: cacheHit } };
+    },
+  },
+  {
+    id: 'figma-analysis',
+    name: 'Figma Analysis',
+    icon: '🎨',
+    dependsOn: [],
+    inputs: [],
+    outputs: [DISCOVERY_ARTIFACTS.components],
+    isEnabled: ({ session }) => !!session.figma_source,
+    fingerprint: async ({ session }) => loadSourceContent(session.figma_source ?? ''),
+    run: async ({ session, signal, useCache, costTracker, events }) => {
+      let cacheHit = false;
+      const figmaData = await loadSourceContent(session.figma_source!);
+      await analyzeFigmaDesign(figmaData, session.session_id, {
+        saveOutput: true,
+        cache: useCache !== false,
+        onCacheHit: () => {
+          cacheHit = true;
+        },
+        onUsage: (usage) => costTracker?.record('figma-analysis', usage),
+        beforeRequest: () => costTracker?.assertWithinBudget(),
+        onFallback: (event) => recordProviderFallback(session, 'figma-analysis', event),
+        signal,
+        events,
+      });
+
+      session.outputs.components_yaml = getSessionArtifactPath(
+        session.session_id,
+        DISCOVERY_ARTIFACTS.components
+      );
+
+      return { metadata: { cache_hit: cacheHit } };
+    },
+  },
+  {
+    id: 'validation',
+    name: 'Requirements Validation',
+    icon: '🔍',
+    dependsOn: ['prd-analysis', 'figma-analysis'],
+    inputs: [DISCOVERY_ARTIFACTS.requirements, DISCOVERY_ARTIFACTS.components],
+    outputs: [DISCOVERY_ARTIFACTS.gaps, DISCOVERY_ARTIFACTS.traceability],
+    run: async ({ session, signal, useCache, costTracker, events }) => {
+      const requirements = await loadRequirements(session.session_id);
+      const components = await loadComponents(session.session_id);
+      await validateRequirements(requirements, components, session.session_id, {
+        saveOutput: true,
+        semanticMatching: resolveConfig().config.workflow.semanticMatching === true,
+        cache: useCache !== false,
+        onUsage: (usage) => costTracker?.record('validation', usage),
+        beforeRequest: () => costTracker?.assertWithinBudget(),
+        onFallback: (event) => recordProviderFallback(session, 'validation', event),
+        signal,
+        events,
+      });
+
+      session.outputs.gaps_yaml = getSessionArtifactPath(session.session_id, DISCOVERY_ARTIFACTS.gaps);
+      session.outputs.traceability_yaml = getSessionArtifactPath(
+        session.session_id,
+        DISCOVERY_ARTIFACTS.traceability
+      );
+    },
+  },
+  {
+    id: 'clarification',
+    name: 'Clarification',
+    icon: '❓',
+    dependsOn: ['validation'],
+    inputs: [DISCOVERY_ARTIFACTS.gaps, DISCOVERY_ARTIFACTS.requirements, DISCOVERY_ARTIFACTS.components],
+    outputs: [
+      DISCOVERY_ARTIFACTS.questions,
+      DISCOVERY_ARTIFACTS.refinedRequirements,
+      DISCOVERY_ARTIFACTS.refinement,
+    ],
+    run: async (context) => {
+      const { session, signal, useCache, costTracker, events } = context;
+      const { workflow } = resolveConfig().config;
+      const mode = workflow.clarificationMode ?? 'interactive';
+      const maxRounds = session.config.max_clarification_iterations;
+      const components = await loadComponents(session.session_id);
+
+      let requirements = await loadRequirements(session.session_id);
+      let gaps = await readYAMLWithSchema(
+        getSessionArtifactPath(session.session_id, DISCOVERY_ARTIFACTS.gaps),
+        GapsOutputSchema
+      );
+      const rounds: ClarificationRound[] = [];
+      const askedGaps: Gap[] = [];
+      let questionCount = 0;
+
+      // Earlier rounds are replayed from their saved answers, so a resumed
+      // session continues with the round it paused in
+      for (let round = 1; round <= maxRounds; round++) {
+        const questions = await generateClarifications(gaps, session.session_id, {
+          saveOutput: true,
+          mode: mode as GenerateClarificationsOptions['mode'],
+          round,
+          firstQuestionNumber: questionCount + 1,
+          semantic: workflow.semanticQuestions === true,
+          requirements: requirements.requirements,
+          components: components.components,
+          cache: useCache !== false,
+          onUsage: (usage) => costTracker?.record('clarification', usage),
+          beforeRequest: () => costTracker?.assertWithinBudget(),
+          onFallback: (event) => recordProviderFallback(session, 'clarification', event),
+          signal,
+          events,
+        });
+        askedGaps.push(...gaps.gaps);
+        questionCount += questions.questions.length;
+
+        const clarification =
+          questions.questions.length > 0 ? await askClarificationRound(context, questions, round) : undefined;
+        if (!clarification) {
+          break;
+        }
+        session.outputs.clarification_summary = getSessionArtifactPath(
+          session.session_id,
+          DISCOVERY_ARTIFACTS.clarificationSession
+        );
+
+        const refined = refineRequirements(requirements, gaps, questions, clarification, round);
+        requirements = refined.requirements;
+        rounds.push(refined.round);
+        (events ?? createConsoleEventBus()).info(
+          `✏️  Round ${round}: ${refined.round.revisions.length} requirement(s) clarified`
+        );
+
+        if (round === maxRounds || refined.round.revisions.length === 0) {
+          break;
+        }
+
+        const revalidated = await validateRequirements(requirements, components, session.session_id, {
+          saveOutput: false,
+          semanticMatching: workflow.semanticMatching === true,
+          cache: useCache !== false,
+          onUsage: (usage) => costTracker?.record('clarification', usage),
+          beforeRequest: () => costTracker?.assertWithinBudget(),
+          onFallback: (event) => recordProviderFallback(session, 'clarification', event),
+          signal,
+          events,
+        });
+        gaps = selectNewGaps(revalidated, askedGaps);
+        refined.round.new_gaps = gaps.gaps.length;
+        if (gaps.gaps.length === 0) {
+          break;
+        }
+
+        await writeYAMLWithSchema(
+          getSessionArtifactPath(session.session_id, `04-clarification/round-${round + 1}/gaps.yaml`),
+          gaps,
+          GapsOutputSchema
+        );
+        (events ?? createConsoleEventBus()).info(
+          `🔄 ${gaps.gaps.length} new gap(s) after refinement; starting round ${round + 1} of ${maxRounds}`
+        );
+      }
+
+      await saveRefinement(session.session_id, requirements, rounds, maxRounds);
+      session.outputs.refined_requirements_yaml = getSessionArtifactPath(
+        session.session_id,
+        DISCOVERY_ARTIFACTS.refinedRequirements
+      );
+      session.outputs.refinement_yaml = getSessionArtifactPath(session.session_id, DISCOVERY_ARTIFACTS.refinement);
+    },
+  },
+  {
+    id: 'tdd-generation',
+    name: 'TDD Generation',
+    icon: '📋',
+    dependsOn: ['clarification'],
+    inputs: [DISCOVERY_ARTIFACTS.refinedRequirements, DISCOVERY_ARTIFACTS.components],
+    outputs: [DISCOVERY_ARTIFACTS.tdd, DISCOVERY_ARTIFACTS.apiSpec, DISCOVERY_ARTIFACTS.databaseSchema],
+    run: async ({ session, projectName, events }) => {
+      const requirements = await loadRefinedRequirements(session.session_id);
+      const components = await loadComponents(session.session_id);
+      await generateTDD(requirements, components, session.session_id, {
+        saveOutput: true,
+        projectName,
+        events,
+      });
+
+      const tddOutputs = getTDDOutputPaths(session.session_id);
+      session.outputs.tdd_md = tddOutputs.tddPath;
+      session.outputs.database_schema_sql = tddOutputs.databaseSchemaPath;
+    },
+  },
+];
+
+/**
+ * Helper: Ask one round of clarification questions in the configured mode
+ *
+ * @returns The round's answers
+ * @throws {WorkflowPausedError} While answers are outstanding, or when
+ *   interactive mode has no terminal to ask on
+ */
+async function askClarificationRound(
+  { session, signal, prompter, events }: PipelineContext,
+  questions: QuestionsOutput,
+  round: number
+): Promise<ClarificationSession> {
+  const { workflow } = resolveConfig().config;
+  const mode = workflow.clarificationMode ?? 'interactive';
+  const roundLabel = round > 1 ? ` (round ${round})` : '';
+
+  if (mode === 'file') {
+    const clarification = await loadClarificationSession(session.session_id, round);
+    if (clarification?.completed_at) {
+      return clarification;
+    }
+
+    const filePath = await exportQuestionsFile(questions, session.session_id, {
+      format: workflow.clarificationFormat,
+      round,
+      events,
+    });
+    throw new WorkflowPausedError(
+      `Waiting for answers to ${questions.questions.length} clarification question(s)${roundLabel} in ${filePath}`,
+      'clarification',
+      `prism clarify import --session=${session.session_id} <answers file>`
+    );
+  }
+
+  if (mode === 'jira' || mode === 'slack') {
+    const clarification = await syncChannelClarification(questions, session.session_id, {
+      channel: mode === 'jira' ? new JiraMCPClient() : new SlackMCPClient(),
+      pollIntervalMs: workflow.clarificationPollSeconds && workflow.clarificationPollSeconds * 1000,
+      signal,
+      round,
+      events,
+    });
+
+    if (!clarification.completed_at) {
+      throw new WorkflowPausedError(
+        `Waiting for answers on ${mode}${roundLabel}: ${clarification.questions_answered} of ${clarification.questions_asked} questions answered`,
+        'clarification'
+      );
+    }
+    return clarification;
+  }
+
+  if (!prompter) {
+    throw new WorkflowPausedError(
+      `No terminal to ask ${questions.questions.length} clarification question(s)${roundLabel} on; ` +
+        'resume from a terminal or set workflow.clarificationMode to file',
+      'clarification',
+      `prism resume ${session.session_id}`
+    );
+  }
+
+  const clarification = await runInteractiveClarification(questions, session.session_id, {
+    prompter,
+    round,
+    events,
+  });
+
+  if (!clarification.completed_at) {
+    throw new WorkflowPausedError(
+      `Clarification${roundLabel} paused with ${clarification.questions_answered} of ${clarification.questions_asked} questions answered`,
+      'clarification'
     );
   }
+  return clarification;
+}
+
+/**
+ * Creates the discovery pipeline with built-in steps and optional custom steps
+ *
+ * @param customSteps - Team-specific steps (IDs must use custom:{name})
+ * @returns Pipeline ready to run
+ * @throws {WorkflowError} If a custom step is invalid
+ */
+export function createDiscoveryPipeline(customSteps: PipelineStep[] = []): WorkflowPipeline {
+  const pipeline = new WorkflowPipeline();
+
+  for (const step of [...DISCOVERY_STEPS, ...customSteps]) {
+    pipeline.register(step);
+  }
+
+  return pipeline;
+}
+
+/**
+ * Estimates tokens and cost of a discovery run before it starts
+ *
+ * @param options - PRD and Figma sources (file paths or raw content)
+ * @param stepIds - Only estimate these steps (default: all applicable steps)
+ * @returns Per-step and total estimate for the configured provider and LLM passes,
+ *   costing every clarification round
+ */
+export async function estimateDiscoveryCost(
+  options: Pick<DiscoveryWorkflowOptions, 'prdSource' | 'figmaSource'>,
+  stepIds?: StepId[]
+): Promise<CostEstimate> {
+  const steps = DISCOVERY_STEPS.filter(
+    (step) =>
+      (step.id !== 'figma-analysis' || !!options.figmaSource) &&
+      (!stepIds || stepIds.includes(step.id))
+  );
+
+  const { workflow } = resolveConfig().config;
+
+  return estimateStepCosts(
+    steps,
+    {
+      prdContent: await loadSourceContent(options.prdSource),
+      figmaContent: options.figmaSource ? await loadSourceContent(options.figmaSource) : undefined,
+      semanticConflicts: workflow.semanticConflicts === true,
+      semanticMatching: workflow.semanticMatching === true,
+      semanticQuestions: workflow.semanticQuestions === true,
+      maxClarificationRounds: workflow.maxClarificationIterations,
+    },
+    getProviderInfo()
+  );
+}
+
+/**
+ * Summarizes the gaps and requirement quality of a session from its artifacts
+ *
+ * @param sessionId - Session to summarize
+ * @returns Gap counts and quality scores (parts without artifacts are omitted)
+ */
+export async function summarizeDiscoverySession(sessionId: string): Promise<DiscoverySummary> {
+  const summary: DiscoverySummary = {};
+
+  const gapsPath = getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.gaps);
+  if (await fileExists(gapsPath)) {
+    const { gaps } = await readYAMLWithSchema(gapsPath, GapsOutputSchema);
+    const bySeverity: Record<GapSeverity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+    const byType: Partial<Record<GapType, number>> = {};
+
+    for (const gap of gaps) {
+      bySeverity[gap.severity]++;
+      byType[gap.type] = (byType[gap.type] ?? 0) + 1;
+    }
+
+    summary.gaps = { total: gaps.length, bySeverity, byType };
+  }
+
+  if (await fileExists(getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.requirements))) {
+    const quality = await validateRequirementsQuality(await loadRequirements(sessionId));
+    summary.quality = {
+      overallScore: quality.overallScore,
+      scores: quality.scores,
+      passedChecks: quality.passedChecks,
+      failedChecks: quality.failedChecks,
+      issueCount: quality.issues.length,
+    };
+  }
+
+  return summary;
+}
+
+/**
+ * Multiplier applied to the estimate when the user confirms an over-budget run
+ */
+const BUDGET_HEADROOM = 1.5;
+
+/**
+ * Helper: Compare the estimated cost of pending steps with the remaining budget
+ *
+ * Over budget, asks for confirmation (and raises the session budget to cover
+ * the estimate with headroom) or refuses when there is no way to ask.
+ */
+async function checkEstimatedCost(
+  session: Session,
+  options: DiscoveryWorkflowOptions,
+  events: WorkflowEventBus
+): Promise<void> {
+  const budget = session.config.max_cost_usd;
+  if (budget === undefined) {
+    return;
+  }
+
+  const pending = DISCOVERY_STEPS.filter((step) => !shouldSkipStep(session, step.id));
+  const estimate = await estimateDiscoveryCost(
+    { prdSource: session.prd_source, figmaSource: session.figma_source },
+    pending.map((step) => step.id)
+  );
+
+  const spent = session.usage?.estimated_cost ?? 0;
+  const remaining = Math.max(0, budget - spent);
+
+  if (estimate.estimated_cost <= remaining) {
+    return;
+  }
+
+  events.warn(
+    `💸 Estimated cost ${formatCost(estimate.estimated_cost)} exceeds remaining budget ${formatCost(remaining)}`
+  );
+
+  if (!options.confirmOverBudget) {
+    throw new WorkflowError(
+      `Estimated cost ${formatCost(estimate.estimated_cost)} exceeds remaining budget ${formatCost(remaining)}. ` +
+        'Raise budget.maxUsdPerSession or --max-cost, or run interactively to confirm.',
+      'budget-check'
+    );
+  }
+
+  if (!(await options.confirmOverBudget(estimate, remaining))) {
+    throw new WorkflowError('Cancelled: estimated cost exceeds budget', 'budget-check');
+  }
+
+  // Estimates are approximate, so leave room for the actual usage to run over
+  session.config.max_cost_usd = Math.ceil((spent + estimate.estimated_cost * BUDGET_HEADROOM) * 100) / 100;
+  await saveSession(session);
+  events.info(`   Session budget raised to $${session.config.max_cost_usd.toFixed(2)}`);
+  events.info('');
 }
 
 /**
@@ -357,6 +887,7 @@ export async function executeDiscoveryWorkflow(
  */
 async function createSession(options: DiscoveryWorkflowOptions): Promise<Session> {
   const sessionId = `sess-${Date.now()}`;
+  const { config, profile } = resolveConfig();
 
   const session: Session = {
     session_id: sessionId,
@@ -369,9 +900,11 @@ async function createSession(options: DiscoveryWorkflowOptions): Promise<Session
     outputs: {},
     checkpoints: [],
     config: {
-      ai_provider: options.aiProvider || 'claude',
-      workflow_timeout_minutes: options.timeoutMinutes || 20,
-      max_clarification_iterations: 3,
+      ai_provider: options.aiProvider || config.llm.provider,
+      workflow_timeout_minutes: options.timeoutMinutes || config.workflow.timeoutMinutes,
+      max_clarification_iterations: config.workflow.maxClarificationIterations,
+      max_cost_usd: options.maxCostUsd ?? config.budget?.maxUsdPerSession,
+      profile: profile?.name,
     },
   };
 
@@ -379,6 +912,54 @@ async function createSession(options: DiscoveryWorkflowOptions): Promise<Session
   return session;
 }
 
+/**
+ * Helper: Record a provider fallback in the session
+ *
+ * Persisted with the step's checkpoint.
+ */
+function recordProviderFallback(
+  session: Session,
+  step: StepId,
+  event: ProviderFallbackEvent
+): void {
+  session.provider_fallbacks = [
+    ...(session.provider_fallbacks ?? []),
+    {
+      step,
+      failed_provider: event.failedProvider,
+      active_provider: event.activeProvider,
+      reason: event.reason,
+      timestamp: event.timestamp.toISOString(),
+    },
+  ];
+}
+
+/**
+ * Helper: Steps checkpointed since a run started
+ *
+ * The pipeline's own list is lost when it stops with an error.
+ */
+function getStepsCompletedSince(session: Session, startTime: number): StepId[] {
+  return session.checkpoints
+    .filter((checkpoint) => Date.parse(checkpoint.timestamp) >= startTime)
+    .map((checkpoint) => checkpoint.step);
+}
+
+/**
+ * Helper: Budget error anywhere in the cause chain
+ *
+ * Skills wrap the BudgetExceededError raised by an in-step LLM request
+ * in a WorkflowError.
+ */
+function findBudgetError(error: unknown): BudgetExceededError | undefined {
+  for (let current = error; current instanceof Error; current = current.cause) {
+    if (current instanceof BudgetExceededError) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
 /**
  * Helper: Resume existing session
  */
@@ -402,35 +983,111 @@ async function saveSession(session: Session): Promise<void> {
 }
 
 /**
- * Helper: Save checkpoint after step completion
+ * Read source content from a local file, or use the value as-is
  */
-async function saveCheckpoint(
-  session: Session,
-  step: WorkflowStep,
-  durationMs: number,
-  outputs: string[]
-): Promise<Checkpoint> {
-  const checkpoint: Checkpoint = {
-    step,
-    timestamp: new Date().toISOString(),
-    outputs,
-    metadata: {
-      duration_ms: durationMs,
-    },
+export async function loadSourceContent(source: string): Promise<string> {
+  if (await fileExists(source)) {
+    return readFile(source);
+  }
+
+  return source;
+}
+
+/**
+ * Resolve TDD artifact paths of a session
+ */
+export function getTDDOutputPaths(sessionId: string): {
+  tddPath: string;
+  apiSpecPath: string;
+  databaseSchemaPath: string;
+} {
+  return {
+    tddPath: getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.tdd),
+    apiSpecPath: getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.apiSpec),
+    databaseSchemaPath: getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.databaseSchema),
   };
+}
 
-  session.checkpoints.push(checkpoint);
-  session.current_step = step;
-  session.updated_at = new Date().toISOString();
+/**
+ * Helper: Copy the TDD outputs to output.baseDirectory
+ *
+ * @returns Paths of the copies (session paths without an output directory)
+ */
+async function exportTDDOutputs(
+  sessionId: string,
+  baseDirectory: string | undefined
+): Promise<DiscoveryWorkflowResult['outputs']> {
+  const outputs: DiscoveryWorkflowResult['outputs'] = getTDDOutputPaths(sessionId);
+  if (!baseDirectory) {
+    return outputs;
+  }
 
-  await saveSession(session);
+  for (const [name, path] of Object.entries(outputs)) {
+    if (path && (await fileExists(path))) {
+      const target = join(baseDirectory, sessionId, basename(path));
+      await copyFile(path, target);
+      outputs[name] = target;
+    }
+  }
+
+  return outputs;
+}
+
+/**
+ * Load requirements saved by the PRD analysis step
+ *
+ * @throws {WorkflowError} If the session has no requirements yet
+ */
+export async function loadRequirements(sessionId: string): Promise<RequirementsOutput> {
+  const requirementsPath = getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.requirements);
+
+  if (!(await fileExists(requirementsPath))) {
+    throw new WorkflowError(
+      `Requirements not found at ${requirementsPath}. Re-run PRD analysis.`,
+      'prd-analysis'
+    );
+  }
+
+  return readYAMLWithSchema(requirementsPath, RequirementsOutputSchema);
+}
+
+/**
+ * Load requirements refined by clarification answers
+ *
+ * Falls back to the PRD analysis output for sessions without clarification
+ * results.
+ *
+ * @throws {WorkflowError} If the session has no requirements yet
+ */
+export async function loadRefinedRequirements(sessionId: string): Promise<RequirementsOutput> {
+  const refinedPath = getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.refinedRequirements);
+
+  if (await fileExists(refinedPath)) {
+    return readYAMLWithSchema(refinedPath, RequirementsOutputSchema);
+  }
 
-  return checkpoint;
+  return loadRequirements(sessionId);
 }
 
 /**
- * Helper: Check if step should be skipped (already completed)
+ * Load components saved by the Figma analysis step
+ *
+ * Returns an empty component set when the session has no Figma source.
  */
-function shouldSkipStep(session: Session, step: WorkflowStep): boolean {
-  return session.checkpoints.some(cp => cp.step === step);
+export async function loadComponents(sessionId: string): Promise<ComponentsOutput> {
+  const componentsPath = getSessionArtifactPath(sessionId, DISCOVERY_ARTIFACTS.components);
+
+  if (!(await fileExists(componentsPath))) {
+    return {
+      metadata: {
+        figma_file_id: 'none',
+        analyzed_at: new Date().toISOString(),
+        total_components: 0,
+      },
+      components: [],
+      design_tokens: {},
+    };
+  }
+
+  return readYAMLWithSchema(componentsPath, ComponentsOutputSchema);
 }
@@ -0,0 +1,211 @@
+/**
+ * Pre-flight Cost Estimation
+ *
+ * Estimates tokens and USD cost per workflow step before anything is sent to
+ * a provider. Input tokens come from the prompt template plus the content of
+ * each request; output tokens are a per-request ratio of the content, capped
+ * at the request's max output tokens. Requests on intermediate artifacts
+ * (requirements, components) size them from the outputs of the steps that
+ * produce them.
+ *
+ * Estimates use ~4 characters per token and are meant for budgeting, not billing.
+ *
+ * @module workflows/estimate
+ */
+
+import type { ProviderInfo } from '../providers/types.js';
+import type { StepId } from '../types/session.js';
+import { loadPrompt, type PromptTemplate } from '../utils/prompts.js';
+import type { PipelineStep } from './pipeline.js';
+
+/**
+ * Content the estimate is based on
+ */
+export interface EstimateInputs {
+  prdContent: string;
+  figmaContent?: string;
+  /** LLM conflict analysis in PRD analysis (workflow.semanticConflicts) */
+  semanticConflicts?: boolean;
+  /** LLM traceability matching in validation (workflow.semanticMatching) */
+  semanticMatching?: boolean;
+  /** LLM-written clarification questions (workflow.semanticQuestions) */
+  semanticQuestions?: boolean;
+  /** Maximum clarification rounds; every round is costed (default: 1) */
+  maxClarificationRounds?: number;
+}
+
+/**
+ * Estimated usage for a single step
+ */
+export interface StepCostEstimate {
+  step: StepId;
+  name: string;
+  /** Whether the step calls an LLM (other steps are free) */
+  llm: boolean;
+  input_tokens: number;
+  output_tokens: number;
+  estimated_cost: number;
+}
+
+/**
+ * Estimated usage for a workflow run
+ */
+export interface CostEstimate {
+  provider: ProviderInfo['name'];
+  model: string;
+  steps: StepCostEstimate[];
+  input_tokens: number;
+  output_tokens: number;
+  estimated_cost: number;
+}
+
+/**
+ * How a step turns its content into an LLM request
+ */
+interface LLMRequestProfile {
+  template: PromptTemplate;
+  contentTokens: (inputs: EstimateInputs) => number;
+  /** Expected output tokens per content token */
+  outputRatio: number;
+  maxOutputTokens: number;
+  /** Requests per run (default: 1); 0 while the pass is disabled */
+  count?: (inputs: EstimateInputs) => number;
+}
+
+const PRD_ANALYSIS: LLMRequestProfile = {
+  template: 'prd-analyzer',
+  contentTokens: (inputs) => estimateTokens(inputs.prdContent),
+  outputRatio: 1.5, // Structured requirements are more verbose than prose
+  maxOutputTokens: 8000,
+};
+
+const FIGMA_ANALYSIS: LLMRequestProfile = {
+  template: 'figma-analyzer',
+  contentTokens: (inputs) => estimateTokens(inputs.figmaContent ?? ''),
+  outputRatio: 0.5, // Component summaries are smaller than the raw Figma JSON
+  maxOutputTokens: 8000,
+};
+
+/** Semantic matching only runs when there are components to match */
+const TRACEABILITY_MATCHING: LLMRequestProfile = {
+  template: 'traceability-matcher',
+  contentTokens: estimateArtifactTokens,
+  outputRatio: 0.25, // One short link per matched pair
+  maxOutputTokens: 4000,
+  count: (inputs) => (inputs.semanticMatching && inputs.figmaContent ? 1 : 0),
+};
+
+/**
+ * Requests made by each step's skills
+ */
+const LLM_STEP_PROFILES: Partial<Record<StepId, LLMRequestProfile[]>> = {
+  'prd-analysis': [
+    PRD_ANALYSIS,
+    {
+      template: 'conflict-analyzer',
+      contentTokens: (inputs) => estimateOutputTokens(PRD_ANALYSIS, inputs),
+      outputRatio: 0.25, // Conflicts are a few pairs with a short explanation
+      maxOutputTokens: 4000,
+      count: (inputs) => (inputs.semanticConflicts ? 1 : 0),
+    },
+  ],
+  'figma-analysis': [FIGMA_ANALYSIS],
+  validation: [TRACEABILITY_MATCHING],
+  clarification: [
+    // Questions for every round; requirements and components dwarf the gaps
+    {
+      template: 'clarification-manager',
+      contentTokens: estimateArtifactTokens,
+      outputRatio: 0.5, // Questions with context and suggestions
+      maxOutputTokens: 4000,
+      count: (inputs) => (inputs.semanticQuestions ? getMaxRounds(inputs) : 0),
+    },
+    // Re-validation of the refined requirements before every further round
+    {
+      ...TRACEABILITY_MATCHING,
+      count: (inputs) => TRACEABILITY_MATCHING.count!(inputs) * (getMaxRounds(inputs) - 1),
+    },
+  ],
+};
+
+/**
+ * Estimate the token count of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Estimate tokens and cost for the given steps
+ *
+ * @param steps - Steps to estimate, in execution order
+ * @param inputs - Source content
+ * @param provider - Provider model and pricing
+ * @returns Per-step and total estimate
+ */
+export async function estimateStepCosts(
+  steps: Pick<PipelineStep, 'id' | 'name'>[],
+  inputs: EstimateInputs,
+  provider: ProviderInfo
+): Promise<CostEstimate> {
+  const estimates: StepCostEstimate[] = [];
+
+  for (const step of steps) {
+    let requests = 0;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (const profile of LLM_STEP_PROFILES[step.id] ?? []) {
+      const count = profile.count?.(inputs) ?? 1;
+      if (count === 0) {
+        continue;
+      }
+
+      const templateTokens = estimateTokens(await loadPrompt(profile.template));
+      requests += count;
+      inputTokens += count * (templateTokens + profile.contentTokens(inputs));
+      outputTokens += count * estimateOutputTokens(profile, inputs);
+    }
+
+    estimates.push({
+      step: step.id,
+      name: step.name,
+      llm: requests > 0,
+      input_tokens: inputTokens,
+      output_tokens: outputTokens,
+      estimated_cost:
+        (inputTokens / 1000) * provider.inputCostPer1K +
+        (outputTokens / 1000) * provider.outputCostPer1K,
+    });
+  }
+
+  return {
+    provider: provider.name,
+    model: provider.model,
+    steps: estimates,
+    input_tokens: estimates.reduce((sum, e) => sum + e.input_tokens, 0),
+    output_tokens: estimates.reduce((sum, e) => sum + e.output_tokens, 0),
+    estimated_cost: estimates.reduce((sum, e) => sum + e.estimated_cost, 0),
+  };
+}
+
+/**
+ * Helper: Output tokens of one request, capped at its maximum
+ */
+function estimateOutputTokens(profile: LLMRequestProfile, inputs: EstimateInputs): number {
+  return Math.min(profile.maxOutputTokens, Math.ceil(profile.contentTokens(inputs) * profile.outputRatio));
+}
+
+/**
+ * Helper: Size of the requirements and components passed to later steps
+ */
+function estimateArtifactTokens(inputs: EstimateInputs): number {
+  return estimateOutputTokens(PRD_ANALYSIS, inputs) + estimateOutputTokens(FIGMA_ANALYSIS, inputs);
+}
+
+/**
+ * Helper: Clarification rounds to cost
+ */
+function getMaxRounds(inputs: EstimateInputs): number {
+  return Math.max(1, inputs.maxClarificationRounds ?? 1);
+}
@@ -0,0 +1,438 @@
+/**
+ * Workflow Pipeline Engine
+ *
+ * Runs a DAG of declarative steps. Each step declares the artifacts it reads
+ * and writes and the steps it depends on; the engine handles ordering,
+ * skipping already-checkpointed steps, checkpointing and timing.
+ * Steps whose dependencies are satisfied run in parallel.
+ *
+ * Checkpoints record a hash of the step inputs. When the inputs change
+ * (e.g. the PRD was edited), the step is re-run on the next resume.
+ *
+ * When a cost tracker is supplied, each checkpoint records the tokens and
+ * cost of its step, and the budget is checked before every stage.
+ *
+ * Progress is reported as events on the context's event bus.
+ *
+ * @module workflows/pipeline
+ */
+
+import { join } from 'path';
+import type { Session, Checkpoint, StepId } from '../types/session.js';
+import { StepIdSchema } from '../schemas/session.js';
+import { fileExists, readFile } from '../utils/files.js';
+import { WorkflowError } from '../utils/errors.js';
+import { hashContent } from '../utils/hash.js';
+import type { CostTracker } from '../utils/cost-tracker.js';
+import type { ClarificationPrompter } from '../skills/clarification-manager.js';
+import { createConsoleEventBus, type WorkflowEventBus } from '../utils/events.js';
+
+/**
+ * Context shared by every step in a pipeline run
+ */
+export interface PipelineContext {
+  /** Active session (steps may update session.outputs) */
+  session: Session;
+  /** Abort signal from the workflow timeout manager */
+  signal: AbortSignal;
+  /** Project name for generated documents */
+  projectName?: string;
+  /** Whether LLM-backed steps may use .prism/cache (default: true) */
+  useCache?: boolean;
+  /** Token and cost accounting; steps record LLM usage under their own ID */
+  costTracker?: CostTracker;
+  /** Progress events (default: console output) */
+  events?: WorkflowEventBus;
+  /** Terminal Q&A for steps that ask stakeholders (absent in non-interactive runs) */
+  prompter?: ClarificationPrompter;
+}
+
+/**
+ * Optional result returned by a step, merged into its checkpoint metadata
+ */
+export interface StepResult {
+  metadata?: Omit<Partial<Checkpoint['metadata']>, 'duration_ms' | 'input_hash'>;
+}
+
+/**
+ * Declarative pipeline step
+ */
+export interface PipelineStep {
+  /** Step ID, used for checkpoints (built-in step or custom:{name}) */
+  id: StepId;
+
+  /** Human-readable name for logs */
+  name: string;
+
+  /** Log icon (default: ▶️) */
+  icon?: string;
+
+  /** Steps that must complete (or be disabled) before this step runs */
+  dependsOn: StepId[];
+
+  /** Artifacts read by this step, relative to the session directory */
+  inputs: string[];
+
+  /** Artifacts written by this step, relative to the session directory */
+  outputs: string[];
+
+  /**
+   * Content of inputs outside the session directory (e.g. the PRD itself)
+   *
+   * Included in the checkpoint input hash alongside the declared inputs.
+   */
+  fingerprint?: (context: PipelineContext) => Promise<string>;
+
+  /**
+   * Whether the step applies to this session (default: true)
+   *
+   * Disabled steps are skipped without a checkpoint; dependents still run.
+   */
+  isEnabled?: (context: PipelineContext) => boolean;
+
+  /** Execute the step */
+  run: (context: PipelineContext) => Promise<StepResult | void>;
+}
+
+/**
+ * Options for a pipeline run
+ */
+export interface PipelineRunOptions {
+  /** Persist session state after each checkpoint */
+  saveSession: (session: Session) => Promise<void>;
+}
+
+/**
+ * Pipeline run result
+ */
+export interface PipelineRunResult {
+  /** Steps executed in this run, in completion order */
+  completedSteps: StepId[];
+  /** Whether the run stopped early because the signal was aborted */
+  aborted: boolean;
+}
+
+/**
+ * Resolve an artifact path inside the session directory
+ */
+export function getSessionArtifactPath(sessionId: string, artifact: string): string {
+  return join('.prism', 'sessions', sessionId, artifact);
+}
+
+/**
+ * Check if step should be skipped (already completed)
+ */
+export function shouldSkipStep(session: Session, step: StepId): boolean {
+  return session.checkpoints.some((cp) => cp.step === step);
+}
+
+/**
+ * Helper: Remove checkpoints for the given steps and rewind current_step
+ */
+function removeCheckpoints(session: Session, steps: Set<StepId>): void {
+  session.checkpoints = session.checkpoints.filter((cp) => !steps.has(cp.step));
+  session.current_step = session.checkpoints[session.checkpoints.length - 1]?.step ?? 'prd-analysis';
+  session.updated_at = new Date().toISOString();
+}
+
+/**
+ * Pipeline of declarative workflow steps
+ */
+export class WorkflowPipeline {
+  private steps = new Map<StepId, PipelineStep>();
+
+  /**
+   * Register a step
+   *
+   * @param step - Step definition
+   * @returns This pipeline (for chaining)
+   * @throws {WorkflowError} If the ID is invalid or already registered
+   */
+  register(step: PipelineStep): this {
+    if (!StepIdSchema.safeParse(step.id).success) {
+      throw new WorkflowError(
+        `Invalid step ID "${step.id}". Custom steps must use the custom:{name} format.`,
+        'pipeline'
+      );
+    }
+
+    if (this.steps.has(step.id)) {
+      throw new WorkflowError(`Step "${step.id}" is already registered`, 'pipeline');
+    }
+
+    this.steps.set(step.id, step);
+    return this;
+  }
+
+  /**
+   * Get a registered step by ID
+   */
+  getStep(id: StepId): PipelineStep | undefined {
+    return this.steps.get(id);
+  }
+
+  /**
+   * Get the steps that apply to a run, in execution order
+   *
+   * @param context - Run context (isEnabled decides per session)
+   * @returns Enabled steps
+   */
+  getEnabledSteps(context: PipelineContext): PipelineStep[] {
+    return this.resolveStages()
+      .flat()
+      .filter((step) => !step.isEnabled || step.isEnabled(context));
+  }
+
+  /**
+   * Get a step and every step that transitively depends on it
+   *
+   * @param id - Step to start from
+   * @returns Step IDs in registration order
+   * @throws {WorkflowError} If the step is not registered
+   */
+  getDownstreamSteps(id: StepId): StepId[] {
+    if (!this.steps.has(id)) {
+      throw new WorkflowError(`Unknown step "${id}"`, 'pipeline');
+    }
+
+    const downstream = new Set<StepId>([id]);
+    let changed = true;
+
+    while (changed) {
+      changed = false;
+      for (const step of this.steps.values()) {
+        if (!downstream.has(step.id) && step.dependsOn.some((dep) => downstream.has(dep))) {
+          downstream.add(step.id);
+          changed = true;
+        }
+      }
+    }
+
+    return [...this.steps.keys()].filter((stepId) => downstream.has(stepId));
+  }
+
+  /**
+   * Invalidate a step and everything downstream of it
+   *
+   * Removes the matching checkpoints so the next run re-executes those steps.
+   * Output files are left in place and overwritten when the steps re-run.
+   *
+   * @param session - Session to update (not persisted)
+   * @param from - First step to invalidate
+   * @returns Invalidated step IDs
+   * @throws {WorkflowError} If the step is not registered
+   */
+  invalidate(session: Session, from: StepId): StepId[] {
+    const invalidated = this.getDownstreamSteps(from);
+    removeCheckpoints(session, new Set(invalidated));
+    return invalidated;
+  }
+
+  /**
+   * Group steps into stages that can run in parallel
+   *
+   * Each stage only depends on steps in earlier stages. Registration order is
+   * preserved within a stage.
+   *
+   * @returns Ordered stages
+   * @throws {WorkflowError} On unknown dependencies or dependency cycles
+   */
+  resolveStages(): PipelineStep[][] {
+    for (const step of this.steps.values()) {
+      for (const dependency of step.dependsOn) {
+        if (!this.steps.has(dependency)) {
+          throw new WorkflowError(
+            `Step "${step.id}" depends on unknown step "${dependency}"`,
+            'pipeline'
+          );
+        }
+      }
+    }
+
+    const stages: PipelineStep[][] = [];
+    const resolved = new Set<StepId>();
+    let remaining = [...this.steps.values()];
+
+    while (remaining.length > 0) {
+      const stage = remaining.filter((step) =>
+        step.dependsOn.every((dependency) => resolved.has(dependency))
+      );
+
+      if (stage.length === 0) {
+        throw new WorkflowError(
+          `Dependency cycle detected between steps: ${remaining.map((s) => s.id).join(', ')}`,
+          'pipeline'
+        );
+      }
+
+      stages.push(stage);
+      stage.forEach((step) => resolved.add(step.id));
+      remaining = remaining.filter((step) => !resolved.has(step.id));
+    }
+
+    return stages;
+  }
+
+  /**
+   * Run all steps in dependency order
+   *
+   * @param context - Shared step context
+   * @param options - Run options
+   * @returns Completed steps and abort status
+   * @throws {WorkflowError} If a step fails or a required input is missing
+   * @throws {BudgetExceededError} If the session budget is reached before a stage or a step's next LLM request
+   */
+  async run(context: PipelineContext, options: PipelineRunOptions): Promise<PipelineRunResult> {
+    const stages = this.resolveStages();
+    const total = stages.reduce((count, stage) => count + stage.length, 0);
+    const positions = new Map(stages.flat().map((step, index) => [step.id, index + 1]));
+    const completedSteps: StepId[] = [];
+    const disabledSteps = new Set<StepId>();
+    const events = context.events ?? createConsoleEventBus();
+
+    // Serialize session writes so parallel steps never race on session_state.yaml
+    let persistQueue: Promise<void> = Promise.resolve();
+
+    const runStep = async (step: PipelineStep): Promise<void> => {
+      const position = `${positions.get(step.id)}/${total}`;
+
+      const inputHash = await this.computeInputHash(step, context);
+
+      if (shouldSkipStep(context.session, step.id)) {
+        const checkpoint = context.session.checkpoints.find((cp) => cp.step === step.id);
+        const storedHash = checkpoint?.metadata.input_hash;
+
+        if (!storedHash || storedHash === inputHash) {
+          events.emit('step-skipped', {
+            step: step.id,
+            name: step.name,
+            position,
+            reason: 'completed',
+          });
+          return;
+        }
+
+        // Downstream steps are caught by their own hashes once this step re-runs
+        events.info(`♻️  ${step.name} inputs changed since last run, re-running`);
+        removeCheckpoints(context.session, new Set([step.id]));
+      }
+
+      if (step.isEnabled && !step.isEnabled(context)) {
+        disabledSteps.add(step.id);
+        events.emit('step-skipped', { step: step.id, name: step.name, position, reason: 'disabled' });
+        return;
+      }
+
+      await this.assertInputsAvailable(step, context.session.session_id, disabledSteps);
+
+      events.emit('step-started', {
+        step: step.id,
+        name: step.name,
+        icon: step.icon ?? '▶️',
+        position,
+      });
+      const stepStart = Date.now();
+
+      const result = await step.run(context);
+
+      const checkpoint: Checkpoint = {
+        step: step.id,
+        timestamp: new Date().toISOString(),
+        outputs: step.outputs.map((artifact) =>
+          getSessionArtifactPath(context.session.session_id, artifact)
+        ),
+        metadata: {
+          ...result?.metadata,
+          ...context.costTracker?.takeStepUsage(step.id),
+          duration_ms: Date.now() - stepStart,
+          input_hash: inputHash,
+        },
+      };
+
+      persistQueue = persistQueue.then(async () => {
+        context.session.checkpoints.push(checkpoint);
+        context.session.current_step = step.id;
+        context.session.updated_at = checkpoint.timestamp;
+        await options.saveSession(context.session);
+        events.emit('checkpoint-saved', {
+          session_id: context.session.session_id,
+          step: step.id,
+        });
+      });
+      await persistQueue;
+
+      completedSteps.push(step.id);
+      const { duration_ms, cache_hit, estimated_cost } = checkpoint.metadata;
+      events.emit('step-completed', {
+        step: step.id,
+        name: step.name,
+        duration_ms,
+        cache_hit,
+        estimated_cost,
+      });
+    };
+
+    for (const stage of stages) {
+      // Check if timeout occurred before starting the next stage
+      if (context.signal.aborted) {
+        events.warn('⏱️  Workflow timeout reached, stopping execution');
+        return { completedSteps, aborted: true };
+      }
+
+      context.costTracker?.assertWithinBudget();
+
+      // Let parallel siblings finish (and checkpoint) even if one of them fails
+      const results = await Promise.allSettled(stage.map(runStep));
+      const failure = results.find(
+        (result): result is PromiseRejectedResult => result.status === 'rejected'
+      );
+
+      if (failure) {
+        throw failure.reason;
+      }
+    }
+
+    return { completedSteps, aborted: context.signal.aborted };
+  }
+
+  /**
+   * Helper: Hash the step fingerprint and declared input artifacts
+   */
+  private async computeInputHash(step: PipelineStep, context: PipelineContext): Promise<string> {
+    const parts: string[] = [step.fingerprint ? await step.fingerprint(context) : ''];
+
+    for (const input of step.inputs) {
+      const inputPath = getSessionArtifactPath(context.session.session_id, input);
+      const content = (await fileExists(inputPath)) ? await readFile(inputPath) : '';
+      parts.push(input, content);
+    }
+
+    return hashContent(...parts);
+  }
+
+  /**
+   * Helper: Verify artifacts produced by upstream steps exist before running
+   */
+  private async assertInputsAvailable(
+    step: PipelineStep,
+    sessionId: string,
+    disabledSteps: Set<StepId>
+  ): Promise<void> {
+    for (const input of step.inputs) {
+      const producer = step.dependsOn
+        .map((id) => this.steps.get(id))
+        .find((upstream) => upstream?.outputs.includes(input));
+
+      if (!producer || disabledSteps.has(producer.id)) {
+        continue;
+      }
+
+      if (!(await fileExists(getSessionArtifactPath(sessionId, input)))) {
+        throw new WorkflowError(
+          `Missing input ${input} (produced by ${producer.name}). Re-run ${producer.id}.`,
+          step.id
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * Integration test for multi-round clarification: answers refine the
+ * requirements, validation re-runs, and new gaps start another round
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createDiscoveryPipeline, DISCOVERY_ARTIFACTS } from '../../src/workflows/discovery.js';
+import { getSessionArtifactPath } from '../../src/workflows/pipeline.js';
+import { validateRequirements } from '../../src/skills/requirements-validator.js';
+import {
+  importClarificationAnswers,
+  type ClarificationPrompter,
+} from '../../src/skills/clarification-manager.js';
+import { readYAMLWithSchema, writeYAMLWithSchema, fileExists } from '../../src/utils/files.js';
+import { WorkflowEventBus } from '../../src/utils/events.js';
+import { WorkflowPausedError } from '../../src/utils/errors.js';
+import { RequirementsOutputSchema } from '../../src/schemas/requirement.js';
+import { ComponentsOutputSchema } from '../../src/schemas/component.js';
+import { QuestionsOutputSchema, RefinementOutputSchema } from '../../src/schemas/question.js';
+import type { Session } from '../../src/types/session.js';
+import type { RequirementsOutput } from '../../src/types/requirement.js';
+import type { ComponentsOutput } from '../../src/types/component.js';
+
+// LLM question pass: words its question differently on every call
+const mockGenerateStructured = vi.fn();
+
+vi.mock('../../src/providers/index.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/providers/index.js')>()),
+  createLLMProvider: vi.fn(async () => ({
+    generateStructured: mockGenerateStructured,
+    getInfo: () => ({ name: 'mock-provider', model: 'mock-model' }),
+  })),
+}));
+
+const requirements: RequirementsOutput = {
+  metadata: {
+    prd_source: 'prd.md',
+    analyzed_at: '2025-03-01T09:00:00.000Z',
+    total_requirements: 1,
+    complexity_average: 3,
+    confidence_average: 0.9,
+  },
+  requirements: [
+    {
+      id: 'REQ-FUNC-001',
+      type: 'functional',
+      priority: 'high',
+      complexity: 3,
+      title: 'Notification Settings',
+      description: 'Users can choose which notifications they receive',
+      acceptance_criteria: [],
+      dependencies: [],
+      confidence: 0.9,
+      status: 'draft',
+      issues: [],
+    },
+  ],
+};
+
+const components: ComponentsOutput = {
+  metadata: { figma_file_id: 'settings', analyzed_at: '2025-03-01T09:00:00.000Z', total_components: 1 },
+  components: [
+    {
+      id: 'COMP-001',
+      name: 'Button/Primary',
+      type: 'Button',
+      category: 'atom',
+      variants: [],
+      properties: [],
+      design_tokens: { colors: { background: '#3366cc' } },
+      usage: { screens: ['Settings'], instances: 1 },
+    },
+  ],
+  design_tokens: {},
+};
+
+/**
+ * Prompter that answers acceptance criteria questions with `criteria`,
+ * inconsistency questions with `resolution`, and skips the rest
+ */
+function answeringPrompter(criteria: string, resolution: string): ClarificationPrompter & { asked: string[] } {
+  const asked: string[] = [];
+  let current = '';
+  return {
+    asked,
+    write: (text) => {
+      if (text.endsWith('?')) {
+        current = text;
+        asked.push(text);
+      }
+    },
+    ask: async (prompt) => {
+      if (prompt.startsWith('Confidence')) return '';
+      if (current.startsWith('What are the acceptance criteria')) return criteria;
+      if (current.startsWith('How should we resolve the inconsistency')) return resolution;
+      return 's';
+    },
+  };
+}
+
+function createSession(maxRounds: number): Session {
+  return {
+    session_id: 'sess-rounds',
+    current_step: 'validation',
+    status: 'in-progress',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    prd_source: 'prd.md',
+    outputs: {},
+    checkpoints: [],
+    config: {
+      ai_provider: 'anthropic',
+      workflow_timeout_minutes: 30,
+      max_clarification_iterations: maxRounds,
+    },
+  };
+}
+
+describe('Multi-round Clarification', () => {
+  let originalCwd: string;
+  let testDir: string;
+  const events = new WorkflowEventBus();
+  const artifact = (path: string) => getSessionArtifactPath('sess-rounds', path);
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    testDir = await mkdtemp(join(tmpdir(), 'prism-rounds-test-'));
+    process.chdir(testDir);
+
+    await writeYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.requirements), requirements, RequirementsOutputSchema);
+    await writeYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.components), components, ComponentsOutputSchema);
+    await validateRequirements(requirements, components, 'sess-rounds', { saveOutput: true, events });
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  const runClarification = (session: Session, prompter: ClarificationPrompter) =>
+    createDiscoveryPipeline()
+      .getStep('clarification')!
+      .run({ session, signal: new AbortController().signal, prompter, events });
+
+  it('should ask another round when the refined requirements have new gaps', async () => {
+    const session = createSession(3);
+    const prompter = answeringPrompter('The page supports dark mode', 'A dark palette will be added to the design');
+
+    await runClarification(session, prompter);
+
+    // Round 1 adds a dark mode criterion, which the design has no dark colors for
+    expect(prompter.asked.filter((q) => q.startsWith('How should we resolve'))).toHaveLength(1);
+    const round2 = await readYAMLWithSchema(
+      artifact('04-clarification/round-2/questions.yaml'),
+      QuestionsOutputSchema
+    );
+    const round1 = await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.questions), QuestionsOutputSchema);
+    expect(round2.questions.map((q) => q.id)).toEqual([`Q-00${round1.questions.length + 1}`]);
+    expect(await fileExists(artifact('04-clarification/round-2/session.yaml'))).toBe(true);
+
+    const refinement = await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.refinement), RefinementOutputSchema);
+    expect(refinement.metadata).toMatchObject({ total_rounds: 2, max_rounds: 3, requirements_changed: 1 });
+    expect(refinement.rounds.map((r) => [r.round, r.new_gaps])).toEqual([
+      [1, 1],
+      [2, 0],
+    ]);
+    expect(refinement.rounds[0]!.revisions[0]!.changes).toEqual([
+      { field: 'acceptance_criteria', before: [], after: ['The page supports dark mode'] },
+      { field: 'status', before: 'draft', after: 'clarified' },
+    ]);
+    expect(refinement.rounds[1]!.revisions[0]!.changes.map((c) => c.field)).toEqual(['description']);
+
+    const refined = await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.refinedRequirements), RequirementsOutputSchema);
+    expect(refined.requirements[0]).toMatchObject({
+      status: 'clarified',
+      acceptance_criteria: ['The page supports dark mode'],
+    });
+    expect(refined.requirements[0]!.description).toContain('A dark palette will be added to the design');
+    expect(session.outputs.refined_requirements_yaml).toBe(artifact(DISCOVERY_ARTIFACTS.refinedRequirements));
+
+    // The PRD analysis output is left untouched
+    const original = await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.requirements), RequirementsOutputSchema);
+    expect(original.requirements[0]!.status).toBe('draft');
+  });
+
+  it('should stop at the round limit', async () => {
+    const session = createSession(1);
+    const prompter = answeringPrompter('The page supports dark mode', 'Unused');
+
+    await runClarification(session, prompter);
+
+    const refinement = await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.refinement), RefinementOutputSchema);
+    expect(refinement.rounds).toHaveLength(1);
+    expect(refinement.rounds[0]!.new_gaps).toBeUndefined();
+    expect(await fileExists(artifact('04-clarification/round-2/questions.yaml'))).toBe(false);
+  });
+
+  it('should keep the questions answers were imported for when the round is replayed', async () => {
+    let calls = 0;
+    mockGenerateStructured.mockImplementation(async () => ({
+      questions: [
+        {
+          gap_ids: ['GAP-001'],
+          stakeholder_type: 'product',
+          question: `Which notifications can users turn off (wording ${++calls})?`,
+          context: 'Notification Settings has no acceptance criteria',
+          suggestions: ['Email and push separately'],
+        },
+      ],
+    }));
+    await mkdir('.prism', { recursive: true });
+    await writeFile(
+      join('.prism', 'config.yaml'),
+      'workflow:\n  clarificationMode: file\n  semanticQuestions: true\n'
+    );
+
+    const session = createSession(1);
+    const step = createDiscoveryPipeline().getStep('clarification')!;
+    const context = { session, signal: new AbortController().signal, useCache: false, events };
+
+    await expect(step.run(context)).rejects.toThrow(WorkflowPausedError);
+    const questions = await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.questions), QuestionsOutputSchema);
+    const question = questions.questions.find((q) => q.gap_id === 'GAP-001')!;
+    expect(question.question).toContain('wording 1');
+
+    await importClarificationAnswers(
+      questions,
+      'sess-rounds',
+      `### ${question.id} (${question.priority})\nAnswer: Users can mute email and push separately\nConfidence: 0.9\n`,
+      { events }
+    );
+
+    // prism clarify import re-runs the clarification step
+    await step.run(context);
+
+    expect(mockGenerateStructured).toHaveBeenCalledOnce();
+    expect(await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.questions), QuestionsOutputSchema)).toEqual(questions);
+    const refinement = await readYAMLWithSchema(artifact(DISCOVERY_ARTIFACTS.refinement), RefinementOutputSchema);
+    expect(refinement.rounds[0]!.revisions[0]).toMatchObject({
+      requirement_id: 'REQ-FUNC-001',
+      question_ids: [question.id],
+    });
+  });
+
+  it('should pause until the questions can be asked on a terminal', async () => {
+    const session = createSession(3);
+
+    await expect(
+      createDiscoveryPipeline()
+        .getStep('clarification')!
+        .run({ session, signal: new AbortController().signal, events })
+    ).rejects.toMatchObject({ name: 'WorkflowPausedError', resumeCommand: 'prism resume sess-rounds' });
+
+    expect(await fileExists(artifact(DISCOVERY_ARTIFACTS.refinedRequirements))).toBe(false);
+    expect(await fileExists(artifact(DISCOVERY_ARTIFACTS.clarificationSession))).toBe(false);
+  });
+});
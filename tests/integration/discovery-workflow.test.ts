@@ -1,94 +1,128 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { executeDiscoveryWorkflow } from '../../src/workflows/discovery.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readFile, readdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { parse as parseYAML, stringify as stringifyYAML } from 'yaml';
+import {
+  executeDiscoveryWorkflow,
+  summarizeDiscoverySession,
+  pauseDiscoverySession,
+  trackSessionCost,
+} from '../../src/workflows/discovery.js';
+import { EXIT_CODES, exitCodeForError } from '../../src/utils/exit-codes.js';
+import { WorkflowEventBus, type WorkflowEvent } from '../../src/utils/events.js';
+import { WorkflowError, BudgetExceededError } from '../../src/utils/errors.js';
+import type { ClarificationPrompter } from '../../src/skills/clarification-manager.js';
+import type { Session } from '../../src/types/session.js';
 
-// Mock all skills
+// Mock the LLM-backed skills; validation, clarification and TDD generation run for real
 vi.mock('../../src/skills/prd-analyzer.js', () => ({
-  analyzePRD: vi.fn(async () => ({
-    metadata: {
-      analyzed_at: new Date().toISOString(),
-      prd_source: 'test',
-      total_requirements: 1,
-    },
-    requirements: [
-      {
-        id: 'REQ-FUNC-001',
-        title: 'Test Requirement',
-        description: 'Test',
-        type: 'functional',
-        priority: 'high',
-        complexity: 3,
-        acceptance_criteria: [],
-        dependencies: [],
+  analyzePRD: vi.fn(async (
+    _prdContent: string,
+    sessionId: string,
+    options?: { onUsage?: Function; beforeRequest?: () => void }
+  ) => {
+    options?.beforeRequest?.();
+    const { writeYAMLWithSchema } = await import('../../src/utils/files.js');
+    const { RequirementsOutputSchema } = await import('../../src/schemas/requirement.js');
+
+    const output = {
+      metadata: {
+        analyzed_at: new Date().toISOString(),
+        prd_source: 'test',
+        total_requirements: 2,
+        complexity_average: 3,
+        confidence_average: 0.9,
       },
-    ],
-  })),
+      requirements: [
+        {
+          id: 'REQ-FUNC-001',
+          title: 'Test Requirement',
+          description: 'Test',
+          type: 'functional' as const,
+          priority: 'high' as const,
+          complexity: 3,
+          acceptance_criteria: [],
+          dependencies: [],
+          confidence: 0.9,
+          status: 'draft' as const,
+          issues: [],
+        },
+        {
+          id: 'REQ-FUNC-002',
+          title: 'Second Requirement',
+          description: 'Also a test',
+          type: 'functional' as const,
+          priority: 'medium' as const,
+          complexity: 3,
+          acceptance_criteria: ['Works'],
+          dependencies: [],
+          confidence: 0.9,
+          status: 'draft' as const,
+          issues: [],
+        },
+      ],
+    };
+
+    await writeYAMLWithSchema(
+      join('.prism', 'sessions', sessionId, '01-prd-analysis', 'requirements.yaml'),
+      output,
+      RequirementsOutputSchema
+    );
+    options?.onUsage?.({
+      inputTokens: 2000,
+      outputTokens: 1000,
+      costUsd: 0.021,
+      provider: 'Anthropic Claude',
+      model: 'claude-sonnet-4-5-20250929',
+    });
+    return output;
+  }),
 }));
 
 vi.mock('../../src/skills/figma-analyzer.js', () => ({
-  analyzeFigmaDesign: vi.fn(async () => ({
-    metadata: {
-      figma_file_id: 'test',
-      analyzed_at: new Date().toISOString(),
-      total_components: 0,
-    },
-    components: [],
-    design_tokens: {},
-  })),
-}));
+  analyzeFigmaDesign: vi.fn(async (_figmaData: string, sessionId: string) => {
+    const { writeYAMLWithSchema } = await import('../../src/utils/files.js');
+    const { ComponentsOutputSchema } = await import('../../src/schemas/component.js');
 
-vi.mock('../../src/skills/requirements-validator.js', () => ({
-  validateRequirements: vi.fn(async () => ({
-    metadata: {
-      validated_at: new Date().toISOString(),
-      total_gaps: 0,
-      critical_count: 0,
-      high_count: 0,
-      medium_count: 0,
-      low_count: 0,
-    },
-    gaps: [],
-  })),
-}));
+    const output = {
+      metadata: {
+        figma_file_id: 'test',
+        analyzed_at: new Date().toISOString(),
+        total_components: 0,
+      },
+      components: [],
+      design_tokens: {},
+    };
 
-vi.mock('../../src/skills/clarification-manager.js', () => ({
-  generateClarifications: vi.fn(async () => ({
-    metadata: {
-      generated_at: new Date().toISOString(),
-      total_questions: 0,
-      critical_count: 0,
-      high_count: 0,
-      medium_count: 0,
-      low_count: 0,
-    },
-    questions: [],
-  })),
+    await writeYAMLWithSchema(
+      join('.prism', 'sessions', sessionId, '02-figma-analysis', 'components.yaml'),
+      output,
+      ComponentsOutputSchema
+    );
+    return output;
+  }),
 }));
 
-vi.mock('../../src/skills/tdd-generator.js', () => ({
-  generateTDD: vi.fn(async () => ({
-    version: '1.0.0',
-    title: 'Test TDD',
-    sections: [],
-    api_spec: {
-      openapi: '3.1.0',
-      info: { title: 'Test API', version: '1.0.0', description: 'Test' },
-      paths: {},
-    },
-    database_schema: { tables: [], indexes: [], relationships: [] },
-    tasks: [],
-    architecture_diagram: 'graph TD',
-    requirements_coverage: [],
-    metadata: {
-      generated_at: new Date().toISOString(),
-      generator_version: '1.0.0',
-      requirements_source: 'test',
-    },
-  })),
-}));
+/** Prompter that skips every clarification question */
+const skippingPrompter: ClarificationPrompter = {
+  write: () => {},
+  ask: async () => 's',
+};
 
 describe('Discovery Workflow', () => {
-  beforeEach(() => {
+  let testDir: string;
+  const originalCwd = process.cwd();
+
+  beforeEach(async () => {
     vi.clearAllMocks();
+    testDir = await mkdtemp(join(tmpdir(), 'prism-workflow-test-'));
+    process.chdir(testDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(testDir, { recursive: true, force: true });
   });
 
   describe('Core Orchestration', () => {
@@ -96,6 +130,7 @@ describe('Discovery Workflow', () => {
       const result = await executeDiscoveryWorkflow({
         prdSource: 'test-prd.md',
         projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
       });
 
       expect(result.status).toBe('completed');
@@ -108,6 +143,7 @@ describe('Discovery Workflow', () => {
       const result = await executeDiscoveryWorkflow({
         prdSource: 'test-prd.md',
         projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
       });
 
       expect(result.outputs).toBeDefined();
@@ -118,8 +154,9 @@ describe('Discovery Workflow', () => {
     it('should execute steps in correct order', async () => {
       const result = await executeDiscoveryWorkflow({
         prdSource: 'test-prd.md',
-        figmaSource: 'test-figma-data',
+        figmaSource: '{"document": {}}',
         projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
       });
 
       expect(result.status).toBe('completed');
@@ -132,5 +169,416 @@ describe('Discovery Workflow', () => {
         expect(prdIndex).toBeLessThan(validationIndex);
       }
     }, 30000);
+
+    it('should report the active session until the run ends', async () => {
+      const activeSessions: Array<Session | undefined> = [];
+
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        onActiveSession: (session) => activeSessions.push(session),
+        clarificationPrompter: skippingPrompter,
+      });
+
+      expect(activeSessions.map((session) => session?.session_id)).toEqual([result.sessionId, undefined]);
+
+      // What the CLI does on SIGINT/SIGTERM
+      await pauseDiscoverySession(activeSessions[0]!);
+      const resumed = await executeDiscoveryWorkflow({
+        prdSource: '',
+        resumeSessionId: result.sessionId,
+        clarificationPrompter: skippingPrompter,
+      });
+      expect(resumed.status).toBe('completed');
+    }, 30000);
+
+    it('should pause at clarification when there is no terminal to ask on', async () => {
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        events: new WorkflowEventBus(),
+      });
+
+      expect(result.status).toBe('paused');
+      expect(result.completedSteps).toEqual(['prd-analysis', 'validation']);
+      expect(result.resumeCommand).toBe(`prism resume ${result.sessionId}`);
+      expect(result.outputs.tddPath).toBeUndefined();
+    }, 30000);
+  });
+
+  describe('Step Artifacts', () => {
+    it('should write gaps, questions and TDD artifacts', async () => {
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const sessionDir = join('.prism', 'sessions', result.sessionId);
+      const gaps = parseYAML(await readFile(join(sessionDir, '03-validation', 'gaps.yaml'), 'utf-8'));
+      const questions = parseYAML(
+        await readFile(join(sessionDir, '04-clarification', 'questions.yaml'), 'utf-8')
+      );
+
+      expect(gaps.gaps.some((g: { type: string }) => g.type === 'missing_acceptance_criteria')).toBe(true);
+      expect(questions.questions.length).toBe(gaps.gaps.length);
+      expect(await readFile(result.outputs.tddPath!, 'utf-8')).toContain('Test Project');
+      expect(await readFile(result.outputs.apiSpecPath!, 'utf-8')).toContain('/api/v1/req-func-001');
+      expect(await readFile(result.outputs.databaseSchemaPath!, 'utf-8')).toContain('CREATE TABLE');
+    }, 30000);
+
+    it('should produce the same outputs when resumed after an interruption', async () => {
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const tddPath = result.outputs.tddPath!;
+      const apiSpecPath = result.outputs.apiSpecPath!;
+      const uninterruptedTDD = await readFile(tddPath, 'utf-8');
+      const uninterruptedAPISpec = await readFile(apiSpecPath, 'utf-8');
+
+      // Simulate an interruption right after PRD analysis
+      const sessionDir = join('.prism', 'sessions', result.sessionId);
+      const statePath = join(sessionDir, 'session_state.yaml');
+      const state = parseYAML(await readFile(statePath, 'utf-8'));
+      state.status = 'paused';
+      state.checkpoints = state.checkpoints.slice(0, 1);
+      await writeFile(statePath, stringifyYAML(state));
+      await rm(join(sessionDir, '03-validation'), { recursive: true, force: true });
+      await rm(join(sessionDir, '04-clarification'), { recursive: true, force: true });
+      await rm(join(sessionDir, '05-tdd'), { recursive: true, force: true });
+
+      const resumed = await executeDiscoveryWorkflow({
+        prdSource: '',
+        projectName: 'Test Project',
+        resumeSessionId: result.sessionId,
+        clarificationPrompter: skippingPrompter,
+      });
+
+      expect(resumed.status).toBe('completed');
+      expect(resumed.completedSteps).toEqual(['validation', 'clarification', 'tdd-generation']);
+      expect(await readFile(tddPath, 'utf-8')).toBe(uninterruptedTDD);
+      expect(await readFile(apiSpecPath, 'utf-8')).toBe(uninterruptedAPISpec);
+    }, 30000);
+  });
+
+  describe('Custom Steps', () => {
+    it('should run registered custom steps after their dependencies', async () => {
+      const seen: string[] = [];
+
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        customSteps: [
+          {
+            id: 'custom:security-review',
+            name: 'Security Review',
+            dependsOn: ['tdd-generation'],
+            inputs: ['05-tdd/tdd.md'],
+            outputs: [],
+            run: async ({ session }) => {
+              seen.push(session.session_id);
+            },
+          },
+        ],
+        clarificationPrompter: skippingPrompter,
+      });
+
+      expect(seen).toEqual([result.sessionId]);
+      expect(result.completedSteps[result.completedSteps.length - 1]).toBe('custom:security-review');
+    }, 30000);
+  });
+
+  describe('Partial Re-run', () => {
+    it('should re-run only the chosen step and its downstream steps', async () => {
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const rerun = await executeDiscoveryWorkflow({
+        prdSource: '',
+        projectName: 'Test Project',
+        resumeSessionId: result.sessionId,
+        rerunFrom: 'validation',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      expect(rerun.status).toBe('completed');
+      expect(rerun.completedSteps).toEqual(['validation', 'clarification', 'tdd-generation']);
+    }, 30000);
+
+    it('should detect an edited PRD and re-run stale steps on resume', async () => {
+      await writeFile('prd.md', '# PRD v1');
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'prd.md',
+        projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      await writeFile('prd.md', '# PRD v2');
+      const resumed = await executeDiscoveryWorkflow({
+        prdSource: '',
+        projectName: 'Test Project',
+        resumeSessionId: result.sessionId,
+        clarificationPrompter: skippingPrompter,
+      });
+
+      expect(resumed.completedSteps).toEqual([
+        'prd-analysis',
+        'validation',
+        'clarification',
+        'tdd-generation',
+      ]);
+    }, 30000);
+  });
+
+  describe('Cost Tracking', () => {
+    it('should report step and session cost', async () => {
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const state = parseYAML(
+        await readFile(join('.prism', 'sessions', result.sessionId, 'session_state.yaml'), 'utf-8')
+      );
+      const prdCheckpoint = state.checkpoints.find((cp: { step: string }) => cp.step === 'prd-analysis');
+
+      expect(result.estimatedCost).toBeCloseTo(0.021);
+      expect(prdCheckpoint.metadata).toMatchObject({
+        provider_used: 'Anthropic Claude',
+        input_tokens: 2000,
+        output_tokens: 1000,
+      });
+      expect(state.usage.estimated_cost).toBeCloseTo(0.021);
+    }, 30000);
+
+    it('should add the cost of standalone commands to the session and its budget', async () => {
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        clarificationPrompter: skippingPrompter,
+      });
+      const statePath = join('.prism', 'sessions', result.sessionId, 'session_state.yaml');
+
+      await trackSessionCost(result.sessionId, async (costTracker) =>
+        costTracker.record('validation', {
+          inputTokens: 1000,
+          outputTokens: 500,
+          costUsd: 0.01,
+          provider: 'Anthropic Claude',
+          model: 'claude-sonnet-4-5-20250929',
+        })
+      );
+      const state = parseYAML(await readFile(statePath, 'utf-8'));
+      expect(state.usage.estimated_cost).toBeCloseTo(0.031);
+
+      state.config.max_cost_usd = 0.03;
+      await writeFile(statePath, stringifyYAML(state));
+      const run = vi.fn();
+      await expect(trackSessionCost(result.sessionId, run)).rejects.toThrow(BudgetExceededError);
+      expect(run).not.toHaveBeenCalled();
+    }, 30000);
+
+    it('should pause the session when the budget is reached', async () => {
+      await expect(
+        executeDiscoveryWorkflow({
+          prdSource: 'test-prd.md',
+          projectName: 'Test Project',
+          maxCostUsd: 0.01,
+          clarificationPrompter: skippingPrompter,
+        })
+      ).rejects.toThrow('Budget of $0.01 reached');
+
+      const [sessionId] = await readdir(join('.prism', 'sessions'));
+      const state = parseYAML(
+        await readFile(join('.prism', 'sessions', sessionId!, 'session_state.yaml'), 'utf-8')
+      );
+
+      // The PRD analysis request that reached the budget is kept; validation never starts
+      expect(state.status).toBe('paused');
+      expect(state.checkpoints.map((cp: { step: string }) => cp.step)).toEqual(['prd-analysis']);
+      expect(state.usage.estimated_cost).toBeCloseTo(0.021);
+    }, 30000);
+
+    it('should map a budget stop to the paused exit code', async () => {
+      const error = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        maxCostUsd: 0.01,
+        clarificationPrompter: skippingPrompter,
+      }).catch((e: unknown) => e);
+
+      expect(exitCodeForError(error)).toBe(EXIT_CODES.paused);
+    }, 30000);
+
+    it('should pause the session when a skill wraps the budget error', async () => {
+      const { analyzePRD } = await import('../../src/skills/prd-analyzer.js');
+      vi.mocked(analyzePRD).mockRejectedValueOnce(
+        new WorkflowError('PRD analysis failed', 'prd-analysis', new BudgetExceededError(0.02, 0.01))
+      );
+
+      await expect(
+        executeDiscoveryWorkflow({ prdSource: 'test-prd.md', maxCostUsd: 0.01 })
+      ).rejects.toThrow('Discovery workflow stopped: Budget of $0.01 reached');
+
+      const [sessionId] = await readdir(join('.prism', 'sessions'));
+      const state = parseYAML(
+        await readFile(join('.prism', 'sessions', sessionId!, 'session_state.yaml'), 'utf-8')
+      );
+      expect(state.status).toBe('paused');
+    }, 30000);
+  });
+
+  describe('Run Summary', () => {
+    it('should summarize gaps and requirement quality of a completed session', async () => {
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const summary = await summarizeDiscoverySession(result.sessionId);
+      const gapsOutput = parseYAML(
+        await readFile(join('.prism', 'sessions', result.sessionId, '03-validation', 'gaps.yaml'), 'utf-8')
+      );
+
+      expect(summary.gaps?.total).toBe(gapsOutput.gaps.length);
+      expect(summary.gaps?.bySeverity.high).toBe(gapsOutput.metadata.high_count);
+      expect(summary.gaps?.byType['missing_acceptance_criteria']).toBe(1);
+      expect(summary.quality?.overallScore).toBeGreaterThan(0);
+      expect(summary.quality?.overallScore).toBeLessThanOrEqual(1);
+      expect(summary.quality?.issueCount).toBeGreaterThan(0);
+    }, 30000);
+
+    it('should omit parts whose artifacts do not exist', async () => {
+      await expect(summarizeDiscoverySession('sess-0000000000000')).resolves.toEqual({});
+    });
+  });
+
+  describe('Progress Events', () => {
+    it('should emit step, gap and checkpoint events on the supplied bus', async () => {
+      const events = new WorkflowEventBus();
+      const received: WorkflowEvent[] = [];
+      events.onAny((event) => received.push(event));
+
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        events,
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const ofType = <K extends WorkflowEvent['type']>(type: K) =>
+        received.filter((event) => event.type === type) as Extract<WorkflowEvent, { type: K }>[];
+
+      expect(ofType('step-started').map((event) => event.step)).toEqual([
+        'prd-analysis',
+        'validation',
+        'clarification',
+        'tdd-generation',
+      ]);
+      expect(ofType('step-skipped')).toEqual([
+        expect.objectContaining({ step: 'figma-analysis', reason: 'disabled' }),
+      ]);
+      expect(ofType('checkpoint-saved')).toHaveLength(4);
+      expect(ofType('checkpoint-saved')[0]).toMatchObject({ session_id: result.sessionId });
+      expect(ofType('gap-detected').length).toBeGreaterThan(0);
+      expect(ofType('log').some((event) => event.message.includes('Discovery Workflow Complete'))).toBe(true);
+    }, 30000);
+  });
+
+  describe('Provider Fallbacks', () => {
+    it('should record fallbacks in the session and pass the workflow signal', async () => {
+      const { analyzePRD } = await import('../../src/skills/prd-analyzer.js');
+      const analyze = vi.mocked(analyzePRD).getMockImplementation()!;
+      vi.mocked(analyzePRD).mockImplementationOnce(async (content, sessionId, options) => {
+        options?.onFallback?.({
+          failedProvider: 'anthropic',
+          reason: '429 rate limit',
+          activeProvider: 'openai',
+          timestamp: new Date(),
+        });
+        return analyze(content, sessionId, options);
+      });
+
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'test-prd.md',
+        projectName: 'Test Project',
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const state = parseYAML(
+        await readFile(join('.prism', 'sessions', result.sessionId, 'session_state.yaml'), 'utf-8')
+      );
+
+      expect(vi.mocked(analyzePRD).mock.calls[0]?.[2]?.signal).toBeInstanceOf(AbortSignal);
+      expect(state.provider_fallbacks).toEqual([
+        expect.objectContaining({
+          step: 'prd-analysis',
+          failed_provider: 'anthropic',
+          active_provider: 'openai',
+          reason: '429 rate limit',
+        }),
+      ]);
+    }, 30000);
+  });
+
+  describe('Budget Pre-flight', () => {
+    it('should refuse to run over budget in non-interactive mode', async () => {
+      const { analyzePRD } = await import('../../src/skills/prd-analyzer.js');
+      await writeFile('prd.md', '# PRD\n' + 'The system shall do things. '.repeat(2000));
+
+      await expect(
+        executeDiscoveryWorkflow({
+          prdSource: 'prd.md',
+          projectName: 'Test Project',
+          maxCostUsd: 0.001,
+          clarificationPrompter: skippingPrompter,
+        })
+      ).rejects.toThrow('exceeds remaining budget');
+
+      expect(analyzePRD).not.toHaveBeenCalled();
+    }, 30000);
+
+    it('should ask for confirmation and raise the session budget', async () => {
+      await writeFile('prd.md', '# PRD\n' + 'The system shall do things. '.repeat(2000));
+      const confirmOverBudget = vi.fn(async () => true);
+
+      const result = await executeDiscoveryWorkflow({
+        prdSource: 'prd.md',
+        projectName: 'Test Project',
+        maxCostUsd: 0.05,
+        confirmOverBudget,
+        clarificationPrompter: skippingPrompter,
+      });
+
+      const state = parseYAML(
+        await readFile(join('.prism', 'sessions', result.sessionId, 'session_state.yaml'), 'utf-8')
+      );
+
+      expect(result.status).toBe('completed');
+      expect(confirmOverBudget).toHaveBeenCalledOnce();
+      expect(confirmOverBudget.mock.calls[0]).toEqual([
+        expect.objectContaining({ estimated_cost: expect.any(Number) }),
+        0.05,
+      ]);
+      expect(state.config.max_cost_usd).toBeGreaterThan(0.05);
+    }, 30000);
+
+    it('should stop when confirmation is declined', async () => {
+      await writeFile('prd.md', '# PRD\n' + 'The system shall do things. '.repeat(2000));
+
+      await expect(
+        executeDiscoveryWorkflow({
+          prdSource: 'prd.md',
+          projectName: 'Test Project',
+          maxCostUsd: 0.05,
+          confirmOverBudget: async () => false,
+          clarificationPrompter: skippingPrompter,
+        })
+      ).rejects.toThrow('Cancelled');
+    }, 30000);
   });
 });
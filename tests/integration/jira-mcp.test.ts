@@ -0,0 +1,308 @@
+/**
+ * Integration test for the Jira MCP client against a local stub of the
+ * Jira REST API (no Jira account needed)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { JiraMCPClient, type JiraSettings } from '../../src/utils/mcp/jira.js';
+import { syncChannelClarification } from '../../src/skills/clarification-manager.js';
+import { ClarificationDispatchSchema } from '../../src/schemas/question.js';
+import { readYAMLWithSchema } from '../../src/utils/files.js';
+import { MCPError, ClarificationDispatchError } from '../../src/utils/errors.js';
+import { WorkflowEventBus } from '../../src/utils/events.js';
+import type { QuestionsOutput } from '../../src/types/question.js';
+
+interface StubIssue {
+  key: string;
+  fields: Record<string, any>;
+  resolution: string | null;
+  comments: Array<{ id: string; author: { displayName: string }; body: string; created: string }>;
+}
+
+/**
+ * In-memory Jira: create issue, get issue, list comments, current user
+ */
+function createJiraStub() {
+  const issues = new Map<string, StubIssue>();
+  const requests: Array<{ method: string; url: string; authorization?: string }> = [];
+  const limits = { maxIssues: Infinity };
+
+  const server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    requests.push({ method: req.method!, url: req.url!, authorization: req.headers.authorization });
+    const send = (status: number, body?: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(body === undefined ? '' : JSON.stringify(body));
+    };
+
+    if (req.headers.authorization !== `Basic ${Buffer.from('pm@example.com:token').toString('base64')}`) {
+      return send(401, { errorMessages: ['Unauthorized'] });
+    }
+
+    const url = new URL(req.url!, 'http://localhost');
+    const issueMatch = url.pathname.match(/^\/rest\/api\/2\/issue\/([A-Z]+-\d+)(\/comment)?$/);
+
+    if (req.method === 'GET' && url.pathname === '/rest/api/2/myself') {
+      return send(200, { accountId: 'prism-bot' });
+    }
+    if (req.method === 'POST' && url.pathname === '/rest/api/2/issue') {
+      if (issues.size >= limits.maxIssues) {
+        return send(400, { errorMessages: ['Issue limit reached'] });
+      }
+      let body = '';
+      for await (const chunk of req) body += chunk;
+      const { fields } = JSON.parse(body);
+      const key = `${fields.project.key}-${issues.size + 1}`;
+      issues.set(key, { key, fields, resolution: null, comments: [] });
+      return send(201, { id: String(10000 + issues.size), key, self: `/rest/api/2/issue/${key}` });
+    }
+    if (req.method === 'GET' && issueMatch) {
+      const issue = issues.get(issueMatch[1]!);
+      if (!issue) return send(404, { errorMessages: ['Issue does not exist'] });
+      if (issueMatch[2]) return send(200, { comments: issue.comments });
+      return send(200, {
+        key: issue.key,
+        fields: {
+          status: { name: issue.resolution ? 'Done' : 'To Do' },
+          resolution: issue.resolution ? { name: issue.resolution } : null,
+        },
+      });
+    }
+    send(404, { errorMessages: ['Not found'] });
+  });
+
+  const comment = (key: string, author: string, body: string) => {
+    const issue = issues.get(key)!;
+    issue.comments.push({
+      id: String(issue.comments.length + 1),
+      author: { displayName: author },
+      body,
+      created: '2025-03-01T09:30:00.000+0100',
+    });
+  };
+
+  return { server, issues, requests, limits, comment };
+}
+
+const questions: QuestionsOutput = {
+  metadata: {
+    generated_at: new Date().toISOString(),
+    total_questions: 3,
+    critical_count: 1,
+    high_count: 1,
+    medium_count: 1,
+    low_count: 0,
+  },
+  questions: [
+    {
+      id: 'Q-001',
+      priority: 'critical',
+      stakeholder_type: 'design',
+      question: 'What UI components are needed to implement "REQ-FUNC-001"?',
+      context: 'Login feature has no UI',
+      suggestions: ['Add specific screen mockups to Figma', 'Define the UI component types needed'],
+      gap_id: 'GAP-001',
+    },
+    {
+      id: 'Q-002',
+      priority: 'high',
+      stakeholder_type: 'engineering',
+      question: 'How should we resolve the inconsistency?',
+      context: 'Session timeout differs between REQ-SEC-001 and REQ-SEC-002',
+      suggestions: ['Clarify which is correct'],
+      gap_id: 'GAP-002',
+    },
+    {
+      id: 'Q-003',
+      priority: 'medium',
+      stakeholder_type: 'product',
+      question: 'What are the acceptance criteria for "REQ-FUNC-002"?',
+      context: 'Profile requirement lacks criteria',
+      suggestions: ['Define measurable success criteria'],
+      gap_id: 'GAP-003',
+    },
+  ],
+};
+
+describe('Jira MCP Integration', () => {
+  let stub: ReturnType<typeof createJiraStub>;
+  let endpoint: string;
+  const credentials = { email: 'pm@example.com', apiToken: 'token' };
+  const settings: JiraSettings = {
+    project: 'PRISM',
+    assignees: { design: 'acc-design', product: 'acc-product' },
+  };
+
+  beforeAll(async () => {
+    stub = createJiraStub();
+    await new Promise<void>((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.issues.clear();
+    stub.requests.length = 0;
+    stub.limits.maxIssues = Infinity;
+  });
+
+  it('should require a URL, credentials and a project', () => {
+    expect(() => new JiraMCPClient({ endpoint: '', credentials }, settings)).toThrow(MCPError);
+    expect(() => new JiraMCPClient({ endpoint, credentials: { email: '', apiToken: '' } }, settings)).toThrow(
+      'Jira credentials not configured'
+    );
+    expect(() => new JiraMCPClient({ endpoint, credentials }, {})).toThrow('Jira project not configured');
+  });
+
+  it('should create one issue per question, assigned by stakeholder type', async () => {
+    const client = new JiraMCPClient({ endpoint, credentials }, settings);
+    const dispatch = await client.dispatch(questions, 'sess-123');
+
+    expect(dispatch.mode).toBe('jira');
+    expect(dispatch.parent).toBeUndefined();
+    expect(dispatch.items).toEqual([
+      { question_id: 'Q-001', ref: 'PRISM-1', url: `${endpoint}/browse/PRISM-1` },
+      { question_id: 'Q-002', ref: 'PRISM-2', url: `${endpoint}/browse/PRISM-2` },
+      { question_id: 'Q-003', ref: 'PRISM-3', url: `${endpoint}/browse/PRISM-3` },
+    ]);
+
+    const first = stub.issues.get('PRISM-1')!.fields;
+    expect(first).toMatchObject({
+      summary: '[Q-001] What UI components are needed to implement "REQ-FUNC-001"?',
+      issuetype: { name: 'Task' },
+      assignee: { accountId: 'acc-design' },
+      priority: { name: 'Highest' },
+      labels: ['prism', 'sess-123', 'stakeholder-design'],
+    });
+    expect(first['description']).toContain('# Define the UI component types needed');
+    expect(stub.issues.get('PRISM-2')!.fields['assignee']).toBeUndefined();
+  });
+
+  it('should group questions under one epic when configured', async () => {
+    const client = new JiraMCPClient({ endpoint, credentials }, { ...settings, epic: true });
+    const dispatch = await client.dispatch(questions, 'sess-123');
+
+    expect(dispatch.parent).toBe('PRISM-1');
+    expect(stub.issues.get('PRISM-1')!.fields['issuetype']).toEqual({ name: 'Epic' });
+    expect(stub.issues.get('PRISM-2')!.fields).toMatchObject({
+      issuetype: { name: 'Task' },
+      parent: { key: 'PRISM-1' },
+    });
+  });
+
+  it('should map answer comments and resolved issues back to responses', async () => {
+    const client = new JiraMCPClient({ endpoint, credentials }, settings);
+    const dispatch = await client.dispatch(questions, 'sess-123');
+
+    stub.comment('PRISM-1', 'Dana Designer', 'Answer: 2\nConfidence: 0.9');
+    stub.comment('PRISM-2', 'Eli Engineer', 'Still checking with security');
+    stub.comment('PRISM-3', 'Pat Product', 'Profile needs name, avatar and bio');
+    stub.issues.get('PRISM-3')!.resolution = 'Done';
+
+    const responses = await client.collect(questions, dispatch);
+
+    expect(responses).toEqual([
+      {
+        question_id: 'Q-001',
+        response: 'Define the UI component types needed',
+        confidence: 0.9,
+        answered_by: 'Dana Designer',
+        answered_at: '2025-03-01T08:30:00.000Z',
+      },
+      {
+        question_id: 'Q-003',
+        response: 'Profile needs name, avatar and bio',
+        confidence: 0.8,
+        answered_by: 'Pat Product',
+        answered_at: '2025-03-01T08:30:00.000Z',
+      },
+    ]);
+  });
+
+  it('should fail without retrying when Jira rejects the credentials', async () => {
+    const client = new JiraMCPClient(
+      { endpoint, credentials: { email: 'pm@example.com', apiToken: 'wrong' }, maxRetries: 3 },
+      settings
+    );
+
+    await expect(client.getComments('PRISM-1')).rejects.toThrow('Authentication failed');
+    expect(stub.requests).toHaveLength(1);
+    expect(await client.healthCheck()).toBe(false);
+  });
+
+  describe('Workflow round-trip', () => {
+    let originalCwd: string;
+    let testDir: string;
+
+    beforeEach(async () => {
+      originalCwd = process.cwd();
+      testDir = await mkdtemp(join(tmpdir(), 'prism-jira-test-'));
+      process.chdir(testDir);
+    });
+
+    afterEach(async () => {
+      process.chdir(originalCwd);
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should post questions once and complete when every issue is answered', async () => {
+      const channel = new JiraMCPClient({ endpoint, credentials }, settings);
+      const events = new WorkflowEventBus();
+
+      const first = await syncChannelClarification(questions, 'sess-jira', { channel, events });
+      expect(first.completed_at).toBeUndefined();
+      expect(first.questions_answered).toBe(0);
+      expect(stub.issues.size).toBe(3);
+
+      stub.comment('PRISM-1', 'Dana Designer', 'Answer: Login form with email and password');
+      stub.comment('PRISM-2', 'Eli Engineer', 'Answer: 1');
+      const second = await syncChannelClarification(questions, 'sess-jira', { channel, events });
+      expect(second.questions_answered).toBe(2);
+      expect(second.completed_at).toBeUndefined();
+
+      stub.comment('PRISM-3', 'Pat Product', 'Answer: Name and avatar are required');
+      const third = await syncChannelClarification(questions, 'sess-jira', { channel, events });
+
+      expect(stub.issues.size).toBe(3);
+      expect(third.mode).toBe('jira');
+      expect(third.completed_at).toBeDefined();
+      expect(third.started_at).toBe(first.started_at);
+      expect(third.responses.map((r) => [r.question_id, r.response])).toEqual([
+        ['Q-001', 'Login form with email and password'],
+        ['Q-002', 'Clarify which is correct'],
+        ['Q-003', 'Name and avatar are required'],
+      ]);
+    });
+
+    it('should save the issues created before a failure and create only the rest next time', async () => {
+      const channel = new JiraMCPClient({ endpoint, credentials, maxRetries: 1 }, settings);
+      const events = new WorkflowEventBus();
+      stub.limits.maxIssues = 2;
+
+      await expect(syncChannelClarification(questions, 'sess-jira', { channel, events })).rejects.toThrow(
+        ClarificationDispatchError
+      );
+      const saved = await readYAMLWithSchema(
+        join('.prism', 'sessions', 'sess-jira', '04-clarification', 'dispatch.yaml'),
+        ClarificationDispatchSchema
+      );
+      expect(saved.items.map((item) => [item.question_id, item.ref])).toEqual([
+        ['Q-001', 'PRISM-1'],
+        ['Q-002', 'PRISM-2'],
+      ]);
+
+      stub.limits.maxIssues = Infinity;
+      await syncChannelClarification(questions, 'sess-jira', { channel, events });
+
+      expect(stub.issues.size).toBe(3);
+      expect(stub.issues.get('PRISM-3')!.fields['summary']).toContain('[Q-003]');
+    });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Integration test for offline runs with AI_PROVIDER=replay
+ *
+ * Runs the full discovery workflow, including the real PRD analyzer, against
+ * responses recorded in tests/fixtures/llm
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, rm, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { tmpdir } from 'os';
+import { parse as parseYAML } from 'yaml';
+import { executeDiscoveryWorkflow, pinSessionProfile } from '../../src/workflows/discovery.js';
+import { importClarificationAnswers } from '../../src/skills/clarification-manager.js';
+import { QuestionsOutputSchema } from '../../src/schemas/question.js';
+import { readYAMLWithSchema } from '../../src/utils/files.js';
+import { WorkflowEventBus } from '../../src/utils/events.js';
+import { SessionSchema } from '../../src/schemas/session.js';
+import { resolveConfig, pinConfigProfile } from '../../src/utils/config-resolver.js';
+
+const FIXTURES_DIR = resolve('tests', 'fixtures', 'llm');
+const PRD_PATH = resolve('tests', 'fixtures', 'prds', 'simple-prd.md');
+
+describe('Replay Workflow Integration', () => {
+  let testDir: string;
+  const originalCwd = process.cwd();
+  const originalEnv = { ...process.env };
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'prism-replay-workflow-test-'));
+    process.chdir(testDir);
+    process.env['AI_PROVIDER'] = 'replay';
+    process.env['PRISM_FIXTURES_DIR'] = FIXTURES_DIR;
+  });
+
+  afterEach(async () => {
+    pinConfigProfile(undefined);
+    process.chdir(originalCwd);
+    process.env = { ...originalEnv };
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should run the discovery workflow offline from recorded responses', async () => {
+    const result = await executeDiscoveryWorkflow({
+      prdSource: PRD_PATH,
+      projectName: 'Task Manager',
+      noCache: true,
+      clarificationPrompter: { write: () => {}, ask: async () => 's' },
+    });
+
+    const sessionDir = join('.prism', 'sessions', result.sessionId);
+    const requirements = parseYAML(
+      await readFile(join(sessionDir, '01-prd-analysis', 'requirements.yaml'), 'utf-8')
+    );
+    const gaps = parseYAML(await readFile(join(sessionDir, '03-validation', 'gaps.yaml'), 'utf-8'));
+
+    expect(result.status).toBe('completed');
+    expect(result.estimatedCost).toBe(0);
+    expect(requirements.requirements).toHaveLength(6);
+    expect(gaps.gaps.some((g: { requirement_id?: string }) => g.requirement_id === 'REQ-FUNC-004')).toBe(true);
+    expect(await readFile(result.outputs.tddPath!, 'utf-8')).toContain('Task Manager');
+  }, 30000);
+
+  it('should pause for answers in file clarification mode and continue after the import', async () => {
+    await mkdir('.prism', { recursive: true });
+    await writeFile(join('.prism', 'config.yaml'), 'workflow:\n  clarificationMode: file\n');
+
+    const paused = await executeDiscoveryWorkflow({
+      prdSource: PRD_PATH,
+      projectName: 'Task Manager',
+      noCache: true,
+      events: new WorkflowEventBus(),
+    });
+    expect(paused.status).toBe('paused');
+    expect(paused.completedSteps).toEqual(['prd-analysis', 'validation']);
+    expect(paused.resumeCommand).toBe(`prism clarify import --session=${paused.sessionId} <answers file>`);
+
+    const clarificationDir = join('.prism', 'sessions', paused.sessionId, '04-clarification');
+    const exported = await readFile(join(clarificationDir, 'questions.md'), 'utf-8');
+    const questions = await readYAMLWithSchema(join(clarificationDir, 'questions.yaml'), QuestionsOutputSchema);
+    const firstId = questions.questions[0]!.id;
+    expect(exported).toContain(`### ${firstId}`);
+
+    await importClarificationAnswers(
+      questions,
+      paused.sessionId,
+      `### ${firstId} (${questions.questions[0]!.priority})\nAnswer: 1\nConfidence: 0.9\n`,
+      { events: new WorkflowEventBus() }
+    );
+
+    const resumed = await executeDiscoveryWorkflow({
+      prdSource: '',
+      resumeSessionId: paused.sessionId,
+      rerunFrom: 'clarification',
+      noCache: true,
+      events: new WorkflowEventBus(),
+    });
+    expect(resumed.status).toBe('completed');
+    expect(resumed.outputs.tddPath).toBeDefined();
+
+    const refinement = parseYAML(await readFile(join(clarificationDir, 'refinement.yaml'), 'utf-8'));
+    expect(refinement.rounds[0].questions_answered).toBe(1);
+    expect(refinement.rounds[0].revisions[0].question_ids).toEqual([firstId]);
+  }, 30000);
+
+  it('should resume a session created with a replay profile when no profile or API keys are set', async () => {
+    await mkdir('.prism', { recursive: true });
+    await writeFile(
+      join('.prism', 'config.yaml'),
+      [
+        'workflow:',
+        '  clarificationMode: file',
+        'profiles:',
+        '  offline:',
+        '    llm:',
+        '      provider: replay',
+        '    workflow:',
+        '      timeoutMinutes: 45',
+        '',
+      ].join('\n')
+    );
+    for (const key of ['AI_PROVIDER', 'ANTHROPIC_API_KEY', 'OPENAI_API_KEY', 'GOOGLE_API_KEY']) {
+      delete process.env[key];
+    }
+    process.env['PRISM_PROFILE'] = 'offline';
+
+    const paused = await executeDiscoveryWorkflow({
+      prdSource: PRD_PATH,
+      projectName: 'Task Manager',
+      noCache: true,
+      events: new WorkflowEventBus(),
+    });
+    expect(paused.status).toBe('paused');
+
+    delete process.env['PRISM_PROFILE'];
+    const questions = await readYAMLWithSchema(
+      join('.prism', 'sessions', paused.sessionId, '04-clarification', 'questions.yaml'),
+      QuestionsOutputSchema
+    );
+    await importClarificationAnswers(
+      questions,
+      paused.sessionId,
+      `### ${questions.questions[0]!.id} (${questions.questions[0]!.priority})\nAnswer: 1\n`,
+      { events: new WorkflowEventBus() }
+    );
+
+    // What the CLI does before its provider check
+    const sessionPath = join('.prism', 'sessions', paused.sessionId, 'session_state.yaml');
+    pinSessionProfile(await readYAMLWithSchema(sessionPath, SessionSchema));
+    expect(resolveConfig().config.llm.provider).toBe('replay');
+
+    const events = new WorkflowEventBus();
+    const messages: string[] = [];
+    events.on('log', (event) => messages.push(event.message));
+    const resumed = await executeDiscoveryWorkflow({
+      prdSource: '',
+      resumeSessionId: paused.sessionId,
+      rerunFrom: 'clarification',
+      noCache: true,
+      events,
+    });
+    expect(resumed.status).toBe('completed');
+    expect(messages).toContain('⏰ Timeout: 45 minutes');
+  }, 30000);
+
+  it('should fail without network access when a response was never recorded', async () => {
+    await expect(
+      executeDiscoveryWorkflow({
+        prdSource: '# Unrecorded PRD\n\nUsers can export reports.',
+        projectName: 'Unrecorded',
+        noCache: true,
+      })
+    ).rejects.toThrow('No recorded structured response');
+  }, 30000);
+});
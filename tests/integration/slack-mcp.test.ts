@@ -0,0 +1,297 @@
+/**
+ * Integration test for the Slack MCP client against a local stub of the
+ * Slack Web API (no Slack workspace needed)
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SlackMCPClient } from '../../src/utils/mcp/slack.js';
+import { syncChannelClarification, loadClarificationSession } from '../../src/skills/clarification-manager.js';
+import { ClarificationDispatchSchema } from '../../src/schemas/question.js';
+import { readYAMLWithSchema } from '../../src/utils/files.js';
+import { MCPError, ClarificationDispatchError } from '../../src/utils/errors.js';
+import { WorkflowEventBus } from '../../src/utils/events.js';
+import type { QuestionsOutput } from '../../src/types/question.js';
+
+interface StubMessage {
+  ts: string;
+  user?: string;
+  bot_id?: string;
+  text: string;
+}
+
+/**
+ * In-memory Slack: post message, thread replies, auth test
+ */
+function createSlackStub() {
+  const threads = new Map<string, { channel: string; messages: StubMessage[] }>();
+  const requests: Array<{ method: string; params: Record<string, string> }> = [];
+  const limits = { maxMessages: Infinity };
+  let clock = 1740816000;
+
+  const nextTs = () => `${clock++}.000100`;
+
+  const server: Server = createServer(async (req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const method = req.url!.replace(/^\//, '');
+    const params = Object.fromEntries(new URLSearchParams(body));
+    requests.push({ method, params });
+
+    const send = (data: Record<string, unknown>) => {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(data));
+    };
+
+    if (req.headers.authorization !== 'Bearer xoxb-test') {
+      return send({ ok: false, error: 'invalid_auth' });
+    }
+
+    if (method === 'auth.test') {
+      return send({ ok: true, user_id: 'UPRISM' });
+    }
+    if (method === 'chat.postMessage') {
+      if (threads.size >= limits.maxMessages) {
+        return send({ ok: false, error: 'msg_limit_reached' });
+      }
+      const ts = nextTs();
+      threads.set(ts, { channel: params['channel']!, messages: [{ ts, bot_id: 'BPRISM', text: params['text']! }] });
+      return send({ ok: true, channel: params['channel'], ts });
+    }
+    if (method === 'conversations.replies') {
+      const thread = threads.get(params['ts']!);
+      if (!thread || thread.channel !== params['channel']) {
+        return send({ ok: false, error: 'thread_not_found' });
+      }
+      return send({ ok: true, messages: thread.messages });
+    }
+    send({ ok: false, error: 'unknown_method' });
+  });
+
+  const reply = (index: number, message: Omit<StubMessage, 'ts'>) => {
+    const thread = [...threads.values()][index]!;
+    thread.messages.push({ ts: nextTs(), ...message });
+  };
+
+  const reset = () => {
+    threads.clear();
+    requests.length = 0;
+    limits.maxMessages = Infinity;
+    clock = 1740816000;
+  };
+
+  return { server, threads, requests, limits, reply, reset };
+}
+
+const questions: QuestionsOutput = {
+  metadata: {
+    generated_at: new Date().toISOString(),
+    total_questions: 3,
+    critical_count: 1,
+    high_count: 1,
+    medium_count: 1,
+    low_count: 0,
+  },
+  questions: [
+    {
+      id: 'Q-001',
+      priority: 'critical',
+      stakeholder_type: 'design',
+      question: 'What UI components are needed to implement "REQ-FUNC-001"?',
+      context: 'Login feature has no UI',
+      suggestions: ['Add specific screen mockups to Figma', 'Define the UI component types needed'],
+      gap_id: 'GAP-001',
+    },
+    {
+      id: 'Q-002',
+      priority: 'high',
+      stakeholder_type: 'engineering',
+      question: 'How should we resolve the inconsistency?',
+      context: 'Session timeout differs between REQ-SEC-001 and REQ-SEC-002',
+      suggestions: ['Clarify which is correct'],
+      gap_id: 'GAP-002',
+    },
+    {
+      id: 'Q-003',
+      priority: 'medium',
+      stakeholder_type: 'product',
+      question: 'What are the acceptance criteria for "REQ-FUNC-002"?',
+      context: 'Profile requirement lacks criteria',
+      suggestions: ['Define measurable success criteria'],
+      gap_id: 'GAP-003',
+    },
+  ],
+};
+
+describe('Slack MCP Integration', () => {
+  let stub: ReturnType<typeof createSlackStub>;
+  let endpoint: string;
+  const credentials = { botToken: 'xoxb-test' };
+  const settings = { channel: 'C0PRISM' };
+
+  beforeAll(async () => {
+    stub = createSlackStub();
+    await new Promise<void>((resolve) => stub.server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => stub.server.close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.reset();
+  });
+
+  it('should require a bot token and a channel', () => {
+    expect(() => new SlackMCPClient({ endpoint, credentials: { botToken: '' } }, settings)).toThrow(MCPError);
+    expect(() => new SlackMCPClient({ endpoint, credentials }, {})).toThrow('Slack channel not configured');
+  });
+
+  it('should post critical and high questions with numbered suggestions', async () => {
+    const client = new SlackMCPClient({ endpoint, credentials }, settings);
+    const dispatch = await client.dispatch(questions, 'sess-123');
+
+    expect(dispatch.mode).toBe('slack');
+    expect(dispatch.parent).toBe('C0PRISM');
+    expect(dispatch.items.map((item) => item.question_id)).toEqual(['Q-001', 'Q-002']);
+
+    const posted = stub.requests.filter((r) => r.method === 'chat.postMessage');
+    expect(posted).toHaveLength(2);
+    expect(posted[0]!.params['channel']).toBe('C0PRISM');
+    expect(posted[0]!.params['text']).toContain('*[Q-001] critical · design*');
+    expect(posted[0]!.params['text']).toContain('2. Define the UI component types needed');
+  });
+
+  it('should map the latest human thread reply to a response', async () => {
+    const client = new SlackMCPClient({ endpoint, credentials }, settings);
+    const dispatch = await client.dispatch(questions, 'sess-123');
+
+    stub.reply(0, { user: 'UDANA', text: 'Not sure yet' });
+    stub.reply(0, { user: 'UDANA', text: '2\nConfidence: 0.9' });
+    stub.reply(1, { bot_id: 'BOTHER', text: 'Reminder: please answer' });
+
+    const responses = await client.collect(questions, dispatch);
+
+    expect(responses).toEqual([
+      {
+        question_id: 'Q-001',
+        response: 'Define the UI component types needed',
+        confidence: 0.9,
+        answered_by: 'UDANA',
+        answered_at: '2025-03-01T08:00:03.000Z',
+      },
+    ]);
+  });
+
+  it('should fail without retrying when Slack rejects the token', async () => {
+    const client = new SlackMCPClient({ endpoint, credentials: { botToken: 'xoxb-wrong' }, maxRetries: 3 }, settings);
+
+    await expect(client.postMessage('hello')).rejects.toThrow('Authentication failed: invalid_auth');
+    expect(stub.requests).toHaveLength(1);
+    expect(await client.healthCheck()).toBe(false);
+  });
+
+  describe('Workflow round-trip', () => {
+    let originalCwd: string;
+    let testDir: string;
+
+    beforeEach(async () => {
+      originalCwd = process.cwd();
+      testDir = await mkdtemp(join(tmpdir(), 'prism-slack-test-'));
+      process.chdir(testDir);
+    });
+
+    afterEach(async () => {
+      process.chdir(originalCwd);
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should save answers as they arrive and complete once the asked questions are answered', async () => {
+      const channel = new SlackMCPClient({ endpoint, credentials }, settings);
+      const events = new WorkflowEventBus();
+
+      const first = await syncChannelClarification(questions, 'sess-slack', { channel, events });
+      expect(first.questions_asked).toBe(2);
+      expect(first.completed_at).toBeUndefined();
+
+      stub.reply(0, { user: 'UDANA', text: 'Login form with email and password' });
+      const second = await syncChannelClarification(questions, 'sess-slack', { channel, events });
+      expect(second.questions_answered).toBe(1);
+      expect((await loadClarificationSession('sess-slack'))?.responses).toHaveLength(1);
+
+      stub.reply(1, { user: 'UELI', text: 'Answer: 1' });
+      const third = await syncChannelClarification(questions, 'sess-slack', { channel, events });
+
+      expect(stub.threads.size).toBe(2);
+      expect(third.mode).toBe('slack');
+      expect(third.completed_at).toBeDefined();
+      expect(third.responses.map((r) => [r.question_id, r.response, r.answered_by])).toEqual([
+        ['Q-001', 'Login form with email and password', 'UDANA'],
+        ['Q-002', 'Clarify which is correct', 'UELI'],
+      ]);
+    });
+
+    it('should save the messages posted before a failure and post only the rest next time', async () => {
+      const channel = new SlackMCPClient({ endpoint, credentials, maxRetries: 1 }, settings);
+      const events = new WorkflowEventBus();
+      stub.limits.maxMessages = 1;
+
+      await expect(syncChannelClarification(questions, 'sess-slack', { channel, events })).rejects.toThrow(
+        ClarificationDispatchError
+      );
+      const saved = await readYAMLWithSchema(
+        join('.prism', 'sessions', 'sess-slack', '04-clarification', 'dispatch.yaml'),
+        ClarificationDispatchSchema
+      );
+      expect(saved.items.map((item) => item.question_id)).toEqual(['Q-001']);
+
+      stub.limits.maxMessages = Infinity;
+      await syncChannelClarification(questions, 'sess-slack', { channel, events });
+
+      expect(stub.threads.size).toBe(2);
+      expect([...stub.threads.values()][1]!.messages[0]!.text).toContain('Q-002');
+    });
+
+    it('should keep polling until the answers arrive', async () => {
+      const channel = new SlackMCPClient({ endpoint, credentials }, settings);
+      let polls = 0;
+      const events = new WorkflowEventBus();
+      events.on('log', () => {
+        polls++;
+        if (polls === 2) {
+          stub.reply(0, { user: 'UDANA', text: '1' });
+          stub.reply(1, { user: 'UELI', text: '1' });
+        }
+      });
+
+      const session = await syncChannelClarification(questions, 'sess-poll', { channel, events, pollIntervalMs: 10 });
+
+      expect(session.completed_at).toBeDefined();
+      expect(session.responses.map((r) => r.response)).toEqual([
+        'Add specific screen mockups to Figma',
+        'Clarify which is correct',
+      ]);
+    });
+
+    it('should stop polling when the signal aborts', async () => {
+      const channel = new SlackMCPClient({ endpoint, credentials }, settings);
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 30);
+
+      await expect(
+        syncChannelClarification(questions, 'sess-abort', {
+          channel,
+          events: new WorkflowEventBus(),
+          pollIntervalMs: 10,
+          signal: controller.signal,
+        })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(await loadClarificationSession('sess-abort')).toMatchObject({ questions_answered: 0 });
+    });
+  });
+});
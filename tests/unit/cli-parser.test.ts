@@ -0,0 +1,108 @@
+/**
+ * Unit tests for the CLI command parser, help and completion
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseCommandLine, findCommand, renderHelp } from '../../src/cli/parser.js';
+import { generateCompletion } from '../../src/cli/completion.js';
+import { PRISM_COMMAND, normalizeLegacyArgs } from '../../src/cli/commands.js';
+import { UsageError } from '../../src/utils/errors.js';
+
+describe('CLI Parser', () => {
+  it('should keep option values containing =', () => {
+    const url = 'https://wiki.example.com/pages/viewpage.action?pageId=123&src=contextnavpagetreemode';
+    const parsed = parseCommandLine(PRISM_COMMAND, ['run', `--prd=${url}`, '--project', 'My App']);
+
+    expect(parsed.path).toEqual(['run']);
+    expect(parsed.options['prd']).toBe(url);
+    expect(parsed.options['project']).toBe('My App');
+  });
+
+  it('should resolve nested subcommands and bind arguments', () => {
+    const parsed = parseCommandLine(PRISM_COMMAND, ['sessions', 'show', 'sess-123']);
+
+    expect(parsed.path).toEqual(['sessions', 'show']);
+    expect(parsed.args['session']).toBe('sess-123');
+  });
+
+  it('should accept global flags before the subcommand', () => {
+    const parsed = parseCommandLine(PRISM_COMMAND, ['--json', 'sessions', 'list']);
+
+    expect(parsed.path).toEqual(['sessions', 'list']);
+    expect(parsed.options['json']).toBe(true);
+  });
+
+  it('should reject unknown commands, unknown options and missing arguments', () => {
+    expect(() => parseCommandLine(PRISM_COMMAND, ['sessions', 'purge'])).toThrow(
+      'Unknown command: prism sessions purge'
+    );
+    expect(() => parseCommandLine(PRISM_COMMAND, ['run', '--prd=a.md', '--bogus'])).toThrow(UsageError);
+    expect(() => parseCommandLine(PRISM_COMMAND, ['resume'])).toThrow('Missing argument <session>');
+    expect(() => parseCommandLine(PRISM_COMMAND, ['run'])).toThrow('prism run requires --prd');
+  });
+
+  it('should validate option choices', () => {
+    expect(() =>
+      parseCommandLine(PRISM_COMMAND, ['rerun', 'sess-1', '--from=deployment'])
+    ).toThrow('Invalid value for --from');
+
+    const parsed = parseCommandLine(PRISM_COMMAND, ['rerun', 'sess-1', '--from=validation']);
+    expect(parsed.options['from']).toBe('validation');
+  });
+
+  it('should answer --help without checking arguments', () => {
+    const parsed = parseCommandLine(PRISM_COMMAND, ['resume', '--help']);
+
+    expect(parsed.path).toEqual(['resume']);
+    expect(parsed.options['help']).toBe(true);
+  });
+
+  it('should translate flag-style invocations of earlier releases', () => {
+    expect(normalizeLegacyArgs(['--prd=./prd.md', '--json'])).toEqual(['run', '--prd=./prd.md', '--json']);
+    expect(normalizeLegacyArgs(['--resume=sess-1'])).toEqual(['resume', 'sess-1']);
+    expect(normalizeLegacyArgs(['--list-sessions'])).toEqual(['sessions', 'list']);
+    expect(normalizeLegacyArgs(['rerun', '--session=sess-1', '--from=validation'])).toEqual([
+      'rerun',
+      'sess-1',
+      '--from=validation',
+    ]);
+    expect(normalizeLegacyArgs(['run', '--prd=./prd.md'])).toEqual(['run', '--prd=./prd.md']);
+  });
+});
+
+describe('CLI Help', () => {
+  it('should render per-command help with inherited options', () => {
+    const help = renderHelp(findCommand(PRISM_COMMAND, ['sessions', 'show']));
+
+    expect(help).toContain('Usage: prism sessions show <session> [options]');
+    expect(help).toContain('Global Options:');
+    expect(help).toContain('--json');
+  });
+
+  it('should list subcommands of a command group', () => {
+    const help = renderHelp(findCommand(PRISM_COMMAND, ['config']));
+
+    expect(help).toContain('Usage: prism config <command> [options]');
+    expect(help).toMatch(/^\s+get\s+/m);
+    expect(help).toMatch(/^\s+set\s+/m);
+    expect(help).toMatch(/^\s+show\s+/m);
+  });
+});
+
+describe('CLI Completion', () => {
+  it('should complete commands and options in bash', () => {
+    const script = generateCompletion(PRISM_COMMAND, 'bash');
+
+    expect(script).toContain('complete -o default -F _prism prism');
+    expect(script).toMatch(/""\) words="run resume rerun estimate sessions config analyze/);
+    expect(script).toContain('"sessions") words="list show delete');
+    expect(script).toMatch(/"run"\|"run "\*\) words="[^"]*--prd/);
+  });
+
+  it('should complete commands and options in fish', () => {
+    const script = generateCompletion(PRISM_COMMAND, 'fish');
+
+    expect(script).toContain("complete -c prism -f -n '__prism_path_is \"analyze\"' -a figma");
+    expect(script).toContain("complete -c prism -n '__prism_path_is \"rerun\" leaf' -l from");
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Unit tests for the layered configuration resolver
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, mkdir, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  resolveConfig,
+  setConfigFlags,
+  pinConfigProfile,
+  getUserConfigPath,
+  getProjectConfigPath,
+} from '../../src/utils/config-resolver.js';
+import { ConfigManager } from '../../src/utils/config-manager.js';
+import { loadProviderConfig } from '../../src/providers/factory.js';
+import { ValidationError } from '../../src/utils/errors.js';
+import { initSession } from '../../src/utils/session.js';
+
+const ENV_VARS = [
+  'HOME',
+  'AI_PROVIDER',
+  'AI_MODEL',
+  'AI_MAX_RETRIES',
+  'SESSION_RETENTION_DAYS',
+  'PRISM_PROFILE',
+];
+
+const PROFILES = `
+profile: internal
+llm:
+  provider: anthropic
+profiles:
+  base:
+    llm:
+      provider: openai
+      model: base-model
+  internal:
+    retention:
+      sessionDays: 10
+  acme:
+    extends: base
+    llm:
+      model: acme-model
+    mcps:
+      confluence:
+        space: ACME
+`;
+
+describe('Config Resolver', () => {
+  let testDir: string;
+  let originalCwd: string;
+  let originalEnv: Record<string, string | undefined>;
+
+  beforeEach(async () => {
+    originalCwd = process.cwd();
+    originalEnv = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+    testDir = await mkdtemp(join(tmpdir(), 'prism-config-test-'));
+    process.chdir(testDir);
+
+    for (const name of ENV_VARS) {
+      delete process.env[name];
+    }
+    process.env['HOME'] = join(testDir, 'home');
+  });
+
+  afterEach(async () => {
+    setConfigFlags([]);
+    pinConfigProfile(undefined);
+    for (const [name, value] of Object.entries(originalEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    process.chdir(originalCwd);
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  async function writeConfig(path: string, content: string): Promise<void> {
+    await mkdir(join(path, '..'), { recursive: true });
+    await writeFile(path, content);
+  }
+
+  it('should use defaults when nothing is configured', () => {
+    const { config, origins } = resolveConfig();
+
+    expect(config.llm.provider).toBe('anthropic');
+    expect(config.workflow.timeoutMinutes).toBe(30);
+    expect(config.retention.sessionDays).toBe(30);
+    expect(origins['llm.provider']).toEqual({ source: 'default' });
+  });
+
+  it('should apply user, project, env and flag layers in order', async () => {
+    await writeConfig(
+      getUserConfigPath(),
+      'llm:\n  provider: openai\n  model: user-model\nretention:\n  sessionDays: 7\n'
+    );
+    await writeConfig(getProjectConfigPath(), 'llm:\n  model: project-model\n');
+    process.env['AI_PROVIDER'] = 'google';
+    setConfigFlags([{ key: 'llm.model', value: 'flag-model', flag: '--model' }]);
+
+    const { config, origins } = resolveConfig();
+
+    expect(config.retention.sessionDays).toBe(7);
+    expect(origins['retention.sessionDays']).toEqual({ source: 'user', detail: getUserConfigPath() });
+    expect(config.llm.provider).toBe('google');
+    expect(origins['llm.provider']).toEqual({ source: 'env', detail: 'AI_PROVIDER' });
+    expect(config.llm.model).toBe('flag-model');
+    expect(origins['llm.model']).toEqual({ source: 'flag', detail: '--model' });
+  });
+
+  it('should report invalid values with their origin', () => {
+    process.env['AI_MAX_RETRIES'] = 'many';
+
+    expect(() => resolveConfig()).toThrow(ValidationError);
+    try {
+      resolveConfig();
+    } catch (error) {
+      expect((error as ValidationError).validationErrors).toEqual([
+        'llm.maxRetries: Expected number, received string (from env AI_MAX_RETRIES)',
+      ]);
+    }
+  });
+
+  it('should reject invalid configuration files', async () => {
+    await writeConfig(getProjectConfigPath(), 'retention:\n  sessionDays: 0\n');
+
+    expect(() => resolveConfig()).toThrow(`Invalid configuration in ${getProjectConfigPath()}`);
+  });
+
+  it('should write partial files that leave other layers in effect', async () => {
+    await writeConfig(getUserConfigPath(), 'llm:\n  provider: openai\n');
+    await new ConfigManager().set('budget.maxUsdPerSession', 2.5);
+
+    const { config } = resolveConfig();
+    expect(config.llm.provider).toBe('openai');
+    expect(config.budget?.maxUsdPerSession).toBe(2.5);
+  });
+
+  it('should feed provider configuration', async () => {
+    await writeConfig(getProjectConfigPath(), 'llm:\n  provider: local\n  maxRetries: 4\n');
+    process.env['AI_MODEL'] = 'llama3.1';
+
+    const providerConfig = loadProviderConfig();
+    expect(providerConfig.provider).toBe('local');
+    expect(providerConfig.maxRetries).toBe(4);
+    expect(providerConfig.model).toBe('llama3.1');
+  });
+
+  describe('Profiles', () => {
+    it('should apply the default profile from the config file', async () => {
+      await writeConfig(getProjectConfigPath(), PROFILES);
+
+      const { config, profile } = resolveConfig();
+      expect(profile).toEqual({
+        name: 'internal',
+        chain: ['internal'],
+        origin: { source: 'project', detail: getProjectConfigPath() },
+      });
+      expect(config.retention.sessionDays).toBe(10);
+      expect(config.llm.provider).toBe('anthropic');
+    });
+
+    it('should select profiles with PRISM_PROFILE and --profile and inherit from the base', async () => {
+      await writeConfig(getProjectConfigPath(), PROFILES);
+      process.env['PRISM_PROFILE'] = 'base';
+
+      expect(resolveConfig().profile?.name).toBe('base');
+
+      setConfigFlags([{ key: 'profile', value: 'acme', flag: '--profile' }]);
+      const { config, origins, profile } = resolveConfig();
+
+      expect(profile?.chain).toEqual(['base', 'acme']);
+      expect(config.llm.provider).toBe('openai');
+      expect(config.llm.model).toBe('acme-model');
+      expect(config.mcps?.confluence?.space).toBe('ACME');
+      expect(origins['llm.provider']).toEqual({ source: 'profile', detail: 'base' });
+      expect(config.retention.sessionDays).toBe(30);
+    });
+
+    it('should let env vars override profile values', async () => {
+      await writeConfig(getProjectConfigPath(), PROFILES);
+      process.env['AI_MODEL'] = 'env-model';
+      setConfigFlags([{ key: 'profile', value: 'acme', flag: '--profile' }]);
+
+      expect(resolveConfig().config.llm.model).toBe('env-model');
+    });
+
+    it('should reject unknown profiles and inheritance cycles', async () => {
+      await writeConfig(
+        getProjectConfigPath(),
+        'profiles:\n  a:\n    extends: b\n  b:\n    extends: a\n'
+      );
+
+      setConfigFlags([{ key: 'profile', value: 'missing', flag: '--profile' }]);
+      expect(() => resolveConfig()).toThrow('Unknown profile "missing"');
+
+      setConfigFlags([{ key: 'profile', value: 'a', flag: '--profile' }]);
+      expect(() => resolveConfig()).toThrow('Profile inheritance cycle');
+    });
+
+    it('should record the profile in new sessions and keep it for pinned resumes', async () => {
+      await writeConfig(getProjectConfigPath(), PROFILES);
+      setConfigFlags([{ key: 'profile', value: 'acme', flag: '--profile' }]);
+
+      const session = await initSession('./test-prd.md');
+      expect(session.config.profile).toBe('acme');
+      expect(session.config.ai_provider).toBe('openai');
+
+      setConfigFlags([{ key: 'profile', value: 'internal', flag: '--profile' }]);
+      pinConfigProfile({ name: session.config.profile, sessionId: session.session_id });
+
+      const { profile, config } = resolveConfig();
+      expect(profile?.name).toBe('acme');
+      expect(profile?.origin).toEqual({ source: 'session', detail: session.session_id });
+      expect(config.llm.model).toBe('acme-model');
+    });
+  });
+});
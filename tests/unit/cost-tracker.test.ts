@@ -0,0 +1,106 @@
+/**
+ * Unit tests for cost tracking
+ *
+ * Tests per-step and per-session accumulation and budget enforcement
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CostTracker } from '../../src/utils/cost-tracker.js';
+import { BudgetExceededError } from '../../src/utils/errors.js';
+import type { TokenUsage } from '../../src/providers/types.js';
+import type { Session } from '../../src/types/session.js';
+
+function createTestSession(maxCostUsd?: number): Session {
+  return {
+    session_id: 'sess-1732278750345',
+    current_step: 'prd-analysis',
+    status: 'in-progress',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    prd_source: './test-prd.md',
+    outputs: {},
+    checkpoints: [],
+    config: {
+      ai_provider: 'anthropic',
+      workflow_timeout_minutes: 30,
+      max_clarification_iterations: 3,
+      max_cost_usd: maxCostUsd,
+    },
+  };
+}
+
+function createUsage(overrides: Partial<TokenUsage> = {}): TokenUsage {
+  return {
+    inputTokens: 1000,
+    outputTokens: 500,
+    costUsd: 0.0105,
+    provider: 'Anthropic Claude',
+    model: 'claude-sonnet-4-5-20250929',
+    ...overrides,
+  };
+}
+
+describe('Cost Tracker', () => {
+  it('should accumulate usage per step and on the session', () => {
+    const session = createTestSession();
+    const tracker = new CostTracker(session);
+
+    tracker.record('prd-analysis', createUsage());
+    tracker.record('prd-analysis', createUsage());
+    tracker.record('figma-analysis', createUsage({ provider: 'OpenAI GPT-4', costUsd: 0.025 }));
+
+    expect(tracker.takeStepUsage('prd-analysis')).toEqual({
+      provider_used: 'Anthropic Claude',
+      input_tokens: 2000,
+      output_tokens: 1000,
+      estimated_cost: 0.021,
+    });
+    expect(tracker.takeStepUsage('figma-analysis')?.provider_used).toBe('OpenAI GPT-4');
+    expect(session.usage).toEqual({
+      input_tokens: 3000,
+      output_tokens: 1500,
+      estimated_cost: expect.closeTo(0.046, 6),
+    });
+  });
+
+  it('should reset step usage once taken but keep the session total', () => {
+    const session = createTestSession();
+    const tracker = new CostTracker(session);
+
+    tracker.record('prd-analysis', createUsage());
+    tracker.takeStepUsage('prd-analysis');
+
+    expect(tracker.takeStepUsage('prd-analysis')).toBeUndefined();
+    expect(tracker.getTotalCost()).toBeCloseTo(0.0105);
+  });
+
+  it('should continue from the cost of earlier runs', () => {
+    const session = createTestSession();
+    session.usage = { input_tokens: 10, output_tokens: 10, estimated_cost: 1 };
+
+    const tracker = new CostTracker(session);
+    tracker.record('validation', createUsage({ costUsd: 0.5 }));
+
+    expect(tracker.getTotalCost()).toBe(1.5);
+  });
+
+  it('should keep recording past the budget and throw on the next check', () => {
+    const tracker = new CostTracker(createTestSession(0.02));
+
+    tracker.record('prd-analysis', createUsage());
+    expect(() => tracker.assertWithinBudget()).not.toThrow();
+
+    // The request that crosses the budget has been paid for, so it is kept
+    expect(() => tracker.record('figma-analysis', createUsage())).not.toThrow();
+    expect(() => tracker.assertWithinBudget()).toThrow(BudgetExceededError);
+    expect(tracker.getTotalCost()).toBe(0.021);
+  });
+
+  it('should never throw without a budget', () => {
+    const tracker = new CostTracker(createTestSession());
+
+    tracker.record('prd-analysis', createUsage({ costUsd: 1000 }));
+
+    expect(() => tracker.assertWithinBudget()).not.toThrow();
+  });
+});
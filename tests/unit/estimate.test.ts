@@ -0,0 +1,139 @@
+/**
+ * Unit tests for pre-flight cost estimation
+ *
+ * Tests token estimates from templates and content, output caps and pricing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { estimateStepCosts, estimateTokens } from '../../src/workflows/estimate.js';
+import { loadPrompt } from '../../src/utils/prompts.js';
+import type { ProviderInfo } from '../../src/providers/types.js';
+
+const provider: ProviderInfo = {
+  name: 'Anthropic Claude',
+  model: 'claude-sonnet-4-5-20250929',
+  inputCostPer1K: 0.003,
+  outputCostPer1K: 0.015,
+};
+
+describe('Cost Estimation', () => {
+  it('should estimate roughly 4 characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+
+  it('should include the prompt template and content in input tokens', async () => {
+    const prdContent = 'x'.repeat(4000);
+    const estimate = await estimateStepCosts(
+      [{ id: 'prd-analysis', name: 'PRD Analysis' }],
+      { prdContent },
+      provider
+    );
+
+    const templateTokens = estimateTokens(await loadPrompt('prd-analyzer'));
+    const step = estimate.steps[0]!;
+
+    expect(step.llm).toBe(true);
+    expect(step.input_tokens).toBe(templateTokens + 1000);
+    expect(step.output_tokens).toBe(1500);
+    expect(step.estimated_cost).toBeCloseTo(
+      ((templateTokens + 1000) / 1000) * 0.003 + (1500 / 1000) * 0.015
+    );
+  });
+
+  it('should cap output tokens at the step maximum', async () => {
+    const estimate = await estimateStepCosts(
+      [{ id: 'prd-analysis', name: 'PRD Analysis' }],
+      { prdContent: 'x'.repeat(400_000) },
+      provider
+    );
+
+    expect(estimate.steps[0]?.output_tokens).toBe(8000);
+  });
+
+  it('should report steps without LLM calls as free and sum the totals', async () => {
+    const estimate = await estimateStepCosts(
+      [
+        { id: 'prd-analysis', name: 'PRD Analysis' },
+        { id: 'figma-analysis', name: 'Figma Analysis' },
+        { id: 'validation', name: 'Requirements Validation' },
+      ],
+      { prdContent: 'x'.repeat(4000), figmaContent: '{"document": {}}' },
+      provider
+    );
+
+    expect(estimate.steps.map((s) => s.llm)).toEqual([true, true, false]);
+    expect(estimate.steps[2]?.estimated_cost).toBe(0);
+    expect(estimate.estimated_cost).toBeCloseTo(
+      estimate.steps.reduce((sum, s) => sum + s.estimated_cost, 0)
+    );
+    expect(estimate.input_tokens).toBe(
+      estimate.steps.reduce((sum, s) => sum + s.input_tokens, 0)
+    );
+  });
+
+  it('should cost the enabled semantic passes and every clarification round', async () => {
+    const steps = [
+      { id: 'prd-analysis' as const, name: 'PRD Analysis' },
+      { id: 'validation' as const, name: 'Requirements Validation' },
+      { id: 'clarification' as const, name: 'Clarification' },
+    ];
+    const inputs = { prdContent: 'x'.repeat(4000), figmaContent: 'y'.repeat(8000) };
+
+    const templateTokens = async (template: Parameters<typeof loadPrompt>[0]) =>
+      estimateTokens(await loadPrompt(template));
+    // Requirements (1500 tokens) and components (1000 tokens) from the earlier steps
+    const artifactTokens = 1500 + 1000;
+    const traceability = {
+      input: (await templateTokens('traceability-matcher')) + artifactTokens,
+      output: 625,
+    };
+    const questions = {
+      input: (await templateTokens('clarification-manager')) + artifactTokens,
+      output: 1250,
+    };
+
+    const plain = await estimateStepCosts(steps, { ...inputs, maxClarificationRounds: 3 }, provider);
+    expect(plain.steps.map((s) => s.llm)).toEqual([true, false, false]);
+
+    const semantic = await estimateStepCosts(
+      steps,
+      {
+        ...inputs,
+        semanticConflicts: true,
+        semanticMatching: true,
+        semanticQuestions: true,
+        maxClarificationRounds: 3,
+      },
+      provider
+    );
+    const [prdAnalysis, validation, clarification] = semantic.steps;
+
+    expect(prdAnalysis).toMatchObject({
+      input_tokens: plain.steps[0]!.input_tokens + (await templateTokens('conflict-analyzer')) + 1500,
+      output_tokens: 1500 + 375,
+    });
+    expect(validation).toMatchObject({
+      llm: true,
+      input_tokens: traceability.input,
+      output_tokens: traceability.output,
+    });
+    // Questions in 3 rounds, re-validation before rounds 2 and 3
+    expect(clarification).toMatchObject({
+      llm: true,
+      input_tokens: 3 * questions.input + 2 * traceability.input,
+      output_tokens: 3 * questions.output + 2 * traceability.output,
+    });
+  });
+
+  it('should skip semantic matching without a design to match', async () => {
+    const estimate = await estimateStepCosts(
+      [{ id: 'validation', name: 'Requirements Validation' }],
+      { prdContent: 'x'.repeat(4000), semanticMatching: true },
+      provider
+    );
+
+    expect(estimate.steps[0]).toMatchObject({ llm: false, estimated_cost: 0 });
+  });
+});
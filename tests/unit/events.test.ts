@@ -0,0 +1,147 @@
+/**
+ * Unit tests for the workflow event bus and its subscribers
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PassThrough } from 'stream';
+import {
+  WorkflowEventBus,
+  subscribeConsole,
+  subscribeJSONLines,
+  createLLMEventHandlers,
+  type WorkflowEvent,
+} from '../../src/utils/events.js';
+
+describe('Workflow Events', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('WorkflowEventBus', () => {
+    it('should deliver typed events with a timestamp', () => {
+      const events = new WorkflowEventBus();
+      const listener = vi.fn();
+      events.on('checkpoint-saved', listener);
+
+      events.emit('checkpoint-saved', { session_id: 'sess-1234567890123', step: 'validation' });
+
+      expect(listener).toHaveBeenCalledWith({
+        type: 'checkpoint-saved',
+        session_id: 'sess-1234567890123',
+        step: 'validation',
+        timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      });
+    });
+
+    it('should deliver every event to catch-all subscribers until unsubscribed', () => {
+      const events = new WorkflowEventBus();
+      const received: WorkflowEvent[] = [];
+      const unsubscribe = events.onAny((event) => received.push(event));
+
+      events.info('Hello');
+      events.emit('step-skipped', {
+        step: 'figma-analysis',
+        name: 'Figma Analysis',
+        position: '2/5',
+        reason: 'disabled',
+      });
+      unsubscribe();
+      events.warn('Ignored');
+
+      expect(received.map((event) => event.type)).toEqual(['log', 'step-skipped']);
+    });
+  });
+
+  describe('subscribeConsole', () => {
+    it('should render step and log events as the console progress log', () => {
+      const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const events = new WorkflowEventBus();
+      subscribeConsole(events);
+
+      events.emit('step-started', { step: 'prd-analysis', name: 'PRD Analysis', icon: '📄', position: '1/5' });
+      events.emit('step-completed', {
+        step: 'prd-analysis',
+        name: 'PRD Analysis',
+        duration_ms: 42,
+        cache_hit: true,
+        estimated_cost: 0.021,
+      });
+      events.emit('gap-detected', {
+        gap: {
+          id: 'GAP-001',
+          type: 'missing_ui',
+          severity: 'high',
+          description: 'No UI',
+          stakeholder: ['design'],
+        },
+      });
+      events.warn('Careful');
+
+      expect(log.mock.calls.map((call) => call[0])).toEqual([
+        '📄 Step 1/5: PRD Analysis...',
+        '✅ PRD Analysis complete (42ms, cached, $0.0210)',
+        '',
+      ]);
+      expect(warn).toHaveBeenCalledWith('Careful');
+    });
+  });
+
+  describe('subscribeJSONLines', () => {
+    it('should write one JSON object per event', () => {
+      const output = new PassThrough();
+      const events = new WorkflowEventBus();
+      subscribeJSONLines(events, output);
+
+      events.info('Starting');
+      events.emit('llm-call', {
+        skill: 'prd-analyzer',
+        provider: 'Local',
+        model: 'llama3.1',
+        input_tokens: 100,
+        output_tokens: 20,
+        estimated_cost: 0,
+      });
+
+      const lines = String(output.read()).trim().split('\n').map((line) => JSON.parse(line));
+      expect(lines).toEqual([
+        expect.objectContaining({ type: 'log', level: 'info', message: 'Starting' }),
+        expect.objectContaining({ type: 'llm-call', skill: 'prd-analyzer', input_tokens: 100 }),
+      ]);
+    });
+  });
+
+  describe('createLLMEventHandlers', () => {
+    it('should emit llm-call and fallback events and forward to the caller', () => {
+      const events = new WorkflowEventBus();
+      const received: WorkflowEvent[] = [];
+      events.onAny((event) => received.push(event));
+      const onUsage = vi.fn();
+
+      const handlers = createLLMEventHandlers(events, 'figma-analyzer', { onUsage });
+      handlers.onUsage({
+        inputTokens: 10,
+        outputTokens: 5,
+        costUsd: 0.001,
+        provider: 'OpenAI GPT-4',
+        model: 'gpt-4o',
+      });
+      handlers.onFallback({
+        failedProvider: 'anthropic',
+        reason: '529 overloaded',
+        activeProvider: 'openai',
+        timestamp: new Date(),
+      });
+
+      expect(onUsage).toHaveBeenCalledOnce();
+      expect(received).toEqual([
+        expect.objectContaining({ type: 'llm-call', skill: 'figma-analyzer', estimated_cost: 0.001 }),
+        expect.objectContaining({
+          type: 'fallback',
+          failed_provider: 'anthropic',
+          active_provider: 'openai',
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Unit tests for CLI exit codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { EXIT_CODES, exitCodeForError } from '../../src/utils/exit-codes.js';
+import {
+  WorkflowError,
+  ValidationError,
+  ConfigurationError,
+  BudgetExceededError,
+  ProviderError,
+} from '../../src/utils/errors.js';
+
+describe('Exit Codes', () => {
+  it('should use distinct codes', () => {
+    const codes = Object.values(EXIT_CODES);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(EXIT_CODES.success).toBe(0);
+  });
+
+  it('should map known errors through the cause chain', () => {
+    const wrap = (cause: Error) =>
+      new WorkflowError('Discovery workflow failed', 'discovery-workflow', cause);
+    const abort = Object.assign(new Error('Request cancelled'), { name: 'AbortError' });
+    const zodError = z.object({ id: z.string() }).safeParse({}).error!;
+
+    expect(exitCodeForError(wrap(new ValidationError('bad', 'Requirements', [])))).toBe(
+      EXIT_CODES.validationFailed
+    );
+    expect(exitCodeForError(wrap(zodError))).toBe(EXIT_CODES.validationFailed);
+    expect(exitCodeForError(wrap(new BudgetExceededError(1.2, 1)))).toBe(EXIT_CODES.paused);
+    expect(exitCodeForError(wrap(abort))).toBe(EXIT_CODES.paused);
+    expect(exitCodeForError(wrap(new ConfigurationError('missing', 'AI_PROVIDER')))).toBe(
+      EXIT_CODES.credentialsMissing
+    );
+    expect(
+      exitCodeForError(wrap(Object.assign(new Error('401 Invalid API key'), { status: 401 })))
+    ).toBe(EXIT_CODES.credentialsMissing);
+  });
+
+  it('should fall back to the generic failure code', () => {
+    expect(exitCodeForError(new ProviderError('Overloaded', 'Anthropic Claude', true))).toBe(
+      EXIT_CODES.failure
+    );
+    expect(exitCodeForError('not an error')).toBe(EXIT_CODES.failure);
+  });
+});
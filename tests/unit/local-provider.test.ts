@@ -0,0 +1,181 @@
+/**
+ * Unit tests for the local OpenAI-compatible provider
+ *
+ * Runs against a stub HTTP server implementing /v1/chat/completions
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { z } from 'zod';
+import { LocalProvider } from '../../src/providers/local.js';
+import { createLLMProvider, resetCircuitBreakers } from '../../src/providers/factory.js';
+
+interface ChatRequest {
+  model: string;
+  messages: Array<{ role: string; content: string }>;
+  response_format?: { type: string };
+}
+
+const OutputSchema = z.object({ title: z.string(), priority: z.enum(['high', 'low']) });
+
+describe('Local Provider', () => {
+  let server: Server;
+  let baseURL: string;
+  let replies: string[];
+  let requests: ChatRequest[];
+  /** Responses held back to simulate a provider that stopped answering */
+  let stalled: Array<() => void> | undefined;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        requests.push(JSON.parse(body));
+        if (stalled) {
+          stalled.push(() => res.destroy());
+          return;
+        }
+        const content = replies.shift() ?? 'ok';
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(
+          JSON.stringify({
+            id: `chatcmpl-${requests.length}`,
+            object: 'chat.completion',
+            created: 0,
+            model: 'llama3.1',
+            choices: [
+              { index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' },
+            ],
+            usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+          })
+        );
+      });
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    replies = [];
+    requests = [];
+    stalled = undefined;
+  });
+
+  it('should send chat completions to the configured endpoint', async () => {
+    replies.push('Hello from llama');
+    const provider = new LocalProvider(baseURL, 'qwen2.5');
+
+    const text = await provider.generateText('Say hello');
+
+    expect(text).toBe('Hello from llama');
+    expect(requests[0]?.model).toBe('qwen2.5');
+    expect(requests[0]?.messages.at(-1)?.content).toBe('Say hello');
+  });
+
+  it('should return structured output validated against the schema', async () => {
+    replies.push('{"title": "Login", "priority": "high"}');
+    const provider = new LocalProvider(baseURL);
+
+    const result = await provider.generateStructured('Extract', OutputSchema);
+
+    expect(result).toEqual({ title: 'Login', priority: 'high' });
+    expect(requests[0]?.response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should feed validation errors back and retry', async () => {
+    replies.push('{"title": "Login"', '{"title": "Login", "priority": "urgent"}', '{"title": "Login", "priority": "low"}');
+    const provider = new LocalProvider(baseURL);
+
+    const result = await provider.generateStructured('Extract', OutputSchema);
+
+    expect(result).toEqual({ title: 'Login', priority: 'low' });
+    expect(requests).toHaveLength(3);
+    expect(requests[1]?.messages.at(-1)?.content).toContain('not valid JSON');
+    expect(requests[2]?.messages.at(-1)?.content).toContain('priority:');
+    expect(requests[2]?.messages.at(-2)).toEqual({
+      role: 'assistant',
+      content: '{"title": "Login", "priority": "urgent"}',
+    });
+  });
+
+  it('should give up after the repair attempts are exhausted', async () => {
+    replies.push('{}', '{}');
+    const provider = new LocalProvider(baseURL, undefined, undefined, 1);
+
+    await expect(provider.generateStructured('Extract', OutputSchema)).rejects.toThrow(
+      'invalid structured output after 2 attempts'
+    );
+  });
+
+  it('should report usage at zero cost', async () => {
+    replies.push('Hi');
+    const onUsage = vi.fn();
+
+    await new LocalProvider(baseURL).generateText('Hi', { onUsage });
+
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ inputTokens: 120, outputTokens: 30, costUsd: 0, provider: 'Local' })
+    );
+  });
+
+  describe('createLLMProvider', () => {
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+      delete process.env['ANTHROPIC_API_KEY'];
+      delete process.env['OPENAI_API_KEY'];
+      delete process.env['GOOGLE_API_KEY'];
+      process.env['LOCAL_LLM_BASE_URL'] = baseURL;
+      process.env['LOCAL_LLM_MODEL'] = 'llama3.1';
+    });
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+      stalled?.forEach((release) => release());
+      resetCircuitBreakers();
+    });
+
+    it('should create the local provider when selected', async () => {
+      process.env['AI_PROVIDER'] = 'local';
+
+      const provider = await createLLMProvider();
+
+      expect(provider.getInfo()).toMatchObject({ name: 'Local', model: 'llama3.1' });
+    });
+
+    it('should fall back to the local provider at the end of the chain', async () => {
+      process.env['AI_PROVIDER'] = 'anthropic';
+      const onFallback = vi.fn();
+
+      const provider = await createLLMProvider(onFallback);
+
+      expect(provider.getInfo().name).toBe('Local');
+      expect(onFallback).toHaveBeenCalledWith(
+        expect.objectContaining({ failedProvider: 'anthropic', activeProvider: 'local' })
+      );
+    });
+
+    it('should share the open circuit between providers created by separate calls', async () => {
+      process.env['AI_PROVIDER'] = 'local';
+      process.env['AI_MAX_RETRIES'] = '0';
+      process.env['AI_REQUEST_TIMEOUT_MS'] = '50';
+      stalled = [];
+
+      for (let call = 0; call < 3; call++) {
+        await expect((await createLLMProvider()).generateText('hi')).rejects.toThrow('timed out');
+      }
+      expect(requests).toHaveLength(3);
+
+      await expect((await createLLMProvider()).generateText('hi')).rejects.toThrow('Circuit open');
+      expect(requests).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Unit tests for the workflow pipeline engine
+ *
+ * Tests DAG ordering, parallel stages, skipping, checkpointing and custom steps
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { WorkflowPipeline, type PipelineStep } from '../../src/workflows/pipeline.js';
+import { CostTracker } from '../../src/utils/cost-tracker.js';
+import { BudgetExceededError } from '../../src/utils/errors.js';
+import type { Session } from '../../src/types/session.js';
+
+function createTestSession(): Session {
+  return {
+    session_id: 'sess-1732278750345',
+    current_step: 'prd-analysis',
+    status: 'in-progress',
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    prd_source: './test-prd.md',
+    outputs: {},
+    checkpoints: [],
+    config: {
+      ai_provider: 'anthropic',
+      workflow_timeout_minutes: 30,
+      max_clarification_iterations: 3,
+    },
+  };
+}
+
+function createStep(overrides: Partial<PipelineStep> & Pick<PipelineStep, 'id'>): PipelineStep {
+  return {
+    name: overrides.id,
+    dependsOn: [],
+    inputs: [],
+    outputs: [],
+    run: async () => {},
+    ...overrides,
+  };
+}
+
+describe('Workflow Pipeline', () => {
+  let testDir: string;
+  const originalCwd = process.cwd();
+  const noopSave = async () => {};
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'prism-pipeline-test-'));
+    process.chdir(testDir);
+  });
+
+  afterEach(async () => {
+    process.chdir(originalCwd);
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('resolveStages', () => {
+    it('should group independent steps into the same stage', () => {
+      const pipeline = new WorkflowPipeline()
+        .register(createStep({ id: 'prd-analysis' }))
+        .register(createStep({ id: 'figma-analysis' }))
+        .register(createStep({ id: 'validation', dependsOn: ['prd-analysis', 'figma-analysis'] }));
+
+      const stages = pipeline.resolveStages().map((stage) => stage.map((step) => step.id));
+
+      expect(stages).toEqual([['prd-analysis', 'figma-analysis'], ['validation']]);
+    });
+
+    it('should reject unknown dependencies', () => {
+      const pipeline = new WorkflowPipeline().register(
+        createStep({ id: 'validation', dependsOn: ['prd-analysis'] })
+      );
+
+      expect(() => pipeline.resolveStages()).toThrow('unknown step "prd-analysis"');
+    });
+
+    it('should reject dependency cycles', () => {
+      const pipeline = new WorkflowPipeline()
+        .register(createStep({ id: 'custom:a', dependsOn: ['custom:b'] }))
+        .register(createStep({ id: 'custom:b', dependsOn: ['custom:a'] }));
+
+      expect(() => pipeline.resolveStages()).toThrow('Dependency cycle');
+    });
+  });
+
+  describe('getEnabledSteps', () => {
+    it('should leave out steps that do not apply to the session', () => {
+      const pipeline = new WorkflowPipeline()
+        .register(createStep({ id: 'prd-analysis' }))
+        .register(createStep({ id: 'figma-analysis', isEnabled: ({ session }) => !!session.figma_source }))
+        .register(createStep({ id: 'validation', dependsOn: ['prd-analysis', 'figma-analysis'] }));
+      const session = createTestSession();
+      const signal = new AbortController().signal;
+
+      expect(pipeline.getEnabledSteps({ session, signal }).map((step) => step.id)).toEqual([
+        'prd-analysis',
+        'validation',
+      ]);
+      session.figma_source = './design.json';
+      expect(pipeline.getEnabledSteps({ session, signal })).toHaveLength(3);
+    });
+  });
+
+  describe('register', () => {
+    it('should reject custom steps without the custom: prefix', () => {
+      const pipeline = new WorkflowPipeline();
+
+      expect(() =>
+        pipeline.register(createStep({ id: 'security-review' as 'custom:security-review' }))
+      ).toThrow('custom:{name}');
+    });
+
+    it('should reject duplicate step IDs', () => {
+      const pipeline = new WorkflowPipeline().register(createStep({ id: 'prd-analysis' }));
+
+      expect(() => pipeline.register(createStep({ id: 'prd-analysis' }))).toThrow(
+        'already registered'
+      );
+    });
+  });
+
+  describe('run', () => {
+    it('should run independent steps in parallel', async () => {
+      const events: string[] = [];
+      const slowStep = (id: 'prd-analysis' | 'figma-analysis') =>
+        createStep({
+          id,
+          run: async () => {
+            events.push(`${id}:start`);
+            await new Promise((resolve) => setTimeout(resolve, 20));
+            events.push(`${id}:end`);
+          },
+        });
+
+      const pipeline = new WorkflowPipeline()
+        .register(slowStep('prd-analysis'))
+        .register(slowStep('figma-analysis'));
+
+      await pipeline.run(
+        { session: createTestSession(), signal: new AbortController().signal },
+        { saveSession: noopSave }
+      );
+
+      expect(events.slice(0, 2).sort()).toEqual(['figma-analysis:start', 'prd-analysis:start']);
+    });
+
+    it('should checkpoint each step with its outputs and duration', async () => {
+      const session = createTestSession();
+      const pipeline = new WorkflowPipeline()
+        .register(createStep({ id: 'prd-analysis', outputs: ['01-prd-analysis/requirements.yaml'] }))
+        .register(createStep({ id: 'custom:notify', dependsOn: ['prd-analysis'] }));
+
+      const result = await pipeline.run(
+        { session, signal: new AbortController().signal },
+        { saveSession: noopSave }
+      );
+
+      expect(result.completedSteps).toEqual(['prd-analysis', 'custom:notify']);
+      expect(session.checkpoints.map((cp) => cp.step)).toEqual(['prd-analysis', 'custom:notify']);
+      expect(session.checkpoints[0]?.outputs).toEqual([
+        join('.prism', 'sessions', session.session_id, '01-prd-analysis', 'requirements.yaml'),
+      ]);
+      expect(session.checkpoints[0]?.metadata.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(session.current_step).toBe('custom:notify');
+    });
+
+    it('should skip steps that already have a checkpoint', async () => {
+      const session = createTestSession();
+      session.checkpoints.push({
+        step: 'prd-analysis',
+        timestamp: new Date().toISOString(),
+        outputs: [],
+        metadata: { duration_ms: 100 },
+      });
+
+      let ran = false;
+      const pipeline = new WorkflowPipeline().register(
+        createStep({ id: 'prd-analysis', run: async () => { ran = true; } })
+      );
+
+      const result = await pipeline.run(
+        { session, signal: new AbortController().signal },
+        { saveSession: noopSave }
+      );
+
+      expect(ran).toBe(false);
+      expect(result.completedSteps).toEqual([]);
+    });
+
+    it('should run dependents of disabled steps without a checkpoint for them', async () => {
+      const session = createTestSession();
+      const pipeline = new WorkflowPipeline()
+        .register(
+          createStep({ id: 'figma-analysis', outputs: ['02-figma-analysis/components.yaml'], isEnabled: () => false })
+        )
+        .register(
+          createStep({
+            id: 'validation',
+            dependsOn: ['figma-analysis'],
+            inputs: ['02-figma-analysis/components.yaml'],
+          })
+        );
+
+      const result = await pipeline.run(
+        { session, signal: new AbortController().signal },
+        { saveSession: noopSave }
+      );
+
+      expect(result.completedSteps).toEqual(['validation']);
+    });
+
+    it('should fail fast when an upstream artifact is missing', async () => {
+      const session = createTestSession();
+      session.checkpoints.push({
+        step: 'prd-analysis',
+        timestamp: new Date().toISOString(),
+        outputs: [],
+        metadata: { duration_ms: 100 },
+      });
+
+      const pipeline = new WorkflowPipeline()
+        .register(createStep({ id: 'prd-analysis', outputs: ['01-prd-analysis/requirements.yaml'] }))
+        .register(
+          createStep({
+            id: 'validation',
+            dependsOn: ['prd-analysis'],
+            inputs: ['01-prd-analysis/requirements.yaml'],
+          })
+        );
+
+      await expect(
+        pipeline.run({ session, signal: new AbortController().signal }, { saveSession: noopSave })
+      ).rejects.toThrow('Missing input 01-prd-analysis/requirements.yaml');
+
+      // Succeeds once the artifact exists
+      const artifactDir = join('.prism', 'sessions', session.session_id, '01-prd-analysis');
+      await mkdir(artifactDir, { recursive: true });
+      await writeFile(join(artifactDir, 'requirements.yaml'), 'requirements: []');
+
+      const result = await pipeline.run(
+        { session, signal: new AbortController().signal },
+        { saveSession: noopSave }
+      );
+      expect(result.completedSteps).toEqual(['validation']);
+    });
+
+    it('should stop before the next stage when aborted', async () => {
+      const controller = new AbortController();
+      const pipeline = new WorkflowPipeline()
+        .register(createStep({ id: 'prd-analysis', run: async () => controller.abort() }))
+        .register(createStep({ id: 'validation', dependsOn: ['prd-analysis'] }));
+
+      const result = await pipeline.run(
+        { session: createTestSession(), signal: controller.signal },
+        { saveSession: noopSave }
+      );
+
+      expect(result.aborted).toBe(true);
+      expect(result.completedSteps).toEqual(['prd-analysis']);
+    });
+  });
+
+  describe('invalidate', () => {
+    it('should remove the step and everything downstream of it', () => {
+      const session = createTestSession();
+      for (const step of ['prd-analysis', 'figma-analysis', 'validation', 'clarification'] as const) {
+        session.checkpoints.push({
+          step,
+          timestamp: new Date().toISOString(),
+          outputs: [],
+          metadata: { duration_ms: 100 },
+        });
+      }
+
+      const pipeline = new WorkflowPipeline()
+        .register(createStep({ id: 'prd-analysis' }))
+        .register(createStep({ id: 'figma-analysis' }))
+        .register(createStep({ id: 'validation', dependsOn: ['prd-analysis', 'figma-analysis'] }))
+        .register(createStep({ id: 'clarification', dependsOn: ['validation'] }));
+
+      const invalidated = pipeline.invalidate(session, 'prd-analysis');
+
+      expect(invalidated).toEqual(['prd-analysis', 'validation', 'clarification']);
+      expect(session.checkpoints.map((cp) => cp.step)).toEqual(['figma-analysis']);
+      expect(session.current_step).toBe('figma-analysis');
+    });
+
+    it('should reject unknown steps', () => {
+      const pipeline = new WorkflowPipeline().register(createStep({ id: 'prd-analysis' }));
+
+      expect(() => pipeline.invalidate(createTestSession(), 'validation')).toThrow(
+        'Unknown step "validation"'
+      );
+    });
+  });
+
+  describe('stale checkpoints', () => {
+    it('should re-run a step when its input hash changes', async () => {
+      const session = createTestSession();
+      let prdContent = 'v1';
+      let runs = 0;
+
+      const pipeline = new WorkflowPipeline().register(
+        createStep({
+          id: 'prd-analysis',
+          fingerprint: async () => prdContent,
+          run: async () => { runs++; },
+        })
+      );
+      const context = { session, signal: new AbortController().signal };
+
+      await pipeline.run(context, { saveSession: noopSave });
+      await pipeline.run(context, { saveSession: noopSave });
+      expect(runs).toBe(1);
+      expect(session.checkpoints[0]?.metadata.input_hash).toMatch(/^[a-f0-9]{64}$/);
+
+      prdContent = 'v2';
+      const result = await pipeline.run(context, { saveSession: noopSave });
+
+      expect(runs).toBe(2);
+      expect(result.completedSteps).toEqual(['prd-analysis']);
+      expect(session.checkpoints).toHaveLength(1);
+    });
+  });
+
+  describe('cost tracking', () => {
+    const usage = {
+      inputTokens: 1000,
+      outputTokens: 200,
+      costUsd: 0.006,
+      provider: 'Anthropic Claude' as const,
+      model: 'claude-sonnet-4-5-20250929',
+    };
+
+    it('should record step usage in the checkpoint metadata', async () => {
+      const session = createTestSession();
+      const costTracker = new CostTracker(session);
+      const pipeline = new WorkflowPipeline().register(
+        createStep({
+          id: 'prd-analysis',
+          run: async ({ costTracker }) => costTracker?.record('prd-analysis', usage),
+        })
+      );
+
+      await pipeline.run(
+        { session, signal: new AbortController().signal, costTracker },
+        { saveSession: noopSave }
+      );
+
+      expect(session.checkpoints[0]?.metadata).toMatchObject({
+        provider_used: 'Anthropic Claude',
+        input_tokens: 1000,
+        output_tokens: 200,
+        estimated_cost: 0.006,
+      });
+      expect(session.usage?.estimated_cost).toBe(0.006);
+    });
+
+    it('should not start a stage once the budget is reached', async () => {
+      const session = createTestSession();
+      session.config.max_cost_usd = 0.005;
+      session.usage = { input_tokens: 1000, output_tokens: 200, estimated_cost: 0.006 };
+      let prdAnalysisRan = false;
+
+      const pipeline = new WorkflowPipeline().register(
+        createStep({
+          id: 'prd-analysis',
+          run: async () => { prdAnalysisRan = true; },
+        })
+      );
+
+      await expect(
+        pipeline.run(
+          { session, signal: new AbortController().signal, costTracker: new CostTracker(session) },
+          { saveSession: noopSave }
+        )
+      ).rejects.toThrow(BudgetExceededError);
+
+      expect(prdAnalysisRan).toBe(false);
+    });
+
+    it('should keep the step whose request reaches the budget', async () => {
+      const session = createTestSession();
+      session.config.max_cost_usd = 0.01;
+      let validationRan = false;
+
+      const pipeline = new WorkflowPipeline()
+        .register(
+          createStep({
+            id: 'prd-analysis',
+            run: async ({ costTracker }) => {
+              costTracker?.record('prd-analysis', usage);
+              costTracker?.record('prd-analysis', usage);
+            },
+          })
+        )
+        .register(
+          createStep({
+            id: 'validation',
+            dependsOn: ['prd-analysis'],
+            run: async () => { validationRan = true; },
+          })
+        );
+
+      await expect(
+        pipeline.run(
+          { session, signal: new AbortController().signal, costTracker: new CostTracker(session) },
+          { saveSession: noopSave }
+        )
+      ).rejects.toThrow('Budget of $0.01 reached');
+
+      expect(session.checkpoints.map((cp) => cp.step)).toEqual(['prd-analysis']);
+      expect(session.checkpoints[0]?.metadata?.estimated_cost).toBeCloseTo(0.012);
+      expect(validationRan).toBe(false);
+    });
+
+    it('should stop a step before its next request once the budget is reached', async () => {
+      const session = createTestSession();
+      session.config.max_cost_usd = 0.01;
+      let requests = 0;
+      let stepFinished = false;
+
+      // Same order as a provider: check the budget, send, then report usage
+      const request = (costTracker?: CostTracker) => {
+        costTracker?.assertWithinBudget();
+        requests++;
+        costTracker?.record('prd-analysis', usage);
+      };
+
+      const pipeline = new WorkflowPipeline().register(
+        createStep({
+          id: 'prd-analysis',
+          run: async ({ costTracker }) => {
+            request(costTracker);
+            request(costTracker);
+            request(costTracker);
+            stepFinished = true;
+          },
+        })
+      );
+
+      await expect(
+        pipeline.run(
+          { session, signal: new AbortController().signal, costTracker: new CostTracker(session) },
+          { saveSession: noopSave }
+        )
+      ).rejects.toThrow('Budget of $0.01 reached');
+
+      expect(requests).toBe(2);
+      expect(stepFinished).toBe(false);
+      expect(session.checkpoints).toEqual([]);
+      expect(session.usage?.estimated_cost).toBeCloseTo(0.012);
+    });
+  });
+});
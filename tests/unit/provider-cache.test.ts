@@ -0,0 +1,138 @@
+/**
+ * Unit tests for the structured LLM result cache
+ *
+ * Tests cache keys, hits, misses and the --no-cache bypass
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { z } from 'zod';
+import { generateStructuredWithCache } from '../../src/providers/cache.js';
+import { FallbackProvider } from '../../src/providers/middleware.js';
+import type { LLMProvider, ProviderInfo } from '../../src/providers/types.js';
+
+const OutputSchema = z.object({ answer: z.string() });
+
+function createMockProvider(
+  model = 'claude-sonnet-4-5-20250929',
+  name: ProviderInfo['name'] = 'Anthropic Claude'
+) {
+  return {
+    generateText: vi.fn(),
+    streamText: vi.fn(),
+    generateStructured: vi.fn(async () => ({ answer: 'from-llm' })),
+    getInfo: vi.fn(() => ({
+      name,
+      model,
+      inputCostPer1K: 0.003,
+      outputCostPer1K: 0.015,
+    })),
+    estimateCost: vi.fn(() => 0),
+  } satisfies LLMProvider;
+}
+
+describe('Structured LLM Cache', () => {
+  let cacheDir: string;
+
+  beforeEach(async () => {
+    cacheDir = await mkdtemp(join(tmpdir(), 'prism-cache-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it('should call the provider on miss and serve the cached result on hit', async () => {
+    const llm = createMockProvider();
+    const cache = { inputHash: 'input-1', templateHash: 'template-1', cacheDir };
+
+    const first = await generateStructuredWithCache(llm, 'prompt', OutputSchema, undefined, cache);
+    const second = await generateStructuredWithCache(llm, 'other prompt', OutputSchema, undefined, cache);
+
+    expect(first.cacheHit).toBe(false);
+    expect(second.cacheHit).toBe(true);
+    expect(second.result).toEqual({ answer: 'from-llm' });
+    expect(second.cacheKey).toBe(first.cacheKey);
+    expect(llm.generateStructured).toHaveBeenCalledOnce();
+  });
+
+  it('should miss when the input, template or model changes', async () => {
+    const llm = createMockProvider();
+    await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, {
+      inputHash: 'input-1',
+      templateHash: 'template-1',
+      cacheDir,
+    });
+
+    const changedInput = await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, {
+      inputHash: 'input-2',
+      templateHash: 'template-1',
+      cacheDir,
+    });
+    const changedTemplate = await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, {
+      inputHash: 'input-1',
+      templateHash: 'template-2',
+      cacheDir,
+    });
+    const changedModel = await generateStructuredWithCache(llm, 'p', OutputSchema, { model: 'claude-opus' }, {
+      inputHash: 'input-1',
+      templateHash: 'template-1',
+      cacheDir,
+    });
+
+    expect(changedInput.cacheHit).toBe(false);
+    expect(changedTemplate.cacheHit).toBe(false);
+    expect(changedModel.cacheHit).toBe(false);
+    expect(llm.generateStructured).toHaveBeenCalledTimes(4);
+  });
+
+  it('should file a fallback provider\'s result under that provider', async () => {
+    const primary = createMockProvider();
+    primary.generateStructured.mockRejectedValue(Object.assign(new Error('429 Too Many Requests'), { status: 429 }));
+    const secondary = createMockProvider('gpt-4o', 'OpenAI GPT-4');
+    const llm = new FallbackProvider([
+      { name: 'anthropic', provider: primary },
+      { name: 'openai', provider: secondary },
+    ]);
+    const cache = { inputHash: 'input-1', templateHash: 'template-1', cacheDir };
+
+    const first = await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, cache);
+    const entry = JSON.parse(await readFile(join(cacheDir, `${first.cacheKey}.json`), 'utf-8'));
+    primary.generateStructured.mockResolvedValue({ answer: 'from-primary' });
+    const fresh = new FallbackProvider([
+      { name: 'anthropic', provider: primary },
+      { name: 'openai', provider: secondary },
+    ]);
+    const second = await generateStructuredWithCache(fresh, 'p', OutputSchema, undefined, cache);
+
+    expect(entry).toMatchObject({ provider: 'OpenAI GPT-4', model: 'gpt-4o' });
+    expect(second).toMatchObject({ cacheHit: false, result: { answer: 'from-primary' } });
+  });
+
+  it('should bypass the cache entirely when disabled', async () => {
+    const llm = createMockProvider();
+    const cache = { enabled: false, inputHash: 'input-1', templateHash: 'template-1', cacheDir };
+
+    await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, cache);
+    const second = await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, cache);
+
+    expect(second.cacheHit).toBe(false);
+    expect(llm.generateStructured).toHaveBeenCalledTimes(2);
+    expect(await readdir(cacheDir)).toEqual([]);
+  });
+
+  it('should regenerate when a cached entry no longer matches the schema', async () => {
+    const llm = createMockProvider();
+    const cache = { inputHash: 'input-1', templateHash: 'template-1', cacheDir };
+
+    const first = await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, cache);
+    await writeFile(join(cacheDir, `${first.cacheKey}.json`), JSON.stringify({ result: { wrong: 1 } }));
+
+    const second = await generateStructuredWithCache(llm, 'p', OutputSchema, undefined, cache);
+
+    expect(second.cacheHit).toBe(false);
+    expect(llm.generateStructured).toHaveBeenCalledTimes(2);
+  });
+});
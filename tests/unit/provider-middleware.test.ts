@@ -0,0 +1,277 @@
+/**
+ * Unit tests for provider middleware
+ *
+ * Covers retry, request timeout, circuit breaker, pre-request checks and per-call fallback
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import type { LLMProvider, GenerateOptions, ProviderInfo } from '../../src/providers/types.js';
+import {
+  FallbackProvider,
+  applyMiddleware,
+  withRetry,
+  withTimeout,
+  withCircuitBreaker,
+  withBeforeRequest,
+  isTransientError,
+} from '../../src/providers/middleware.js';
+import { ProviderError, BudgetExceededError } from '../../src/utils/errors.js';
+
+const rateLimited = () => Object.assign(new Error('429 Too Many Requests'), { status: 429 });
+const unauthorized = () => Object.assign(new Error('401 Invalid API key'), { status: 401 });
+
+/**
+ * Helper: Provider whose generateText answers from a list of results
+ */
+function createScriptedProvider(
+  name: ProviderInfo['name'],
+  script: Array<string | Error | (() => Promise<string>)>
+): LLMProvider & { generateText: ReturnType<typeof vi.fn> } {
+  const generateText = vi.fn(async (_prompt: string, _options?: GenerateOptions) => {
+    const next = script.shift() ?? 'done';
+    if (next instanceof Error) {
+      throw next;
+    }
+    return typeof next === 'function' ? next() : next;
+  });
+
+  return {
+    generateText,
+    async *streamText(prompt: string, options?: GenerateOptions) {
+      yield await generateText(prompt, options);
+      yield '!';
+    },
+    async generateStructured<T>(prompt: string, schema: z.ZodSchema<T>, options?: GenerateOptions) {
+      return schema.parse(JSON.parse(await generateText(prompt, options)));
+    },
+    getInfo: () => ({ name, model: 'test', inputCostPer1K: 0, outputCostPer1K: 0 }),
+    estimateCost: () => 0,
+  };
+}
+
+describe('Provider Middleware', () => {
+  describe('isTransientError', () => {
+    it('should classify errors by HTTP status and message', () => {
+      expect(isTransientError(rateLimited())).toBe(true);
+      expect(isTransientError(Object.assign(new Error('Overloaded'), { status: 529 }))).toBe(true);
+      expect(isTransientError(unauthorized())).toBe(false);
+      expect(isTransientError(new Error('Connection error.'))).toBe(true);
+      expect(isTransientError(new ProviderError('Request timed out', 'Local', true))).toBe(true);
+      expect(isTransientError(Object.assign(new Error('aborted'), { name: 'AbortError' }))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry transient failures', async () => {
+      const inner = createScriptedProvider('Anthropic Claude', [rateLimited(), rateLimited(), 'ok']);
+      const provider = applyMiddleware(inner, withRetry({ maxRetries: 2, baseDelayMs: 1 }));
+
+      await expect(provider.generateText('Hi')).resolves.toBe('ok');
+      expect(inner.generateText).toHaveBeenCalledTimes(3);
+    });
+
+    it('should give up after the configured retries', async () => {
+      const inner = createScriptedProvider('Anthropic Claude', [rateLimited(), rateLimited()]);
+      const provider = applyMiddleware(inner, withRetry({ maxRetries: 1, baseDelayMs: 1 }));
+
+      await expect(provider.generateText('Hi')).rejects.toThrow('429');
+      expect(inner.generateText).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry permanent failures', async () => {
+      const inner = createScriptedProvider('Anthropic Claude', [unauthorized(), 'ok']);
+      const provider = applyMiddleware(inner, withRetry({ baseDelayMs: 1 }));
+
+      await expect(provider.generateText('Hi')).rejects.toThrow('401');
+      expect(inner.generateText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry structured requests and streams before the first chunk', async () => {
+      const inner = createScriptedProvider('Anthropic Claude', [
+        rateLimited(),
+        '{"ok": true}',
+        rateLimited(),
+        'streamed',
+      ]);
+      const provider = applyMiddleware(inner, withRetry({ baseDelayMs: 1 }));
+
+      await expect(
+        provider.generateStructured('Hi', z.object({ ok: z.boolean() }))
+      ).resolves.toEqual({ ok: true });
+
+      const chunks: string[] = [];
+      for await (const chunk of provider.streamText('Hi')) {
+        chunks.push(chunk);
+      }
+      expect(chunks).toEqual(['streamed', '!']);
+    });
+
+    it('should stop waiting for the next attempt when the signal aborts', async () => {
+      const controller = new AbortController();
+      const inner = createScriptedProvider('Anthropic Claude', [rateLimited(), 'ok']);
+      const provider = applyMiddleware(inner, withRetry({ baseDelayMs: 60000, maxDelayMs: 60000 }));
+      const random = vi.spyOn(Math, 'random').mockReturnValue(1);
+
+      try {
+        const request = provider.generateText('Hi', { signal: controller.signal });
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+        expect(inner.generateText).toHaveBeenCalledTimes(1);
+      } finally {
+        random.mockRestore();
+      }
+    });
+  });
+
+  describe('withTimeout', () => {
+    const hang = () => new Promise<string>(() => undefined);
+
+    it('should fail slow requests with a transient error', async () => {
+      const inner = createScriptedProvider('Local', [hang]);
+      const provider = applyMiddleware(inner, withTimeout({ timeoutMs: 20 }));
+
+      const error = await provider.generateText('Hi').catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ProviderError);
+      expect(isTransientError(error)).toBe(true);
+    });
+
+    it('should cancel requests when the workflow signal aborts', async () => {
+      const controller = new AbortController();
+      const inner = createScriptedProvider('Local', [hang]);
+      const provider = applyMiddleware(
+        inner,
+        withTimeout({ timeoutMs: 10000, signal: controller.signal })
+      );
+
+      const request = provider.generateText('Hi');
+      controller.abort();
+
+      await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+      const signal = inner.generateText.mock.calls[0]?.[1]?.signal;
+      expect(signal).toBeInstanceOf(AbortSignal);
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('withCircuitBreaker', () => {
+    it('should open after repeated failures and close after a successful trial', async () => {
+      vi.useFakeTimers();
+      try {
+        const inner = createScriptedProvider('OpenAI GPT-4', [rateLimited(), rateLimited(), 'ok']);
+        const provider = applyMiddleware(
+          inner,
+          withCircuitBreaker({ failureThreshold: 2, cooldownMs: 1000 })
+        );
+
+        await expect(provider.generateText('Hi')).rejects.toThrow('429');
+        await expect(provider.generateText('Hi')).rejects.toThrow('429');
+        await expect(provider.generateText('Hi')).rejects.toThrow('Circuit open');
+        expect(inner.generateText).toHaveBeenCalledTimes(2);
+
+        vi.advanceTimersByTime(1000);
+
+        await expect(provider.generateText('Hi')).resolves.toBe('ok');
+        await expect(provider.generateText('Hi')).resolves.toBe('done');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should ignore permanent failures', async () => {
+      const inner = createScriptedProvider('OpenAI GPT-4', [unauthorized(), unauthorized(), 'ok']);
+      const provider = applyMiddleware(inner, withCircuitBreaker({ failureThreshold: 2 }));
+
+      await expect(provider.generateText('Hi')).rejects.toThrow('401');
+      await expect(provider.generateText('Hi')).rejects.toThrow('401');
+      await expect(provider.generateText('Hi')).resolves.toBe('ok');
+    });
+  });
+
+  describe('withBeforeRequest', () => {
+    it('should check once per request, outside the retries', async () => {
+      const inner = createScriptedProvider('Anthropic Claude', [rateLimited(), 'ok']);
+      const check = vi.fn();
+      const provider = applyMiddleware(
+        inner,
+        withBeforeRequest(check),
+        withRetry({ maxRetries: 1, baseDelayMs: 1 })
+      );
+
+      await expect(provider.generateText('Hi')).resolves.toBe('ok');
+      expect(check).toHaveBeenCalledOnce();
+      expect(inner.generateText).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not send a request the check rejects', async () => {
+      const inner = createScriptedProvider('Anthropic Claude', ['{"ok":true}']);
+      const provider = applyMiddleware(
+        inner,
+        withBeforeRequest(() => {
+          throw new BudgetExceededError(0.02, 0.01);
+        })
+      );
+
+      await expect(provider.generateText('Hi')).rejects.toThrow(BudgetExceededError);
+      await expect(provider.generateStructured('Hi', z.object({ ok: z.boolean() }))).rejects.toThrow(
+        BudgetExceededError
+      );
+      await expect(provider.streamText('Hi').next()).rejects.toThrow(BudgetExceededError);
+      expect(inner.generateText).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('FallbackProvider', () => {
+    it('should fall back on each call and report the event', async () => {
+      const primary = createScriptedProvider('Anthropic Claude', ['first', rateLimited(), 'third']);
+      const secondary = createScriptedProvider('OpenAI GPT-4', ['second']);
+      const onFallback = vi.fn();
+      const provider = new FallbackProvider(
+        [
+          { name: 'anthropic', provider: primary },
+          { name: 'openai', provider: secondary },
+        ],
+        onFallback
+      );
+
+      await expect(provider.generateText('Hi')).resolves.toBe('first');
+      await expect(provider.generateText('Hi')).resolves.toBe('second');
+      expect(provider.getInfo().name).toBe('OpenAI GPT-4');
+      await expect(provider.generateText('Hi')).resolves.toBe('third');
+
+      expect(onFallback).toHaveBeenCalledOnce();
+      expect(onFallback).toHaveBeenCalledWith(
+        expect.objectContaining({
+          failedProvider: 'anthropic',
+          activeProvider: 'openai',
+          reason: '429 Too Many Requests',
+        })
+      );
+    });
+
+    it('should throw permanent errors without falling back', async () => {
+      const primary = createScriptedProvider('Anthropic Claude', [unauthorized()]);
+      const secondary = createScriptedProvider('OpenAI GPT-4', ['second']);
+      const provider = new FallbackProvider([
+        { name: 'anthropic', provider: primary },
+        { name: 'openai', provider: secondary },
+      ]);
+
+      await expect(provider.generateText('Hi')).rejects.toThrow('401');
+      expect(secondary.generateText).not.toHaveBeenCalled();
+    });
+
+    it('should fail when every provider fails', async () => {
+      const provider = new FallbackProvider([
+        { name: 'anthropic', provider: createScriptedProvider('Anthropic Claude', [rateLimited()]) },
+        { name: 'openai', provider: createScriptedProvider('OpenAI GPT-4', [rateLimited()]) },
+      ]);
+
+      await expect(provider.generateText('Hi')).rejects.toThrow('All AI providers failed');
+    });
+  });
+});
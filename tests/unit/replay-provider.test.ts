@@ -0,0 +1,146 @@
+/**
+ * Unit tests for replay and recording providers
+ *
+ * Tests fixture keys, record/replay round trips and replay misses
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readdir } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { z } from 'zod';
+import {
+  ReplayProvider,
+  RecordingProvider,
+  computeFixtureKey,
+} from '../../src/providers/replay.js';
+import type { LLMProvider } from '../../src/providers/types.js';
+
+const OutputSchema = z.object({ answer: z.string() });
+
+function createLiveProvider() {
+  return {
+    generateText: vi.fn(async (_prompt: string, options?: { onUsage?: Function }) => {
+      options?.onUsage?.({
+        inputTokens: 10,
+        outputTokens: 5,
+        costUsd: 0.0001,
+        provider: 'Anthropic Claude',
+        model: 'claude-sonnet-4-5-20250929',
+      });
+      return 'live text';
+    }),
+    streamText: vi.fn(async function* () {
+      yield 'live ';
+      yield 'stream';
+    }),
+    generateStructured: vi.fn(async () => ({ answer: 'live answer' })),
+    getInfo: vi.fn(() => ({
+      name: 'Anthropic Claude' as const,
+      model: 'claude-sonnet-4-5-20250929',
+      inputCostPer1K: 0.003,
+      outputCostPer1K: 0.015,
+    })),
+    estimateCost: vi.fn(() => 0.0001),
+  } satisfies LLMProvider;
+}
+
+describe('Replay Provider', () => {
+  let fixturesDir: string;
+
+  beforeEach(async () => {
+    fixturesDir = await mkdtemp(join(tmpdir(), 'prism-replay-test-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(fixturesDir, { recursive: true, force: true });
+  });
+
+  describe('computeFixtureKey', () => {
+    it('should ignore session IDs and timestamps in the prompt', () => {
+      const first = computeFixtureKey(
+        'structured',
+        'Session: sess-1732278750345\nDate: 2025-11-22T12:32:30.345Z'
+      );
+      const second = computeFixtureKey(
+        'structured',
+        'Session: sess-1800000000000\nDate: 2026-10-19T08:00:00.000Z'
+      );
+
+      expect(first).toBe(second);
+    });
+
+    it('should distinguish request kinds and prompt content', () => {
+      expect(computeFixtureKey('text', 'prompt')).not.toBe(computeFixtureKey('structured', 'prompt'));
+      expect(computeFixtureKey('text', 'prompt a')).not.toBe(computeFixtureKey('text', 'prompt b'));
+    });
+  });
+
+  it('should replay structured responses recorded from a live provider', async () => {
+    const live = createLiveProvider();
+    const recorder = new RecordingProvider(live, fixturesDir);
+    await recorder.generateStructured('Analyze sess-1732278750345', OutputSchema);
+
+    const replay = new ReplayProvider(fixturesDir);
+    const result = await replay.generateStructured('Analyze sess-1800000000000', OutputSchema);
+
+    expect(result).toEqual({ answer: 'live answer' });
+    expect(await readdir(fixturesDir)).toHaveLength(1);
+  });
+
+  it('should report recordings on stderr, keeping stdout for machine-readable output', async () => {
+    const stdout = vi.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+    try {
+      await new RecordingProvider(createLiveProvider(), fixturesDir).generateText('Summarize');
+
+      expect(stdout).not.toHaveBeenCalled();
+      expect(stderr).toHaveBeenCalledWith(expect.stringMatching(/^📼 Recorded text response \([a-f0-9]{12}\)\n$/));
+    } finally {
+      stdout.mockRestore();
+      stderr.mockRestore();
+    }
+  });
+
+  it('should replay recorded usage at zero cost', async () => {
+    const recorder = new RecordingProvider(createLiveProvider(), fixturesDir);
+    const liveUsage = vi.fn();
+    await recorder.generateText('Hello', { onUsage: liveUsage });
+
+    const onUsage = vi.fn();
+    const text = await new ReplayProvider(fixturesDir).generateText('Hello', { onUsage });
+
+    expect(text).toBe('live text');
+    expect(liveUsage).toHaveBeenCalledOnce();
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ inputTokens: 10, outputTokens: 5, costUsd: 0, provider: 'Replay' })
+    );
+  });
+
+  it('should record streamed text and replay it as one chunk', async () => {
+    const recorder = new RecordingProvider(createLiveProvider(), fixturesDir);
+    const recorded: string[] = [];
+    for await (const chunk of recorder.streamText('Stream please')) {
+      recorded.push(chunk);
+    }
+
+    const replayed: string[] = [];
+    for await (const chunk of new ReplayProvider(fixturesDir).streamText('Stream please')) {
+      replayed.push(chunk);
+    }
+
+    expect(recorded).toEqual(['live ', 'stream']);
+    expect(replayed).toEqual(['live stream']);
+  });
+
+  it('should fail with a clear error when no recording exists', async () => {
+    const replay = new ReplayProvider(fixturesDir);
+
+    await expect(replay.generateStructured('Unrecorded prompt', OutputSchema)).rejects.toThrow(
+      'No recorded structured response'
+    );
+  });
+});
@@ -5,10 +5,11 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
-import { mkdtemp, rm } from 'fs/promises';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { existsSync } from 'fs';
+import { stringify as stringifyYAML } from 'yaml';
 import {
   initSession,
   saveSession,
@@ -18,6 +19,7 @@ import {
   failSession,
   saveCheckpoint,
   listSessions,
+  getSessionStatePath,
 } from '../../src/utils/session.js';
 
 describe('Session Manager', () => {
@@ -92,6 +94,17 @@ describe('Session Manager', () => {
       expect(loaded.checkpoints[0]?.step).toBe('prd-analysis');
     });
 
+    it('should load bare sessions saved by the discovery workflow', async () => {
+      const session = await initSession('./test-prd.md');
+      session.usage = { input_tokens: 1200, output_tokens: 300, estimated_cost: 0.0081 };
+      await writeFile(getSessionStatePath(session.session_id), stringifyYAML(session));
+
+      const loaded = await loadSession(session.session_id);
+
+      expect(loaded.session_id).toBe(session.session_id);
+      expect(loaded.usage?.estimated_cost).toBe(0.0081);
+    });
+
     it('should throw error when loading non-existent session', async () => {
       await expect(loadSession('sess-invalid')).rejects.toThrow('Session file not found');
     });
@@ -1,7 +1,84 @@
-import { describe, it, expect } from 'vitest';
-import { generateClarifications, collectResponses } from '../../../src/skills/clarification-manager.js';
-import type { GapsOutput } from '../../../src/types/gap.js';
-import type { ClarificationResponse } from '../../../src/types/question.js';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  generateClarifications,
+  collectResponses,
+  runInteractiveClarification,
+  loadClarificationSession,
+  exportQuestionsFile,
+  importClarificationAnswers,
+  refineRequirements,
+  selectNewGaps,
+  type ClarificationPrompter,
+} from '../../../src/skills/clarification-manager.js';
+import { parseAnswersFile } from '../../../src/skills/clarification-manager/answer-file.js';
+import { WorkflowEventBus } from '../../../src/utils/events.js';
+import type { Gap, GapsOutput } from '../../../src/types/gap.js';
+import type { RequirementsOutput } from '../../../src/types/requirement.js';
+import type { ClarificationResponse, QuestionsOutput } from '../../../src/types/question.js';
+import { ValidationError } from '../../../src/utils/errors.js';
+
+/**
+ * Prompter that replays scripted answers and records everything shown
+ */
+function scriptedPrompter(answers: string[]): ClarificationPrompter & { output: string[] } {
+  const output: string[] = [];
+  return {
+    output,
+    write: (text) => output.push(text),
+    ask: async (prompt) => {
+      output.push(prompt);
+      const answer = answers.shift();
+      if (answer === undefined) {
+        throw new Error(`Unexpected prompt: ${prompt}`);
+      }
+      return answer;
+    },
+  };
+}
+
+/** Three questions in non-priority order, one per stakeholder type */
+const questions: QuestionsOutput = {
+  metadata: {
+    generated_at: new Date().toISOString(),
+    total_questions: 3,
+    critical_count: 1,
+    high_count: 1,
+    medium_count: 1,
+    low_count: 0,
+  },
+  questions: [
+    {
+      id: 'Q-001',
+      priority: 'medium',
+      stakeholder_type: 'product',
+      question: 'What are the acceptance criteria for "REQ-FUNC-002"?',
+      context: 'Profile requirement lacks criteria',
+      suggestions: ['Define measurable success criteria'],
+      gap_id: 'GAP-001',
+    },
+    {
+      id: 'Q-002',
+      priority: 'critical',
+      stakeholder_type: 'design',
+      question: 'What UI components are needed to implement "REQ-FUNC-001"?',
+      context: 'Login feature has no UI',
+      suggestions: ['Add specific screen mockups to Figma', 'Define the UI component types needed'],
+      gap_id: 'GAP-002',
+    },
+    {
+      id: 'Q-003',
+      priority: 'high',
+      stakeholder_type: 'engineering',
+      question: 'How should we resolve the inconsistency?',
+      context: 'Session timeout differs between REQ-SEC-001 and REQ-SEC-002',
+      suggestions: ['Clarify which is correct'],
+      gap_id: 'GAP-003',
+    },
+  ],
+};
 
 describe('Clarification Manager', () => {
   describe('Question Generation', () => {
@@ -216,4 +293,378 @@ describe('Clarification Manager', () => {
       expect(session.mode).toBe('interactive');
     });
   });
+
+  describe('Interactive Session', () => {
+    let originalCwd: string;
+    let testDir: string;
+
+    beforeEach(async () => {
+      originalCwd = process.cwd();
+      testDir = await mkdtemp(join(tmpdir(), 'prism-clarification-test-'));
+      process.chdir(testDir);
+    });
+
+    afterEach(async () => {
+      process.chdir(originalCwd);
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should ask in priority order and record suggestions, free text and confidence', async () => {
+      const prompter = scriptedPrompter([
+        '2', '0.9', // Q-002: second suggestion
+        '', // Q-003: empty answer is asked again
+        'Sessions expire after 15 minutes', '1.5', '', // invalid confidence, then default
+        's', // Q-001 skipped
+      ]);
+
+      const session = await runInteractiveClarification(questions, 'sess-interactive', {
+        prompter,
+        events: new WorkflowEventBus(),
+      });
+
+      expect(session.completed_at).toBeDefined();
+      expect(session.questions_asked).toBe(3);
+      expect(session.responses).toMatchObject([
+        { question_id: 'Q-002', response: 'Define the UI component types needed', confidence: 0.9 },
+        { question_id: 'Q-003', response: 'Sessions expire after 15 minutes', confidence: 0.8 },
+      ]);
+
+      const headers = prompter.output.filter((line) => /^\[\d\/3\]/.test(line));
+      expect(headers).toEqual([
+        '[1/3] Q-002 (critical, design)',
+        '[2/3] Q-003 (high, engineering)',
+        '[3/3] Q-001 (medium, product)',
+      ]);
+      expect(prompter.output).toContain('   Context: Login feature has no UI');
+      expect(prompter.output).toContain('   1. Add specific screen mockups to Figma');
+
+      expect(await loadClarificationSession('sess-interactive')).toEqual(session);
+    });
+
+    it('should resume after the user stops, skipping answered questions', async () => {
+      const first = await runInteractiveClarification(questions, 'sess-resume', {
+        prompter: scriptedPrompter(['Email and password form', '0.7', 'q']),
+        events: new WorkflowEventBus(),
+      });
+
+      expect(first.completed_at).toBeUndefined();
+      expect(first.questions_answered).toBe(1);
+
+      const prompter = scriptedPrompter(['1', '', 'Name, avatar and bio are required', '1']);
+      const second = await runInteractiveClarification(questions, 'sess-resume', {
+        prompter,
+        events: new WorkflowEventBus(),
+      });
+
+      expect(prompter.output).not.toContain('[1/3] Q-002 (critical, design)');
+      expect(second.started_at).toBe(first.started_at);
+      expect(second.completed_at).toBeDefined();
+      expect(second.responses.map((r) => [r.question_id, r.response, r.confidence])).toEqual([
+        ['Q-002', 'Email and password form', 0.7],
+        ['Q-003', 'Clarify which is correct', 0.8],
+        ['Q-001', 'Name, avatar and bio are required', 1],
+      ]);
+    });
+  });
+
+  describe('File Round-Trip', () => {
+    let originalCwd: string;
+    let testDir: string;
+
+    beforeEach(async () => {
+      originalCwd = process.cwd();
+      testDir = await mkdtemp(join(tmpdir(), 'prism-clarification-file-test-'));
+      process.chdir(testDir);
+    });
+
+    afterEach(async () => {
+      process.chdir(originalCwd);
+      await rm(testDir, { recursive: true, force: true });
+    });
+
+    it('should export Markdown grouped by stakeholder and import the filled-in answers', async () => {
+      const filePath = await exportQuestionsFile(questions, 'sess-file', { events: new WorkflowEventBus() });
+      expect(filePath).toMatch(/04-clarification[\\/]questions\.md$/);
+
+      const exported = await readFile(filePath, 'utf-8');
+      const headings = exported.split('\n').filter((line) => /^#{2,3} /.test(line));
+      expect(headings).toEqual([
+        '## Product',
+        '### Q-001 (medium)',
+        '## Design',
+        '### Q-002 (critical)',
+        '## Engineering',
+        '### Q-003 (high)',
+      ]);
+      expect(exported).toContain('Context: Login feature has no UI');
+      expect(exported).toContain('2. Define the UI component types needed');
+
+      // Q-001 left blank
+      const filled = exported
+        .replace(
+          /(### Q-002[\s\S]*?)Answer:\n\nConfidence: 0.8/,
+          '$1Answer: 2\n\nConfidence: 0.9'
+        )
+        .replace(
+          /(### Q-003[\s\S]*?)Answer:\n\nConfidence: 0.8/,
+          '$1Answer:\nSessions expire after 15 minutes.\nRemember-me keeps users signed in for 30 days.\n\nConfidence: '
+        );
+
+      const session = await importClarificationAnswers(questions, 'sess-file', filled, {
+        answeredBy: 'Product team',
+        events: new WorkflowEventBus(),
+      });
+
+      expect(session).toMatchObject({ mode: 'file', questions_asked: 3, questions_answered: 2 });
+      expect(session.completed_at).toBeDefined();
+      expect(session.responses).toMatchObject([
+        { question_id: 'Q-002', response: 'Define the UI component types needed', confidence: 0.9, answered_by: 'Product team' },
+        {
+          question_id: 'Q-003',
+          response: 'Sessions expire after 15 minutes.\nRemember-me keeps users signed in for 30 days.',
+          confidence: 0.8,
+        },
+      ]);
+      expect(await loadClarificationSession('sess-file')).toEqual(session);
+    });
+
+    it('should read answers back from the YAML and CSV forms', async () => {
+      const yamlPath = await exportQuestionsFile(questions, 'sess-forms', {
+        format: 'yaml',
+        events: new WorkflowEventBus(),
+      });
+      const yamlForm = (await readFile(yamlPath, 'utf-8')).replace('answer: ""', 'answer: Only email and password');
+      expect(parseAnswersFile(yamlForm, 'yaml').find((entry) => entry.answer)).toEqual({
+        question_id: 'Q-001',
+        answer: 'Only email and password',
+        confidence: '0.8',
+      });
+
+      const csvPath = await exportQuestionsFile(questions, 'sess-forms', {
+        format: 'csv',
+        events: new WorkflowEventBus(),
+      });
+      const csv = await readFile(csvPath, 'utf-8');
+      expect(csv.split('\n')[0]).toBe('id,stakeholder_type,priority,question,context,suggestions,answer,confidence');
+
+      const filledCSV = csv.replace(/,,0\.8\n/, ',"Yes, both ""A"" and B",1\n');
+      expect(parseAnswersFile(filledCSV, 'csv')).toEqual([
+        { question_id: 'Q-001', answer: 'Yes, both "A" and B', confidence: '1' },
+        { question_id: 'Q-002', answer: '', confidence: '0.8' },
+        { question_id: 'Q-003', answer: '', confidence: '0.8' },
+      ]);
+    });
+
+    it('should reject unknown question IDs, bad suggestion numbers and confidences', async () => {
+      const filled = [
+        '### Q-002 (critical)', 'Answer: 7', '',
+        '### Q-003 (high)', 'Answer: Keep 15 minutes', 'Confidence: high', '',
+        '### Q-404 (low)', 'Answer: Yes', '',
+      ].join('\n');
+
+      const error = await importClarificationAnswers(questions, 'sess-invalid', filled, {
+        events: new WorkflowEventBus(),
+      }).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).validationErrors).toEqual([
+        'Q-002: no suggestion 7 (choose 1-2)',
+        'Q-003: confidence must be a number from 0 to 1, got "high"',
+        'Q-404: not a question of session sess-invalid',
+      ]);
+      expect(await loadClarificationSession('sess-invalid')).toBeUndefined();
+
+      await expect(
+        importClarificationAnswers(questions, 'sess-invalid', '### Q-001 (medium)\nAnswer:\n', {
+          events: new WorkflowEventBus(),
+        })
+      ).rejects.toThrow('No answers found');
+    });
+  });
+
+  describe('Requirement Refinement', () => {
+    const requirements: RequirementsOutput = {
+      metadata: {
+        prd_source: 'prd.md',
+        analyzed_at: '2025-03-01T09:00:00.000Z',
+        total_requirements: 2,
+        complexity_average: 3,
+        confidence_average: 0.9,
+      },
+      requirements: [
+        {
+          id: 'REQ-FUNC-001',
+          type: 'functional',
+          priority: 'high',
+          complexity: 3,
+          title: 'User Login',
+          description: 'Users can log in with email and password',
+          acceptance_criteria: ['Invalid credentials show an error'],
+          dependencies: [],
+          confidence: 0.9,
+          status: 'draft',
+        },
+        {
+          id: 'REQ-FUNC-002',
+          type: 'functional',
+          priority: 'medium',
+          complexity: 3,
+          title: 'User Profile',
+          description: 'Users can edit their profile',
+          acceptance_criteria: [],
+          dependencies: [],
+          confidence: 0.9,
+          status: 'draft',
+        },
+      ],
+    };
+
+    const gap = (id: string, overrides: Partial<Gap>): Gap => ({
+      id,
+      type: 'missing_ui',
+      severity: 'medium',
+      description: `Gap ${id}`,
+      stakeholder: ['product'],
+      ...overrides,
+    });
+
+    const roundGaps: GapsOutput = {
+      metadata: {
+        validated_at: '2025-03-01T09:00:00.000Z',
+        total_gaps: 3,
+        critical_count: 0,
+        high_count: 0,
+        medium_count: 3,
+        low_count: 0,
+      },
+      gaps: [
+        gap('GAP-001', { type: 'missing_acceptance_criteria', requirement_id: 'REQ-FUNC-002' }),
+        gap('GAP-002', { type: 'missing_ui', requirement_id: 'REQ-FUNC-001' }),
+        gap('GAP-003', { type: 'no_requirement', component_id: 'COMP-009' }),
+      ],
+    };
+
+    const answer = (question_id: string, response: string): ClarificationResponse => ({
+      question_id,
+      response,
+      confidence: 0.9,
+      answered_at: '2025-03-01T10:00:00.000Z',
+    });
+
+    it('should apply answers to acceptance criteria or description and mark requirements clarified', async () => {
+      const roundQuestions = await generateClarifications(roundGaps, 'sess-refine', {
+        saveOutput: false,
+        events: new WorkflowEventBus(),
+      });
+      const byGap = (gapId: string) => roundQuestions.questions.find((q) => q.gap_id === gapId)!.id;
+
+      const { requirements: refined, round } = refineRequirements(
+        requirements,
+        roundGaps,
+        roundQuestions,
+        {
+          session_id: 'sess-refine',
+          started_at: '2025-03-01T10:00:00.000Z',
+          completed_at: '2025-03-01T10:05:00.000Z',
+          mode: 'file',
+          questions_asked: 3,
+          questions_answered: 3,
+          responses: [
+            answer(byGap('GAP-001'), 'Name and avatar are required'),
+            answer(byGap('GAP-002'), 'Login form with email and password fields'),
+            answer(byGap('GAP-003'), 'Remove the component'),
+          ],
+        },
+        1
+      );
+
+      expect(refined.requirements[0]).toMatchObject({
+        status: 'clarified',
+        description: `Users can log in with email and password\n\nClarification (${byGap('GAP-002')}): Login form with email and password fields`,
+        acceptance_criteria: ['Invalid credentials show an error'],
+      });
+      expect(refined.requirements[1]).toMatchObject({
+        status: 'clarified',
+        description: 'Users can edit their profile',
+        acceptance_criteria: ['Name and avatar are required'],
+      });
+      expect(requirements.requirements[1]!.acceptance_criteria).toEqual([]);
+
+      expect(round).toMatchObject({ round: 1, questions_asked: 3, questions_answered: 3 });
+      expect(round.revisions.map((r) => [r.requirement_id, r.changes.map((c) => c.field)])).toEqual([
+        ['REQ-FUNC-001', ['description', 'status']],
+        ['REQ-FUNC-002', ['acceptance_criteria', 'status']],
+      ]);
+      expect(round.revisions[1]!.changes[0]).toEqual({
+        field: 'acceptance_criteria',
+        before: [],
+        after: ['Name and avatar are required'],
+      });
+    });
+
+    it('should apply the answer to a merged question to the requirements of all its gaps', () => {
+      const questions: QuestionsOutput = {
+        metadata: {
+          generated_at: '2025-03-01T09:30:00.000Z',
+          total_questions: 1,
+          critical_count: 0,
+          high_count: 0,
+          medium_count: 1,
+          low_count: 0,
+        },
+        questions: [
+          {
+            id: 'Q-001',
+            priority: 'medium',
+            stakeholder_type: 'product',
+            question: 'What should the login and profile pages show?',
+            context: 'Neither page is specified',
+            suggestions: [],
+            gap_id: 'GAP-001',
+            related_gap_ids: ['GAP-002'],
+          },
+        ],
+      };
+
+      const { requirements: refined, round } = refineRequirements(
+        requirements,
+        roundGaps,
+        questions,
+        {
+          session_id: 'sess-refine',
+          started_at: '2025-03-01T10:00:00.000Z',
+          mode: 'file',
+          questions_asked: 1,
+          questions_answered: 1,
+          responses: [answer('Q-001', 'Email field on login, avatar on profile')],
+        },
+        1
+      );
+
+      expect(refined.requirements[0]!.description).toContain('Clarification (Q-001): Email field on login');
+      expect(refined.requirements[1]!.acceptance_criteria).toEqual(['Email field on login, avatar on profile']);
+      expect(round.revisions.map((r) => [r.requirement_id, r.question_ids])).toEqual([
+        ['REQ-FUNC-001', ['Q-001']],
+        ['REQ-FUNC-002', ['Q-001']],
+      ]);
+    });
+
+    it('should keep only gaps no earlier round asked about, renumbered', () => {
+      const revalidated: GapsOutput = {
+        ...roundGaps,
+        gaps: [
+          gap('GAP-001', { type: 'missing_ui', requirement_id: 'REQ-FUNC-001' }),
+          gap('GAP-002', { type: 'inconsistency', requirement_id: 'REQ-FUNC-001', severity: 'high' }),
+          gap('GAP-003', { type: 'no_requirement', component_id: 'COMP-009' }),
+        ],
+      };
+
+      const fresh = selectNewGaps(revalidated, roundGaps.gaps);
+
+      expect(fresh.gaps).toEqual([
+        { ...revalidated.gaps[1], id: 'GAP-001' },
+      ]);
+      expect(fresh.metadata).toMatchObject({ total_gaps: 1, high_count: 1, medium_count: 0 });
+    });
+  });
 });
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  analyzeRequirementConflicts,
+  applyConflictIssues,
+  detectConflictsHeuristically,
+} from '../../../src/skills/prd-analyzer/conflict-analyzer.js';
+import { validateRequirements } from '../../../src/skills/requirements-validator.js';
+import { WorkflowEventBus } from '../../../src/utils/events.js';
+import type { Requirement } from '../../../src/types/requirement.js';
+
+// Mock LLM provider (LLM conflict pass only)
+const mockGenerateStructured = vi.fn();
+const mockProvider = {
+  generateStructured: mockGenerateStructured,
+  getInfo: vi.fn(() => ({ name: 'mock-provider', model: 'mock-model' })),
+  generateText: vi.fn(),
+  streamText: vi.fn(),
+  estimateCost: vi.fn(() => 0.01),
+};
+
+vi.mock('../../../src/providers/index.js', () => ({
+  createLLMProvider: vi.fn(() => Promise.resolve(mockProvider)),
+}));
+
+function requirement(overrides: Partial<Requirement> & Pick<Requirement, 'id' | 'title'>): Requirement {
+  return {
+    description: overrides.title,
+    type: 'functional',
+    priority: 'medium',
+    complexity: 3,
+    acceptance_criteria: [],
+    dependencies: [],
+    confidence: 0.9,
+    status: 'draft',
+    issues: [],
+    ...overrides,
+  };
+}
+
+describe('Conflict Analysis', () => {
+  beforeEach(() => {
+    mockGenerateStructured.mockReset();
+  });
+
+  describe('Heuristics', () => {
+    it('should detect latency targets that bulk loading makes unreachable', () => {
+      const conflicts = detectConflictsHeuristically([
+        requirement({
+          id: 'REQ-PERF-001',
+          type: 'performance',
+          title: 'Fast dashboard',
+          description: 'The dashboard page loads within 1s',
+          priority: 'high',
+        }),
+        requirement({
+          id: 'REQ-PERF-002',
+          type: 'performance',
+          title: 'Full record view',
+          description: 'All 10k records are rendered on load',
+        }),
+      ]);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]).toMatchObject({
+        requirement_ids: ['REQ-PERF-001', 'REQ-PERF-002'],
+        severity: 'high',
+        method: 'heuristic',
+      });
+      expect(conflicts[0]!.description).toContain('within 1s');
+      expect(conflicts[0]!.description).toContain('10,000 records');
+    });
+
+    it('should detect different values for the same limit', () => {
+      const conflicts = detectConflictsHeuristically([
+        requirement({
+          id: 'REQ-SEC-001',
+          type: 'security',
+          title: 'Session expiry',
+          description: 'Sessions expire after 15 minutes of inactivity',
+        }),
+        requirement({
+          id: 'REQ-SEC-002',
+          type: 'security',
+          title: 'Long sessions',
+          description: 'Session timeout is 30 minutes',
+        }),
+        requirement({
+          id: 'REQ-SEC-003',
+          type: 'security',
+          title: 'Reset links',
+          description: 'Password reset links expire after 24 hours',
+        }),
+      ]);
+
+      expect(conflicts.map((c) => c.requirement_ids)).toEqual([['REQ-SEC-001', 'REQ-SEC-002']]);
+    });
+
+    it('should detect rules one requirement mandates and another forbids', () => {
+      const conflicts = detectConflictsHeuristically([
+        requirement({
+          id: 'REQ-SEC-001',
+          type: 'security',
+          title: 'Password storage',
+          description: 'Passwords must never be stored in plain text',
+        }),
+        requirement({
+          id: 'REQ-SEC-002',
+          type: 'security',
+          title: 'Password recovery',
+          description: 'Passwords are stored in plain text so support can read them to users',
+        }),
+      ]);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0]!.description).toContain('REQ-SEC-001 forbids what REQ-SEC-002 requires');
+    });
+
+    it('should only compare requirements within the same category', () => {
+      const conflicts = detectConflictsHeuristically([
+        requirement({
+          id: 'REQ-PERF-001',
+          type: 'performance',
+          title: 'Fast dashboard',
+          description: 'The dashboard loads within 1s',
+        }),
+        requirement({
+          id: 'REQ-FUNC-001',
+          title: 'Record table',
+          description: 'All 10k records are rendered on load',
+        }),
+      ]);
+
+      expect(conflicts).toEqual([]);
+    });
+  });
+
+  it('should add LLM conflicts and keep heuristics when the LLM pass fails', async () => {
+    const requirements = [
+      requirement({ id: 'REQ-FUNC-001', title: 'Checkout requires an account' }),
+      requirement({ id: 'REQ-FUNC-002', title: 'Guest checkout' }),
+    ];
+    mockGenerateStructured.mockResolvedValueOnce({
+      conflicts: [
+        {
+          requirement_ids: ['REQ-FUNC-001', 'REQ-FUNC-002'],
+          severity: 'high',
+          description: 'REQ-FUNC-001 requires an account, REQ-FUNC-002 allows guests',
+        },
+        { requirement_ids: ['REQ-FUNC-001', 'REQ-FUNC-404'], severity: 'low', description: 'Unknown' },
+      ],
+    });
+
+    const conflicts = await analyzeRequirementConflicts(requirements, {
+      semantic: true,
+      events: new WorkflowEventBus(),
+    });
+    expect(conflicts).toEqual([
+      {
+        requirement_ids: ['REQ-FUNC-001', 'REQ-FUNC-002'],
+        severity: 'high',
+        description: 'REQ-FUNC-001 requires an account, REQ-FUNC-002 allows guests',
+        method: 'llm',
+      },
+    ]);
+
+    mockGenerateStructured.mockRejectedValueOnce(new Error('provider unavailable'));
+    expect(
+      await analyzeRequirementConflicts(requirements, { semantic: true, events: new WorkflowEventBus() })
+    ).toEqual([]);
+  });
+
+  it('should record conflict issues on both requirements and one inconsistency gap per pair', async () => {
+    const requirements = [
+      requirement({
+        id: 'REQ-SEC-001',
+        type: 'security',
+        title: 'Session expiry',
+        description: 'Sessions expire after 15 minutes of inactivity',
+        acceptance_criteria: ['Idle sessions are logged out'],
+      }),
+      requirement({
+        id: 'REQ-SEC-002',
+        type: 'security',
+        title: 'Long sessions',
+        description: 'Session timeout is 30 minutes',
+        acceptance_criteria: ['Users stay signed in for 30 minutes'],
+      }),
+    ];
+
+    const conflicts = detectConflictsHeuristically(requirements);
+    applyConflictIssues(requirements, conflicts);
+    applyConflictIssues(requirements, conflicts);
+
+    expect(requirements[0]!.issues).toHaveLength(1);
+    expect(requirements[0]!.issues[0]).toMatchObject({ type: 'conflict', related_requirement_ids: ['REQ-SEC-002'] });
+    expect(requirements[1]!.issues[0]).toMatchObject({ type: 'conflict', related_requirement_ids: ['REQ-SEC-001'] });
+
+    const result = await validateRequirements(
+      {
+        metadata: { analyzed_at: new Date().toISOString(), prd_source: 'test', total_requirements: 2 },
+        requirements,
+      },
+      {
+        metadata: { figma_file_id: 'none', analyzed_at: new Date().toISOString(), total_components: 0 },
+        components: [],
+        design_tokens: {},
+      },
+      'test-session',
+      { saveOutput: false, events: new WorkflowEventBus() }
+    );
+
+    const inconsistencies = result.gaps.filter((g) => g.type === 'inconsistency');
+    expect(inconsistencies).toHaveLength(1);
+    expect(inconsistencies[0]).toMatchObject({
+      requirement_id: 'REQ-SEC-001',
+      related_requirement_ids: ['REQ-SEC-002'],
+      severity: 'medium',
+    });
+  });
+});
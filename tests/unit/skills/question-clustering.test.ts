@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clusterQuestions,
+  orderQuestions,
+  countUnblockedItems,
+} from '../../../src/skills/clarification-manager/question-clustering.js';
+import {
+  generateQuestionForGap,
+  generateQuestions,
+  type QuestionDraft,
+} from '../../../src/skills/clarification-manager/question-generator.js';
+import { generateClarifications } from '../../../src/skills/clarification-manager.js';
+import { WorkflowEventBus } from '../../../src/utils/events.js';
+import type { Gap, GapsOutput } from '../../../src/types/gap.js';
+import type { Requirement } from '../../../src/types/requirement.js';
+
+function gap(id: string, overrides: Partial<Gap>): Gap {
+  return {
+    id,
+    type: 'incomplete_mapping',
+    severity: 'medium',
+    description: `Gap ${id}`,
+    stakeholder: ['product'],
+    ...overrides,
+  };
+}
+
+function requirement(id: string, overrides: Partial<Requirement> = {}): Requirement {
+  return {
+    id,
+    type: 'functional',
+    priority: 'medium',
+    complexity: 3,
+    title: id,
+    description: id,
+    acceptance_criteria: [],
+    dependencies: [],
+    confidence: 0.9,
+    status: 'draft',
+    issues: [],
+    ...overrides,
+  };
+}
+
+/** Template question without an ID, as the generator clusters them */
+function draft(source: Gap): QuestionDraft {
+  const { id: _id, ...question } = generateQuestionForGap(source, 1);
+  return question;
+}
+
+describe('Question Clustering', () => {
+  it('should merge similar questions for the same stakeholder and requirement category', () => {
+    const gaps = [
+      gap('GAP-001', { requirement_id: 'REQ-FUNC-001', description: 'REQ-FUNC-001 has no screen' }),
+      gap('GAP-002', { requirement_id: 'REQ-FUNC-002', description: 'REQ-FUNC-002 has no screen' }),
+      gap('GAP-003', { requirement_id: 'REQ-SEC-001' }),
+      gap('GAP-004', { requirement_id: 'REQ-FUNC-003', stakeholder: ['engineering'] }),
+      gap('GAP-005', { type: 'missing_ui', requirement_id: 'REQ-FUNC-004' }),
+      gap('GAP-006', { requirement_id: 'REQ-FUNC-005', severity: 'high' }),
+    ];
+    const requirements = [
+      requirement('REQ-FUNC-001'),
+      requirement('REQ-FUNC-002'),
+      requirement('REQ-SEC-001', { type: 'security' }),
+      requirement('REQ-FUNC-003'),
+      requirement('REQ-FUNC-004'),
+      requirement('REQ-FUNC-005'),
+    ];
+
+    const clustered = clusterQuestions(gaps.map(draft), gaps, { requirements });
+
+    expect(clustered.map((q) => [q.gap_id, q.related_gap_ids])).toEqual([
+      ['GAP-001', ['GAP-002']],
+      ['GAP-003', undefined],
+      ['GAP-004', undefined],
+      ['GAP-005', undefined],
+      ['GAP-006', undefined],
+    ]);
+    expect(clustered[0]).toMatchObject({
+      question: 'What is the complete mapping between requirement and design for "REQ-FUNC-001" and "REQ-FUNC-002"?',
+      context: 'REQ-FUNC-001 has no screen\nREQ-FUNC-002 has no screen',
+      suggestions: draft(gaps[0]!).suggestions,
+    });
+  });
+
+  it('should ask about every inconsistency separately', () => {
+    const gaps = [
+      gap('GAP-001', {
+        type: 'inconsistency',
+        requirement_id: 'REQ-SEC-001',
+        description: 'Session timeout is 15 minutes in REQ-SEC-001 but 30 minutes in REQ-SEC-002',
+      }),
+      gap('GAP-002', {
+        type: 'inconsistency',
+        requirement_id: 'REQ-SEC-003',
+        description: 'Session timeout is 15 minutes in REQ-SEC-003 but 60 minutes in REQ-SEC-004',
+      }),
+    ];
+    const questions = gaps.map(draft);
+
+    expect(clusterQuestions(questions, gaps, { minSimilarity: 0.1 })).toEqual(questions);
+  });
+
+  it('should ask for the acceptance criteria of every requirement separately', () => {
+    const gaps = [
+      gap('GAP-001', { type: 'missing_acceptance_criteria', requirement_id: 'REQ-FUNC-001' }),
+      gap('GAP-002', { type: 'missing_acceptance_criteria', requirement_id: 'REQ-FUNC-002' }),
+    ];
+    const questions = gaps.map(draft);
+
+    expect(clusterQuestions(questions, gaps)).toEqual(questions);
+  });
+
+  it('should turn 40 incomplete mapping gaps into one question', async () => {
+    const gaps: GapsOutput = {
+      metadata: {
+        validated_at: '2025-03-01T09:00:00.000Z',
+        total_gaps: 40,
+        critical_count: 0,
+        high_count: 0,
+        medium_count: 40,
+        low_count: 0,
+      },
+      gaps: Array.from({ length: 40 }, (_, index) => {
+        const number = String(index + 1).padStart(3, '0');
+        return gap(`GAP-${number}`, { requirement_id: `REQ-FUNC-${number}` });
+      }),
+    };
+
+    const result = await generateClarifications(gaps, 'test-session', {
+      saveOutput: false,
+      events: new WorkflowEventBus(),
+    });
+
+    expect(result.metadata).toMatchObject({ total_questions: 1, total_gaps: 40, medium_count: 1 });
+    expect(result.questions[0]).toMatchObject({
+      id: 'Q-001',
+      question:
+        'What is the complete mapping between requirement and design for "REQ-FUNC-001", "REQ-FUNC-002", "REQ-FUNC-003" and 37 more?',
+      gap_id: 'GAP-001',
+    });
+    expect(result.questions[0]!.related_gap_ids).toHaveLength(39);
+  });
+
+  it('should ask first what unblocks the most downstream requirements', async () => {
+    const gaps = [
+      gap('GAP-001', { type: 'missing_ui', requirement_id: 'REQ-FUNC-001', stakeholder: ['design'] }),
+      gap('GAP-002', { type: 'no_requirement', component_id: 'COMP-007', stakeholder: ['design'] }),
+      gap('GAP-003', { requirement_id: 'REQ-FUNC-002' }),
+      gap('GAP-004', { type: 'inconsistency', requirement_id: 'REQ-FUNC-003', severity: 'high' }),
+    ];
+    const requirements = [
+      requirement('REQ-FUNC-001'),
+      requirement('REQ-FUNC-002'),
+      requirement('REQ-FUNC-003'),
+      requirement('REQ-FUNC-004', { dependencies: ['REQ-FUNC-002'] }),
+      requirement('REQ-FUNC-005', { dependencies: ['REQ-FUNC-004'] }),
+    ];
+
+    expect(countUnblockedItems({ gap_id: 'GAP-003' }, gaps, requirements)).toBe(3);
+    expect(countUnblockedItems({ gap_id: 'GAP-001', related_gap_ids: ['GAP-002'] }, gaps, requirements)).toBe(2);
+
+    const ordered = orderQuestions(gaps.map(draft), gaps, requirements);
+    expect(ordered.map((q) => q.gap_id)).toEqual(['GAP-004', 'GAP-003', 'GAP-001', 'GAP-002']);
+
+    const questions = await generateQuestions(gaps, { requirements, events: new WorkflowEventBus() });
+    expect(questions.map((q) => [q.id, q.gap_id])).toEqual([
+      ['Q-001', 'GAP-004'],
+      ['Q-002', 'GAP-003'],
+      ['Q-003', 'GAP-001'],
+      ['Q-004', 'GAP-002'],
+    ]);
+  });
+});
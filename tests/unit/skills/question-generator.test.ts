@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  generateQuestions,
+  generateQuestionForGap,
+  groupDuplicateGaps,
+} from '../../../src/skills/clarification-manager/question-generator.js';
+import { WorkflowEventBus } from '../../../src/utils/events.js';
+import { BudgetExceededError } from '../../../src/utils/errors.js';
+import type { Gap } from '../../../src/types/gap.js';
+import type { Requirement } from '../../../src/types/requirement.js';
+import type { Component } from '../../../src/types/component.js';
+
+// Mock LLM provider (LLM question pass only)
+const mockGenerateStructured = vi.fn();
+const mockProvider = {
+  generateStructured: mockGenerateStructured,
+  getInfo: vi.fn(() => ({ name: 'mock-provider', model: 'mock-model' })),
+  generateText: vi.fn(),
+  streamText: vi.fn(),
+  estimateCost: vi.fn(() => 0.01),
+};
+
+vi.mock('../../../src/providers/index.js', () => ({
+  createLLMProvider: vi.fn(() => Promise.resolve(mockProvider)),
+}));
+
+function gap(id: string, overrides: Partial<Gap>): Gap {
+  return {
+    id,
+    type: 'missing_ui',
+    severity: 'medium',
+    description: `Gap ${id}`,
+    stakeholder: ['design'],
+    ...overrides,
+  };
+}
+
+const requirements: Requirement[] = [
+  {
+    id: 'REQ-FUNC-010',
+    type: 'functional',
+    priority: 'high',
+    complexity: 4,
+    title: 'CSV Export',
+    description: 'Users can export the orders table to CSV',
+    acceptance_criteria: [],
+    dependencies: [],
+    confidence: 0.9,
+    status: 'draft',
+    issues: [],
+  },
+];
+
+const components: Component[] = [
+  {
+    id: 'COMP-004',
+    name: 'DataTable/Orders',
+    type: 'Table',
+    category: 'organism',
+    variants: [{ name: 'Compact', properties: {} }],
+    properties: [],
+    design_tokens: {},
+    usage: { screens: ['Orders'], instances: 1 },
+  },
+];
+
+const gaps = [
+  gap('GAP-001', { requirement_id: 'REQ-FUNC-010', severity: 'high' }),
+  gap('GAP-002', { type: 'missing_acceptance_criteria', requirement_id: 'REQ-FUNC-010', stakeholder: ['product'] }),
+  gap('GAP-003', { type: 'incomplete_mapping', requirement_id: 'REQ-FUNC-010', severity: 'critical' }),
+  gap('GAP-004', { requirement_id: 'REQ-FUNC-010', description: 'Export has no screen' }),
+];
+
+describe('Question Generation', () => {
+  beforeEach(() => {
+    mockGenerateStructured.mockReset();
+  });
+
+  it('should merge duplicate gaps into one template question without calling the LLM', async () => {
+    expect(groupDuplicateGaps(gaps).map((group) => group.map((g) => g.id))).toEqual([
+      ['GAP-001', 'GAP-004'],
+      ['GAP-002'],
+      ['GAP-003'],
+    ]);
+
+    const questions = await generateQuestions(gaps, { firstQuestionNumber: 5, events: new WorkflowEventBus() });
+
+    expect(mockGenerateStructured).not.toHaveBeenCalled();
+    expect(questions.map((q) => [q.id, q.gap_id, q.related_gap_ids])).toEqual([
+      ['Q-005', 'GAP-003', undefined],
+      ['Q-006', 'GAP-001', ['GAP-004']],
+      ['Q-007', 'GAP-002', undefined],
+    ]);
+    expect(questions[2]).toEqual(generateQuestionForGap(gaps[1]!, 7));
+  });
+
+  it('should write questions with the LLM from the requirement and component context', async () => {
+    mockGenerateStructured.mockResolvedValueOnce({
+      questions: [
+        {
+          gap_ids: ['GAP-001', 'GAP-003', 'GAP-404'],
+          stakeholder_type: 'design',
+          question: 'Where on the Orders screen do users start the CSV export',
+          context: 'REQ-FUNC-010 (CSV Export) has no control in DataTable/Orders',
+          suggestions: ['Toolbar button in DataTable/Orders', 'Row actions menu'],
+        },
+        {
+          gap_ids: ['GAP-003'],
+          stakeholder_type: 'engineering',
+          question: 'Which mapping is missing?',
+          context: 'Already asked above',
+          suggestions: [],
+        },
+      ],
+    });
+
+    const questions = await generateQuestions(gaps, {
+      semantic: true,
+      requirements,
+      components,
+      events: new WorkflowEventBus(),
+    });
+
+    const prompt = mockGenerateStructured.mock.calls[0]![0] as string;
+    expect(prompt).toContain('"title": "CSV Export"');
+    expect(prompt).toContain('"name": "DataTable/Orders"');
+    expect(prompt).not.toContain('"id": "GAP-004"');
+
+    // Merged gaps take the highest severity; GAP-002 is left to the template
+    expect(questions).toEqual([
+      {
+        id: 'Q-001',
+        priority: 'critical',
+        stakeholder_type: 'design',
+        question: 'Where on the Orders screen do users start the CSV export?',
+        context: 'REQ-FUNC-010 (CSV Export) has no control in DataTable/Orders',
+        suggestions: ['Toolbar button in DataTable/Orders', 'Row actions menu'],
+        gap_id: 'GAP-001',
+        related_gap_ids: ['GAP-004', 'GAP-003'],
+      },
+      generateQuestionForGap(gaps[1]!, 2),
+    ]);
+  });
+
+  it('should fall back to templates when the LLM fails, but not on budget errors', async () => {
+    const events = new WorkflowEventBus();
+    const warnings: string[] = [];
+    events.on('log', (event) => {
+      if (event.level === 'warn') warnings.push(event.message);
+    });
+
+    mockGenerateStructured.mockRejectedValueOnce(new Error('provider unavailable'));
+    const questions = await generateQuestions(gaps, { semantic: true, events });
+
+    expect(questions.map((q) => q.question)).toEqual([
+      'What is the complete mapping between requirement and design for "REQ-FUNC-010"?',
+      'What UI components are needed to implement "REQ-FUNC-010"?',
+      'What are the acceptance criteria for "REQ-FUNC-010"?',
+    ]);
+    expect(warnings).toEqual(['⚠️  LLM question generation failed, using templates: provider unavailable']);
+
+    mockGenerateStructured.mockRejectedValueOnce(new BudgetExceededError(1.02, 1));
+    await expect(generateQuestions(gaps, { semantic: true, events })).rejects.toThrow(BudgetExceededError);
+  });
+});
@@ -1,7 +1,74 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parse as parseYAML } from 'yaml';
 import { validateRequirements } from '../../../src/skills/requirements-validator.js';
-import type { RequirementsOutput } from '../../../src/types/requirement.js';
-import type { ComponentsOutput } from '../../../src/types/component.js';
+import { buildTraceabilityMatrix } from '../../../src/skills/requirements-validator/traceability.js';
+import { WorkflowEventBus } from '../../../src/utils/events.js';
+import type { Requirement, RequirementsOutput } from '../../../src/types/requirement.js';
+import type { Component, ComponentsOutput } from '../../../src/types/component.js';
+
+// Mock LLM provider (semantic matching only)
+const mockGenerateStructured = vi.fn();
+const mockProvider = {
+  generateStructured: mockGenerateStructured,
+  getInfo: vi.fn(() => ({ name: 'mock-provider', model: 'mock-model' })),
+  generateText: vi.fn(),
+  streamText: vi.fn(),
+  estimateCost: vi.fn(() => 0.01),
+};
+
+vi.mock('../../../src/providers/index.js', () => ({
+  createLLMProvider: vi.fn(() => Promise.resolve(mockProvider)),
+}));
+
+function requirement(overrides: Partial<Requirement> & Pick<Requirement, 'id' | 'title'>): Requirement {
+  return {
+    description: overrides.title,
+    type: 'functional',
+    priority: 'high',
+    complexity: 5,
+    acceptance_criteria: [],
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+function component(overrides: Partial<Component> & Pick<Component, 'id' | 'name'>): Component {
+  return {
+    type: 'Form',
+    category: 'organism',
+    variants: [],
+    properties: [],
+    design_tokens: {},
+    usage: { screens: [], instances: 1 },
+    ...overrides,
+  };
+}
+
+function requirementsOf(requirements: Requirement[]): RequirementsOutput {
+  return {
+    metadata: {
+      analyzed_at: new Date().toISOString(),
+      prd_source: 'test',
+      total_requirements: requirements.length,
+    },
+    requirements,
+  };
+}
+
+function componentsOf(components: Component[]): ComponentsOutput {
+  return {
+    metadata: {
+      figma_file_id: 'test',
+      analyzed_at: new Date().toISOString(),
+      total_components: components.length,
+    },
+    components,
+    design_tokens: {},
+  };
+}
 
 describe('Requirements Validator', () => {
   describe('Core Functionality', () => {
@@ -180,4 +247,242 @@ describe('Requirements Validator', () => {
       expect(result.metadata.medium_count).toBeGreaterThan(0);
     });
   });
+
+  describe('Traceability', () => {
+    const login = requirement({
+      id: 'REQ-FUNC-001',
+      title: 'User login',
+      description: 'Users log in with email and password',
+      acceptance_criteria: ['User can enter credentials on the login screen'],
+    });
+    const exportCsv = requirement({
+      id: 'REQ-FUNC-002',
+      title: 'Export reports',
+      description: 'Users can download their reports',
+    });
+
+    beforeEach(() => {
+      mockGenerateStructured.mockReset();
+    });
+
+    it('should link components whose names and screens match requirement text', async () => {
+      const matrix = await buildTraceabilityMatrix(
+        requirementsOf([login, exportCsv]),
+        componentsOf([
+          component({ id: 'COMP-001', name: 'Login Form', usage: { screens: ['Login'], instances: 1 } }),
+          component({ id: 'COMP-002', name: 'Avatar', type: 'Image' }),
+        ]),
+        { events: new WorkflowEventBus() }
+      );
+
+      const link = matrix.links.find((l) => l.component_id === 'COMP-001');
+      expect(link).toMatchObject({ requirement_id: 'REQ-FUNC-001', method: 'lexical' });
+      expect(link!.confidence).toBeGreaterThanOrEqual(matrix.metadata.confidence_threshold);
+      expect(link!.evidence[0]).toContain('login');
+      expect(matrix.untraced_requirements).toEqual(['REQ-FUNC-002']);
+      expect(matrix.untraced_components).toEqual(['COMP-002']);
+    });
+
+    it('should treat REQ references in Figma descriptions as explicit links', async () => {
+      const matrix = await buildTraceabilityMatrix(
+        requirementsOf([exportCsv]),
+        componentsOf([
+          component({
+            id: 'COMP-001',
+            name: 'Toolbar',
+            description: 'Implements REQ-FUNC-002 and REQ-FUNC-999',
+          }),
+        ]),
+        { events: new WorkflowEventBus() }
+      );
+
+      expect(matrix.links).toEqual([
+        {
+          requirement_id: 'REQ-FUNC-002',
+          component_id: 'COMP-001',
+          confidence: 1,
+          method: 'explicit',
+          evidence: ['Component description references REQ-FUNC-002'],
+        },
+      ]);
+      expect(matrix.untraced_requirements).toEqual([]);
+    });
+
+    it('should add semantic matches from the LLM and ignore unknown IDs', async () => {
+      mockGenerateStructured.mockResolvedValue({
+        links: [
+          { requirement_id: 'REQ-FUNC-002', component_id: 'COMP-001', confidence: 0.8, rationale: 'Download menu exports reports' },
+          { requirement_id: 'REQ-FUNC-404', component_id: 'COMP-001', confidence: 0.9, rationale: 'Unknown requirement' },
+        ],
+      });
+
+      const matrix = await buildTraceabilityMatrix(
+        requirementsOf([exportCsv]),
+        componentsOf([component({ id: 'COMP-001', name: 'Overflow Menu', type: 'Menu' })]),
+        { semanticMatching: true, events: new WorkflowEventBus() }
+      );
+
+      expect(matrix.metadata.semantic_matching).toBe(true);
+      expect(matrix.links).toEqual([
+        {
+          requirement_id: 'REQ-FUNC-002',
+          component_id: 'COMP-001',
+          confidence: 0.8,
+          method: 'semantic',
+          evidence: ['Download menu exports reports'],
+        },
+      ]);
+    });
+
+    it('should fall back to lexical matches when semantic matching fails', async () => {
+      mockGenerateStructured.mockRejectedValue(new Error('provider unavailable'));
+      const events = new WorkflowEventBus();
+      const warnings: string[] = [];
+      events.on('log', (event) => {
+        if (event.level === 'warn') warnings.push(event.message);
+      });
+
+      const matrix = await buildTraceabilityMatrix(
+        requirementsOf([login]),
+        componentsOf([component({ id: 'COMP-001', name: 'Login Form' })]),
+        { semanticMatching: true, events }
+      );
+
+      expect(matrix.metadata.semantic_matching).toBe(false);
+      expect(matrix.links[0]?.method).toBe('lexical');
+      expect(warnings.some((w) => w.includes('provider unavailable'))).toBe(true);
+    });
+
+    describe('validateRequirements', () => {
+      let testDir: string;
+      let originalCwd: string;
+
+      beforeEach(async () => {
+        originalCwd = process.cwd();
+        testDir = await mkdtemp(join(tmpdir(), 'prism-validator-test-'));
+        process.chdir(testDir);
+      });
+
+      afterEach(async () => {
+        process.chdir(originalCwd);
+        await rm(testDir, { recursive: true, force: true });
+      });
+
+      it('should only report gaps for untraced requirements and components, and persist the matrix', async () => {
+        const result = await validateRequirements(
+          requirementsOf([login, exportCsv]),
+          componentsOf([
+            component({ id: 'COMP-001', name: 'Login Form', usage: { screens: ['Login'], instances: 1 } }),
+            component({ id: 'COMP-002', name: 'Avatar', type: 'Image', usage: { screens: ['Profile'], instances: 2 } }),
+          ]),
+          'test-session',
+          { events: new WorkflowEventBus() }
+        );
+
+        const missingUI = result.gaps.filter((g) => g.type === 'missing_ui').map((g) => g.requirement_id);
+        const orphaned = result.gaps.filter((g) => g.type === 'no_requirement').map((g) => g.component_id);
+        expect(missingUI).toEqual(['REQ-FUNC-002']);
+        expect(orphaned).toEqual(['COMP-002']);
+
+        const saved = parseYAML(
+          await readFile(join('.prism', 'sessions', 'test-session', '03-validation', 'traceability.yaml'), 'utf-8')
+        );
+        expect(saved.links.map((l: { component_id: string }) => l.component_id)).toContain('COMP-001');
+        expect(saved.untraced_requirements).toEqual(['REQ-FUNC-002']);
+      });
+    });
+  });
+
+  describe('Inconsistencies and Partial Mappings', () => {
+    async function validate(req: Requirement, components: Component[], designTokens = {}) {
+      const result = await validateRequirements(
+        requirementsOf([req]),
+        { ...componentsOf(components), design_tokens: designTokens },
+        'test-session',
+        { saveOutput: false, events: new WorkflowEventBus() }
+      );
+      return result.gaps;
+    }
+
+    const settingsPanel = component({
+      id: 'COMP-001',
+      name: 'Settings Panel',
+      type: 'Panel',
+      design_tokens: { colors: { background: '#ffffff' } },
+    });
+
+    it('should flag dark mode requirements without a dark palette', async () => {
+      const req = requirement({
+        id: 'REQ-FUNC-001',
+        title: 'Settings panel',
+        acceptance_criteria: ['Settings panel supports dark mode'],
+      });
+
+      const gaps = await validate(req, [settingsPanel]);
+      const inconsistency = gaps.find((g) => g.type === 'inconsistency');
+      expect(inconsistency).toMatchObject({ requirement_id: 'REQ-FUNC-001', component_id: 'COMP-001' });
+      expect(inconsistency?.description).toContain('dark mode');
+
+      const withDarkTokens = await validate(req, [settingsPanel], { colors: { 'dark.background': '#111111' } });
+      expect(withDarkTokens.some((g) => g.type === 'inconsistency')).toBe(false);
+    });
+
+    it('should flag forms with fewer inputs than the requirement lists', async () => {
+      const req = requirement({
+        id: 'REQ-FUNC-001',
+        title: 'Signup form',
+        description: 'The signup form has 5 fields: name, email, phone, address and city',
+        acceptance_criteria: ['Signup form validates every field'],
+      });
+      const form = component({
+        id: 'COMP-001',
+        name: 'Signup Form',
+        properties: [
+          { name: 'nameField', type: 'TEXT' },
+          { name: 'emailField', type: 'TEXT' },
+          { name: 'phoneField', type: 'TEXT' },
+        ],
+      });
+
+      const gaps = await validate(req, [form]);
+      const inconsistency = gaps.find((g) => g.type === 'inconsistency');
+      expect(inconsistency?.description).toContain('specifies 5 fields');
+      expect(inconsistency?.description).toContain('provide 3 inputs');
+    });
+
+    it('should flag UI states the linked components do not provide', async () => {
+      const req = requirement({
+        id: 'REQ-FUNC-001',
+        title: 'Upload documents',
+        acceptance_criteria: ['Upload dropzone shows a loading state while uploading'],
+      });
+      const dropzone = component({
+        id: 'COMP-001',
+        name: 'Upload Dropzone',
+        variants: [{ name: 'state=default', properties: { state: 'default' } }],
+      });
+
+      const gaps = await validate(req, [dropzone]);
+      expect(gaps.find((g) => g.type === 'inconsistency')?.description).toContain('loading state');
+
+      dropzone.variants.push({ name: 'state=loading', properties: { state: 'loading' } });
+      expect((await validate(req, [dropzone])).some((g) => g.type === 'inconsistency')).toBe(false);
+    });
+
+    it('should report requirements whose acceptance criteria are only partly covered', async () => {
+      const req = requirement({
+        id: 'REQ-FUNC-001',
+        title: 'Checkout payment',
+        priority: 'medium',
+        acceptance_criteria: ['Shopper enters card details for payment', 'Shopper applies a discount coupon'],
+      });
+      const payment = component({ id: 'COMP-001', name: 'Payment Form', usage: { screens: ['Checkout'], instances: 1 } });
+
+      const gaps = await validate(req, [payment]);
+      const incomplete = gaps.find((g) => g.type === 'incomplete_mapping');
+      expect(incomplete).toMatchObject({ requirement_id: 'REQ-FUNC-001', component_id: 'COMP-001', severity: 'medium' });
+      expect(incomplete?.description).toContain('1 of 2 acceptance criteria');
+      expect(incomplete?.description).toContain('discount coupon');
+    });
+  });
 });
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for shared structured output support
+ *
+ * Covers Zod to JSON Schema conversion and the validate-and-repair loop
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  toJSONSchema,
+  toGeminiSchema,
+  validateStructuredOutput,
+  generateWithRepair,
+  resolveMaxRepairAttempts,
+} from '../../src/providers/structured.js';
+import { RequirementsOutputSchema } from '../../src/schemas/requirement.js';
+import { ComponentsOutputSchema } from '../../src/schemas/component.js';
+
+const OutputSchema = z.object({
+  title: z.string().min(1),
+  priority: z.enum(['high', 'low']),
+  estimate: z.number().int().optional(),
+  tags: z.array(z.string()),
+});
+
+describe('Structured Output', () => {
+  describe('toJSONSchema', () => {
+    it('should convert a Zod object into JSON Schema', () => {
+      const schema = toJSONSchema(OutputSchema);
+
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          title: { type: 'string', minLength: 1 },
+          priority: { type: 'string', enum: ['high', 'low'] },
+          estimate: { type: 'integer' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['title', 'priority', 'tags'],
+        additionalProperties: false,
+      });
+    });
+
+    it('should inline shared definitions instead of using $ref', () => {
+      const schema = JSON.stringify(toJSONSchema(RequirementsOutputSchema));
+
+      expect(schema).not.toContain('$ref');
+      expect(schema).not.toContain('$schema');
+    });
+  });
+
+  describe('toGeminiSchema', () => {
+    it('should keep only keywords Gemini supports', () => {
+      const schema = toGeminiSchema(OutputSchema);
+
+      expect(schema).toEqual({
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          priority: { type: 'string', enum: ['high', 'low'] },
+          estimate: { type: 'integer' },
+          tags: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['title', 'priority', 'tags'],
+      });
+    });
+
+    it('should mark nullable fields in OpenAPI style', () => {
+      const schema = toGeminiSchema(z.object({ owner: z.string().nullable() }));
+
+      expect(schema?.['properties']).toEqual({ owner: { type: 'string', nullable: true } });
+    });
+
+    it('should return undefined for schemas with free-form records', () => {
+      expect(toGeminiSchema(ComponentsOutputSchema)).toBeUndefined();
+    });
+  });
+
+  describe('validateStructuredOutput', () => {
+    it('should accept JSON text and parsed values', () => {
+      const valid = { title: 'Login', priority: 'high', tags: [] };
+
+      expect(validateStructuredOutput(JSON.stringify(valid), OutputSchema)).toEqual({
+        success: true,
+        data: valid,
+      });
+      expect(validateStructuredOutput(valid, OutputSchema)).toEqual({ success: true, data: valid });
+    });
+
+    it('should describe JSON and schema errors', () => {
+      const invalidJson = validateStructuredOutput('{"title":', OutputSchema);
+      const invalidShape = validateStructuredOutput({ title: '', priority: 'urgent' }, OutputSchema);
+
+      expect(invalidJson.success).toBe(false);
+      expect(!invalidJson.success && invalidJson.error).toContain('not valid JSON');
+      expect(!invalidShape.success && invalidShape.error).toMatch(/title: .*; priority: .*; tags: /);
+    });
+  });
+
+  describe('generateWithRepair', () => {
+    it('should feed validation errors back until the output is valid', async () => {
+      const outputs = [{ title: 'Login' }, { title: 'Login', priority: 'low', tags: [] }];
+      const repair = vi.fn();
+
+      const result = await generateWithRepair(OutputSchema, 2, 'Test', async () => ({
+        output: outputs.shift(),
+        repair,
+      }));
+
+      expect(result).toEqual({ title: 'Login', priority: 'low', tags: [] });
+      expect(repair).toHaveBeenCalledTimes(1);
+      expect(repair.mock.calls[0]?.[0]).toContain('priority:');
+    });
+
+    it('should stop after the configured number of repairs', async () => {
+      const attempt = vi.fn(async () => ({ output: '{}', repair: vi.fn() }));
+
+      await expect(generateWithRepair(OutputSchema, 1, 'Test', attempt)).rejects.toThrow(
+        'Test returned invalid structured output after 2 attempts'
+      );
+      expect(attempt).toHaveBeenCalledTimes(2);
+    });
+
+    it('should prefer the per-request repair limit', () => {
+      expect(resolveMaxRepairAttempts({ maxRepairAttempts: 0 }, 2)).toBe(0);
+      expect(resolveMaxRepairAttempts(undefined, 2)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Unit tests for term extraction
+ *
+ * Tests stemming and removal of design system vocabulary
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractTerms, withoutGenericTerms } from '../../src/utils/terms.js';
+
+describe('Term Extraction', () => {
+  it('should split camelCase and separators into stemmed terms', () => {
+    expect(extractTerms('ExportButton/Orders exporting')).toEqual(new Set(['export', 'button', 'order']));
+  });
+
+  it('should drop inflected generic UI words', () => {
+    const terms = extractTerms('Disabled State Large Frame Active Instance');
+
+    expect(terms).toEqual(new Set(['disabl', 'stat', 'larg', 'fram', 'activ', 'instanc']));
+    expect(withoutGenericTerms(terms)).toEqual(new Set());
+  });
+
+  it('should keep feature terms next to generic ones', () => {
+    expect(withoutGenericTerms(extractTerms('Checkout Buttons (Primary, Hovered)'))).toEqual(
+      new Set(['checkout'])
+    );
+  });
+});